@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-use-before-define */
 import React, {
   FC,
+  useContext,
   useEffect,
   useReducer,
   useState,
@@ -33,6 +34,8 @@ import {
   isInvoiceOrPurchaseOrder
 } from 'utils/document/nonContractUtils';
 import { withErrorBoundary, WithErrorBoundaryProps } from 'utils/hoc/withErrorBoundary';
+import { SearchApi } from 'components/DiscoverySearch/DiscoverySearch';
+import { useMessages } from 'utils/useMessages';
 import { Filter, FilterGroup, FilterChangeArgs } from '../FilterPanel/types';
 import {
   Metadata,
@@ -142,7 +145,7 @@ export interface CIDocumentProps extends WithErrorBoundaryProps {
   /**
    * i18n messages for the component
    */
-  messages?: Messages;
+  messages?: Partial<Messages>;
   /**
    * Color theme, for select areas which cannot be specified in CSS
    */
@@ -159,13 +162,15 @@ export interface CIDocumentProps extends WithErrorBoundaryProps {
 
 const CIDocument: FC<CIDocumentProps> = ({
   document,
-  messages = defaultMessages,
+  messages: messagesProp,
   theme = defaultTheme,
   overrideDocWidth,
   overrideDocHeight,
   didCatch
 }) => {
+  const messages = useMessages('CIDocument', defaultMessages, messagesProp);
   const [state, dispatch] = useReducer<Reducer<State, Action>>(docStateReducer, INITIAL_STATE);
+  const { emitEvent } = useContext(SearchApi);
 
   const filename = get(document, 'extracted_metadata.filename', messages.defaultDocumentName);
   const enrichedHtml: EnrichedHtml = get(document, ['enriched_html', '0'], {});
@@ -443,7 +448,14 @@ const CIDocument: FC<CIDocumentProps> = ({
               activePartIds={activePartIds}
               onItemClick={onItemClick({
                 setActiveIds,
-                elementList: itemList
+                elementList: itemList,
+                onElementSelected: (item: Field): void =>
+                  emitEvent({
+                    type: 'ci_element_selected',
+                    documentId: document.document_id,
+                    elementId: item.id as string,
+                    elementType: item.type
+                  })
               })}
               activeMetadataIds={activeMetadataIds}
               theme={theme}
@@ -569,13 +581,18 @@ function onNavigationChange({
 
 function onItemClick({
   setActiveIds,
-  elementList
+  elementList,
+  onElementSelected
 }: {
   setActiveIds: Dispatch<SetStateAction<string[]>>;
   elementList: any[];
+  onElementSelected: (clickedItem: Field) => void;
 }) {
   return function(clickedItem: Field): void {
     if (clickedItem) {
+      if (clickedItem.id) {
+        onElementSelected(clickedItem);
+      }
       if (hasRelation(elementList)) {
         const relation = elementList.find(rel => rel.allAttributeIds.includes(clickedItem.id));
         if (relation) {
@@ -1,9 +1,11 @@
-import React, { FC } from 'react';
+import React, { FC, useContext } from 'react';
 import cx from 'classnames';
 import { settings } from 'carbon-components';
 import { Button } from 'carbon-components-react';
 import ChevronLeft16 from '@carbon/icons-react/lib/chevron--left/16';
 import ChevronRight16 from '@carbon/icons-react/lib/chevron--right/16';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { formatMessage } from 'utils/formatMessage';
 import { defaultMessages, Messages } from './messages';
 
 type ChangeFn = (index: number) => void;
@@ -23,6 +25,7 @@ const NavigationToolbar: FC<NavigationToolbarProps> = ({
   messages = defaultMessages,
   onChange
 }) => {
+  const { locale } = useContext(SearchContext);
   const base = `${settings.prefix}--ci-doc-toolbar`;
   return (
     <nav className={cx(base, className)} aria-label={messages.navigation}>
@@ -38,9 +41,12 @@ const NavigationToolbar: FC<NavigationToolbarProps> = ({
         data-testid="NavigationToolbar_previous"
       />
       <span className="text" data-testid="NavigationToolbar_counter">
-        {messages
-          .counterPattern!.replace('{index}', index > 0 ? String(index) : '-')
-          .replace('{max}', String(max))}
+        {formatMessage(
+          messages.counterPattern!,
+          { index: index > 0 ? index : '-', max },
+          false,
+          locale
+        ).join('')}
       </span>
       <Button
         className="button"
@@ -1,5 +1,6 @@
 import React from 'react';
 import { render, fireEvent } from '@testing-library/react';
+import { SearchContext, searchContextDefaults } from 'components/DiscoverySearch/DiscoverySearch';
 import NavigationToolbar from '../NavigationToolbar';
 
 describe('<NavigationToolbar />', () => {
@@ -8,6 +9,20 @@ describe('<NavigationToolbar />', () => {
     getByText('1 / 50');
   });
 
+  it('displays a dash when there is no current index', () => {
+    const { getByText } = render(<NavigationToolbar index={0} max={50} onChange={() => {}} />);
+    getByText('- / 50');
+  });
+
+  it('formats the max for the locale of the search context', () => {
+    const { getByText } = render(
+      <SearchContext.Provider value={{ ...searchContextDefaults, locale: 'de' }}>
+        <NavigationToolbar index={1} max={1500} onChange={() => {}} />
+      </SearchContext.Provider>
+    );
+    getByText('1 / 1.500');
+  });
+
   it('calls the change function on clicks of the previous button', () => {
     const onChangeSpy = jest.fn();
     const { getByTitle } = render(<NavigationToolbar index={1} max={50} onChange={onChangeSpy} />);
@@ -1,5 +1,7 @@
-import React, { createContext, FC, useEffect, useState, useCallback } from 'react';
+import React, { createContext, FC, useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import isEqual from 'lodash/isEqual';
+import omit from 'lodash/omit';
 import {
   useDeepCompareEffect,
   useDeepCompareCallback,
@@ -13,9 +15,31 @@ import {
   useFetchDocumentsApi,
   useAutocompleteApi,
   useFieldsApi,
-  FieldsStore
+  FieldsStore,
+  useFetchMoreResultsApi,
+  FetchMoreResultsStore
 } from 'utils/useDataApi';
-import { SearchClient } from './types';
+import { SearchClient, SearchClientMethod } from './types';
+import { abortable, isAbortError, useAbortController } from 'utils/abortable';
+import { UrlStateOptions } from 'utils/searchUrlState';
+import { useSearchUrlSync } from 'utils/useSearchUrlSync';
+import { RetryPolicy, RetryEvent, withRetry } from 'utils/withRetry';
+import { CacheOptions, withCache, createMemoryCacheStore, invalidateCache } from 'utils/withCache';
+import { SearchClientInterceptor, withInterceptors } from 'utils/withInterceptors';
+import { SearchEvent } from 'utils/searchEvents';
+import { appendSearchResponse } from 'utils/appendSearchResponse';
+import { SearchState, toSearchState, parseSearchState } from 'utils/searchState';
+import { ZeroResultsFallback, getZeroResultsFallback } from 'utils/zeroResultsFallback';
+import { buildFacetSuggestionsQuery } from 'components/SearchInput/utils/facetSuggestions';
+import {
+  FederatedSearchClient,
+  FederatedSearchClientOptions
+} from 'utils/federatedSearchClient/FederatedSearchClient';
+import {
+  RelevancyRating,
+  isTrainingSearchClient,
+  saveRelevancyFeedback
+} from 'utils/relevancyFeedback';
 import { withErrorBoundary } from 'react-error-boundary';
 import { FallbackComponent } from 'utils/FallbackComponent';
 import onErrorCallback from 'utils/onErrorCallback';
@@ -29,13 +53,21 @@ export type SearchParams = Omit<DiscoveryV2.QueryParams, 'projectId' | 'headers'
 
 export interface DiscoverySearchProps {
   /**
-   * Search client
+   * Search client. Required unless `federation` is set. Every request includes an abort `signal`,
+   * which the `DiscoveryV2` client of `ibm-watson` ignores, so outdated requests are discarded but
+   * not cancelled unless a custom search client passes the signal on
+   */
+  searchClient?: SearchClient;
+  /**
+   * Project ID. Required unless `federation` is set
    */
-  searchClient: SearchClient;
+  projectId?: string;
   /**
-   * Project ID
+   * Search several projects at once, each with its own search client and weight, instead of the
+   * project of `searchClient`. Results are merged by normalized confidence (or round robin) and
+   * tagged with their project in `result_metadata.project_id`
    */
-  projectId: string;
+  federation?: FederatedSearchClientOptions;
   /**
    * Aggregation results used to override internal aggregation search results state
    */
@@ -64,6 +96,50 @@ export interface DiscoverySearchProps {
    * overrideComponentSettings is used to override internal collections result state
    */
   overrideComponentSettings?: DiscoveryV2.ComponentSettingsResponse;
+  /**
+   * Synchronize the search parameters and selected document with the URL query string so searches
+   * can be shared, bookmarked and navigated with the browser back and forward buttons.
+   * Pass an object to customize how the state is stored in the URL
+   */
+  urlState?: boolean | UrlStateOptions;
+  /**
+   * Retry requests failing with a temporary error (ie. 429 or 503 status codes). Pass an object to
+   * customize the number of attempts, the backoff delay and the status codes to retry
+   */
+  retryPolicy?: boolean | RetryPolicy;
+  /**
+   * Callback invoked every time a failed request is about to be retried
+   */
+  onRetry?: (event: RetryEvent) => void;
+  /**
+   * Cache the responses of the search client so repeated requests (ie. paging back or toggling a
+   * facet off and on) resolve instantly. Pass an object to customize the time to live, the maximum
+   * number of entries, the cached methods and the cache storage
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Interceptors wrapping every request sent to the search client, used to transform the parameters
+   * before a request and transform or inspect the response or error after it. `request` hooks run
+   * in the order of the interceptors, `response` and `error` hooks in reverse order
+   */
+  interceptors?: SearchClientInterceptor[];
+  /**
+   * Callback receiving the analytics events of the components (ie. `search_submitted`,
+   * `facet_toggled`, `page_changed` or `result_clicked`), discriminated by their `type`
+   */
+  onEvent?: (event: SearchEvent) => void;
+  /**
+   * Search again when a search returns no results: with the spelling suggestion of the response if
+   * any, then removing its facet filters one at a time, starting with the filter matching the
+   * fewest results. `SearchResults` displays what was changed, with an action undoing it
+   */
+  zeroResultsFallback?: boolean;
+  /**
+   * BCP 47 language tag (ie. `de` or `fr-CA`) of the locale the components format their numbers,
+   * dates and plural messages in, and whose bundled message pack they display, if any. Defaults to
+   * the locale of the browser, ungrouped numbers and English messages
+   */
+  locale?: string;
 }
 
 export interface AutocompletionOptions {
@@ -101,12 +177,25 @@ export interface SearchContextIFC {
   aggregationResults: DiscoveryV2.QueryAggregation[] | QueryAggregationWithName[] | null;
   searchResponseStore: SearchResponseStore;
   fetchDocumentsResponseStore: FetchDocumentsResponseStore;
+  fetchMoreResultsStore: FetchMoreResultsStore;
+  /**
+   * whether more results of the search can be appended with `fetchMoreResults`
+   */
+  hasMoreResults: boolean;
   collectionsResults: DiscoveryV2.ListCollectionsResponse | null;
   selectedResult: SelectedResult;
   autocompletionStore: AutocompleteStore;
   componentSettings: DiscoveryV2.ComponentSettingsResponse | null;
   isResultsPaginationComponentHidden: boolean | undefined;
   fieldsStore: FieldsStore;
+  /**
+   * search sent instead of the last search, which returned no results
+   */
+  zeroResultsFallback: ZeroResultsFallback | null;
+  /**
+   * locale of the components
+   */
+  locale: string | undefined;
 }
 
 export interface SearchApiIFC {
@@ -114,6 +203,7 @@ export interface SearchApiIFC {
   fetchAutocompletions: (nlq: string) => Promise<void>;
   fetchAggregations: (searchParameters: DiscoveryV2.QueryParams) => Promise<void>;
   fetchDocuments: (filterString: string, searchResponse: DiscoveryV2.QueryResponse | null) => void;
+  fetchMoreResults: () => void;
   setSelectedResult: (result: SelectedResult) => void;
   setAutocompletionOptions: (
     autoCompletionOptions: AutocompletionOptions | React.SetStateAction<AutocompletionOptions>
@@ -125,6 +215,20 @@ export interface SearchApiIFC {
     isResultsPaginationComponentHidden: boolean | React.SetStateAction<boolean | undefined>
   ) => void;
   fetchFields: () => void;
+  invalidateCache: (method?: SearchClientMethod) => void;
+  emitEvent: (event: SearchEvent) => void;
+  submitRelevancyFeedback: (
+    result: DiscoveryV2.QueryResult,
+    rating: RelevancyRating
+  ) => Promise<void>;
+  getSearchState: () => SearchState;
+  restoreSearchState: (state: SearchState) => void;
+  undoZeroResultsFallback: () => void;
+  fetchFacetSuggestions: (
+    prefix: string,
+    fields: string[],
+    count: number
+  ) => Promise<DiscoveryV2.QueryAggregation[]>;
 }
 
 export const searchApiDefaults = {
@@ -133,11 +237,19 @@ export const searchApiDefaults = {
   fetchAggregations: (): Promise<void> => Promise.resolve(),
   fetchComponentSettings: (): Promise<void> => Promise.resolve(),
   fetchDocuments: (): void => {},
+  fetchMoreResults: (): void => {},
   setSelectedResult: (): void => {},
   setAutocompletionOptions: (): void => {},
   setSearchParameters: (): void => {},
   setIsResultsPaginationComponentHidden: (): void => {},
-  fetchFields: (): Promise<void> => Promise.resolve()
+  fetchFields: (): Promise<void> => Promise.resolve(),
+  invalidateCache: (): void => {},
+  emitEvent: (): void => {},
+  submitRelevancyFeedback: (): Promise<void> => Promise.resolve(),
+  getSearchState: (): SearchState => toSearchState({ projectId: '' }),
+  restoreSearchState: (): void => {},
+  undoZeroResultsFallback: (): void => {},
+  fetchFacetSuggestions: (): Promise<DiscoveryV2.QueryAggregation[]> => Promise.resolve([])
 };
 
 export const searchResponseStoreDefaults: SearchResponseStore = {
@@ -146,7 +258,8 @@ export const searchResponseStoreDefaults: SearchResponseStore = {
   },
   data: null,
   isLoading: false,
-  isError: false
+  isError: false,
+  error: null
 };
 
 export const fetchDocumentsResponseStoreDefaults: FetchDocumentsResponseStore = {
@@ -163,7 +276,18 @@ export const fetchDocumentsResponseStoreDefaults: FetchDocumentsResponseStore =
   },
   data: null,
   isLoading: false,
-  isError: false
+  isError: false,
+  error: null
+};
+
+export const fetchMoreResultsStoreDefaults: FetchMoreResultsStore = {
+  parameters: {
+    projectId: ''
+  },
+  data: null,
+  isLoading: false,
+  isError: false,
+  error: null
 };
 
 export const autocompletionStoreDefaults: AutocompleteStore = {
@@ -172,7 +296,8 @@ export const autocompletionStoreDefaults: AutocompleteStore = {
   },
   data: null,
   isLoading: false,
-  isError: false
+  isError: false,
+  error: null
 };
 
 const aggregationQueryDefaults: Partial<DiscoveryV2.QueryParams> = {
@@ -191,27 +316,33 @@ const fieldsStoreDefaults: FieldsStore = {
   },
   data: null,
   isLoading: false,
-  isError: false
+  isError: false,
+  error: null
 };
 
 export const searchContextDefaults = {
   aggregationResults: null,
   searchResponseStore: searchResponseStoreDefaults,
   fetchDocumentsResponseStore: fetchDocumentsResponseStoreDefaults,
+  fetchMoreResultsStore: fetchMoreResultsStoreDefaults,
+  hasMoreResults: false,
   selectedResult: emptySelectedResult,
   autocompletionStore: autocompletionStoreDefaults,
   collectionsResults: null,
   componentSettings: null,
   isResultsPaginationComponentHidden: false,
-  fieldsStore: fieldsStoreDefaults
+  fieldsStore: fieldsStoreDefaults,
+  zeroResultsFallback: null,
+  locale: undefined
 };
 
 export const SearchApi = createContext<SearchApiIFC>(searchApiDefaults);
 export const SearchContext = createContext<SearchContextIFC>(searchContextDefaults);
 
 const DiscoverySearch: FC<DiscoverySearchProps> = ({
-  searchClient,
-  projectId,
+  searchClient: providedSearchClient,
+  projectId = '',
+  federation,
   overrideAggregationResults = null,
   overrideSearchResults = null,
   overrideQueryParameters,
@@ -219,8 +350,74 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
   overrideAutocompletionResults = null,
   overrideCollectionsResults = null,
   overrideComponentSettings = null,
+  urlState = false,
+  retryPolicy = false,
+  onRetry,
+  cache = false,
+  interceptors,
+  onEvent,
+  zeroResultsFallback: isZeroResultsFallbackEnabled = false,
+  locale,
   children
 }) => {
+  // keep references to the latest callbacks so the search client does not change on every render
+  const onRetryRef = useRef(onRetry);
+  onRetryRef.current = onRetry;
+  const interceptorsRef = useRef(interceptors);
+  interceptorsRef.current = interceptors;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const hasInterceptors = !!interceptors;
+  const onSourceErrorRef = useRef(federation && federation.onSourceError);
+  onSourceErrorRef.current = federation && federation.onSourceError;
+  const memoizedFederation = useDeepCompareMemo(
+    () => federation && omit(federation, 'onSourceError'),
+    [federation && omit(federation, 'onSourceError')]
+  );
+  const baseSearchClient = useMemo(() => {
+    if (memoizedFederation) {
+      return new FederatedSearchClient({
+        ...memoizedFederation,
+        onSourceError: sourceError => {
+          if (onSourceErrorRef.current) {
+            onSourceErrorRef.current(sourceError);
+          }
+        }
+      });
+    }
+    if (!providedSearchClient) {
+      throw new Error('DiscoverySearch requires a searchClient or a federation');
+    }
+    return providedSearchClient;
+  }, [providedSearchClient, memoizedFederation]);
+  const memoizedRetryPolicy = useDeepCompareMemo(() => retryPolicy, [retryPolicy]);
+  const memoizedCacheOptions = useDeepCompareMemo(() => (cache === true ? {} : cache), [cache]);
+  const cacheStore = useMemo(
+    () => (memoizedCacheOptions && memoizedCacheOptions.store) || createMemoryCacheStore(),
+    // a new search client may return different responses, so it gets a new store
+    [baseSearchClient, memoizedCacheOptions]
+  );
+  // requests go through the interceptors, then the cache, and only the requests sent to the
+  // service are retried
+  const searchClient = useMemo(() => {
+    let searchClient = baseSearchClient;
+    if (memoizedRetryPolicy) {
+      const policy = memoizedRetryPolicy === true ? {} : memoizedRetryPolicy;
+      searchClient = withRetry(searchClient, policy, event => {
+        if (onRetryRef.current) {
+          onRetryRef.current(event);
+        }
+      });
+    }
+    if (memoizedCacheOptions) {
+      searchClient = withCache(searchClient, { ...memoizedCacheOptions, store: cacheStore });
+    }
+    if (hasInterceptors) {
+      searchClient = withInterceptors(searchClient, () => interceptorsRef.current || []);
+    }
+    return searchClient;
+  }, [baseSearchClient, memoizedRetryPolicy, memoizedCacheOptions, cacheStore, hasInterceptors]);
+
   const [aggregationResults, setAggregationResults] = useState<
     DiscoveryV2.QueryAggregation[] | QueryAggregationWithName[] | null
   >(overrideAggregationResults);
@@ -247,60 +444,159 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
     searchClient
   );
 
+  // offset of the last page appended to the search results, null until a page is appended
+  const [appendedPageOffset, setAppendedPageOffset] = useState<number | null>(null);
+  // incremented by every search, so pages of a previous search are not appended to its results
+  const searchIdRef = useRef(0);
+
+  // aggregations are fetched with extra queries, which are aborted when a newer search is sent
+  const nextAggregationsAbortSignal = useAbortController();
+
   const fetchTypeForTopEntitiesAggregation = useCallback(
     async (
       aggregationResults: QueryAggregationWithName[],
-      searchParams: DiscoveryV2.QueryParams
+      searchParams: DiscoveryV2.QueryParams,
+      signal?: AbortSignal
     ) => {
       const updatedAggQuery = buildAggregationQuery(aggregationResults);
       const updatedSearchParameters = {
         ...searchParams,
         aggregation: updatedAggQuery
       };
-      const { result } = await searchClient.query(updatedSearchParameters);
+      const { result } = await abortable(
+        searchClient.query({ ...updatedSearchParameters, signal }),
+        signal
+      );
       return result.aggregations;
     },
     [searchClient]
   );
 
-  const handleSearch = useCallback(
-    async (searchParameters, resetAggregations = true): Promise<void> => {
+  // search sent instead of the last search, which returned no results
+  const [zeroResultsFallback, setZeroResultsFallback] = useState<ZeroResultsFallback | null>(null);
+  const isZeroResultsFallbackEnabledRef = useRef(isZeroResultsFallbackEnabled);
+  isZeroResultsFallbackEnabledRef.current = isZeroResultsFallbackEnabled;
+  const aggregationResultsRef = useRef(aggregationResults);
+  aggregationResultsRef.current = aggregationResults;
+
+  const sendSearch = useCallback(
+    async (
+      searchParameters: DiscoveryV2.QueryParams,
+      resetAggregations: boolean,
+      // fallback the search was sent for, or false when the search must not fall back
+      fallback: ZeroResultsFallback | null | false
+    ): Promise<void> => {
       let aggregationsFetched = false;
+      let unfilteredAggregations: DiscoveryV2.QueryAggregation[] | null = null;
+      const signal = nextAggregationsAbortSignal();
+      searchIdRef.current++;
+      setAppendedPageOffset(null);
       setSearchParameters(searchParameters);
       // don't use the search response if filter is set, just do another search
       if (resetAggregations && searchParameters.filter !== '') {
         aggregationsFetched = true;
-        const response = await searchClient.query({
-          ...searchParameters,
-          ...aggregationQueryDefaults,
-          filter: ''
-        });
-        if (response && response.result && response.result.aggregations) {
-          if (isQueryAggregationWithName(response.result.aggregations)) {
-            const updatedAggregations = await fetchTypeForTopEntitiesAggregation(
-              response.result.aggregations,
-              searchParameters
-            );
-            setAggregationResults(updatedAggregations || null);
-          } else {
-            setAggregationResults(response.result.aggregations);
+        try {
+          const response = await abortable(
+            searchClient.query({
+              ...searchParameters,
+              ...aggregationQueryDefaults,
+              filter: '',
+              signal
+            }),
+            signal
+          );
+          if (response && response.result && response.result.aggregations) {
+            unfilteredAggregations = response.result.aggregations;
+            if (isQueryAggregationWithName(response.result.aggregations)) {
+              const updatedAggregations = await fetchTypeForTopEntitiesAggregation(
+                response.result.aggregations,
+                searchParameters,
+                signal
+              );
+              setAggregationResults(updatedAggregations || null);
+            } else {
+              setAggregationResults(response.result.aggregations);
+            }
+          }
+        } catch (error) {
+          // a newer search was sent, which takes care of searching
+          if (isAbortError(error)) {
+            return;
           }
+          throw error;
         }
       }
 
       performSearch(async result => {
-        if (!aggregationsFetched && resetAggregations && result && result.aggregations) {
-          const updatedAggregations = await fetchTypeForTopEntitiesAggregation(
-            result.aggregations,
-            searchParameters
+        if (
+          fallback !== false &&
+          isZeroResultsFallbackEnabledRef.current &&
+          result &&
+          result.matching_results === 0
+        ) {
+          const nextFallback = getZeroResultsFallback(
+            searchParameters,
+            result,
+            unfilteredAggregations || aggregationResultsRef.current,
+            fallback
           );
-          setAggregationResults(updatedAggregations || null);
+          if (nextFallback) {
+            setZeroResultsFallback(nextFallback);
+            sendSearch(nextFallback.parameters, true, nextFallback);
+            return;
+          }
+          // none of the fallbacks returned results, so the results of the original search are displayed
+          if (fallback) {
+            setZeroResultsFallback(null);
+            sendSearch(fallback.originalParameters, true, false);
+            return;
+          }
+        }
+        if (!aggregationsFetched && resetAggregations && result && result.aggregations) {
+          try {
+            const updatedAggregations = await fetchTypeForTopEntitiesAggregation(
+              result.aggregations,
+              searchParameters,
+              signal
+            );
+            setAggregationResults(updatedAggregations || null);
+          } catch (error) {
+            if (!isAbortError(error)) {
+              throw error;
+            }
+          }
         }
       });
     },
-    [fetchTypeForTopEntitiesAggregation, performSearch, searchClient, setSearchParameters]
+    [
+      fetchTypeForTopEntitiesAggregation,
+      nextAggregationsAbortSignal,
+      performSearch,
+      searchClient,
+      setSearchParameters
+    ]
+  );
+
+  const handleSearch = useCallback(
+    (searchParameters: DiscoveryV2.QueryParams, resetAggregations = true): Promise<void> => {
+      // paging through the results of a fallback search keeps the fallback
+      setZeroResultsFallback(current =>
+        current && isEqual(omit(current.parameters, 'offset'), omit(searchParameters, 'offset'))
+          ? current
+          : null
+      );
+      return sendSearch(searchParameters, resetAggregations, null);
+    },
+    [sendSearch]
   );
 
+  const handleUndoZeroResultsFallback = useCallback((): void => {
+    if (zeroResultsFallback) {
+      setZeroResultsFallback(null);
+      sendSearch(zeroResultsFallback.originalParameters, true, false);
+    }
+  }, [sendSearch, zeroResultsFallback]);
+
   const [autocompletionStore, { fetchAutocompletions, setAutocompletions }] = useAutocompleteApi(
     { projectId, count: autocompletionOptions.completionsCount },
     overrideAutocompletionResults,
@@ -308,6 +604,8 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
   );
 
   useDeepCompareEffect(() => {
+    searchIdRef.current++;
+    setAppendedPageOffset(null);
     setSearchResponse(overrideSearchResults);
   }, [overrideSearchResults]);
 
@@ -403,25 +701,42 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
     async (searchParameters): Promise<void> => {
       // since we only call this when the aggregation changes, we can safely reset the filter
       const searchParamsWithoutFilter = { ...searchParameters, filter: '' };
+      const signal = nextAggregationsAbortSignal();
       setSearchParameters(searchParamsWithoutFilter);
       const searchParametersWithAggregationDefaults = {
         ...searchParamsWithoutFilter,
         ...aggregationQueryDefaults
       };
-      const { result } = await searchClient.query(searchParametersWithAggregationDefaults);
-      if (result) {
-        const { aggregations } = result;
-        let updatedAggregations = aggregations;
-        if (aggregations && isQueryAggregationWithName(aggregations)) {
-          updatedAggregations = await fetchTypeForTopEntitiesAggregation(
-            aggregations,
-            searchParametersWithAggregationDefaults
-          );
+      try {
+        const { result } = await abortable(
+          searchClient.query({ ...searchParametersWithAggregationDefaults, signal }),
+          signal
+        );
+        if (result) {
+          const { aggregations } = result;
+          let updatedAggregations = aggregations;
+          if (aggregations && isQueryAggregationWithName(aggregations)) {
+            updatedAggregations = await fetchTypeForTopEntitiesAggregation(
+              aggregations,
+              searchParametersWithAggregationDefaults,
+              signal
+            );
+          }
+          setAggregationResults(updatedAggregations || null);
+        }
+      } catch (error) {
+        // aborted requests were replaced by a newer request, so they are not failures
+        if (!isAbortError(error)) {
+          throw error;
         }
-        setAggregationResults(updatedAggregations || null);
       }
     },
-    [fetchTypeForTopEntitiesAggregation, searchClient, setSearchParameters]
+    [
+      fetchTypeForTopEntitiesAggregation,
+      nextAggregationsAbortSignal,
+      searchClient,
+      setSearchParameters
+    ]
   );
 
   const handleSetSelectedResult = (overrideSelectedResult: SelectedResult) => {
@@ -460,22 +775,160 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
     [fetchDocuments, setSearchResponse]
   );
 
+  const [fetchMoreResultsStore, { fetchMoreResults }] = useFetchMoreResultsApi(
+    { projectId },
+    searchClient
+  );
+  const searchResponse = searchResponseStore.data;
+  const searchResponseRef = useRef(searchResponse);
+  searchResponseRef.current = searchResponse;
+  const pageSize = searchResponseStore.parameters.count || 10;
+  const nextPageOffset =
+    (appendedPageOffset === null
+      ? searchResponseStore.parameters.offset || 0
+      : appendedPageOffset) + pageSize;
+  const hasMoreResults =
+    !!searchResponse && nextPageOffset < (searchResponse.matching_results || 0);
+
+  const handleFetchMoreResults = useCallback((): void => {
+    if (!hasMoreResults || fetchMoreResultsStore.isLoading) {
+      return;
+    }
+    const searchId = searchIdRef.current;
+    fetchMoreResults({ ...searchResponseStore.parameters, offset: nextPageOffset }, nextPage => {
+      // the latest response is used, as documents may have been fetched in the meantime
+      if (searchId === searchIdRef.current && searchResponseRef.current) {
+        setAppendedPageOffset(nextPageOffset);
+        setSearchResponse(appendSearchResponse(searchResponseRef.current, nextPage));
+      }
+    });
+  }, [
+    fetchMoreResults,
+    fetchMoreResultsStore.isLoading,
+    hasMoreResults,
+    nextPageOffset,
+    searchResponseStore.parameters,
+    setSearchResponse
+  ]);
+
   const [fieldsStore, { fetchFields }] = useFieldsApi({ projectId }, searchClient);
 
   const handleFetchFields = useCallback(() => {
     fetchFields();
   }, [fetchFields]);
 
+  const handleInvalidateCache = useCallback(
+    (method?: SearchClientMethod): void => invalidateCache(cacheStore, method),
+    [cacheStore]
+  );
+
+  const handleEmitEvent = useCallback((event: SearchEvent): void => {
+    if (onEventRef.current) {
+      // a failing analytics callback should not break the search experience
+      try {
+        onEventRef.current(event);
+      } catch (err) {
+        console.error('Error handling search event', err);
+      }
+    }
+  }, []);
+
+  // ratings are saved one at a time, so concurrent ratings of a query don't create duplicate
+  // training queries
+  const relevancyFeedbackQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const handleSubmitRelevancyFeedback = useCallback(
+    (result: DiscoveryV2.QueryResult, rating: RelevancyRating): Promise<void> => {
+      const { naturalLanguageQuery, filter } = searchResponseStore.parameters;
+      if (!isTrainingSearchClient(searchClient)) {
+        return Promise.reject(new Error('The search client does not support training queries'));
+      }
+      if (!naturalLanguageQuery) {
+        return Promise.reject(new Error('Relevancy feedback requires a natural language query'));
+      }
+      const save = relevancyFeedbackQueue.current.then(() =>
+        saveRelevancyFeedback(searchClient, {
+          projectId,
+          naturalLanguageQuery,
+          filter,
+          documentId: result.document_id,
+          collectionId: result.result_metadata.collection_id,
+          rating
+        })
+      );
+      // a failed rating should not prevent the next ones from being saved
+      relevancyFeedbackQueue.current = save.catch(() => {});
+      return save.then(() => {});
+    },
+    [projectId, searchClient, searchResponseStore.parameters]
+  );
+
+  const handleGetSearchState = useCallback(
+    (): SearchState => toSearchState(searchResponseStore.parameters),
+    [searchResponseStore.parameters]
+  );
+
+  const handleRestoreSearchState = useCallback(
+    (state: SearchState): void => {
+      const { naturalLanguageQuery, filter, collectionIds, sort, count } = parseSearchState(state);
+      handleSearch({
+        ...searchResponseStore.parameters,
+        naturalLanguageQuery,
+        filter,
+        collectionIds,
+        sort,
+        count: count || searchResponseStore.parameters.count,
+        offset: 0
+      });
+    },
+    [handleSearch, searchResponseStore.parameters]
+  );
+
+  // counts the values of the facet fields starting with a prefix, without changing the search
+  const handleFetchFacetSuggestions = useCallback(
+    async (
+      prefix: string,
+      fields: string[],
+      count: number
+    ): Promise<DiscoveryV2.QueryAggregation[]> => {
+      const { result } = await searchClient.query({
+        projectId,
+        collectionIds: searchResponseStore.parameters.collectionIds,
+        count: 0,
+        ...buildFacetSuggestionsQuery(prefix, fields, count)
+      });
+      return (result && result.aggregations) || [];
+    },
+    [projectId, searchClient, searchResponseStore.parameters.collectionIds]
+  );
+
+  useSearchUrlSync({
+    enabled: !!urlState,
+    options: typeof urlState === 'object' ? urlState : undefined,
+    searchParameters: searchResponseStore.parameters,
+    searchResponse: searchResponseStore.data,
+    selectedDocument: selectedResult.document,
+    performSearch: handleSearch,
+    setSelectedDocument: document => handleSetSelectedResult({ document })
+  });
+
   const api = {
     performSearch: handleSearch,
     fetchAggregations: handleFetchAggregations,
     fetchAutocompletions: handleFetchAutocompletions,
     fetchDocuments: handleFetchDocuments,
+    fetchMoreResults: handleFetchMoreResults,
     setSelectedResult: handleSetSelectedResult,
     setAutocompletionOptions,
     setSearchParameters,
     setIsResultsPaginationComponentHidden,
-    fetchFields: handleFetchFields
+    fetchFields: handleFetchFields,
+    invalidateCache: handleInvalidateCache,
+    emitEvent: handleEmitEvent,
+    submitRelevancyFeedback: handleSubmitRelevancyFeedback,
+    getSearchState: handleGetSearchState,
+    restoreSearchState: handleRestoreSearchState,
+    undoZeroResultsFallback: handleUndoZeroResultsFallback,
+    fetchFacetSuggestions: handleFetchFacetSuggestions
   };
 
   const state = useDeepCompareMemo(() => {
@@ -483,23 +936,31 @@ const DiscoverySearch: FC<DiscoverySearchProps> = ({
       aggregationResults,
       autocompletionStore,
       fetchDocumentsResponseStore,
+      fetchMoreResultsStore,
+      hasMoreResults,
       searchResponseStore,
       selectedResult,
       collectionsResults,
       componentSettings,
       isResultsPaginationComponentHidden,
-      fieldsStore
+      fieldsStore,
+      zeroResultsFallback,
+      locale
     };
   }, [
     aggregationResults,
     autocompletionStore,
     fetchDocumentsResponseStore,
+    fetchMoreResultsStore,
+    hasMoreResults,
     searchResponseStore,
     selectedResult,
     collectionsResults,
     componentSettings,
     isResultsPaginationComponentHidden,
-    fieldsStore
+    fieldsStore,
+    zeroResultsFallback,
+    locale
   ]);
 
   return (
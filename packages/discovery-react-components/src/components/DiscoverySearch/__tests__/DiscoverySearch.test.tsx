@@ -291,7 +291,8 @@ describe('DiscoverySearch', () => {
         returnFields: [],
         tableResults: {
           enabled: false
-        }
+        },
+        signal: expect.any(AbortSignal)
       });
       await wait(); // wait for component to finish rendering (prevent "act" warning)
     });
@@ -328,7 +329,8 @@ describe('DiscoverySearch', () => {
       expect(spy).toHaveBeenCalledWith({
         projectId: '',
         prefix: 'foo',
-        count: 1
+        count: 1,
+        signal: expect.any(AbortSignal)
       });
       await wait(); // wait for component to finish rendering (prevent "act" warning)
     });
@@ -349,9 +351,724 @@ describe('DiscoverySearch', () => {
       expect(spy).not.toHaveBeenCalled();
       fireEvent.click(getByText('Action'));
       expect(spy).toHaveBeenCalledWith({
-        projectId: ''
+        projectId: '',
+        signal: expect.any(AbortSignal)
       });
       await wait(); // wait for component to finish rendering (prevent "act" warning)
     });
   });
+
+  describe('retry policy', () => {
+    test('retries failed searches and keeps loading while retrying', async () => {
+      const tree = (
+        <SearchContext.Consumer>
+          {({ searchResponseStore: { isLoading, isError, data } }) => (
+            <SearchApi.Consumer>
+              {({ performSearch }) => (
+                <>
+                  <span data-testid="status">
+                    {isLoading ? 'loading' : isError ? 'error' : data ? 'done' : 'idle'}
+                  </span>
+                  <button onClick={() => performSearch({ projectId: '' }, false)}>Action</button>
+                </>
+              )}
+            </SearchApi.Consumer>
+          )}
+        </SearchContext.Consumer>
+      );
+      const onRetry = jest.fn();
+      const {
+        result: { getByText, getByTestId },
+        searchClient
+      } = setup({ retryPolicy: { backoffBase: 10 }, onRetry }, tree);
+      const error: any = new Error('Service Unavailable');
+      error.code = 503;
+      jest
+        .spyOn(searchClient, 'query')
+        .mockRejectedValueOnce(error)
+        .mockImplementationOnce(() => createDummyResponsePromise({ matching_results: 1 }));
+
+      fireEvent.click(getByText('Action'));
+      await wait(() => expect(onRetry).toHaveBeenCalledTimes(1));
+      expect(getByTestId('status').textContent).toEqual('loading');
+      await wait(() => expect(getByTestId('status').textContent).toEqual('done'));
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'query', attempt: 2 })
+      );
+    });
+  });
+
+  describe('cache', () => {
+    test('reuses the responses of repeated searches until the cache is invalidated', async () => {
+      const tree = (
+        <SearchApi.Consumer>
+          {({ performSearch, invalidateCache }) => (
+            <>
+              <button onClick={() => performSearch({ projectId: '', offset: 0 }, false)}>
+                Search
+              </button>
+              <button onClick={() => invalidateCache()}>Invalidate</button>
+            </>
+          )}
+        </SearchApi.Consumer>
+      );
+      const {
+        result: { getByText },
+        searchClient
+      } = setup({ cache: true }, tree);
+      const spy = jest.spyOn(searchClient, 'query');
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(spy).toHaveBeenCalledTimes(1));
+      fireEvent.click(getByText('Search'));
+      await wait();
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      fireEvent.click(getByText('Invalidate'));
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(spy).toHaveBeenCalledTimes(2));
+    });
+  });
+
+  describe('interceptors', () => {
+    test('sends every request through the interceptors', async () => {
+      const tree = (
+        <SearchApi.Consumer>
+          {({ performSearch }) => (
+            <button onClick={() => performSearch({ projectId: '' }, false)}>Search</button>
+          )}
+        </SearchApi.Consumer>
+      );
+      const response = jest.fn(response => response);
+      const {
+        result: { getByText },
+        searchClient
+      } = setup(
+        {
+          interceptors: [
+            { request: params => ({ ...params, headers: { 'X-Tenant': 'tenant' } }), response }
+          ]
+        },
+        tree
+      );
+      const spy = jest.spyOn(searchClient, 'query');
+
+      fireEvent.click(getByText('Search'));
+      await wait(() =>
+        expect(spy).toHaveBeenCalledWith(
+          expect.objectContaining({ headers: { 'X-Tenant': 'tenant' } })
+        )
+      );
+      expect(response).toHaveBeenCalledWith(
+        expect.objectContaining({ result: {} }),
+        expect.objectContaining({ method: 'query' })
+      );
+    });
+  });
+
+  describe('events', () => {
+    const tree = (
+      <SearchApi.Consumer>
+        {({ emitEvent }) => (
+          <button
+            onClick={() => emitEvent({ type: 'search_submitted', naturalLanguageQuery: 'foo' })}
+          >
+            Emit
+          </button>
+        )}
+      </SearchApi.Consumer>
+    );
+
+    test('sends the events of the components to onEvent', () => {
+      const onEvent = jest.fn();
+      const {
+        result: { getByText }
+      } = setup({ onEvent }, tree);
+
+      fireEvent.click(getByText('Emit'));
+      expect(onEvent).toHaveBeenCalledWith({
+        type: 'search_submitted',
+        naturalLanguageQuery: 'foo'
+      });
+    });
+
+    test('does not throw when onEvent fails', () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const onEvent = jest.fn(() => {
+        throw new Error('analytics unavailable');
+      });
+      const {
+        result: { getByText }
+      } = setup({ onEvent }, tree);
+
+      expect(() => fireEvent.click(getByText('Emit'))).not.toThrow();
+      expect(consoleError).toHaveBeenCalledWith('Error handling search event', expect.any(Error));
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('more results', () => {
+    const tree = (
+      <SearchContext.Consumer>
+        {({ searchResponseStore: { data }, hasMoreResults }) => (
+          <SearchApi.Consumer>
+            {({ performSearch, fetchMoreResults }) => (
+              <>
+                <button onClick={() => performSearch({ projectId: '', count: 2 }, false)}>
+                  Search
+                </button>
+                <button onClick={() => fetchMoreResults()}>More</button>
+                <div data-testid="results">
+                  {((data && data.results) || []).map(result => result.document_id).join(',')}
+                </div>
+                <div data-testid="hasMoreResults">{hasMoreResults.toString()}</div>
+              </>
+            )}
+          </SearchApi.Consumer>
+        )}
+      </SearchContext.Consumer>
+    );
+    const toResponse = (documentIds: string[]) =>
+      createDummyResponsePromise({
+        matching_results: 5,
+        results: documentIds.map(document_id => ({
+          document_id,
+          result_metadata: { collection_id: 'col1' }
+        }))
+      });
+
+    test('appends the next pages to the results without duplicates', async () => {
+      const {
+        result: { getByText, getByTestId },
+        searchClient
+      } = setup({}, tree);
+      const spy = jest
+        .spyOn(searchClient, 'query')
+        .mockReturnValueOnce(toResponse(['doc1', 'doc2']))
+        .mockReturnValueOnce(toResponse(['doc2', 'doc3']))
+        .mockReturnValueOnce(toResponse(['doc4']));
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2'));
+      expect(getByTestId('hasMoreResults').textContent).toBe('true');
+
+      fireEvent.click(getByText('More'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2,doc3'));
+      expect(spy).toHaveBeenLastCalledWith(expect.objectContaining({ offset: 2, count: 2 }));
+
+      fireEvent.click(getByText('More'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2,doc3,doc4'));
+      expect(spy).toHaveBeenLastCalledWith(expect.objectContaining({ offset: 4, count: 2 }));
+      expect(getByTestId('hasMoreResults').textContent).toBe('false');
+    });
+
+    test('starts again from the first page of a new search', async () => {
+      const {
+        result: { getByText, getByTestId },
+        searchClient
+      } = setup({}, tree);
+      const spy = jest
+        .spyOn(searchClient, 'query')
+        .mockReturnValueOnce(toResponse(['doc1', 'doc2']))
+        .mockReturnValueOnce(toResponse(['doc3', 'doc4']))
+        .mockReturnValueOnce(toResponse(['doc1', 'doc2']))
+        .mockReturnValueOnce(toResponse(['doc3', 'doc4']));
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2'));
+      fireEvent.click(getByText('More'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2,doc3,doc4'));
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2'));
+      fireEvent.click(getByText('More'));
+      await wait(() => expect(getByTestId('results').textContent).toBe('doc1,doc2,doc3,doc4'));
+      expect(spy).toHaveBeenLastCalledWith(expect.objectContaining({ offset: 2 }));
+    });
+  });
+
+  describe('federation', () => {
+    test('searches every project of the federation', async () => {
+      const createSource = (projectId: string) => ({
+        projectId,
+        searchClient: {
+          query: jest.fn(() => createDummyResponsePromise({ matching_results: 1, results: [] })),
+          listCollections: jest.fn(() => createDummyResponsePromise({ collections: [] })),
+          getAutocompletion: jest.fn(() => createDummyResponsePromise({})),
+          getComponentSettings: jest.fn(() => createDummyResponsePromise({})),
+          listFields: jest.fn(() => createDummyResponsePromise({}))
+        }
+      });
+      const sources = [createSource('news'), createSource('wiki')];
+      const tree = (
+        <SearchContext.Consumer>
+          {({ searchResponseStore: { data } }) => (
+            <SearchApi.Consumer>
+              {({ performSearch }) => (
+                <button
+                  onClick={() =>
+                    performSearch({ projectId: '', naturalLanguageQuery: 'tiger' }, false)
+                  }
+                >
+                  {data ? `${data.matching_results} results` : 'Search'}
+                </button>
+              )}
+            </SearchApi.Consumer>
+          )}
+        </SearchContext.Consumer>
+      );
+      const {
+        result: { getByText }
+      } = setup({ searchClient: undefined, projectId: undefined, federation: { sources } }, tree);
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByText('2 results')).toBeInTheDocument());
+      expect(sources[0].searchClient.query).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'news', naturalLanguageQuery: 'tiger' })
+      );
+      expect(sources[1].searchClient.query).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'wiki', naturalLanguageQuery: 'tiger' })
+      );
+      expect(sources[1].searchClient.getComponentSettings).not.toHaveBeenCalled();
+      expect(sources[0].searchClient.getComponentSettings).toHaveBeenCalledWith({
+        projectId: 'news'
+      });
+    });
+  });
+
+  describe('relevancy feedback', () => {
+    const result = {
+      document_id: 'doc1',
+      result_metadata: { collection_id: 'col1', document_retrieval_source: 'search', confidence: 1 }
+    };
+    const tree = (onRejected: (error: Error) => void = () => {}) => (
+      <SearchApi.Consumer>
+        {({ submitRelevancyFeedback }) => (
+          <button onClick={() => submitRelevancyFeedback(result, 'relevant').catch(onRejected)}>
+            Rate
+          </button>
+        )}
+      </SearchApi.Consumer>
+    );
+
+    test('rejects when the search client cannot manage training queries', async () => {
+      const onRejected = jest.fn();
+      const {
+        result: { getByText }
+      } = setup({ overrideQueryParameters: { naturalLanguageQuery: 'tiger' } }, tree(onRejected));
+
+      fireEvent.click(getByText('Rate'));
+      await wait(() =>
+        expect(onRejected).toHaveBeenCalledWith(
+          new Error('The search client does not support training queries')
+        )
+      );
+    });
+
+    test('saves the rating in the training queries of the project', async () => {
+      const searchClient = {
+        query: () => createDummyResponsePromise({}),
+        listCollections: () => createDummyResponsePromise({}),
+        getAutocompletion: () => createDummyResponsePromise({}),
+        getComponentSettings: () => createDummyResponsePromise({}),
+        listFields: () => createDummyResponsePromise({}),
+        listTrainingQueries: jest.fn(() => createDummyResponsePromise({ queries: [] })),
+        createTrainingQuery: jest.fn(() => createDummyResponsePromise({})),
+        updateTrainingQuery: jest.fn(() => createDummyResponsePromise({}))
+      };
+      const {
+        result: { getByText }
+      } = setup(
+        {
+          searchClient,
+          projectId: 'project',
+          overrideQueryParameters: { naturalLanguageQuery: 'tiger', filter: 'animal:cat' }
+        },
+        tree()
+      );
+
+      fireEvent.click(getByText('Rate'));
+      await wait(() =>
+        expect(searchClient.createTrainingQuery).toHaveBeenCalledWith({
+          projectId: 'project',
+          naturalLanguageQuery: 'tiger',
+          filter: 'animal:cat',
+          examples: [{ document_id: 'doc1', collection_id: 'col1', relevance: 10 }]
+        })
+      );
+    });
+    test('sends the training requests through the interceptors', async () => {
+      const searchClient = {
+        query: () => createDummyResponsePromise({}),
+        listCollections: () => createDummyResponsePromise({}),
+        getAutocompletion: () => createDummyResponsePromise({}),
+        getComponentSettings: () => createDummyResponsePromise({}),
+        listFields: () => createDummyResponsePromise({}),
+        listTrainingQueries: jest.fn(() => createDummyResponsePromise({ queries: [] })),
+        createTrainingQuery: jest.fn(() => createDummyResponsePromise({})),
+        updateTrainingQuery: jest.fn(() => createDummyResponsePromise({}))
+      };
+      const request = jest.fn(params => params);
+      const {
+        result: { getByText }
+      } = setup(
+        {
+          searchClient,
+          projectId: 'project',
+          interceptors: [{ request }],
+          overrideQueryParameters: { naturalLanguageQuery: 'tiger' }
+        },
+        tree()
+      );
+
+      fireEvent.click(getByText('Rate'));
+      await wait(() => expect(searchClient.createTrainingQuery).toHaveBeenCalled());
+      expect(request).toHaveBeenCalledWith(
+        { projectId: 'project' },
+        expect.objectContaining({ method: 'listTrainingQueries' })
+      );
+      expect(request).toHaveBeenCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'tiger' }),
+        expect.objectContaining({ method: 'createTrainingQuery' })
+      );
+    });
+  });
+
+  describe('search state', () => {
+    const tree = (
+      <SearchContext.Consumer>
+        {({ searchResponseStore: { parameters } }) => (
+          <SearchApi.Consumer>
+            {({ getSearchState, restoreSearchState }) => (
+              <>
+                <span data-testid="state">{JSON.stringify(getSearchState())}</span>
+                <span data-testid="offset">{parameters.offset}</span>
+                <button
+                  onClick={() =>
+                    restoreSearchState({
+                      version: 1,
+                      naturalLanguageQuery: 'bar',
+                      filter: 'animal:cat',
+                      collectionIds: ['col1'],
+                      count: 20
+                    })
+                  }
+                >
+                  Restore
+                </button>
+              </>
+            )}
+          </SearchApi.Consumer>
+        )}
+      </SearchContext.Consumer>
+    );
+
+    it('returns the state of the current search', async () => {
+      const {
+        result: { getByTestId }
+      } = setup(
+        {
+          overrideQueryParameters: {
+            naturalLanguageQuery: 'foo',
+            filter: 'animal:dog',
+            sort: '-date',
+            offset: 10
+          }
+        },
+        tree
+      );
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      expect(JSON.parse(getByTestId('state').textContent || '')).toEqual({
+        version: 1,
+        naturalLanguageQuery: 'foo',
+        filter: 'animal:dog',
+        collectionIds: [],
+        sort: '-date'
+      });
+    });
+
+    it('searches again from a search state', async () => {
+      const {
+        result: { getByTestId, getByText },
+        searchClient
+      } = setup({ overrideQueryParameters: { offset: 10 } }, tree);
+      const querySpy = jest.spyOn(searchClient, 'query');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Restore'));
+      await wait(() =>
+        expect(querySpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            naturalLanguageQuery: 'bar',
+            filter: 'animal:cat',
+            collectionIds: ['col1'],
+            count: 20,
+            offset: 0
+          })
+        )
+      );
+      expect(getByTestId('offset').textContent).toEqual('0');
+    });
+  });
+
+  describe('zero results fallback', () => {
+    const tree = (
+      <SearchContext.Consumer>
+        {({ searchResponseStore: { parameters }, zeroResultsFallback }) => (
+          <SearchApi.Consumer>
+            {({ performSearch, undoZeroResultsFallback }) => (
+              <>
+                <span data-testid="query">{parameters.naturalLanguageQuery}</span>
+                <span data-testid="filter">{parameters.filter}</span>
+                <span data-testid="fallback">{JSON.stringify(zeroResultsFallback)}</span>
+                <button
+                  onClick={() =>
+                    performSearch({
+                      projectId: '',
+                      naturalLanguageQuery: 'helo',
+                      filter: 'author:"smith",type:"memo"',
+                      offset: 0
+                    })
+                  }
+                >
+                  Search
+                </button>
+                <button onClick={undoZeroResultsFallback}>Undo</button>
+              </>
+            )}
+          </SearchApi.Consumer>
+        )}
+      </SearchContext.Consumer>
+    );
+
+    const mockQuery = (searchClient: SearchClient, matchingFilter: string): jest.SpyInstance =>
+      jest.spyOn(searchClient, 'query').mockImplementation(({ naturalLanguageQuery, filter }) => {
+        if (filter === '') {
+          return createDummyResponsePromise({
+            matching_results: matchingFilter === '' ? 1 : 0,
+            aggregations: [
+              { type: 'term', field: 'author', results: [{ key: 'smith', matching_results: 1 }] },
+              { type: 'term', field: 'type', results: [{ key: 'memo', matching_results: 5 }] }
+            ]
+          });
+        }
+        if (naturalLanguageQuery === 'helo') {
+          return createDummyResponsePromise({ matching_results: 0, suggested_query: 'hello' });
+        }
+        return createDummyResponsePromise({
+          matching_results: filter === matchingFilter ? 1 : 0
+        });
+      });
+
+    it('searches the spelling suggestion, then removes the filter matching the fewest results', async () => {
+      const {
+        result: { getByTestId, getByText },
+        searchClient
+      } = setup({ zeroResultsFallback: true }, tree);
+      mockQuery(searchClient, 'type:"memo"');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByTestId('filter').textContent).toEqual('type:"memo"'));
+      expect(getByTestId('query').textContent).toEqual('hello');
+      expect(JSON.parse(getByTestId('fallback').textContent || '')).toMatchObject({
+        originalParameters: {
+          naturalLanguageQuery: 'helo',
+          filter: 'author:"smith",type:"memo"'
+        },
+        suggestedQuery: 'hello',
+        removedFilters: [{ field: 'author', values: ['smith'] }]
+      });
+    });
+
+    it('searches the original query and filter again when undone', async () => {
+      const {
+        result: { getByTestId, getByText },
+        searchClient
+      } = setup({ zeroResultsFallback: true }, tree);
+      mockQuery(searchClient, 'type:"memo"');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(getByTestId('filter').textContent).toEqual('type:"memo"'));
+      fireEvent.click(getByText('Undo'));
+      await wait(() =>
+        expect(getByTestId('filter').textContent).toEqual('author:"smith",type:"memo"')
+      );
+      expect(getByTestId('query').textContent).toEqual('helo');
+      expect(getByTestId('fallback').textContent).toEqual('null');
+    });
+
+    it('displays the original search when none of the fallbacks return results', async () => {
+      const {
+        result: { getByTestId, getByText },
+        searchClient
+      } = setup({ zeroResultsFallback: true }, tree);
+      const querySpy = mockQuery(searchClient, 'none');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Search'));
+      await wait(() =>
+        expect(querySpy).toHaveBeenLastCalledWith(
+          expect.objectContaining({ naturalLanguageQuery: 'helo' })
+        )
+      );
+      await wait();
+      expect(getByTestId('filter').textContent).toEqual('author:"smith",type:"memo"');
+      expect(getByTestId('fallback').textContent).toEqual('null');
+      expect(querySpy).toHaveBeenCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'hello', filter: '' })
+      );
+    });
+
+    it('does not search again unless enabled', async () => {
+      const {
+        result: { getByTestId, getByText },
+        searchClient
+      } = setup({}, tree);
+      const querySpy = mockQuery(searchClient, 'type:"memo"');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Search'));
+      await wait(() => expect(querySpy).toHaveBeenCalled());
+      await wait();
+      expect(querySpy).not.toHaveBeenCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'hello' })
+      );
+      expect(getByTestId('fallback').textContent).toEqual('null');
+    });
+  });
+
+  describe('facet suggestions', () => {
+    it('counts the values of the fields starting with a prefix', async () => {
+      const tree = (
+        <SearchApi.Consumer>
+          {({ fetchFacetSuggestions }) => (
+            <button onClick={() => fetchFacetSuggestions('acm', ['author', 'org'], 3)}>
+              Suggest
+            </button>
+          )}
+        </SearchApi.Consumer>
+      );
+      const {
+        result: { getByText },
+        searchClient
+      } = setup({ overrideQueryParameters: { collectionIds: ['col1'] } }, tree);
+      const querySpy = jest.spyOn(searchClient, 'query');
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Suggest'));
+      await wait(() =>
+        expect(querySpy).toHaveBeenCalledWith({
+          projectId: '',
+          collectionIds: ['col1'],
+          count: 0,
+          filter: 'author:acm*|org:acm*',
+          aggregation: '[term(author,count:3),term(org,count:3)]'
+        })
+      );
+    });
+  });
+
+  describe('url state', () => {
+    const tree = (
+      <SearchContext.Consumer>
+        {({ searchResponseStore: { parameters } }) => (
+          <SearchApi.Consumer>
+            {({ performSearch }) => (
+              <>
+                <span data-testid="query">{parameters.naturalLanguageQuery}</span>
+                <span data-testid="offset">{parameters.offset}</span>
+                <button
+                  onClick={() =>
+                    performSearch({ projectId: '', naturalLanguageQuery: 'bar', offset: 10 })
+                  }
+                >
+                  Action
+                </button>
+              </>
+            )}
+          </SearchApi.Consumer>
+        )}
+      </SearchContext.Consumer>
+    );
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('restores the search from the url', async () => {
+      window.history.replaceState(null, '', '/?q=foo&offset=20');
+      const {
+        result: { getByTestId }
+      } = setup({ urlState: true }, tree);
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      expect(getByTestId('query').textContent).toEqual('foo');
+      expect(getByTestId('offset').textContent).toEqual('20');
+    });
+
+    it('does not read the url when urlState is not set', async () => {
+      window.history.replaceState(null, '', '/?q=foo');
+      const {
+        result: { getByTestId }
+      } = setup({}, tree);
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      expect(getByTestId('query').textContent).toEqual('');
+    });
+
+    it('writes the search to the url and restores it on popstate', async () => {
+      const {
+        result: { getByTestId, getByText }
+      } = setup({ urlState: { paramPrefix: 'ds_' } }, tree);
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      fireEvent.click(getByText('Action'));
+      await wait(() => expect(window.location.search).toEqual('?ds_q=bar&ds_offset=10'));
+
+      act(() => {
+        window.history.pushState(null, '', '/?ds_q=baz');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+      await wait(); // wait for component to finish rendering (prevent "act" warning)
+
+      expect(getByTestId('query').textContent).toEqual('baz');
+      expect(getByTestId('offset').textContent).toEqual('0');
+    });
+
+    it('does not add history entries when writing a restored search', async () => {
+      // sets the count when mounting, as the pagination does
+      const WithCount: React.FC = () => {
+        const { setSearchParameters } = React.useContext(SearchApi);
+        React.useEffect(() => {
+          setSearchParameters(parameters => ({ ...parameters, count: 10 }));
+        }, [setSearchParameters]);
+        return tree;
+      };
+      window.history.pushState(null, '', '/?q=foo');
+      const historyLength = window.history.length;
+      const {
+        result: { getByTestId }
+      } = setup({ urlState: true }, <WithCount />);
+      await wait(() => expect(window.location.search).toEqual('?q=foo&count=10'));
+      expect(window.history.length).toEqual(historyLength);
+
+      act(() => {
+        window.history.back();
+      });
+      await wait(() => expect(getByTestId('query').textContent).toEqual(''));
+      await wait(() => expect(window.location.search).toEqual('?count=10'));
+      expect(window.history.length).toEqual(historyLength);
+
+      // the search restored by going back kept the forward history
+      act(() => {
+        window.history.forward();
+      });
+      await wait(() => expect(getByTestId('query').textContent).toEqual('foo'));
+      expect(window.location.search).toEqual('?q=foo&count=10');
+      expect(window.history.length).toEqual(historyLength);
+    });
+  });
 });
@@ -1,6 +1,42 @@
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
 
-export type SearchClient = Pick<
-  DiscoveryV2,
-  'query' | 'getAutocompletion' | 'listCollections' | 'getComponentSettings' | 'listFields'
->;
+/**
+ * Every request sent by the components to the search client includes a `signal`, which is aborted
+ * as soon as the response is no longer needed (ie. a newer search was sent). The components then
+ * stop waiting for the response, but the HTTP request is only cancelled if the search client
+ * supports it: the `DiscoveryV2` client of `ibm-watson` ignores the signal, while custom search
+ * clients can pass it to `fetch`.
+ */
+export interface AbortableParams {
+  signal?: AbortSignal;
+}
+
+export type SearchClientMethod =
+  | 'query'
+  | 'getAutocompletion'
+  | 'listCollections'
+  | 'getComponentSettings'
+  | 'listFields';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AbortableMethod<T extends (...args: any) => any> = (
+  params: Parameters<T>[0] & AbortableParams
+) => ReturnType<T>;
+
+export type SearchClient = {
+  [method in SearchClientMethod]: AbortableMethod<DiscoveryV2[method]>;
+};
+
+export type TrainingSearchClientMethod =
+  | 'listTrainingQueries'
+  | 'createTrainingQuery'
+  | 'updateTrainingQuery';
+
+/**
+ * Search client able to manage the training queries of the project, required to submit relevancy
+ * feedback on the results
+ */
+export type TrainingSearchClient = SearchClient &
+  {
+    [method in TrainingSearchClientMethod]: AbortableMethod<DiscoveryV2[method]>;
+  };
@@ -2,13 +2,15 @@ import React, { FC, ReactElement, useContext, useEffect, useState } from 'react'
 import { SkeletonText } from 'carbon-components-react';
 import { settings } from 'carbon-components';
 import { QueryResult, QueryResultPassage, QueryTableResult } from 'ibm-watson/discovery/v2';
-import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import { PreviewToolbar } from './components/PreviewToolbar/PreviewToolbar';
 import SimpleDocument from './components/SimpleDocument/SimpleDocument';
 import withErrorBoundary, { WithErrorBoundaryProps } from 'utils/hoc/withErrorBoundary';
 import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
 import HtmlView from './components/HtmlView/HtmlView';
 import { isCsvFile, isJsonFile } from './utils/documentData';
+import get from 'lodash/get';
 
 const { ZOOM_IN, ZOOM_OUT } = PreviewToolbar;
 
@@ -29,7 +31,7 @@ interface Props extends WithErrorBoundaryProps {
   /**
    * i18n messages for the component
    */
-  messages?: Messages;
+  messages?: Partial<Messages>;
 }
 
 const SCALE_FACTOR = 1.2;
@@ -38,10 +40,12 @@ const DocumentPreview: FC<Props> = ({
   document,
   file,
   highlight,
-  messages = defaultMessages,
+  messages: messagesProp,
   didCatch
 }) => {
+  const messages = useMessages('DocumentPreview', defaultMessages, messagesProp);
   const { selectedResult } = useContext(SearchContext);
+  const { emitEvent } = useContext(SearchApi);
   // document prop takes precedence over that in context
   const doc = document || selectedResult.document;
   highlight = highlight || selectedResult.element || undefined;
@@ -60,6 +64,16 @@ const DocumentPreview: FC<Props> = ({
     // setLoading(true);
   }, [doc]);
 
+  useEffect(() => {
+    if (doc) {
+      emitEvent({
+        type: 'document_previewed',
+        documentId: doc.document_id,
+        collectionId: get(doc, 'result_metadata.collection_id')
+      });
+    }
+  }, [doc, emitEvent]);
+
   const base = `${settings.prefix}--document-preview`;
 
   return (
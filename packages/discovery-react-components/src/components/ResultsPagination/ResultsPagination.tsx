@@ -1,14 +1,14 @@
-import React, { FC, useContext, useState, useEffect } from 'react';
+import React, { FC, useContext } from 'react';
 import { Pagination as CarbonPagination } from 'carbon-components-react';
-import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
-import DiscoveryV2 from 'ibm-watson/discovery/v2';
-import get from 'lodash/get';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import { settings } from 'carbon-components';
 import { withErrorBoundary } from 'react-error-boundary';
 import { FallbackComponent } from 'utils/FallbackComponent';
 import onErrorCallback from 'utils/onErrorCallback';
 import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
 import { formatMessage } from 'utils/formatMessage';
+import { usePagination } from './usePagination';
 
 export interface ResultsPaginationProps {
   /**
@@ -52,39 +52,21 @@ const ResultsPagination: FC<ResultsPaginationProps> = ({
   pageSizes = [10, 20, 30, 40, 50],
   pageSize,
   showPageSizeSelector = true,
-  messages = defaultMessages,
+  messages,
   onChange,
   ...inputProps
 }) => {
-  const mergedMessages = { ...defaultMessages, ...messages };
-  const { performSearch, setSearchParameters } = useContext(SearchApi);
+  const mergedMessages = useMessages('ResultsPagination', defaultMessages, messages);
+  const { componentSettings, isResultsPaginationComponentHidden, locale } = useContext(
+    SearchContext
+  );
   const {
-    searchResponseStore: { data: searchResponse, parameters: searchParameters },
-    componentSettings,
-    isResultsPaginationComponentHidden
-  } = useContext(SearchContext);
-  const [currentPage, setCurrentPage] = useState(page);
-  const resultsPerPage = get(componentSettings, 'results_per_page', 10);
+    page: currentPage,
+    pageSize: actualPageSize,
+    totalItems: matchingResults,
+    goToPage
+  } = usePagination({ page, pageSize });
 
-  useEffect(() => {
-    if (!!pageSize || !!resultsPerPage) {
-      setSearchParameters((currentSearchParameters: DiscoveryV2.QueryParams) => {
-        return { ...currentSearchParameters, count: pageSize || resultsPerPage };
-      });
-    }
-  }, [setSearchParameters, pageSize, resultsPerPage]);
-
-  useEffect(() => {
-    const actualPageSize = searchParameters.count || 10;
-    const actualOffset = searchParameters.offset || 0;
-    const pageFromOffset = Math.floor(actualOffset / actualPageSize) + 1;
-    if (currentPage !== pageFromOffset) {
-      setCurrentPage(pageFromOffset);
-    }
-  }, [currentPage, searchParameters.count, searchParameters.offset]);
-
-  const matchingResults = (searchResponse && searchResponse.matching_results) || 0;
-  const actualPageSize = searchParameters.count || 10;
   // the default behavior of Carbon is to discard pageSize if it is not included in pageSizes,
   // we instead choose to make it so that pageSize is appended to pageSizes if it is not already included.
   if (!pageSizes.includes(actualPageSize)) {
@@ -101,25 +83,20 @@ const ResultsPagination: FC<ResultsPaginationProps> = ({
     if (onChange) {
       onChange(evt);
     }
-    const { page, pageSize } = evt;
-    const offset = (page - 1) * pageSize;
-    setCurrentPage(page);
-    performSearch(
-      {
-        ...searchParameters,
-        count: pageSize,
-        offset
-      },
-      false
-    );
+    goToPage(evt.page, evt.pageSize);
   };
 
   const handleItemRangeText = (min: number, max: number, total: number) => {
-    return formatMessage(mergedMessages.itemRangeText, { min: min, max: max, total: total }, false);
+    return formatMessage(
+      mergedMessages.itemRangeText,
+      { min: min, max: max, total: total },
+      false,
+      locale
+    );
   };
 
   const handlePageRangeText = (_current: number, total: number) => {
-    return formatMessage(mergedMessages.pageRangeText, { total: total }, false);
+    return formatMessage(mergedMessages.pageRangeText, { total: total }, false, locale);
   };
 
   if (!!componentSettings) {
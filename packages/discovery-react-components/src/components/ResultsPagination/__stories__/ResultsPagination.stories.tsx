@@ -1,6 +1,6 @@
 import React from 'react';
 import { storiesOf } from '@storybook/react';
-import { array, text, boolean, number, object } from '@storybook/addon-knobs/react';
+import { array, text, boolean, number, object, select } from '@storybook/addon-knobs/react';
 import DiscoverySearch, { DiscoverySearchProps } from 'components/DiscoverySearch/DiscoverySearch';
 import { DummySearchClient } from 'utils/storybookUtils';
 import overrideSearchResults from '../__fixtures__/searchResults';
@@ -42,4 +42,12 @@ storiesOf('ResultsPagination', module)
         <ResultsPagination {...props()} />
       </DiscoverySearch>
     );
+  })
+  .add('localized', () => {
+    const locale = select('Locale (locale)', ['en', 'de', 'es', 'fr', 'ja'], 'de');
+    return (
+      <DiscoverySearch {...discoverySearchProps()} locale={locale}>
+        <ResultsPagination />
+      </DiscoverySearch>
+    );
   });
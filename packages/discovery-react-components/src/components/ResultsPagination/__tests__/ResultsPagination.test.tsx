@@ -241,5 +241,55 @@ describe('ResultsPaginationComponent', () => {
         });
       });
     });
+
+    describe('when there is a single result', () => {
+      test('it uses the singular form of the default messages', () => {
+        const { getByText } = setup(
+          {},
+          {
+            searchResponseStore: {
+              ...searchResponseStoreDefaults,
+              parameters: { projectId: '', count: 25 },
+              data: {
+                matching_results: 1
+              }
+            }
+          }
+        );
+
+        expect(getByText('1–1 of 1 result')).toBeInTheDocument();
+        expect(getByText('of 1 page')).toBeInTheDocument();
+      });
+    });
+
+    describe('when a locale is set on DiscoverySearch', () => {
+      test('it displays the messages of the locale with localized numbers', () => {
+        const { getByText } = setup(
+          {},
+          {
+            locale: 'de-DE',
+            searchResponseStore: {
+              ...searchResponseStoreDefaults,
+              parameters: { projectId: '', count: 25 },
+              data: {
+                matching_results: 1234
+              }
+            }
+          }
+        );
+
+        expect(getByText('1–25 von 1.234 Ergebnissen')).toBeInTheDocument();
+        expect(getByText('Elemente pro Seite:')).toBeInTheDocument();
+      });
+
+      test('it displays the overridden messages instead of the messages of the locale', () => {
+        const { getByText } = setup(
+          { messages: { itemsPerPageText: 'Results per page:' } },
+          { locale: 'de' }
+        );
+
+        expect(getByText('Results per page:')).toBeInTheDocument();
+      });
+    });
   });
 });
@@ -0,0 +1,91 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import { usePagination, UsePaginationOptions } from '../usePagination';
+
+const setup = (
+  options: UsePaginationOptions = {},
+  contextOverrides: Partial<SearchContextIFC> = {}
+) => {
+  const performSearchMock = jest.fn();
+  const setSearchParametersMock = jest.fn();
+  const emitEventMock = jest.fn();
+  const context: Partial<SearchContextIFC> = {
+    componentSettings: {},
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      data: { matching_results: 55 },
+      parameters: { projectId: '', count: 10, offset: 20 }
+    },
+    ...contextOverrides
+  };
+  const wrapper: React.FC = ({ children }) =>
+    wrapWithContext(
+      <>{children}</>,
+      {
+        performSearch: performSearchMock,
+        setSearchParameters: setSearchParametersMock,
+        emitEvent: emitEventMock
+      },
+      context
+    );
+  const { result } = renderHook(() => usePagination(options), { wrapper });
+  return { result, performSearchMock, setSearchParametersMock, emitEventMock };
+};
+
+describe('usePagination', () => {
+  test('returns the pagination of the current search', () => {
+    const { result } = setup();
+    expect(result.current).toMatchObject({
+      page: 3,
+      pageSize: 10,
+      totalItems: 55,
+      totalPages: 6
+    });
+  });
+
+  test('sets the count from the pageSize option or the component settings', () => {
+    const { setSearchParametersMock } = setup(
+      { pageSize: 25 },
+      { componentSettings: { results_per_page: 15 } }
+    );
+    const updateParameters = setSearchParametersMock.mock.calls[0][0];
+    expect(updateParameters({ projectId: '', count: 10 })).toEqual({ projectId: '', count: 25 });
+  });
+
+  test('searches with the offset of the requested page', () => {
+    const { result, performSearchMock } = setup();
+    act(() => {
+      result.current.goToPage(2);
+    });
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({ count: 10, offset: 10 }),
+      false
+    );
+
+    act(() => {
+      result.current.goToPage(3, 20);
+    });
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({ count: 20, offset: 40 }),
+      false
+    );
+  });
+
+  test('emits a page_changed event', () => {
+    const { result, emitEventMock } = setup();
+    act(() => {
+      result.current.goToPage(4);
+    });
+    expect(emitEventMock).toBeCalledWith({
+      type: 'page_changed',
+      page: 4,
+      previousPage: 3,
+      pageSize: 10
+    });
+  });
+});
@@ -15,7 +15,7 @@ export interface Messages {
 }
 
 export const defaultMessages: Messages = {
-  itemRangeText: '{min}–{max} of {total} results',
+  itemRangeText: '{min}–{max} of {total, plural, one {# result} other {# results}}',
   itemsPerPageText: 'Items per page:',
-  pageRangeText: 'of {total} pages'
+  pageRangeText: 'of {total, plural, one {# page} other {# pages}}'
 };
@@ -0,0 +1,100 @@
+import { useContext, useEffect, useState } from 'react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+
+export interface UsePaginationOptions {
+  /**
+   * initial page
+   */
+  page?: number;
+  /**
+   * number of results per page. Defaults to the `results_per_page` component setting
+   */
+  pageSize?: number;
+}
+
+export interface PaginationState {
+  /**
+   * current page, starting at 1
+   */
+  page: number;
+  /**
+   * number of results per page of the current search
+   */
+  pageSize: number;
+  /**
+   * number of results matching the current search
+   */
+  totalItems: number;
+  /**
+   * number of pages of the current search
+   */
+  totalPages: number;
+  /**
+   * search for the results of a page
+   * @param page - page to show, starting at 1
+   * @param pageSize - number of results per page, defaults to the current page size
+   */
+  goToPage: (page: number, pageSize?: number) => void;
+}
+
+/**
+ * Headless hook returning the pagination of the current search, to render a pagination with
+ * custom markup
+ * @param options - pagination options
+ */
+export const usePagination = ({
+  page = 1,
+  pageSize
+}: UsePaginationOptions = {}): PaginationState => {
+  const { performSearch, setSearchParameters, emitEvent } = useContext(SearchApi);
+  const {
+    searchResponseStore: { data: searchResponse, parameters: searchParameters },
+    componentSettings
+  } = useContext(SearchContext);
+  const [currentPage, setCurrentPage] = useState(page);
+  const resultsPerPage = get(componentSettings, 'results_per_page', 10);
+
+  useEffect(() => {
+    if (!!pageSize || !!resultsPerPage) {
+      setSearchParameters((currentSearchParameters: DiscoveryV2.QueryParams) => {
+        return { ...currentSearchParameters, count: pageSize || resultsPerPage };
+      });
+    }
+  }, [setSearchParameters, pageSize, resultsPerPage]);
+
+  useEffect(() => {
+    const actualPageSize = searchParameters.count || 10;
+    const actualOffset = searchParameters.offset || 0;
+    const pageFromOffset = Math.floor(actualOffset / actualPageSize) + 1;
+    if (currentPage !== pageFromOffset) {
+      setCurrentPage(pageFromOffset);
+    }
+  }, [currentPage, searchParameters.count, searchParameters.offset]);
+
+  const matchingResults = (searchResponse && searchResponse.matching_results) || 0;
+  const actualPageSize = searchParameters.count || 10;
+
+  const goToPage = (page: number, pageSize: number = actualPageSize): void => {
+    const offset = (page - 1) * pageSize;
+    setCurrentPage(page);
+    emitEvent({ type: 'page_changed', page, previousPage: currentPage, pageSize });
+    performSearch(
+      {
+        ...searchParameters,
+        count: pageSize,
+        offset
+      },
+      false
+    );
+  };
+
+  return {
+    page: currentPage,
+    pageSize: actualPageSize,
+    totalItems: matchingResults,
+    totalPages: Math.ceil(matchingResults / actualPageSize),
+    goToPage
+  };
+};
@@ -0,0 +1,69 @@
+import React, { FC, useContext } from 'react';
+import { Dropdown } from 'carbon-components-react';
+import { withErrorBoundary } from 'react-error-boundary';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { FallbackComponent } from 'utils/FallbackComponent';
+import onErrorCallback from 'utils/onErrorCallback';
+import { formatMessage } from 'utils/formatMessage';
+import { useMessages } from 'utils/useMessages';
+import { SortField, SortOption, useResultsSort } from './useResultsSort';
+import { baseClass } from './cssClasses';
+import { defaultMessages, Messages } from './messages';
+
+export interface ResultsSortProps {
+  /**
+   * fields the results can be sorted on, with their labels. Defaults to the date and numeric
+   * fields of the project
+   */
+  fields?: SortField[];
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages?: Partial<Messages>;
+}
+
+const ResultsSort: FC<ResultsSortProps> = ({ fields, messages }) => {
+  const mergedMessages = useMessages('ResultsSort', defaultMessages, messages);
+  const { locale } = useContext(SearchContext);
+  const { options, selectedOption, setSort } = useResultsSort({ fields });
+
+  const getOptionText = (option: SortOption | null): string => {
+    if (!option) {
+      return '';
+    }
+    if (!option.field) {
+      return mergedMessages.relevanceOptionText;
+    }
+    const message =
+      option.direction === 'ascending'
+        ? mergedMessages.ascendingOptionText
+        : mergedMessages.descendingOptionText;
+    return formatMessage(
+      message,
+      { field: option.field.label || option.field.field },
+      false,
+      locale
+    ).join('');
+  };
+
+  return (
+    <div className={baseClass}>
+      <Dropdown
+        id={`${baseClass}__dropdown`}
+        type="inline"
+        titleText={mergedMessages.labelText}
+        label={mergedMessages.labelText}
+        items={options}
+        itemToString={getOptionText}
+        selectedItem={selectedOption}
+        onChange={({ selectedItem }: { selectedItem: SortOption | null }): void => {
+          if (selectedItem) {
+            setSort(selectedItem.sort);
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default withErrorBoundary(ResultsSort, FallbackComponent('ResultsSort'), onErrorCallback);
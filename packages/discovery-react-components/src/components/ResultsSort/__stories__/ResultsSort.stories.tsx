@@ -0,0 +1,68 @@
+import React from 'react';
+import { storiesOf } from '@storybook/react';
+import { object, text } from '@storybook/addon-knobs/react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { action } from '@storybook/addon-actions';
+import { StoryWrapper, DummySearchClient } from 'utils/storybookUtils';
+import { createDummyResponsePromise } from 'utils/testingUtils';
+import DiscoverySearch, { DiscoverySearchProps } from 'components/DiscoverySearch/DiscoverySearch';
+import ResultsSort from '../ResultsSort';
+import { defaultMessages } from '../messages';
+import marked from 'marked';
+import defaultReadme from './default.md';
+
+const props = () => ({
+  messages: object("Default messages for the component's text strings", defaultMessages)
+});
+
+class DummySearchClientWithFields extends DummySearchClient {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public async listFields(listFieldsParams: DiscoveryV2.ListFieldsParams): Promise<any> {
+    action('listFields')(listFieldsParams);
+    return createDummyResponsePromise({
+      fields: [
+        { field: 'publication_date', type: 'date', collection_id: 'collection_1' },
+        { field: 'price', type: 'double', collection_id: 'collection_1' },
+        { field: 'title', type: 'string', collection_id: 'collection_1' }
+      ]
+    });
+  }
+}
+
+const discoverySearchProps = (): DiscoverySearchProps => ({
+  searchClient: new DummySearchClientWithFields(),
+  projectId: text('Project ID', 'project-id')
+});
+
+storiesOf('ResultsSort', module)
+  .addParameters({ component: ResultsSort })
+  .add(
+    'default',
+    () => {
+      return (
+        <StoryWrapper>
+          <DiscoverySearch {...discoverySearchProps()}>
+            <ResultsSort {...props()} />
+          </DiscoverySearch>
+        </StoryWrapper>
+      );
+    },
+    {
+      info: {
+        text: marked(defaultReadme)
+      }
+    }
+  )
+  .add('custom fields', () => {
+    const fields = object('Sortable fields (fields)', [
+      { field: 'title', label: 'Title' },
+      { field: 'publication_date', label: 'Publication date' }
+    ]);
+    return (
+      <StoryWrapper>
+        <DiscoverySearch {...discoverySearchProps()}>
+          <ResultsSort fields={fields} {...props()} />
+        </DiscoverySearch>
+      </StoryWrapper>
+    );
+  });
@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, fireEvent, RenderResult } from '@testing-library/react';
+import {
+  SearchApiIFC,
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import ResultsSort, { ResultsSortProps } from '../ResultsSort';
+import { getSortableFields } from '../useResultsSort';
+
+const fieldsResponse = {
+  fields: [
+    { field: 'publication_date', type: 'date', collection_id: 'collection_1' },
+    { field: 'publication_date', type: 'date', collection_id: 'collection_2' },
+    { field: 'price', type: 'double', collection_id: 'collection_1' },
+    { field: 'title', type: 'string', collection_id: 'collection_1' },
+    { field: 'enriched_text', type: 'nested', collection_id: 'collection_1' }
+  ]
+};
+
+interface Setup extends RenderResult {
+  performSearchMock: jest.Mock;
+  fetchFieldsMock: jest.Mock;
+  emitEventMock: jest.Mock;
+}
+
+const setup = (props: ResultsSortProps = {}, sort?: string): Setup => {
+  const performSearchMock = jest.fn();
+  const fetchFieldsMock = jest.fn();
+  const emitEventMock = jest.fn();
+  const api: Partial<SearchApiIFC> = {
+    performSearch: performSearchMock,
+    fetchFields: fetchFieldsMock,
+    emitEvent: emitEventMock
+  };
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: { projectId: '', naturalLanguageQuery: 'cats', offset: 20, sort }
+    },
+    fieldsStore: {
+      data: fieldsResponse,
+      isLoading: false,
+      isError: false,
+      error: null,
+      parameters: { projectId: '' }
+    }
+  };
+  const result = render(wrapWithContext(<ResultsSort {...props} />, api, context));
+  return { ...result, performSearchMock, fetchFieldsMock, emitEventMock };
+};
+
+describe('<ResultsSort />', () => {
+  test('offers relevance and both orders of the date and numeric fields of the project', () => {
+    const { getByText, queryByText, fetchFieldsMock } = setup();
+    expect(fetchFieldsMock).toHaveBeenCalled();
+
+    fireEvent.click(getByText('Relevance'));
+    expect(getByText('publication_date (ascending)')).toBeInTheDocument();
+    expect(getByText('publication_date (descending)')).toBeInTheDocument();
+    expect(getByText('price (ascending)')).toBeInTheDocument();
+    expect(getByText('price (descending)')).toBeInTheDocument();
+    expect(queryByText('title (ascending)')).toBeNull();
+  });
+
+  test('offers the fields passed as a prop, with their labels', () => {
+    const { getByText, queryByText, fetchFieldsMock } = setup({
+      fields: [{ field: 'title', label: 'Title' }]
+    });
+    expect(fetchFieldsMock).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Relevance'));
+    expect(getByText('Title (ascending)')).toBeInTheDocument();
+    expect(getByText('Title (descending)')).toBeInTheDocument();
+    expect(queryByText('price (ascending)')).toBeNull();
+  });
+
+  test('reflects the sort of the current search', () => {
+    const { getByText } = setup({}, '+price');
+    expect(getByText('price (ascending)')).toBeInTheDocument();
+  });
+
+  test('searches again from the first page with the selected sort', () => {
+    const { getByText, performSearchMock, emitEventMock } = setup({}, 'price');
+
+    fireEvent.click(getByText('price (ascending)'));
+    fireEvent.click(getByText('publication_date (descending)'));
+
+    expect(performSearchMock).toHaveBeenCalledWith(
+      { projectId: '', naturalLanguageQuery: 'cats', offset: 0, sort: '-publication_date' },
+      false
+    );
+    expect(emitEventMock).toHaveBeenCalledWith({
+      type: 'sort_changed',
+      sort: '-publication_date',
+      previousSort: 'price'
+    });
+  });
+
+  test('removes the sort when sorting by relevance', () => {
+    const { getByText, performSearchMock } = setup({}, '-price');
+
+    fireEvent.click(getByText('price (descending)'));
+    fireEvent.click(getByText('Relevance'));
+
+    expect(performSearchMock).toHaveBeenCalledWith(
+      { projectId: '', naturalLanguageQuery: 'cats', offset: 0, sort: undefined },
+      false
+    );
+  });
+
+  test('uses the overridden messages', () => {
+    const { getByText } = setup({ messages: { relevanceOptionText: 'Best match' } });
+    expect(getByText('Best match')).toBeInTheDocument();
+  });
+});
+
+describe('getSortableFields', () => {
+  test('returns each date and numeric field once', () => {
+    expect(getSortableFields(fieldsResponse)).toEqual([
+      { field: 'publication_date' },
+      { field: 'price' }
+    ]);
+  });
+
+  test('returns no fields without a response', () => {
+    expect(getSortableFields(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,3 @@
+import { settings } from 'carbon-components';
+
+export const baseClass = `${settings.prefix}--results-sort`;
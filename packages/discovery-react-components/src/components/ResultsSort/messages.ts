@@ -0,0 +1,25 @@
+export interface Messages {
+  /**
+   * override the default label of the sort dropdown
+   */
+  labelText: string;
+  /**
+   * override the default text of the option sorting the results by relevance
+   */
+  relevanceOptionText: string;
+  /**
+   * override the default text of the options sorting the results in ascending order. Use {field} for the label of the field
+   */
+  ascendingOptionText: string;
+  /**
+   * override the default text of the options sorting the results in descending order. Use {field} for the label of the field
+   */
+  descendingOptionText: string;
+}
+
+export const defaultMessages: Messages = {
+  labelText: 'Sort by',
+  relevanceOptionText: 'Relevance',
+  ascendingOptionText: '{field} (ascending)',
+  descendingOptionText: '{field} (descending)'
+};
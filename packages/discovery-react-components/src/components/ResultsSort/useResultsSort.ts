@@ -0,0 +1,127 @@
+import { useContext, useEffect } from 'react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+
+export interface SortField {
+  /**
+   * field to sort the results on
+   */
+  field: string;
+  /**
+   * label of the field, defaults to the field
+   */
+  label?: string;
+}
+
+export interface SortOption {
+  /**
+   * value of the `sort` query parameter, or an empty string to sort by relevance
+   */
+  sort: string;
+  /**
+   * sorted field, unless sorting by relevance
+   */
+  field?: SortField;
+  direction: 'relevance' | 'ascending' | 'descending';
+}
+
+export interface UseResultsSortOptions {
+  /**
+   * fields the results can be sorted on. Defaults to the date and numeric fields of the project
+   */
+  fields?: SortField[];
+}
+
+export interface ResultsSortState {
+  /**
+   * sort options: relevance, then ascending and descending for every field
+   */
+  options: SortOption[];
+  /**
+   * option of the `sort` parameter of the current search, or `null` when it sorts on fields
+   * which are not options
+   */
+  selectedOption: SortOption | null;
+  /**
+   * search again from the first page with another sort
+   * @param sort - value of the `sort` query parameter, or an empty string to sort by relevance
+   */
+  setSort: (sort: string) => void;
+}
+
+// types of the fields which can be sorted on without being listed by the `fields` option
+const SORTABLE_FIELD_TYPES = ['date', 'long', 'integer', 'short', 'byte', 'double', 'float'];
+
+export const getSortableFields = (response: DiscoveryV2.ListFieldsResponse | null): SortField[] => {
+  const fields = (response && response.fields) || [];
+  return fields.reduce((sortableFields: SortField[], { field, type }) => {
+    if (
+      field &&
+      type &&
+      SORTABLE_FIELD_TYPES.includes(type) &&
+      !sortableFields.some(sortableField => sortableField.field === field)
+    ) {
+      sortableFields.push({ field });
+    }
+    return sortableFields;
+  }, []);
+};
+
+// `+field` sorts in ascending order, the same as `field`
+const normalizeSort = (sort: string = ''): string =>
+  sort
+    .split(',')
+    .map(key => key.trim().replace(/^\+/, ''))
+    .filter(key => !!key)
+    .join(',');
+
+/**
+ * Headless hook returning the sort options of the results and the sort of the current search, to
+ * render a sort control with custom markup
+ * @param options - sort options
+ */
+export const useResultsSort = ({ fields }: UseResultsSortOptions = {}): ResultsSortState => {
+  const { performSearch, fetchFields, emitEvent } = useContext(SearchApi);
+  const {
+    searchResponseStore: { parameters: searchParameters },
+    fieldsStore: { data: fieldsResponse }
+  } = useContext(SearchContext);
+
+  useEffect(() => {
+    if (!fields) {
+      fetchFields();
+    }
+  }, [fields, fetchFields]);
+
+  const sortFields = fields || getSortableFields(fieldsResponse);
+  const options: SortOption[] = [
+    { sort: '', direction: 'relevance' },
+    ...sortFields.reduce((fieldOptions: SortOption[], field) => {
+      fieldOptions.push(
+        { sort: field.field, field, direction: 'ascending' },
+        { sort: `-${field.field}`, field, direction: 'descending' }
+      );
+      return fieldOptions;
+    }, [])
+  ];
+  const currentSort = normalizeSort(searchParameters.sort);
+  const selectedOption = options.find(option => option.sort === currentSort) || null;
+
+  const setSort = (sort: string): void => {
+    const normalizedSort = normalizeSort(sort);
+    if (normalizedSort === currentSort) {
+      return;
+    }
+    emitEvent({ type: 'sort_changed', sort: normalizedSort, previousSort: currentSort });
+    performSearch(
+      {
+        ...searchParameters,
+        sort: normalizedSort || undefined,
+        offset: 0
+      },
+      false
+    );
+  };
+
+  return { options, selectedOption, setSort };
+};
@@ -0,0 +1,105 @@
+import React, { FC, FormEvent, useState } from 'react';
+import { Button, TextInput } from 'carbon-components-react';
+import { withErrorBoundary } from 'react-error-boundary';
+import { FallbackComponent } from 'utils/FallbackComponent';
+import onErrorCallback from 'utils/onErrorCallback';
+import { SavedSearchItem } from './components/SavedSearchItem/SavedSearchItem';
+import { useSavedSearches } from './useSavedSearches';
+import { SavedSearchStorage } from './utils/savedSearchStorage';
+import {
+  baseClass,
+  savedSearchesFormClass,
+  savedSearchesEmptyClass,
+  savedSearchesErrorClass,
+  savedSearchesListClass
+} from './cssClasses';
+import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
+
+export interface SavedSearchesProps {
+  /**
+   * storage of the saved searches. Defaults to the local storage of the browser
+   */
+  storage?: SavedSearchStorage;
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages?: Partial<Messages>;
+}
+
+const SavedSearches: FC<SavedSearchesProps> = ({ storage, messages }) => {
+  const mergedMessages = useMessages('SavedSearches', defaultMessages, messages);
+  const {
+    savedSearches,
+    isLoading,
+    error,
+    saveSearch,
+    renameSearch,
+    deleteSearch,
+    runSearch
+  } = useSavedSearches({ storage });
+  const [name, setName] = useState('');
+
+  // storage errors are displayed by the component, so they are not thrown again
+  const ignoreError = (): void => {};
+
+  const handleSave = (event: FormEvent): void => {
+    event.preventDefault();
+    if (name.trim()) {
+      saveSearch(name.trim()).catch(ignoreError);
+      setName('');
+    }
+  };
+
+  return (
+    <div className={baseClass}>
+      <form className={savedSearchesFormClass} onSubmit={handleSave}>
+        <TextInput
+          id={`${baseClass}__name`}
+          labelText={mergedMessages.saveSearchLabelText}
+          placeholder={mergedMessages.saveSearchLabelText}
+          hideLabel
+          value={name}
+          onChange={(event: React.ChangeEvent<HTMLInputElement>): void =>
+            setName(event.target.value)
+          }
+        />
+        <Button type="submit" kind="secondary" size="field" disabled={!name.trim()}>
+          {mergedMessages.saveSearchButtonText}
+        </Button>
+      </form>
+      {error && (
+        <div className={savedSearchesErrorClass} role="alert">
+          {mergedMessages.storageErrorText}
+        </div>
+      )}
+      {!isLoading && !savedSearches.length && (
+        <p className={savedSearchesEmptyClass}>{mergedMessages.noSavedSearchesText}</p>
+      )}
+      {!!savedSearches.length && (
+        <ul className={savedSearchesListClass}>
+          {savedSearches.map(savedSearch => (
+            <SavedSearchItem
+              key={savedSearch.id}
+              savedSearch={savedSearch}
+              onRun={runSearch}
+              onRename={(id, name): void => {
+                renameSearch(id, name).catch(ignoreError);
+              }}
+              onDelete={(id): void => {
+                deleteSearch(id).catch(ignoreError);
+              }}
+              messages={mergedMessages}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default withErrorBoundary(
+  SavedSearches,
+  FallbackComponent('SavedSearches'),
+  onErrorCallback
+);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { storiesOf } from '@storybook/react';
+import { object, text } from '@storybook/addon-knobs/react';
+import { StoryWrapper, DummySearchClient } from 'utils/storybookUtils';
+import DiscoverySearch, { DiscoverySearchProps } from 'components/DiscoverySearch/DiscoverySearch';
+import SearchInput from 'components/SearchInput/SearchInput';
+import SavedSearches from '../SavedSearches';
+import { defaultMessages } from '../messages';
+import marked from 'marked';
+import defaultReadme from './default.md';
+
+const props = () => ({
+  messages: object("Default messages for the component's text strings", defaultMessages)
+});
+
+const discoverySearchProps = (): DiscoverySearchProps => ({
+  searchClient: new DummySearchClient(),
+  projectId: text('Project ID', 'project-id')
+});
+
+storiesOf('SavedSearches', module)
+  .addParameters({ component: SavedSearches })
+  .add(
+    'default',
+    () => {
+      return (
+        <StoryWrapper>
+          <DiscoverySearch {...discoverySearchProps()}>
+            <SearchInput />
+            <SavedSearches {...props()} />
+          </DiscoverySearch>
+        </StoryWrapper>
+      );
+    },
+    {
+      info: {
+        text: marked(defaultReadme)
+      }
+    }
+  );
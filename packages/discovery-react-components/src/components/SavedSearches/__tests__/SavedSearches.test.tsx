@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, fireEvent, wait, RenderResult } from '@testing-library/react';
+import { SearchApiIFC } from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import { SearchState } from 'utils/searchState';
+import SavedSearches from '../SavedSearches';
+import {
+  SavedSearch,
+  SavedSearchStorage,
+  createMemorySavedSearchStorage
+} from '../utils/savedSearchStorage';
+
+const state: SearchState = {
+  version: 1,
+  naturalLanguageQuery: 'tiger',
+  filter: 'animal:cat',
+  collectionIds: []
+};
+
+const savedSearch: SavedSearch = {
+  id: 'search1',
+  name: 'Cats',
+  state,
+  savedAt: '2020-01-01T00:00:00.000Z'
+};
+
+interface Setup {
+  result: RenderResult;
+  storage: SavedSearchStorage;
+  getSearchState: jest.Mock;
+  restoreSearchState: jest.Mock;
+}
+
+const setup = (storage = createMemorySavedSearchStorage([savedSearch])): Setup => {
+  const getSearchState = jest.fn(() => ({ ...state, naturalLanguageQuery: 'lion' }));
+  const restoreSearchState = jest.fn();
+  const api: Partial<SearchApiIFC> = { getSearchState, restoreSearchState };
+  jest.spyOn(storage, 'save');
+  const result = render(wrapWithContext(<SavedSearches storage={storage} />, api, {}));
+  return { result, storage, getSearchState, restoreSearchState };
+};
+
+const getButton = ({ getByText }: RenderResult, text: string) => {
+  return getByText(text).closest('button') as HTMLButtonElement;
+};
+
+describe('<SavedSearches />', () => {
+  test('lists the saved searches', async () => {
+    const {
+      result: { findByText }
+    } = setup();
+    expect(await findByText('Cats')).toBeDefined();
+  });
+
+  test('displays a message when there is no saved search', async () => {
+    const {
+      result: { findByText }
+    } = setup(createMemorySavedSearchStorage());
+    expect(await findByText('There are no saved searches')).toBeDefined();
+  });
+
+  test('saves the current search', async () => {
+    const {
+      result: { getByPlaceholderText, getByText, findByText },
+      storage
+    } = setup(createMemorySavedSearchStorage());
+
+    fireEvent.change(getByPlaceholderText('Search name'), { target: { value: 'Lions' } });
+    fireEvent.click(getByText('Save search'));
+
+    expect(await findByText('Lions')).toBeDefined();
+    expect(storage.save).toHaveBeenCalledWith([
+      expect.objectContaining({ name: 'Lions', state: { ...state, naturalLanguageQuery: 'lion' } })
+    ]);
+  });
+
+  test('runs a saved search', async () => {
+    const {
+      result: { findByLabelText },
+      restoreSearchState
+    } = setup();
+
+    fireEvent.click(await findByLabelText('Run the saved search Cats'));
+    expect(restoreSearchState).toHaveBeenCalledWith(state);
+  });
+
+  test('renames a saved search', async () => {
+    const { result, storage } = setup();
+    await result.findByText('Cats');
+
+    fireEvent.click(getButton(result, 'Rename'));
+    fireEvent.change(result.getByDisplayValue('Cats'), { target: { value: 'Tigers' } });
+    fireEvent.click(result.getByText('Save'));
+
+    expect(await result.findByText('Tigers')).toBeDefined();
+    expect(storage.save).toHaveBeenCalledWith([{ ...savedSearch, name: 'Tigers' }]);
+  });
+
+  test('deletes a saved search', async () => {
+    const { result, storage } = setup();
+    await result.findByText('Cats');
+
+    fireEvent.click(getButton(result, 'Delete'));
+
+    expect(await result.findByText('There are no saved searches')).toBeDefined();
+    expect(storage.save).toHaveBeenCalledWith([]);
+  });
+
+  test('displays an error when the saved searches cannot be loaded', async () => {
+    const {
+      result: { findByText }
+    } = setup({
+      load: () => Promise.reject(new Error('failure')),
+      save: () => {}
+    });
+    expect(await findByText('The saved searches could not be loaded or updated')).toBeDefined();
+  });
+
+  test('displays an error when the saved searches cannot be updated', async () => {
+    const storage = createMemorySavedSearchStorage([savedSearch]);
+    storage.save = () => Promise.reject(new Error('failure'));
+    const { result } = setup(storage);
+    await result.findByText('Cats');
+
+    fireEvent.click(getButton(result, 'Delete'));
+    await wait(() =>
+      expect(result.getByText('The saved searches could not be loaded or updated')).toBeDefined()
+    );
+  });
+});
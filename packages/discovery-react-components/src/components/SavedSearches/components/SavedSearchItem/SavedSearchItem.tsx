@@ -0,0 +1,122 @@
+import React, { FC, FormEvent, useContext, useState } from 'react';
+import { Button, TextInput } from 'carbon-components-react';
+import Edit16 from '@carbon/icons-react/lib/edit/16';
+import TrashCan16 from '@carbon/icons-react/lib/trash-can/16';
+import {
+  savedSearchClass,
+  savedSearchRunClass,
+  savedSearchActionsClass
+} from 'components/SavedSearches/cssClasses';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { Messages } from 'components/SavedSearches/messages';
+import { SavedSearch } from 'components/SavedSearches/utils/savedSearchStorage';
+import { formatMessage } from 'utils/formatMessage';
+
+export interface SavedSearchItemProps {
+  /**
+   * saved search to display
+   */
+  savedSearch: SavedSearch;
+  /**
+   * used to search again with the saved search
+   */
+  onRun: (id: string) => void;
+  /**
+   * used to rename the saved search
+   */
+  onRename: (id: string, name: string) => void;
+  /**
+   * used to delete the saved search
+   */
+  onDelete: (id: string) => void;
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Messages;
+}
+
+export const SavedSearchItem: FC<SavedSearchItemProps> = ({
+  savedSearch: { id, name },
+  onRun,
+  onRename,
+  onDelete,
+  messages
+}) => {
+  const { locale } = useContext(SearchContext);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [newName, setNewName] = useState(name);
+
+  const handleRename = (event: FormEvent): void => {
+    event.preventDefault();
+    if (newName.trim()) {
+      onRename(id, newName.trim());
+      setIsRenaming(false);
+    }
+  };
+
+  const handleStartRenaming = (): void => {
+    setNewName(name);
+    setIsRenaming(true);
+  };
+
+  if (isRenaming) {
+    return (
+      <li className={savedSearchClass}>
+        <form onSubmit={handleRename}>
+          <TextInput
+            id={`${savedSearchClass}__rename-${id}`}
+            labelText={messages.renameLabelText}
+            hideLabel
+            size="sm"
+            value={newName}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>): void =>
+              setNewName(event.target.value)
+            }
+          />
+          <div className={savedSearchActionsClass}>
+            <Button type="submit" kind="primary" size="small" disabled={!newName.trim()}>
+              {messages.renameConfirmButtonText}
+            </Button>
+            <Button kind="ghost" size="small" onClick={(): void => setIsRenaming(false)}>
+              {messages.renameCancelButtonText}
+            </Button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className={savedSearchClass}>
+      <button
+        type="button"
+        className={savedSearchRunClass}
+        aria-label={formatMessage(messages.runSearchLabelText, { name }, false, locale).join('')}
+        title={name}
+        onClick={(): void => onRun(id)}
+      >
+        {name}
+      </button>
+      <div className={savedSearchActionsClass}>
+        <Button
+          kind="ghost"
+          size="small"
+          hasIconOnly
+          renderIcon={Edit16}
+          iconDescription={messages.renameButtonText}
+          tooltipPosition="bottom"
+          onClick={handleStartRenaming}
+        />
+        <Button
+          kind="ghost"
+          size="small"
+          hasIconOnly
+          renderIcon={TrashCan16}
+          iconDescription={messages.deleteButtonText}
+          tooltipPosition="bottom"
+          onClick={(): void => onDelete(id)}
+        />
+      </div>
+    </li>
+  );
+};
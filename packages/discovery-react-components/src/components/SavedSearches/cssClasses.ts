@@ -0,0 +1,10 @@
+import { settings } from 'carbon-components';
+
+export const baseClass = `${settings.prefix}--saved-searches`;
+export const savedSearchesFormClass = `${baseClass}__form`;
+export const savedSearchesEmptyClass = `${baseClass}__empty`;
+export const savedSearchesErrorClass = `${baseClass}__error`;
+export const savedSearchesListClass = `${baseClass}__list`;
+export const savedSearchClass = `${settings.prefix}--saved-search`;
+export const savedSearchRunClass = `${savedSearchClass}__run`;
+export const savedSearchActionsClass = `${savedSearchClass}__actions`;
@@ -0,0 +1,55 @@
+export interface Messages {
+  /**
+   * override the default label of the input naming the search to save
+   */
+  saveSearchLabelText: string;
+  /**
+   * override the default text of the button saving the current search
+   */
+  saveSearchButtonText: string;
+  /**
+   * override the default text displayed when there are no saved searches
+   */
+  noSavedSearchesText: string;
+  /**
+   * override the default description of the button running a saved search. Use {name} for the name of the saved search
+   */
+  runSearchLabelText: string;
+  /**
+   * override the default description of the button renaming a saved search
+   */
+  renameButtonText: string;
+  /**
+   * override the default description of the button deleting a saved search
+   */
+  deleteButtonText: string;
+  /**
+   * override the default label of the input renaming a saved search
+   */
+  renameLabelText: string;
+  /**
+   * override the default text of the button confirming the new name of a saved search
+   */
+  renameConfirmButtonText: string;
+  /**
+   * override the default text of the button cancelling the renaming of a saved search
+   */
+  renameCancelButtonText: string;
+  /**
+   * override the default text displayed when the saved searches cannot be loaded or updated
+   */
+  storageErrorText: string;
+}
+
+export const defaultMessages: Messages = {
+  saveSearchLabelText: 'Search name',
+  saveSearchButtonText: 'Save search',
+  noSavedSearchesText: 'There are no saved searches',
+  runSearchLabelText: 'Run the saved search {name}',
+  renameButtonText: 'Rename',
+  deleteButtonText: 'Delete',
+  renameLabelText: 'New name',
+  renameConfirmButtonText: 'Save',
+  renameCancelButtonText: 'Cancel',
+  storageErrorText: 'The saved searches could not be loaded or updated'
+};
@@ -0,0 +1,147 @@
+import { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { SearchApi } from 'components/DiscoverySearch/DiscoverySearch';
+import shortid from 'utils/shortid';
+import {
+  SavedSearch,
+  SavedSearchStorage,
+  createLocalStorageSavedSearchStorage
+} from './utils/savedSearchStorage';
+
+export interface UseSavedSearchesOptions {
+  /**
+   * storage of the saved searches. Defaults to the local storage of the browser
+   */
+  storage?: SavedSearchStorage;
+}
+
+export interface SavedSearchesState {
+  /**
+   * saved searches, in the order they were saved
+   */
+  savedSearches: SavedSearch[];
+  /**
+   * whether the saved searches are being loaded from the storage
+   */
+  isLoading: boolean;
+  /**
+   * error of the last request to the storage, if it failed
+   */
+  error: Error | null;
+  /**
+   * save the current search
+   * @param name - name of the saved search
+   */
+  saveSearch: (name: string) => Promise<SavedSearch>;
+  /**
+   * rename a saved search
+   */
+  renameSearch: (id: string, name: string) => Promise<void>;
+  /**
+   * delete a saved search
+   */
+  deleteSearch: (id: string) => Promise<void>;
+  /**
+   * search again with the state of a saved search
+   */
+  runSearch: (id: string) => void;
+}
+
+/**
+ * Headless hook loading the saved searches from a storage, and saving, renaming, deleting and
+ * running them, to render saved searches with custom markup
+ * @param options - saved searches options
+ */
+export const useSavedSearches = ({ storage }: UseSavedSearchesOptions = {}): SavedSearchesState => {
+  const { getSearchState, restoreSearchState } = useContext(SearchApi);
+  const defaultStorage = useMemo(() => createLocalStorageSavedSearchStorage(), []);
+  const actualStorage = storage || defaultStorage;
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // latest saved searches, so successive updates don't overwrite each other
+  const savedSearchesRef = useRef(savedSearches);
+
+  useEffect(() => {
+    let isCancelled = false;
+    async function loadSavedSearches(): Promise<void> {
+      setIsLoading(true);
+      try {
+        const loadedSavedSearches = await actualStorage.load();
+        if (!isCancelled) {
+          savedSearchesRef.current = loadedSavedSearches;
+          setSavedSearches(loadedSavedSearches);
+          setError(null);
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err);
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+    loadSavedSearches();
+    return (): void => {
+      isCancelled = true;
+    };
+  }, [actualStorage]);
+
+  const updateSavedSearches = async (
+    update: (savedSearches: SavedSearch[]) => SavedSearch[]
+  ): Promise<void> => {
+    const updatedSavedSearches = update(savedSearchesRef.current);
+    savedSearchesRef.current = updatedSavedSearches;
+    setSavedSearches(updatedSavedSearches);
+    try {
+      await actualStorage.save(updatedSavedSearches);
+      setError(null);
+    } catch (err) {
+      setError(err);
+      throw err;
+    }
+  };
+
+  const saveSearch = async (name: string): Promise<SavedSearch> => {
+    const savedSearch: SavedSearch = {
+      id: `${Date.now().toString(36)}_${shortid()}`,
+      name,
+      state: getSearchState(),
+      savedAt: new Date().toISOString()
+    };
+    await updateSavedSearches(savedSearches => [...savedSearches, savedSearch]);
+    return savedSearch;
+  };
+
+  const renameSearch = (id: string, name: string): Promise<void> => {
+    return updateSavedSearches(savedSearches =>
+      savedSearches.map(savedSearch =>
+        savedSearch.id === id ? { ...savedSearch, name } : savedSearch
+      )
+    );
+  };
+
+  const deleteSearch = (id: string): Promise<void> => {
+    return updateSavedSearches(savedSearches =>
+      savedSearches.filter(savedSearch => savedSearch.id !== id)
+    );
+  };
+
+  const runSearch = (id: string): void => {
+    const savedSearch = savedSearchesRef.current.find(savedSearch => savedSearch.id === id);
+    if (savedSearch) {
+      restoreSearchState(savedSearch.state);
+    }
+  };
+
+  return {
+    savedSearches,
+    isLoading,
+    error,
+    saveSearch,
+    renameSearch,
+    deleteSearch,
+    runSearch
+  };
+};
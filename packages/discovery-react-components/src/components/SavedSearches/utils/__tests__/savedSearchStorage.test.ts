@@ -0,0 +1,68 @@
+import {
+  SavedSearch,
+  DEFAULT_STORAGE_KEY,
+  parseSavedSearches,
+  createLocalStorageSavedSearchStorage,
+  createMemorySavedSearchStorage
+} from '../savedSearchStorage';
+
+const savedSearch: SavedSearch = {
+  id: 'search1',
+  name: 'Cats',
+  state: { version: 1, naturalLanguageQuery: 'tiger', filter: 'animal:cat', collectionIds: [] },
+  savedAt: '2020-01-01T00:00:00.000Z'
+};
+
+describe('savedSearchStorage', () => {
+  describe('parseSavedSearches', () => {
+    test('skips the invalid saved searches', () => {
+      expect(
+        parseSavedSearches([
+          savedSearch,
+          { ...savedSearch, id: 2 },
+          { ...savedSearch, state: { ...savedSearch.state, version: 0 } }
+        ])
+      ).toEqual([savedSearch]);
+    });
+
+    test('returns no saved search when the value is not a list', () => {
+      expect(parseSavedSearches({})).toEqual([]);
+    });
+  });
+
+  describe('createMemorySavedSearchStorage', () => {
+    test('loads the saved searches', () => {
+      const storage = createMemorySavedSearchStorage([savedSearch]);
+      expect(storage.load()).toEqual([savedSearch]);
+      storage.save([]);
+      expect(storage.load()).toEqual([]);
+    });
+  });
+
+  describe('createLocalStorageSavedSearchStorage', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('stores the saved searches in the local storage', () => {
+      const storage = createLocalStorageSavedSearchStorage();
+      expect(storage.load()).toEqual([]);
+      storage.save([savedSearch]);
+      expect(JSON.parse(window.localStorage.getItem(DEFAULT_STORAGE_KEY) || '')).toEqual([
+        savedSearch
+      ]);
+      expect(createLocalStorageSavedSearchStorage().load()).toEqual([savedSearch]);
+    });
+
+    test('uses a custom key', () => {
+      createLocalStorageSavedSearchStorage('searches').save([savedSearch]);
+      expect(window.localStorage.getItem(DEFAULT_STORAGE_KEY)).toBeNull();
+      expect(createLocalStorageSavedSearchStorage('searches').load()).toEqual([savedSearch]);
+    });
+
+    test('ignores an invalid value', () => {
+      window.localStorage.setItem(DEFAULT_STORAGE_KEY, '{');
+      expect(createLocalStorageSavedSearchStorage().load()).toEqual([]);
+    });
+  });
+});
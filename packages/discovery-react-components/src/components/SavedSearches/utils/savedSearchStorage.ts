@@ -0,0 +1,86 @@
+import { SearchState, parseSearchState } from 'utils/searchState';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  state: SearchState;
+  /**
+   * ISO 8601 date the search was saved
+   */
+  savedAt: string;
+}
+
+/**
+ * storage of the saved searches. Both methods can be async, ie. to store the saved searches of a
+ * user on a server
+ */
+export interface SavedSearchStorage {
+  load: () => SavedSearch[] | Promise<SavedSearch[]>;
+  save: (savedSearches: SavedSearch[]) => void | Promise<void>;
+}
+
+export const DEFAULT_STORAGE_KEY = 'discovery-saved-searches';
+
+/**
+ * validate the saved searches read from a storage, skipping the invalid ones
+ * @param value - saved searches to validate
+ */
+export const parseSavedSearches = (value: unknown): SavedSearch[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.reduce((savedSearches: SavedSearch[], savedSearch) => {
+    try {
+      const { id, name, state, savedAt } = savedSearch;
+      if (typeof id === 'string' && typeof name === 'string' && typeof savedAt === 'string') {
+        savedSearches.push({ id, name, state: parseSearchState(state), savedAt });
+      }
+    } catch (err) {
+      // saved searches of an unsupported version are skipped
+    }
+    return savedSearches;
+  }, []);
+};
+
+/**
+ * Creates a storage keeping the saved searches in memory, lost when the page is reloaded
+ */
+export const createMemorySavedSearchStorage = (
+  initialSavedSearches: SavedSearch[] = []
+): SavedSearchStorage => {
+  let savedSearches = initialSavedSearches;
+  return {
+    load: () => savedSearches,
+    save: updatedSavedSearches => {
+      savedSearches = updatedSavedSearches;
+    }
+  };
+};
+
+/**
+ * Creates a storage keeping the saved searches in the local storage of the browser. Falls back
+ * to a memory storage when the local storage is not available (ie. disabled by the browser)
+ * @param key - local storage key of the saved searches
+ */
+export const createLocalStorageSavedSearchStorage = (
+  key: string = DEFAULT_STORAGE_KEY
+): SavedSearchStorage => {
+  const memoryStorage = createMemorySavedSearchStorage();
+  return {
+    load: () => {
+      try {
+        const value = window.localStorage.getItem(key);
+        return value ? parseSavedSearches(JSON.parse(value)) : [];
+      } catch (err) {
+        return memoryStorage.load();
+      }
+    },
+    save: savedSearches => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(savedSearches));
+      } catch (err) {
+        memoryStorage.save(savedSearches);
+      }
+    }
+  };
+};
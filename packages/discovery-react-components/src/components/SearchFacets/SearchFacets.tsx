@@ -1,34 +1,26 @@
-import React, { FC, useContext, useEffect, useState, SyntheticEvent } from 'react';
+import React, { FC, useContext, SyntheticEvent } from 'react';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
 import { Button } from 'carbon-components-react';
 import { settings } from 'carbon-components';
 import Close from '@carbon/icons-react/lib/close/16';
-import { SearchContext, SearchApi } from 'components/DiscoverySearch/DiscoverySearch';
-import { mergeFilterFacets } from './utils/mergeFilterFacets';
-import { mergeDynamicFacets } from './utils/mergeDynamicFacets';
-import { SearchFilterTransform } from './utils/searchFilterTransform';
-import {
-  displayMessage,
-  noAvailableFacetsMessage,
-  errorMessage
-} from './utils/searchFacetMessages';
-import {
-  SearchFilterFacets,
-  SelectableDynamicFacets,
-  SelectedCollectionItems
-} from './utils/searchFacetInterfaces';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { displayMessage, noAvailableFacetsMessage } from './utils/searchFacetMessages';
+import { SelectedCollectionItems } from './utils/searchFacetInterfaces';
 import get from 'lodash/get';
 import uuid from 'uuid';
 import { CollectionFacets } from './components/CollectionFacets';
 import { FieldFacets } from './components/FieldFacets';
 import { DynamicFacets } from './components/DynamicFacets';
+import { RangeFacets } from './components/RangeFacets';
+import { TimelineFacets } from './components/TimelineFacets';
 import { defaultMessages, Messages } from './messages';
-import { useDeepCompareEffect } from 'utils/useDeepCompareMemoize';
+import { useMessages } from 'utils/useMessages';
 import { collectionFacetIdPrefix } from './cssClasses';
 import onErrorCallback from 'utils/onErrorCallback';
 import { FallbackComponent } from 'utils/FallbackComponent';
 import { withErrorBoundary } from 'react-error-boundary';
-import useCompare from 'utils/useCompare';
+import { getSearchErrorMessage } from 'utils/searchError';
+import { useFacets } from './useFacets';
 
 interface SearchFacetsProps {
   /**
@@ -60,7 +52,8 @@ interface SearchFacetsProps {
    */
   collapsedFacetsCount?: number;
   /**
-   * Override default message displayed when receiving an error on server request
+   * Override default message displayed when receiving an error on server request.
+   * Use the error `messages` to display a different message for each status code instead
    */
   serverErrorMessage?: React.ReactNode;
   /**
@@ -76,7 +69,7 @@ const SearchFacets: FC<SearchFacetsProps> = ({
   showCollections = true,
   showDynamicFacets = true,
   showMatchingResults = false,
-  messages = defaultMessages,
+  messages,
   overrideComponentSettingsAggregations,
   collapsedFacetsCount = 5,
   serverErrorMessage,
@@ -85,19 +78,25 @@ const SearchFacets: FC<SearchFacetsProps> = ({
   const facetsId = id || `search-facets__${uuid.v4()}`;
 
   const {
-    aggregationResults,
     searchResponseStore: {
-      parameters: searchParameters,
-      parameters: { filter, collectionIds },
-      data: searchResponse
+      parameters: { collectionIds }
     },
-    collectionsResults,
-    componentSettings
+    collectionsResults
   } = useContext(SearchContext);
-
-  const [facetSelectionState, setFacetSelectionState] = useState<SearchFilterFacets>(
-    SearchFilterTransform.fromString(filter || '')
-  );
+  const {
+    fetchState,
+    fetchError,
+    fieldFacets: allFieldFacets,
+    rangeFacets,
+    timelineFacets,
+    dynamicFacets: allDynamicFacets,
+    hasSelection,
+    updateFacets,
+    setRangeFacet,
+    setTimelineFacet,
+    setSelectedCollections,
+    clearAll
+  } = useFacets({ overrideComponentSettingsAggregations });
 
   const collections: DiscoveryV2.Collection[] = get(collectionsResults, 'collections', []);
   const initialSelectedCollectionIds = collectionIds || [];
@@ -116,83 +115,15 @@ const SearchFacets: FC<SearchFacetsProps> = ({
       };
     });
 
-  const [collectionSelectionState, setCollectionSelectionState] = useState<
-    SelectedCollectionItems['selectedItems']
-  >(initialSelectedCollections);
-
-  const [fetchState, setFetchState] = useState<'init' | 'loading' | 'success' | 'error'>('init');
-
-  const { fetchAggregations, performSearch } = useContext(SearchApi);
-  const aggregations = aggregationResults || [];
-  const mergedMessages = { ...defaultMessages, ...messages };
-
-  const componentSettingsAggregations =
-    overrideComponentSettingsAggregations ||
-    (componentSettings && componentSettings.aggregations) ||
-    [];
-
-  const searchParamsAggregationChanged = useCompare(searchParameters.aggregation);
-  useEffect(() => {
-    async function fetchData() {
-      setFetchState('loading');
-      try {
-        await fetchAggregations(searchParameters);
-        setFetchState('success');
-      } catch (error) {
-        setFetchState('error');
-      }
-    }
-
-    if (searchParamsAggregationChanged || fetchState === 'init') {
-      fetchData();
-    }
-  }, [fetchAggregations, fetchState, searchParameters, searchParamsAggregationChanged]);
+  const mergedMessages = useMessages('SearchFacets', defaultMessages, messages);
 
-  useDeepCompareEffect(() => {
-    if (filter === '') {
-      setFacetSelectionState({ filterFields: [], filterDynamic: [] });
-    }
-  }, [aggregations, filter]);
-
-  const allFieldFacets = mergeFilterFacets(
-    aggregations,
-    facetSelectionState.filterFields,
-    componentSettingsAggregations
-  );
-  const allDynamicFacets: SelectableDynamicFacets[] = mergeDynamicFacets(
-    get(searchResponse, 'suggested_refinements', []),
-    facetSelectionState.filterDynamic
-  );
   const shouldShowCollections = showCollections && !!collections;
   const shouldShowFields = !!allFieldFacets && allFieldFacets.length > 0;
+  const shouldShowRanges = rangeFacets.length > 0;
+  const shouldShowTimelines = timelineFacets.length > 0;
   const shouldShowDynamic = showDynamicFacets && !!allDynamicFacets && allDynamicFacets.length > 0;
-  const originalFilters = {
-    filterFields: allFieldFacets,
-    filterDynamic: allDynamicFacets
-  };
-  const hasFieldSelection = facetSelectionState.filterFields.some(aggregation => {
-    return (
-      aggregation.results &&
-      aggregation.results.some(result => {
-        return result.selected;
-      })
-    );
-  });
-  const hasDynamicSelection = facetSelectionState.filterDynamic.some(dynamicFacet => {
-    return dynamicFacet.selected;
-  });
-  const hasCollectionSelection = collectionSelectionState.length > 0;
-  const hasSelection = hasFieldSelection || hasDynamicSelection || hasCollectionSelection;
-
-  const handleOnSearchFacetsChange = (updatedFacets: Partial<SearchFilterFacets>): void => {
-    const newFilters = { ...originalFilters, ...updatedFacets };
-    const filter = SearchFilterTransform.toString(newFilters);
-    setFacetSelectionState(newFilters);
-    performSearch({ ...searchParameters, offset: 0, filter }, false);
-  };
 
   const handleCollectionToggle = (selectedCollectionItems: SelectedCollectionItems) => {
-    setCollectionSelectionState(selectedCollectionItems.selectedItems);
     // Filtering by id !== undefined still threw TS errors, so had to default
     // to '' and filter on that
     const collectionIds = selectedCollectionItems.selectedItems
@@ -212,21 +143,19 @@ const SearchFacets: FC<SearchFacetsProps> = ({
       );
     }
 
-    performSearch({ ...searchParameters, offset: 0, collectionIds });
+    setSelectedCollections(collectionIds);
   };
 
   const handleOnClear = (event: SyntheticEvent<HTMLInputElement>): void => {
     if (onChange) {
       onChange(event);
     }
-    setFacetSelectionState({ filterFields: [], filterDynamic: [] });
-    setCollectionSelectionState([]);
     // We should update to not select with a click
     // when Carbon MultiSelect selection can be controlled and Downshift's action props are exposed
     (document.querySelectorAll(`.${settings.prefix}--list-box__selection--multi`) as NodeListOf<
       HTMLElement
     >).forEach(element => element.click());
-    performSearch({ ...searchParameters, collectionIds: [], offset: 0, filter: '' }, false);
+    clearAll();
   };
 
   if (fetchState === 'loading') {
@@ -235,9 +164,14 @@ const SearchFacets: FC<SearchFacetsProps> = ({
     const errorNode =
       typeof serverErrorMessage === 'string'
         ? displayMessage(serverErrorMessage)
-        : serverErrorMessage || displayMessage(errorMessage);
+        : serverErrorMessage ||
+          displayMessage(
+            fetchError
+              ? getSearchErrorMessage(fetchError, mergedMessages)
+              : mergedMessages.genericErrorText
+          );
     return <> {errorNode} </>;
-  } else if (shouldShowFields || shouldShowCollections) {
+  } else if (shouldShowFields || shouldShowRanges || shouldShowTimelines || shouldShowCollections) {
     return (
       <div id={facetsId} className={`${settings.prefix}--search-facets`}>
         {hasSelection && (
@@ -249,7 +183,7 @@ const SearchFacets: FC<SearchFacetsProps> = ({
             size="small"
             onClick={handleOnClear}
           >
-            {messages.clearAllButtonText}
+            {mergedMessages.clearAllButtonText}
           </Button>
         )}
         {shouldShowFields && (
@@ -257,18 +191,32 @@ const SearchFacets: FC<SearchFacetsProps> = ({
             allFacets={allFieldFacets}
             showMatchingResults={showMatchingResults}
             onChange={onChange}
-            onFieldFacetsChange={handleOnSearchFacetsChange}
+            onFieldFacetsChange={updateFacets}
             collapsedFacetsCount={collapsedFacetsCount}
             messages={mergedMessages}
           />
         )}
+        {shouldShowRanges && (
+          <RangeFacets
+            rangeFacets={rangeFacets}
+            messages={mergedMessages}
+            onRangeFacetChange={setRangeFacet}
+          />
+        )}
+        {shouldShowTimelines && (
+          <TimelineFacets
+            timelineFacets={timelineFacets}
+            messages={mergedMessages}
+            onTimelineFacetChange={setTimelineFacet}
+          />
+        )}
         {shouldShowDynamic && (
           <DynamicFacets
             dynamicFacets={allDynamicFacets}
             showMatchingResults={showMatchingResults}
             messages={mergedMessages}
             onChange={onChange}
-            onDynamicFacetsChange={handleOnSearchFacetsChange}
+            onDynamicFacetsChange={updateFacets}
             collapsedFacetsCount={collapsedFacetsCount}
           />
         )}
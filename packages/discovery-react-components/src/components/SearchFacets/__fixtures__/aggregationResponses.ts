@@ -106,3 +106,92 @@ export const nestedFilterTermAgg: DiscoveryV2.QueryResponse = {
 export const twoNestedFilterTermAgg: DiscoveryV2.QueryResponse = {
   aggregations: [nestedAggregation2, nestedAggregation2]
 };
+
+export const histogramAggregation: DiscoveryV2.QueryHistogramAggregation = {
+  type: 'histogram',
+  field: 'price',
+  interval: 10,
+  name: 'prices',
+  results: [
+    {
+      key: 0,
+      matching_results: 12
+    },
+    {
+      key: 10,
+      matching_results: 30
+    },
+    {
+      key: 20,
+      matching_results: 5
+    }
+  ]
+} as DiscoveryV2.QueryHistogramAggregation;
+
+export const termAndNestedHistogramAggs: DiscoveryV2.QueryResponse = {
+  aggregations: [
+    termAggregation1,
+    {
+      type: 'filter',
+      match: 'category:books',
+      matching_results: 47,
+      aggregations: [histogramAggregation]
+    } as DiscoveryV2.QueryFilterAggregation
+  ]
+};
+
+export const timesliceAggregation: DiscoveryV2.QueryTimesliceAggregation = {
+  type: 'timeslice',
+  field: 'publication_date',
+  interval: '1month',
+  name: 'publications',
+  results: [
+    {
+      key_as_string: '2020-01-01T00:00:00.000Z',
+      key: 1577836800000,
+      matching_results: 40
+    },
+    {
+      key_as_string: '2020-02-01T00:00:00.000Z',
+      key: 1580515200000,
+      matching_results: 25
+    },
+    {
+      key_as_string: '2020-03-01T00:00:00.000Z',
+      key: 1583020800000,
+      matching_results: 60
+    }
+  ]
+} as DiscoveryV2.QueryTimesliceAggregation;
+
+export const categoriesAggregation: DiscoveryV2.QueryTermAggregation = {
+  type: 'term',
+  field: 'enriched_text.categories.label',
+  count: 6,
+  results: [
+    {
+      key: '/technology/software/databases',
+      matching_results: 30
+    },
+    {
+      key: '/technology/hardware',
+      matching_results: 25
+    },
+    {
+      key: '/science/physics',
+      matching_results: 40
+    },
+    {
+      key: '/technology/software/operating systems',
+      matching_results: 20
+    },
+    {
+      key: '/technology',
+      matching_results: 5
+    },
+    {
+      key: '/art and entertainment',
+      matching_results: 10
+    }
+  ]
+};
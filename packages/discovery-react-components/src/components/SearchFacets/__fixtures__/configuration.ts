@@ -104,3 +104,26 @@ export const configurationWithFilterQueryAggregation: QueryAggregationWithName[]
     ]
   }
 ];
+
+export const configurationWithHistogram: QueryAggregationWithName[] = [
+  {
+    type: 'term',
+    field: 'author',
+    count: 5
+  },
+  {
+    type: 'histogram',
+    field: 'price',
+    interval: 10,
+    name: 'prices'
+  }
+];
+
+export const configurationWithTimeslice: QueryAggregationWithName[] = [
+  {
+    type: 'timeslice',
+    field: 'publication_date',
+    interval: '1month',
+    name: 'publications'
+  }
+];
@@ -3,6 +3,11 @@ import { storiesOf } from '@storybook/react';
 import { text, object, boolean, number } from '@storybook/addon-knobs/react';
 import SearchFacets from '../SearchFacets';
 import { facetsQueryResponse } from '../__fixtures__/facetsQueryResponse';
+import {
+  categoriesAggregation,
+  histogramAggregation,
+  timesliceAggregation
+} from '../__fixtures__/aggregationResponses';
 import collectionsResponse from '../__fixtures__/collectionsResponse';
 import aggregationComponentSettingsResponse from '../__fixtures__/componentSettingsResponse';
 import { StoryWrapper, DummySearchClient } from 'utils/storybookUtils';
@@ -44,10 +49,26 @@ class DummySearchClientWithQueryAndCollections extends DummySearchClient {
   }
 }
 
+class DummySearchClientWithAggregationTypes extends DummySearchClientWithQueryAndCollections {
+  query(params: DiscoveryV2.QueryParams): Promise<DiscoveryV2.Response<DiscoveryV2.QueryResponse>> {
+    action('query')(params);
+    return createDummyResponsePromise({
+      ...facetsQueryResponse.result,
+      aggregations: [
+        ...(facetsQueryResponse.result.aggregations || []),
+        categoriesAggregation,
+        histogramAggregation,
+        timesliceAggregation
+      ]
+    });
+  }
+}
+
 const discoverySearchProps = (
-  queryParams?: Partial<DiscoveryV2.QueryParams>
+  queryParams?: Partial<DiscoveryV2.QueryParams>,
+  searchClient: DummySearchClient = new DummySearchClientWithQueryAndCollections()
 ): DiscoverySearchProps => ({
-  searchClient: new DummySearchClientWithQueryAndCollections(),
+  searchClient,
   projectId: text('Project ID', 'project-id'),
   overrideQueryParameters: queryParams,
   overrideSearchResults: {
@@ -139,4 +160,49 @@ storiesOf('SearchFacets', module)
         </DiscoverySearch>
       </StoryWrapper>
     );
+  })
+  .add('with a range facet', () => {
+    const exampleProps = props();
+    return (
+      <StoryWrapper>
+        <DiscoverySearch
+          {...discoverySearchProps(
+            { aggregation: '[histogram(price,interval:10,name:prices)]' },
+            new DummySearchClientWithAggregationTypes()
+          )}
+        >
+          <SearchFacets {...exampleProps} />
+        </DiscoverySearch>
+      </StoryWrapper>
+    );
+  })
+  .add('with a timeline facet', () => {
+    const exampleProps = props();
+    return (
+      <StoryWrapper>
+        <DiscoverySearch
+          {...discoverySearchProps(
+            { aggregation: '[timeslice(publication_date,1month,name:publications)]' },
+            new DummySearchClientWithAggregationTypes()
+          )}
+        >
+          <SearchFacets {...exampleProps} />
+        </DiscoverySearch>
+      </StoryWrapper>
+    );
+  })
+  .add('with a hierarchical facet', () => {
+    const exampleProps = props();
+    return (
+      <StoryWrapper>
+        <DiscoverySearch
+          {...discoverySearchProps(
+            { aggregation: '[term(enriched_text.categories.label,count:6)]' },
+            new DummySearchClientWithAggregationTypes()
+          )}
+        >
+          <SearchFacets {...exampleProps} />
+        </DiscoverySearch>
+      </StoryWrapper>
+    );
   });
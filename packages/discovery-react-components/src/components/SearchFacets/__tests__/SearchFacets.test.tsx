@@ -141,6 +141,21 @@ describe('SearchFacetsComponent', () => {
       const elem = searchFacetsComponent.getByTestId('server-msg-failure');
       expect(elem.textContent).toEqual('FAILURE');
     });
+
+    test('shows the error message for the status when fetch aggregations fails', async () => {
+      const { searchFacetsComponent } = setup({
+        fetchAggregationsMock: jest.fn().mockImplementationOnce(() => {
+          const httpError: any = new Error('Unauthorized');
+          httpError.code = 401;
+          throw httpError;
+        })
+      });
+
+      const errorMsg = await searchFacetsComponent.findByText(
+        'You are not authorized to fetch facets for this project'
+      );
+      expect(errorMsg).toBeVisible();
+    });
   });
 
   describe('field facets', () => {
@@ -0,0 +1,262 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import { InternalQueryTermAggregation } from '../utils/searchFacetInterfaces';
+import {
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import { useFacets, FacetsState } from '../useFacets';
+import collectionsResponse from '../__fixtures__/collectionsResponse';
+
+const aggregations: InternalQueryTermAggregation[] = [
+  {
+    type: 'term',
+    name: 'author',
+    field: 'author',
+    results: [
+      { key: 'ABMN Staff', matching_results: 2 },
+      { key: 'News Staff', matching_results: 1 }
+    ]
+  },
+  {
+    type: 'term',
+    name: 'subject',
+    field: 'subject',
+    results: [
+      { key: 'Animals', matching_results: 2 },
+      { key: 'People', matching_results: 1 }
+    ]
+  }
+];
+
+interface SearchProps {
+  filter: string;
+  collectionIds: string[];
+}
+
+const setup = (
+  filter = '',
+  collectionIds: string[] = [],
+  fetchAggregationsMock = jest.fn().mockResolvedValue(undefined)
+) => {
+  const performSearchMock = jest.fn();
+  const emitEventMock = jest.fn();
+  const getContext = (props: SearchProps): Partial<SearchContextIFC> => ({
+    aggregationResults: aggregations,
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: { projectId: '', ...props },
+      data: { suggested_refinements: [{ text: 'animal' }, { text: 'tiger' }] }
+    },
+    collectionsResults: collectionsResponse.result,
+    componentSettings: {
+      aggregations: [{ name: 'subject', label: 'Subject', multiple_selections_allowed: false }]
+    }
+  });
+  // the search parameters are passed as props, so rerendering can change them
+  const wrapper: React.FC<SearchProps> = ({ children, ...props }) =>
+    wrapWithContext(
+      <>{children}</>,
+      {
+        performSearch: performSearchMock,
+        fetchAggregations: fetchAggregationsMock,
+        emitEvent: emitEventMock
+      },
+      getContext(props)
+    );
+  const rendered = renderHook<SearchProps, FacetsState>(() => useFacets(), {
+    wrapper,
+    initialProps: { filter, collectionIds }
+  });
+  return { ...rendered, performSearchMock, fetchAggregationsMock, emitEventMock };
+};
+
+describe('useFacets', () => {
+  test('fetches the aggregations and merges the facets', async () => {
+    const { result, waitForNextUpdate, fetchAggregationsMock } = setup('author:"ABMN Staff"', [
+      'ai-strategy'
+    ]);
+    await waitForNextUpdate();
+    expect(fetchAggregationsMock).toBeCalledTimes(1);
+    expect(result.current.fetchState).toBe('success');
+    expect(result.current.fieldFacets[0].results![0]).toMatchObject({
+      key: 'ABMN Staff',
+      selected: true
+    });
+    expect(result.current.fieldFacets[1].label).toBe('Subject');
+    expect(result.current.dynamicFacets.map(facet => facet.text)).toEqual(['animal', 'tiger']);
+    expect(result.current.collections.map(collection => collection.selected)).toEqual([
+      false,
+      true
+    ]);
+    expect(result.current.hasSelection).toBe(true);
+  });
+
+  test('returns the error of the aggregations request', async () => {
+    const { result, waitForNextUpdate } = setup(
+      '',
+      [],
+      jest.fn().mockRejectedValue({ code: 500, message: 'Internal error' })
+    );
+    await waitForNextUpdate();
+    expect(result.current.fetchState).toBe('error');
+    expect(result.current.fetchError).toMatchObject({ status: 500, retryable: true });
+  });
+
+  test('toggles field facets', async () => {
+    const { result, waitForNextUpdate, performSearchMock } = setup('author:"ABMN Staff"');
+    await waitForNextUpdate();
+    act(() => {
+      result.current.toggleFieldFacet('author', 'News Staff');
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ offset: 0, filter: 'author:"ABMN Staff"|"News Staff"' }),
+      false
+    );
+
+    act(() => {
+      result.current.toggleFieldFacet('author', 'ABMN Staff', false);
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: 'author:"News Staff"' }),
+      false
+    );
+  });
+
+  test('deselects the other terms of a single selection facet', async () => {
+    const { result, waitForNextUpdate, performSearchMock, emitEventMock } = setup(
+      'subject:"Animals"'
+    );
+    await waitForNextUpdate();
+    act(() => {
+      result.current.toggleFieldFacet('subject', 'People');
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: 'subject:"People"' }),
+      false
+    );
+    expect(emitEventMock.mock.calls).toEqual([
+      [
+        {
+          type: 'facet_toggled',
+          facetType: 'field',
+          field: 'subject',
+          value: 'Animals',
+          selected: false
+        }
+      ],
+      [
+        {
+          type: 'facet_toggled',
+          facetType: 'field',
+          field: 'subject',
+          value: 'People',
+          selected: true
+        }
+      ]
+    ]);
+  });
+
+  test('excludes field facet terms', async () => {
+    const { result, waitForNextUpdate, performSearchMock, emitEventMock } = setup(
+      'author:"ABMN Staff"'
+    );
+    await waitForNextUpdate();
+    act(() => {
+      result.current.toggleFieldFacetExclusion('author', 'ABMN Staff');
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: 'author:!"ABMN Staff"' }),
+      false
+    );
+    expect(emitEventMock.mock.calls).toEqual([
+      [
+        {
+          type: 'facet_toggled',
+          facetType: 'field',
+          field: 'author',
+          value: 'ABMN Staff',
+          selected: false
+        }
+      ],
+      [
+        {
+          type: 'facet_toggled',
+          facetType: 'field',
+          field: 'author',
+          value: 'ABMN Staff',
+          excluded: true,
+          selected: true
+        }
+      ]
+    ]);
+    expect(result.current.hasSelection).toBe(true);
+
+    act(() => {
+      result.current.toggleFieldFacetExclusion('author', 'ABMN Staff', false);
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: '' }),
+      false
+    );
+  });
+
+  test('toggles dynamic facets', async () => {
+    const { result, waitForNextUpdate, performSearchMock } = setup();
+    await waitForNextUpdate();
+    act(() => {
+      result.current.toggleDynamicFacet('tiger');
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: '"tiger"' }),
+      false
+    );
+    expect(result.current.hasSelection).toBe(true);
+  });
+
+  test('toggles collections', async () => {
+    const { result, waitForNextUpdate, performSearchMock, emitEventMock } = setup();
+    await waitForNextUpdate();
+    act(() => {
+      result.current.toggleCollection('machine-learning');
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ offset: 0, collectionIds: ['machine-learning'] })
+    );
+    expect(result.current.collections[0].selected).toBe(true);
+    expect(emitEventMock).toBeCalledWith({
+      type: 'facet_toggled',
+      facetType: 'collection',
+      value: 'machine-learning',
+      selected: true
+    });
+  });
+
+  test('clears every selection', async () => {
+    const { result, waitForNextUpdate, performSearchMock } = setup('author:"ABMN Staff"', [
+      'ai-strategy'
+    ]);
+    await waitForNextUpdate();
+    act(() => {
+      result.current.clearAll();
+    });
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ offset: 0, filter: '', collectionIds: [] }),
+      false
+    );
+    expect(result.current.hasSelection).toBe(false);
+  });
+
+  test('follows the searches not made by the facets', async () => {
+    const { result, waitForNextUpdate, rerender } = setup('author:"ABMN Staff"', ['ai-strategy']);
+    await waitForNextUpdate();
+    rerender({ filter: 'subject:"People"', collectionIds: [] });
+    expect(result.current.fieldFacets[0].results!.some(result => result.selected)).toBe(false);
+    expect(result.current.fieldFacets[1].results![1]).toMatchObject({
+      key: 'People',
+      selected: true
+    });
+    expect(result.current.collections.some(collection => collection.selected)).toBe(false);
+  });
+});
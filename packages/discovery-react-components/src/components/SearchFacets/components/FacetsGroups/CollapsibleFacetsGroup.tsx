@@ -15,8 +15,10 @@ import {
   FieldFacetsByCategory,
   isSelectableQueryTermAggregationResult
 } from 'components/SearchFacets/utils/searchFacetInterfaces';
+import { buildFacetHierarchy } from 'components/SearchFacets/utils/facetHierarchy';
 import { Messages } from 'components/SearchFacets/messages';
 import { CategoryFacetsGroup } from './CategoryFacetsGroup';
+import { HierarchicalFacetsGroup } from './HierarchicalFacetsGroup';
 import { MultiSelectFacetsGroup } from './MultiSelectFacetsGroup';
 import { SingleSelectFacetsGroup } from './SingleSelectFacetsGroup';
 import { ShowMoreModal } from '../ShowMore/ShowMoreModal';
@@ -60,6 +62,11 @@ interface CollapsibleFacetsGroupProps {
    * Whether this is an enriched entities facet that includes categories by which to organize facet values
    */
   hasCategories: boolean;
+  /**
+   * Whether the facet values are `/`-separated paths to display as a tree, collapsed to its top
+   * level nodes
+   */
+  hasHierarchy?: boolean;
   /**
    * custom handler invoked when any input element changes in the SearchFacets component
    */
@@ -76,18 +83,38 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
   onClear,
   onCollapsibleFacetsGroupChange,
   onChange,
-  hasCategories
+  hasCategories,
+  hasHierarchy = false
 }) => {
-  const [isCollapsed, setIsCollapsed] = useState<boolean>(collapsedFacetsCount < facets.length);
-  const [isCollapsible, setIsCollapsible] = useState<boolean>(collapsedFacetsCount < facets.length);
+  const hierarchy =
+    hasHierarchy && isSelectableQueryTermAggregationResult(facets)
+      ? buildFacetHierarchy(facets, aggregationSettings.selectedPrefixes)
+      : [];
+  // the top level nodes of a hierarchy are collapsed and listed in the modal
+  const displayedFacets: (
+    | SelectableDynamicFacets
+    | SelectableQueryTermAggregationResult
+  )[] = hasHierarchy
+    ? hierarchy.map(({ path, matching_results, selected }) => ({
+        key: path,
+        matching_results,
+        selected
+      }))
+    : facets;
+  const [isCollapsed, setIsCollapsed] = useState<boolean>(
+    collapsedFacetsCount < displayedFacets.length
+  );
+  const [isCollapsible, setIsCollapsible] = useState<boolean>(
+    collapsedFacetsCount < displayedFacets.length
+  );
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
 
   const facetsLabel = aggregationSettings.label || aggregationSettings.field;
 
   useEffect(() => {
-    setIsCollapsed(collapsedFacetsCount < facets.length);
-    setIsCollapsible(collapsedFacetsCount < facets.length);
-  }, [collapsedFacetsCount, facets.length]);
+    setIsCollapsed(collapsedFacetsCount < displayedFacets.length);
+    setIsCollapsible(collapsedFacetsCount < displayedFacets.length);
+  }, [collapsedFacetsCount, displayedFacets.length]);
 
   const toggleFacetsCollapse = (): void => {
     setIsCollapsed(!isCollapsed);
@@ -126,11 +153,19 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
 
   const areMultiSelectionsAllowed = aggregationSettings.multiple_selections_allowed;
   const collapsedFacets = isCollapsed ? facets.slice(0, collapsedFacetsCount) : facets;
-  const totalNumberFacets = facets.length;
+  const collapsedHierarchy = isCollapsed ? hierarchy.slice(0, collapsedFacetsCount) : hierarchy;
+  const totalNumberFacets = displayedFacets.length;
   const selectedFacets = filter(facets, ['selected', true]);
-  const selectedFacetText = get(selectedFacets[0], facetsTextField, '');
-  const shouldDisplayAsMultiSelect = areMultiSelectionsAllowed || selectedFacets.length > 1;
-  const shouldDisplayClearButton = selectedFacets.length > 0;
+  const selectedPaths = aggregationSettings.selectedPrefixes || [];
+  const selectedCount = hasHierarchy ? selectedPaths.length : selectedFacets.length;
+  const excludedCount = filter(facets, ['excluded', true]).length;
+  // only the terms of field facets can be excluded from the results
+  const allowExclusion = facetsTextField === 'key';
+  const selectedFacetText = hasHierarchy
+    ? selectedPaths[0] || ''
+    : get(selectedFacets[0], facetsTextField, '');
+  const shouldDisplayAsMultiSelect = areMultiSelectionsAllowed || selectedCount > 1;
+  const shouldDisplayClearButton = selectedCount + excludedCount > 0;
   const showMoreButtonOnClick =
     totalNumberFacets <= MAX_FACETS_UNTIL_MODAL ? toggleFacetsCollapse : setModalOpen;
   const handleClearFacets = (event: SyntheticEvent<HTMLInputElement>): void => {
@@ -156,7 +191,7 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
           {shouldDisplayClearButton && (
             <ListBox.Selection
               clearSelection={handleClearFacets}
-              selectionCount={selectedFacets.length}
+              selectionCount={selectedCount + excludedCount}
               translateWithId={translateWithId}
             />
           )}
@@ -178,7 +213,16 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
         />
       ) : (
         <>
-          {shouldDisplayAsMultiSelect ? (
+          {hasHierarchy ? (
+            <HierarchicalFacetsGroup
+              messages={messages}
+              nodes={collapsedHierarchy}
+              aggregationSettings={aggregationSettings}
+              onChange={onChange}
+              onHierarchicalFacetsGroupChange={onCollapsibleFacetsGroupChange}
+              showMatchingResults={showMatchingResults}
+            />
+          ) : shouldDisplayAsMultiSelect ? (
             <MultiSelectFacetsGroup
               messages={messages}
               facets={collapsedFacets}
@@ -187,6 +231,7 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
               onMultiSelectFacetsGroupChange={onCollapsibleFacetsGroupChange}
               showMatchingResults={showMatchingResults}
               facetsTextField={facetsTextField}
+              allowExclusion={allowExclusion}
             />
           ) : (
             <SingleSelectFacetsGroup
@@ -198,6 +243,7 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
               selectedFacet={selectedFacetText}
               showMatchingResults={showMatchingResults}
               facetsTextField={facetsTextField}
+              allowExclusion={allowExclusion}
             />
           )}
           {isCollapsible && (
@@ -213,7 +259,7 @@ export const CollapsibleFacetsGroup: FC<CollapsibleFacetsGroupProps> = ({
                 <ShowMoreModal
                   messages={messages}
                   aggregationSettings={aggregationSettings}
-                  facets={facets}
+                  facets={displayedFacets}
                   facetsLabel={facetsLabel}
                   facetsTextField={facetsTextField}
                   onShowMoreModalChange={onCollapsibleFacetsGroupChange}
@@ -0,0 +1,49 @@
+import React, { FC, useContext } from 'react';
+import { Button } from 'carbon-components-react';
+import ViewOff from '@carbon/icons-react/lib/view--off/16';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { optionExcludeClass } from 'components/SearchFacets/cssClasses';
+import { Messages } from 'components/SearchFacets/messages';
+import { formatMessage } from 'utils/formatMessage';
+
+interface ExcludeFacetButtonProps {
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Messages;
+  /**
+   * Text of the facet to exclude
+   */
+  facetText: string;
+  /**
+   * Whether the facet is currently excluded
+   */
+  excluded: boolean;
+  /**
+   * Callback to exclude the facet, or include it again
+   */
+  onToggle: (excluded: boolean) => void;
+}
+
+export const ExcludeFacetButton: FC<ExcludeFacetButtonProps> = ({
+  messages,
+  facetText,
+  excluded,
+  onToggle
+}) => {
+  const { locale } = useContext(SearchContext);
+  return (
+    <Button
+      className={optionExcludeClass}
+      hasIconOnly
+      kind="ghost"
+      size="small"
+      renderIcon={ViewOff}
+      iconDescription={formatMessage(messages.excludeFacetText, { facetText }, false, locale).join(
+        ''
+      )}
+      aria-pressed={excluded}
+      onClick={() => onToggle(!excluded)}
+    />
+  );
+};
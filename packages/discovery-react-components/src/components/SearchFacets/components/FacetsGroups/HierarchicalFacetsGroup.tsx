@@ -0,0 +1,146 @@
+import React, { FC, useContext, useState, SyntheticEvent } from 'react';
+import { Button, Checkbox as CarbonCheckbox } from 'carbon-components-react';
+import ChevronDown from '@carbon/icons-react/lib/chevron--down/16';
+import ChevronRight from '@carbon/icons-react/lib/chevron--right/16';
+import {
+  optionClass,
+  optionLabelClass,
+  hierarchyClass,
+  hierarchyNodeClass,
+  hierarchyNodeRowClass,
+  hierarchyToggleClass
+} from 'components/SearchFacets/cssClasses';
+import { Messages } from 'components/SearchFacets/messages';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import {
+  FacetHierarchyNode,
+  InternalQueryTermAggregation,
+  SelectedFacet
+} from 'components/SearchFacets/utils/searchFacetInterfaces';
+import { getFacetLabel } from 'components/SearchFacets/utils/getFacetLabel';
+import { formatMessage } from 'utils/formatMessage';
+
+interface HierarchicalFacetsGroupProps {
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Messages;
+  /**
+   * Top level nodes of the hierarchy to display
+   */
+  nodes: FacetHierarchyNode[];
+  /**
+   * Aggregation component settings
+   */
+  aggregationSettings: InternalQueryTermAggregation;
+  /**
+   * Show matching documents count as part of label
+   */
+  showMatchingResults: boolean;
+  /**
+   * Callback to handle changes in selected facets, with the path of the node as the facet key
+   */
+  onHierarchicalFacetsGroupChange: (selectedFacets: SelectedFacet[]) => void;
+  /**
+   * custom handler invoked when any input element changes in the SearchFacets component
+   */
+  onChange?: (e: SyntheticEvent<HTMLInputElement>) => void;
+}
+
+// ancestors of the selected nodes are expanded, so the selection is visible
+const getExpandedPaths = (nodes: FacetHierarchyNode[]): string[] =>
+  nodes.reduce((paths: string[], node) => {
+    const childPaths = getExpandedPaths(node.children);
+    const hasSelectedChild = node.children.some(
+      child => child.selected || childPaths.includes(child.path)
+    );
+    return paths.concat(childPaths, hasSelectedChild ? [node.path] : []);
+  }, []);
+
+export const HierarchicalFacetsGroup: FC<HierarchicalFacetsGroupProps> = ({
+  messages,
+  nodes,
+  aggregationSettings,
+  showMatchingResults,
+  onHierarchicalFacetsGroupChange,
+  onChange
+}) => {
+  const { locale } = useContext(SearchContext);
+  const [expandedPaths, setExpandedPaths] = useState<string[]>(() => getExpandedPaths(nodes));
+  const facetName = aggregationSettings.name || aggregationSettings.field;
+  const escapedName = facetName.replace(/\s+/g, '_');
+
+  const toggleExpanded = (path: string): void => {
+    setExpandedPaths(
+      expandedPaths.includes(path)
+        ? expandedPaths.filter(expandedPath => expandedPath !== path)
+        : expandedPaths.concat(path)
+    );
+  };
+
+  const handleOnChange = (
+    checked: boolean,
+    _id: string,
+    event: SyntheticEvent<HTMLInputElement>
+  ): void => {
+    if (onChange) {
+      onChange(event);
+    }
+    const selectedFacetKey = event.currentTarget.getAttribute('data-key') || '';
+    onHierarchicalFacetsGroupChange([{ selectedFacetName: facetName, selectedFacetKey, checked }]);
+  };
+
+  const renderNodes = (levelNodes: FacetHierarchyNode[]) => (
+    <ul className={hierarchyClass}>
+      {levelNodes.map(node => {
+        const isExpanded = expandedPaths.includes(node.path);
+        const labelText = getFacetLabel(
+          node.label,
+          node.matching_results,
+          messages,
+          showMatchingResults,
+          locale
+        );
+        const toggleMessage = isExpanded
+          ? messages.hierarchyCollapseText
+          : messages.hierarchyExpandText;
+        return (
+          <li key={node.path} className={hierarchyNodeClass}>
+            <div className={hierarchyNodeRowClass}>
+              {node.children.length > 0 && (
+                <Button
+                  className={hierarchyToggleClass}
+                  hasIconOnly
+                  kind="ghost"
+                  size="small"
+                  renderIcon={isExpanded ? ChevronDown : ChevronRight}
+                  iconDescription={formatMessage(
+                    toggleMessage,
+                    { facetText: node.label },
+                    false,
+                    locale
+                  ).join('')}
+                  aria-expanded={isExpanded}
+                  onClick={() => toggleExpanded(node.path)}
+                />
+              )}
+              <CarbonCheckbox
+                className={optionLabelClass}
+                wrapperClassName={optionClass}
+                onChange={handleOnChange}
+                labelText={labelText}
+                id={`checkbox-${escapedName}-${node.path.replace(/\s+/g, '_')}`}
+                data-name={facetName}
+                data-key={node.path}
+                checked={node.selected}
+              />
+            </div>
+            {isExpanded && renderNodes(node.children)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return renderNodes(nodes);
+};
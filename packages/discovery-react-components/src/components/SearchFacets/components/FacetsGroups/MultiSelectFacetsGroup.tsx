@@ -1,5 +1,10 @@
 import React, { FC, useContext, SyntheticEvent } from 'react';
-import { optionClass, optionLabelClass } from 'components/SearchFacets/cssClasses';
+import {
+  optionClass,
+  optionLabelClass,
+  optionRowClass,
+  optionRowExcludedClass
+} from 'components/SearchFacets/cssClasses';
 import { Messages } from 'components/SearchFacets/messages';
 import { Checkbox as CarbonCheckbox } from 'carbon-components-react';
 import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
@@ -11,6 +16,7 @@ import {
 } from 'components/SearchFacets/utils/searchFacetInterfaces';
 import { getFacetLabel } from 'components/SearchFacets/utils/getFacetLabel';
 import get from 'lodash/get';
+import { ExcludeFacetButton } from './ExcludeFacetButton';
 
 interface MultiSelectFacetsGroupProps {
   /**
@@ -45,6 +51,10 @@ interface MultiSelectFacetsGroupProps {
    * Sets the state of the temporary array of selected facets for the ShowMoreModal before it's closed or saved
    */
   setTempSelectedFacets?: (selectedFacets: SelectedFacet[]) => void;
+  /**
+   * Show a button next to each facet to exclude it from the results
+   */
+  allowExclusion?: boolean;
   /**
    * custom handler invoked when any input element changes in the SearchFacets component
    */
@@ -60,14 +70,17 @@ export const MultiSelectFacetsGroup: FC<MultiSelectFacetsGroupProps> = ({
   onChange,
   tempSelectedFacets,
   setTempSelectedFacets,
-  showMatchingResults
+  showMatchingResults,
+  allowExclusion = false
 }) => {
   const {
     searchResponseStore: {
       parameters: { naturalLanguageQuery }
-    }
+    },
+    locale
   } = useContext(SearchContext);
-  const escapedName = (aggregationSettings.name || aggregationSettings.field).replace(/\s+/g, '_');
+  const facetName = aggregationSettings.name || aggregationSettings.field;
+  const escapedName = facetName.replace(/\s+/g, '_');
 
   const handleOnChange = (
     checked: boolean,
@@ -102,12 +115,18 @@ export const MultiSelectFacetsGroup: FC<MultiSelectFacetsGroupProps> = ({
     }
   };
 
+  const handleOnExclusionChange = (selectedFacetKey: string, excluded: boolean): void => {
+    onMultiSelectFacetsGroupChange([
+      { selectedFacetName: facetName, selectedFacetKey, checked: false, excluded }
+    ]);
+  };
+
   return (
     <>
       {facets.map(facet => {
         const facetText = get(facet, facetsTextField, '');
         const count = facet.matching_results;
-        const labelText = getFacetLabel(facetText, count, messages, showMatchingResults);
+        const labelText = getFacetLabel(facetText, count, messages, showMatchingResults, locale);
         const query = naturalLanguageQuery || '';
         const buff = new Buffer(query + facetText);
         const base64data = buff.toString('base64');
@@ -123,19 +142,34 @@ export const MultiSelectFacetsGroup: FC<MultiSelectFacetsGroupProps> = ({
         }
 
         let keyAndIdPrefix = tempSelectedFacets ? 'modal-checkbox' : 'checkbox';
+        const facetExcluded = !!get(facet, 'excluded', false);
 
         return (
-          <CarbonCheckbox
-            className={optionLabelClass}
-            wrapperClassName={optionClass}
-            onChange={handleOnChange}
-            labelText={labelText}
+          <div
+            className={[optionRowClass, facetExcluded && optionRowExcludedClass]
+              .filter(Boolean)
+              .join(' ')}
             key={`${keyAndIdPrefix}-${escapedName}-${base64data}`}
-            id={`${keyAndIdPrefix}-${escapedName}-${facetText.replace(/\s+/g, '_')}`}
-            data-name={aggregationSettings.name || aggregationSettings.field}
-            data-key={facetText}
-            checked={facetSelected}
-          />
+          >
+            <CarbonCheckbox
+              className={optionLabelClass}
+              wrapperClassName={optionClass}
+              onChange={handleOnChange}
+              labelText={labelText}
+              id={`${keyAndIdPrefix}-${escapedName}-${facetText.replace(/\s+/g, '_')}`}
+              data-name={facetName}
+              data-key={facetText}
+              checked={facetSelected}
+            />
+            {allowExclusion && (
+              <ExcludeFacetButton
+                messages={messages}
+                facetText={facetText}
+                excluded={facetExcluded}
+                onToggle={excluded => handleOnExclusionChange(facetText, excluded)}
+              />
+            )}
+          </div>
         );
       })}
     </>
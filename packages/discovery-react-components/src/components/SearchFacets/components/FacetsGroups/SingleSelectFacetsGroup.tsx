@@ -1,12 +1,15 @@
 import React, { FC, useContext, SyntheticEvent } from 'react';
-import {
-  RadioButtonGroup as CarbonRadioButtonGroup,
-  RadioButton as CarbonRadioButton
-} from 'carbon-components-react';
+import { RadioButton as CarbonRadioButton } from 'carbon-components-react';
+import { settings } from 'carbon-components';
 import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import { Messages } from 'components/SearchFacets/messages';
 import { getFacetLabel } from 'components/SearchFacets/utils/getFacetLabel';
-import { optionLabelClass, singleSelectGroupClass } from 'components/SearchFacets/cssClasses';
+import {
+  optionLabelClass,
+  optionRowClass,
+  optionRowExcludedClass,
+  singleSelectGroupClass
+} from 'components/SearchFacets/cssClasses';
 import {
   SelectableDynamicFacets,
   SelectableQueryTermAggregationResult,
@@ -14,6 +17,7 @@ import {
   SelectedFacet
 } from 'components/SearchFacets/utils/searchFacetInterfaces';
 import get from 'lodash/get';
+import { ExcludeFacetButton } from './ExcludeFacetButton';
 
 interface SingleSelectFacetsGroupProps {
   /**
@@ -52,6 +56,10 @@ interface SingleSelectFacetsGroupProps {
    * Sets the state of the temporary array of selected facets for the ShowMoreModal before it's closed or saved
    */
   setTempSelectedFacets?: (selectedFacets: SelectedFacet[]) => void;
+  /**
+   * Show a button next to each facet to exclude it from the results
+   */
+  allowExclusion?: boolean;
   /**
    * custom handler invoked when any input element changes in the SearchFacets component
    */
@@ -68,12 +76,14 @@ export const SingleSelectFacetsGroup: FC<SingleSelectFacetsGroupProps> = ({
   onChange,
   tempSelectedFacets,
   setTempSelectedFacets,
-  showMatchingResults
+  showMatchingResults,
+  allowExclusion = false
 }) => {
   const {
     searchResponseStore: {
       parameters: { naturalLanguageQuery }
-    }
+    },
+    locale
   } = useContext(SearchContext);
   const escapedName = (aggregationSettings.name || aggregationSettings.field).replace(/\s+/g, '_');
 
@@ -112,10 +122,16 @@ export const SingleSelectFacetsGroup: FC<SingleSelectFacetsGroupProps> = ({
 
   const radioGroupName = aggregationSettings.name || aggregationSettings.field;
 
+  const handleOnExclusionChange = (selectedFacetKey: string, excluded: boolean): void => {
+    onSingleSelectFacetsGroupChange([
+      { selectedFacetName: radioGroupName, selectedFacetKey, checked: false, excluded }
+    ]);
+  };
+
   const renderRadioButton = (facet: any) => {
     const facetText = get(facet, facetsTextField, '');
     const count = facet.matching_results;
-    const labelText = getFacetLabel(facetText, count, messages, showMatchingResults);
+    const labelText = getFacetLabel(facetText, count, messages, showMatchingResults, locale);
     const query = naturalLanguageQuery || '';
     const buff = new Buffer(query + facetText);
     const base64data = buff.toString('base64');
@@ -126,28 +142,50 @@ export const SingleSelectFacetsGroup: FC<SingleSelectFacetsGroupProps> = ({
       keyAndIdPrefix = 'modal-checkbox';
       facetValue = get(facet, facetsTextField, '') + '-modal';
     }
+    const facetExcluded = !!get(facet, 'excluded', false);
+    // the radio buttons are not children of a Carbon RadioButtonGroup, which would drop
+    // the exclude buttons next to them
     return (
-      <CarbonRadioButton
-        className={optionLabelClass}
-        labelText={labelText}
+      <div
+        className={[optionRowClass, facetExcluded && optionRowExcludedClass]
+          .filter(Boolean)
+          .join(' ')}
         key={`${keyAndIdPrefix}-${escapedName}-${base64data}`}
-        id={`${keyAndIdPrefix}-${escapedName}-${facetText.replace(/\s+/g, '_')}`}
-        value={facetValue}
-        data-key={facetText}
-        data-name={radioGroupName}
-        onClick={handleOnClick}
-      />
+      >
+        <CarbonRadioButton
+          className={optionLabelClass}
+          labelText={labelText}
+          id={`${keyAndIdPrefix}-${escapedName}-${facetText.replace(/\s+/g, '_')}`}
+          name={radioGroupNamePrefix + radioGroupName}
+          value={facetValue}
+          checked={facetValue === facetValueSelected}
+          data-key={facetText}
+          data-name={radioGroupName}
+          onClick={handleOnClick}
+        />
+        {allowExclusion && (
+          <ExcludeFacetButton
+            messages={messages}
+            facetText={facetText}
+            excluded={facetExcluded}
+            onToggle={excluded => handleOnExclusionChange(facetText, excluded)}
+          />
+        )}
+      </div>
     );
   };
 
   return (
-    <CarbonRadioButtonGroup
-      name={radioGroupNamePrefix + radioGroupName}
-      valueSelected={facetValueSelected}
-      orientation={'vertical'}
-      className={singleSelectGroupClass}
-    >
-      {facets.map(renderRadioButton)}
-    </CarbonRadioButtonGroup>
+    <div className={`${settings.prefix}--form-item`}>
+      <div
+        className={[
+          `${settings.prefix}--radio-button-group`,
+          `${settings.prefix}--radio-button-group--vertical`,
+          singleSelectGroupClass
+        ].join(' ')}
+      >
+        {facets.map(renderRadioButton)}
+      </div>
+    </div>
   );
 };
@@ -8,6 +8,11 @@ import {
   SearchFilterFacets,
   SelectedFacet
 } from '../utils/searchFacetInterfaces';
+import {
+  getSelectedPrefixes,
+  isHierarchicalFacet,
+  toggleFacetPrefix
+} from '../utils/facetHierarchy';
 import { Messages } from '../messages';
 import { CollapsibleFacetsGroup } from './FacetsGroups/CollapsibleFacetsGroup';
 
@@ -56,9 +61,35 @@ export const FieldFacets: FC<FieldFacetsProps> = ({
     return facetsForNameIndex;
   };
 
+  const isHierarchicalFacetName = (selectedFacetName: string): boolean => {
+    const facetsForName = allFacets[getFacetsForNameIndex(selectedFacetName)];
+    return !!facetsForName && isHierarchicalFacet(get(facetsForName, 'results', []));
+  };
+
+  // the paths of hierarchical facets are selected as prefixes, one after the other
+  const handleOnHierarchicalFacetsChange = (selectedFacets: SelectedFacet[]): void => {
+    const filterPrefixes = selectedFacets.reduce(
+      (prefixes, { selectedFacetName, selectedFacetKey, checked }) => {
+        const facetsWithPrefixes = allFacets.map(facet => ({
+          ...facet,
+          selectedPrefixes: prefixes
+            .filter(({ field }) => field === facet.field)
+            .map(({ prefix }) => prefix)
+        }));
+        return toggleFacetPrefix(facetsWithPrefixes, selectedFacetName, selectedFacetKey, checked);
+      },
+      getSelectedPrefixes(allFacets)
+    );
+    onFieldFacetsChange({ filterPrefixes });
+  };
+
   const handleOnFieldFacetsChange = (selectedFacets: SelectedFacet[]): void => {
+    if (selectedFacets.length > 0 && isHierarchicalFacetName(selectedFacets[0].selectedFacetName)) {
+      handleOnHierarchicalFacetsChange(selectedFacets);
+      return;
+    }
     let updatedFacets = cloneDeep(allFacets);
-    selectedFacets.map(({ selectedFacetName, selectedFacetKey, checked }) => {
+    selectedFacets.map(({ selectedFacetName, selectedFacetKey, checked, excluded }) => {
       const facetsForNameIndex = getFacetsForNameIndex(selectedFacetName);
       if (facetsForNameIndex > -1) {
         const facetsForName = updatedFacets[facetsForNameIndex];
@@ -78,13 +109,24 @@ export const FieldFacets: FC<FieldFacetsProps> = ({
           result => {
             const key = get(result, 'key', '');
 
-            if (usingRadioButtons) {
+            // excluding a term deselects it, and selecting a term includes it again
+            if (excluded !== undefined) {
+              return key === selectedFacetKey
+                ? Object.assign({}, result, { selected: false, excluded })
+                : result;
+            } else if (usingRadioButtons) {
               const keySelected = get(result, 'selected', false);
               const isSelectedFacetKey = key === selectedFacetKey;
-              return Object.assign({}, result, { selected: isSelectedFacetKey && !keySelected });
+              const selected = isSelectedFacetKey && !keySelected;
+              return Object.assign({}, result, { selected }, selected ? { excluded: false } : {});
             } else {
               return key === selectedFacetKey
-                ? Object.assign({}, result, { selected: checked })
+                ? Object.assign(
+                    {},
+                    result,
+                    { selected: checked },
+                    checked ? { excluded: false } : {}
+                  )
                 : result;
             }
           }
@@ -101,10 +143,13 @@ export const FieldFacets: FC<FieldFacetsProps> = ({
     if (facetsForNameIndex > -1) {
       const results = updatedFacets[facetsForNameIndex].results || [];
       const deselectedResults = (results as SelectableQueryTermAggregationResult[]).map(result => {
-        return { ...result, selected: false };
+        return { ...result, selected: false, excluded: false };
       });
       updatedFacets[facetsForNameIndex].results = deselectedResults;
-      onFieldFacetsChange({ filterFields: updatedFacets });
+      const filterPrefixes = getSelectedPrefixes(allFacets).filter(
+        ({ field }) => field !== allFacets[facetsForNameIndex].field
+      );
+      onFieldFacetsChange({ filterFields: updatedFacets, filterPrefixes });
     }
   };
 
@@ -125,6 +170,7 @@ export const FieldFacets: FC<FieldFacetsProps> = ({
           aggregation.field.includes('enriched_') &&
           aggregation.field.includes('entities.text') &&
           aggregation.results?.[0]?.aggregations !== undefined;
+        const hasHierarchy = !hasCategories && isHierarchicalFacet(aggregationResults);
 
         return (
           <CollapsibleFacetsGroup
@@ -136,6 +182,7 @@ export const FieldFacets: FC<FieldFacetsProps> = ({
             showMatchingResults={showMatchingResults}
             facetsTextField="key"
             hasCategories={hasCategories}
+            hasHierarchy={hasHierarchy}
             onClear={handleOnClear}
             onChange={onChange}
             onCollapsibleFacetsGroupChange={handleOnFieldFacetsChange}
@@ -0,0 +1,220 @@
+import React, { FC, useContext, useEffect, useState } from 'react';
+import ListBox from 'carbon-components-react/lib/components/ListBox';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { formatMessage } from 'utils/formatMessage';
+import {
+  fieldsetClasses,
+  labelClasses,
+  labelAndSelectionContainerClass,
+  rangeFacetClass,
+  rangeFacetBarsClass,
+  rangeFacetBarClass,
+  rangeFacetBarSelectedClass,
+  rangeFacetSlidersClass,
+  rangeFacetSliderClass,
+  rangeFacetSelectionClass
+} from 'components/SearchFacets/cssClasses';
+import { InternalQueryHistogramAggregation } from 'components/SearchFacets/utils/searchFacetInterfaces';
+import { Messages } from 'components/SearchFacets/messages';
+
+interface RangeFacetsProps {
+  /**
+   * Histogram aggregations with their results and selected ranges
+   */
+  rangeFacets: InternalQueryHistogramAggregation[];
+  /**
+   * i18n messages for the component
+   */
+  messages: Messages;
+  /**
+   * Callback to select the range of a field, deselects the range when no bound is specified
+   */
+  onRangeFacetChange: (field: string, min?: number, max?: number) => void;
+}
+
+export const RangeFacets: FC<RangeFacetsProps> = ({
+  rangeFacets,
+  messages,
+  onRangeFacetChange
+}) => {
+  return (
+    <>
+      {rangeFacets.map(rangeFacet => (
+        <RangeFacet
+          key={rangeFacet.name || rangeFacet.field}
+          rangeFacet={rangeFacet}
+          messages={messages}
+          onRangeFacetChange={onRangeFacetChange}
+        />
+      ))}
+    </>
+  );
+};
+
+interface RangeFacetProps {
+  rangeFacet: InternalQueryHistogramAggregation;
+  messages: Messages;
+  onRangeFacetChange: (field: string, min?: number, max?: number) => void;
+}
+
+type HistogramResult = DiscoveryV2.QueryHistogramAggregationResult;
+
+const RangeFacet: FC<RangeFacetProps> = ({ rangeFacet, messages, onRangeFacetChange }) => {
+  const { locale } = useContext(SearchContext);
+  const { field, interval, label, name, results = [], selectedRange } = rangeFacet;
+  // while a range is selected the results only cover that range, so keep the buckets of the
+  // unfiltered search to allow widening the selection again
+  const [buckets, setBuckets] = useState<HistogramResult[]>(results);
+  useEffect(() => {
+    if (!selectedRange || buckets.length === 0) {
+      setBuckets(results);
+    }
+  }, [results, selectedRange]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const sortedBuckets = [...buckets].sort((a, b) => a.key - b.key);
+  // each bucket covers [key, key + interval), so the slider handles move between these bounds
+  const bounds = sortedBuckets
+    .map(bucket => bucket.key)
+    .concat(sortedBuckets.length ? sortedBuckets[sortedBuckets.length - 1].key + interval : []);
+  const lastIndex = bounds.length - 1;
+
+  const getLowerIndex = (min?: number): number => {
+    if (min === undefined) {
+      return 0;
+    }
+    const index = bounds.filter(bound => bound <= min).length - 1;
+    return Math.min(Math.max(index, 0), lastIndex - 1);
+  };
+  const getUpperIndex = (max?: number): number => {
+    if (max === undefined) {
+      return lastIndex;
+    }
+    const index = bounds.findIndex(bound => bound >= max);
+    return index < 1 ? lastIndex : index;
+  };
+
+  const selectedLowerIndex = getLowerIndex(selectedRange && selectedRange.min);
+  const selectedUpperIndex = getUpperIndex(selectedRange && selectedRange.max);
+  const [lowerIndex, setLowerIndex] = useState(selectedLowerIndex);
+  const [upperIndex, setUpperIndex] = useState(selectedUpperIndex);
+  useEffect(() => {
+    setLowerIndex(selectedLowerIndex);
+    setUpperIndex(selectedUpperIndex);
+  }, [selectedLowerIndex, selectedUpperIndex]);
+
+  if (bounds.length < 2) {
+    return null;
+  }
+
+  const facetLabel = label || name || field;
+  const maxCount = Math.max(...sortedBuckets.map(bucket => bucket.matching_results), 1);
+
+  const commitSelection = (): void => {
+    if (lowerIndex === selectedLowerIndex && upperIndex === selectedUpperIndex) {
+      return;
+    }
+    // selecting the whole histogram is the same as not filtering on the field
+    if (lowerIndex === 0 && upperIndex === lastIndex) {
+      onRangeFacetChange(field);
+    } else {
+      onRangeFacetChange(
+        field,
+        lowerIndex > 0 ? bounds[lowerIndex] : undefined,
+        upperIndex < lastIndex ? bounds[upperIndex] : undefined
+      );
+    }
+  };
+
+  const handleOnClear = (): void => {
+    setBuckets(results);
+    onRangeFacetChange(field);
+  };
+
+  const translateWithId = (id: string): string => {
+    const mapping = {
+      'clear.all': messages.clearFacetTitle,
+      'clear.selection': messages.clearFacetSelectionTitle
+    };
+    return mapping[id];
+  };
+
+  const sliderHandlers = {
+    onMouseUp: commitSelection,
+    onTouchEnd: commitSelection,
+    onKeyUp: commitSelection
+  };
+
+  return (
+    <fieldset className={[...fieldsetClasses, rangeFacetClass].join(' ')}>
+      <legend className={labelClasses.join(' ')}>
+        <div className={labelAndSelectionContainerClass}>
+          {facetLabel}
+          {!!selectedRange && (
+            <ListBox.Selection
+              clearSelection={handleOnClear}
+              selectionCount={1}
+              translateWithId={translateWithId}
+            />
+          )}
+        </div>
+      </legend>
+      <div className={rangeFacetBarsClass} aria-hidden="true">
+        {sortedBuckets.map((bucket, index) => {
+          const isSelected = index >= lowerIndex && index < upperIndex;
+          return (
+            <div
+              key={bucket.key}
+              className={[rangeFacetBarClass, isSelected && rangeFacetBarSelectedClass]
+                .filter(Boolean)
+                .join(' ')}
+              style={{ height: `${(bucket.matching_results / maxCount) * 100}%` }}
+            />
+          );
+        })}
+      </div>
+      <div className={rangeFacetSlidersClass}>
+        <input
+          type="range"
+          className={rangeFacetSliderClass}
+          aria-label={formatMessage(
+            messages.rangeFacetMinLabelText,
+            { facet: facetLabel },
+            false,
+            locale
+          ).join('')}
+          min={0}
+          max={lastIndex}
+          step={1}
+          value={lowerIndex}
+          onChange={event => setLowerIndex(Math.min(Number(event.target.value), upperIndex - 1))}
+          {...sliderHandlers}
+        />
+        <input
+          type="range"
+          className={rangeFacetSliderClass}
+          aria-label={formatMessage(
+            messages.rangeFacetMaxLabelText,
+            { facet: facetLabel },
+            false,
+            locale
+          ).join('')}
+          min={0}
+          max={lastIndex}
+          step={1}
+          value={upperIndex}
+          onChange={event => setUpperIndex(Math.max(Number(event.target.value), lowerIndex + 1))}
+          {...sliderHandlers}
+        />
+      </div>
+      <div className={rangeFacetSelectionClass}>
+        {formatMessage(
+          messages.rangeFacetSelectionText,
+          { min: bounds[lowerIndex], max: bounds[upperIndex] },
+          false,
+          locale
+        )}
+      </div>
+    </fieldset>
+  );
+};
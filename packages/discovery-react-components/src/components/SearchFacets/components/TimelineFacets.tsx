@@ -0,0 +1,251 @@
+import React, { FC, useContext, useEffect, useState } from 'react';
+import { Button } from 'carbon-components-react';
+import ListBox from 'carbon-components-react/lib/components/ListBox';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { formatMessage } from 'utils/formatMessage';
+import {
+  fieldsetClasses,
+  labelClasses,
+  labelAndSelectionContainerClass,
+  timelineFacetClass,
+  timelineFacetPresetsClass,
+  timelineFacetPresetClass,
+  timelineFacetBarsClass,
+  timelineFacetBarClass,
+  timelineFacetBarSelectedClass,
+  timelineFacetSelectionClass
+} from 'components/SearchFacets/cssClasses';
+import { InternalQueryTimesliceAggregation } from 'components/SearchFacets/utils/searchFacetInterfaces';
+import {
+  addInterval,
+  getPresetStart,
+  toFilterDate
+} from 'components/SearchFacets/utils/timelineDates';
+import { TIMELINE_PRESET_DAYS } from 'components/SearchFacets/constants';
+import { Messages } from 'components/SearchFacets/messages';
+
+interface TimelineFacetsProps {
+  /**
+   * Timeslice aggregations with their results and selected date ranges
+   */
+  timelineFacets: InternalQueryTimesliceAggregation[];
+  /**
+   * i18n messages for the component
+   */
+  messages: Messages;
+  /**
+   * Callback to select the date range of a field, deselects the range when no date is specified
+   */
+  onTimelineFacetChange: (field: string, start?: string, end?: string) => void;
+}
+
+export const TimelineFacets: FC<TimelineFacetsProps> = ({
+  timelineFacets,
+  messages,
+  onTimelineFacetChange
+}) => {
+  return (
+    <>
+      {timelineFacets.map(timelineFacet => (
+        <TimelineFacet
+          key={timelineFacet.name || timelineFacet.field}
+          timelineFacet={timelineFacet}
+          messages={messages}
+          onTimelineFacetChange={onTimelineFacetChange}
+        />
+      ))}
+    </>
+  );
+};
+
+interface TimelineFacetProps {
+  timelineFacet: InternalQueryTimesliceAggregation;
+  messages: Messages;
+  onTimelineFacetChange: (field: string, start?: string, end?: string) => void;
+}
+
+type TimesliceResult = DiscoveryV2.QueryTimesliceAggregationResult;
+
+interface Brush {
+  anchor: number;
+  current: number;
+}
+
+const TimelineFacet: FC<TimelineFacetProps> = ({
+  timelineFacet,
+  messages,
+  onTimelineFacetChange
+}) => {
+  const { locale } = useContext(SearchContext);
+  const { field, interval, label, name, results = [], selectedRange } = timelineFacet;
+  // while a range is selected the results only cover that range, so keep the buckets of the
+  // unfiltered search to allow brushing outside of the selection
+  const [buckets, setBuckets] = useState<TimesliceResult[]>(results);
+  useEffect(() => {
+    if (!selectedRange || buckets.length === 0) {
+      setBuckets(results);
+    }
+  }, [results, selectedRange]); // eslint-disable-line react-hooks/exhaustive-deps
+  const [brush, setBrush] = useState<Brush | null>(null);
+
+  // each bucket covers the interval starting at its key. The keys and the filter dates are in
+  // UTC, so the dates are formatted in UTC as well
+  const sortedBuckets = [...buckets].sort((a, b) => a.key - b.key);
+  const bucketStarts = sortedBuckets.map(bucket => new Date(bucket.key));
+  const bucketEnds = bucketStarts.map(start => addInterval(start, interval));
+  const facetLabel = label || name || field;
+  const maxCount = Math.max(...sortedBuckets.map(bucket => bucket.matching_results), 1);
+
+  const selectedStart = selectedRange && selectedRange.start;
+  const selectedEnd = selectedRange && selectedRange.end;
+  const isBucketInSelection = (index: number): boolean => {
+    if (brush) {
+      return (
+        index >= Math.min(brush.anchor, brush.current) &&
+        index <= Math.max(brush.anchor, brush.current)
+      );
+    }
+    if (!selectedRange) {
+      return false;
+    }
+    return (
+      (!selectedStart || bucketEnds[index] > new Date(selectedStart)) &&
+      (!selectedEnd || bucketStarts[index] < new Date(selectedEnd))
+    );
+  };
+
+  const selectBuckets = (first: number, last: number): void => {
+    onTimelineFacetChange(
+      field,
+      toFilterDate(bucketStarts[Math.min(first, last)]),
+      toFilterDate(bucketEnds[Math.max(first, last)])
+    );
+  };
+
+  // the brush ends when the pointer is released, even outside of the bars
+  useEffect(() => {
+    if (!brush) {
+      return;
+    }
+    const commitBrush = (): void => {
+      setBrush(null);
+      selectBuckets(brush.anchor, brush.current);
+    };
+    window.addEventListener('mouseup', commitBrush);
+    return () => window.removeEventListener('mouseup', commitBrush);
+  }, [brush]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleOnBarClick = (index: number, extend: boolean): void => {
+    const firstSelected = sortedBuckets.findIndex((_bucket, i) => isBucketInSelection(i));
+    selectBuckets(extend && firstSelected > -1 ? firstSelected : index, index);
+  };
+
+  const handleOnPresetClick = (days: number): void => {
+    onTimelineFacetChange(field, getPresetStart(days));
+  };
+
+  const handleOnClear = (): void => {
+    setBuckets(results);
+    onTimelineFacetChange(field);
+  };
+
+  const translateWithId = (id: string): string => {
+    const mapping = {
+      'clear.all': messages.clearFacetTitle,
+      'clear.selection': messages.clearFacetSelectionTitle
+    };
+    return mapping[id];
+  };
+
+  const getSelectionText = (): string => {
+    let message = messages.timelineFacetSelectionText;
+    if (!selectedEnd) {
+      message = messages.timelineFacetStartSelectionText;
+    } else if (!selectedStart) {
+      message = messages.timelineFacetEndSelectionText;
+    }
+    return formatMessage(
+      message,
+      {
+        start: selectedStart ? new Date(selectedStart) : undefined,
+        end: selectedEnd ? new Date(selectedEnd) : undefined
+      },
+      false,
+      locale,
+      'UTC'
+    ).join('');
+  };
+
+  if (buckets.length === 0) {
+    return null;
+  }
+
+  return (
+    <fieldset className={[...fieldsetClasses, timelineFacetClass].join(' ')}>
+      <legend className={labelClasses.join(' ')}>
+        <div className={labelAndSelectionContainerClass}>
+          {facetLabel}
+          {!!selectedRange && (
+            <ListBox.Selection
+              clearSelection={handleOnClear}
+              selectionCount={1}
+              translateWithId={translateWithId}
+            />
+          )}
+        </div>
+      </legend>
+      <div
+        className={timelineFacetPresetsClass}
+        role="group"
+        aria-label={messages.timelineFacetPresetsLabel}
+      >
+        {TIMELINE_PRESET_DAYS.map(days => {
+          const isActive =
+            !!selectedStart && !selectedEnd && selectedStart === getPresetStart(days);
+          return (
+            <Button
+              key={days}
+              className={timelineFacetPresetClass}
+              kind={isActive ? 'secondary' : 'ghost'}
+              size="small"
+              aria-pressed={isActive}
+              onClick={() => handleOnPresetClick(days)}
+            >
+              {formatMessage(messages.timelineFacetPresetText, { days }, false, locale).join('')}
+            </Button>
+          );
+        })}
+      </div>
+      <div className={timelineFacetBarsClass} role="group" aria-label={facetLabel}>
+        {sortedBuckets.map((bucket, index) => (
+          <button
+            key={bucket.key}
+            type="button"
+            className={[
+              timelineFacetBarClass,
+              isBucketInSelection(index) && timelineFacetBarSelectedClass
+            ]
+              .filter(Boolean)
+              .join(' ')}
+            aria-label={formatMessage(
+              messages.timelineFacetBarLabelText,
+              { start: bucketStarts[index], count: bucket.matching_results },
+              false,
+              locale,
+              'UTC'
+            ).join('')}
+            aria-pressed={isBucketInSelection(index)}
+            onMouseDown={() => setBrush({ anchor: index, current: index })}
+            onMouseEnter={() => brush && setBrush({ ...brush, current: index })}
+            // clicks from the keyboard have no detail, those from the pointer end a brush instead
+            onClick={event => event.detail === 0 && handleOnBarClick(index, event.shiftKey)}
+          >
+            <span style={{ height: `${(bucket.matching_results / maxCount) * 100}%` }} />
+          </button>
+        ))}
+      </div>
+      {!!selectedRange && <div className={timelineFacetSelectionClass}>{getSelectionText()}</div>}
+    </fieldset>
+  );
+};
@@ -26,7 +26,8 @@ const setup = (collectionIds?: string[]): Setup => {
       },
       data: null,
       isLoading: false,
-      isError: false
+      isError: false,
+      error: null
     }
   };
   const collectionFacetsComponent = render(wrapWithContext(<SearchFacets />, api, context));
@@ -963,4 +963,78 @@ describe('FieldFacetsComponent', () => {
       });
     });
   });
+
+  describe('excluded facet values', () => {
+    test('searches without a term when it is excluded', async () => {
+      const { performSearchMock, fieldFacetsComponent } = setup();
+      fireEvent.click(await fieldFacetsComponent.findByText('Exclude ABMN Staff'));
+      expect(performSearchMock).toBeCalledWith(
+        expect.objectContaining({
+          filter: 'author:!"ABMN Staff"',
+          offset: 0
+        }),
+        false
+      );
+    });
+
+    test('deselects a term when it is excluded', async () => {
+      const { performSearchMock, fieldFacetsComponent } = setup({
+        filter: 'subject:"Animals"|"People"'
+      });
+      fireEvent.click(await fieldFacetsComponent.findByText('Exclude Animals'));
+      expect(performSearchMock).toBeCalledWith(
+        expect.objectContaining({
+          filter: 'subject:"People",subject:!"Animals"',
+          offset: 0
+        }),
+        false
+      );
+    });
+
+    test('restores exclusions from the filter and includes a term again', async () => {
+      const { performSearchMock, fieldFacetsComponent } = setup({
+        filter: 'author:!"News Staff"'
+      });
+      const excludeButton = await fieldFacetsComponent.findByText('Exclude News Staff');
+      expect(excludeButton.closest('button')).toHaveAttribute('aria-pressed', 'true');
+      expect(fieldFacetsComponent.getByLabelText('News Staff (57158)')['checked']).toEqual(false);
+      fireEvent.click(fieldFacetsComponent.getByLabelText('News Staff (57158)'));
+      expect(performSearchMock).toBeCalledWith(
+        expect.objectContaining({
+          filter: 'author:"News Staff"',
+          offset: 0
+        }),
+        false
+      );
+    });
+
+    test('excludes a term of a single select facet', async () => {
+      const { performSearchMock, fieldFacetsComponent } = setup({
+        componentSettingsAggregations: updateSelectionSettings(['author_id'])
+      });
+      fireEvent.click(await fieldFacetsComponent.findByText('Exclude editor'));
+      expect(performSearchMock).toBeCalledWith(
+        expect.objectContaining({
+          filter: 'author:!"editor"',
+          offset: 0
+        }),
+        false
+      );
+    });
+
+    test('clears exclusions with the selection', async () => {
+      const { performSearchMock, fieldFacetsComponent } = setup({
+        filter: 'author:"ABMN Staff",author:!"News Staff"'
+      });
+      await fieldFacetsComponent.findByText('Exclude News Staff');
+      fireEvent.click(fieldFacetsComponent.getByTitle('Clear all selected items'));
+      expect(performSearchMock).toBeCalledWith(
+        expect.objectContaining({
+          filter: '',
+          offset: 0
+        }),
+        false
+      );
+    });
+  });
 });
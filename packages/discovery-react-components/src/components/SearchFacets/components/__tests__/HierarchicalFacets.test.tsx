@@ -0,0 +1,96 @@
+import * as React from 'react';
+import { render, fireEvent, RenderResult } from '@testing-library/react';
+import { wrapWithContext } from 'utils/testingUtils';
+import {
+  SearchContextIFC,
+  SearchApiIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchFacets from 'components/SearchFacets/SearchFacets';
+import { categoriesAggregation } from 'components/SearchFacets/__fixtures__/aggregationResponses';
+
+interface Setup {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  performSearchMock: jest.Mock<any, any>;
+  searchFacetsComponent: RenderResult;
+}
+
+const setup = (filter = '', collapsedFacetsCount = 5): Setup => {
+  const performSearchMock = jest.fn();
+  const context: Partial<SearchContextIFC> = {
+    aggregationResults: [categoriesAggregation],
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: {
+        projectId: '',
+        aggregation: '[term(enriched_text.categories.label,count:6)]',
+        filter
+      }
+    }
+  };
+  const api: Partial<SearchApiIFC> = {
+    performSearch: performSearchMock
+  };
+  const searchFacetsComponent = render(
+    wrapWithContext(
+      <SearchFacets showMatchingResults={true} collapsedFacetsCount={collapsedFacetsCount} />,
+      api,
+      context
+    )
+  );
+  return {
+    performSearchMock,
+    searchFacetsComponent
+  };
+};
+
+describe('HierarchicalFacetsGroup', () => {
+  test('shows the top level nodes with rolled up counts', async () => {
+    const { searchFacetsComponent } = setup();
+    expect(await searchFacetsComponent.findByLabelText('technology (80)')).toBeDefined();
+    expect(searchFacetsComponent.getByLabelText('science (40)')).toBeDefined();
+    expect(searchFacetsComponent.getByLabelText('art and entertainment (10)')).toBeDefined();
+    expect(searchFacetsComponent.queryByLabelText('software (50)')).toBeNull();
+  });
+
+  test('expands and collapses a node', async () => {
+    const { searchFacetsComponent } = setup();
+    fireEvent.click(await searchFacetsComponent.findByText('Expand technology'));
+    expect(searchFacetsComponent.getByLabelText('software (50)')).toBeDefined();
+    expect(searchFacetsComponent.getByLabelText('hardware (25)')).toBeDefined();
+    fireEvent.click(searchFacetsComponent.getByText('Collapse technology'));
+    expect(searchFacetsComponent.queryByLabelText('software (50)')).toBeNull();
+  });
+
+  test('searches with a wildcard filter when a node is selected', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup();
+    fireEvent.click(await searchFacetsComponent.findByText('Expand technology'));
+    fireEvent.click(searchFacetsComponent.getByLabelText('software (50)'));
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({
+        filter:
+          'enriched_text.categories.label::"/technology/software"|enriched_text.categories.label:"/technology/software/*"',
+        offset: 0
+      }),
+      false
+    );
+  });
+
+  test('restores the selection from the filter and clears it', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup(
+      'enriched_text.categories.label::"/technology/software/databases"|enriched_text.categories.label:"/technology/software/databases/*"'
+    );
+    const databases = await searchFacetsComponent.findByLabelText('databases (30)');
+    expect((databases as HTMLInputElement).checked).toEqual(true);
+    fireEvent.click(searchFacetsComponent.getByTitle('Clear all selected items'));
+    expect(performSearchMock).toBeCalledWith(expect.objectContaining({ filter: '' }), false);
+  });
+
+  test('collapses the top level nodes', async () => {
+    const { searchFacetsComponent } = setup('', 2);
+    await searchFacetsComponent.findByLabelText('technology (80)');
+    expect(searchFacetsComponent.queryByLabelText('art and entertainment (10)')).toBeNull();
+    fireEvent.click(searchFacetsComponent.getByText('Show more'));
+    expect(searchFacetsComponent.getByLabelText('art and entertainment (10)')).toBeDefined();
+  });
+});
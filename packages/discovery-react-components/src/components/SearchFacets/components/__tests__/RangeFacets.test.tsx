@@ -0,0 +1,86 @@
+import * as React from 'react';
+import { render, fireEvent, RenderResult } from '@testing-library/react';
+import { wrapWithContext } from 'utils/testingUtils';
+import {
+  SearchContextIFC,
+  SearchApiIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchFacets from 'components/SearchFacets/SearchFacets';
+import { histogramAggregation } from 'components/SearchFacets/__fixtures__/aggregationResponses';
+
+interface Setup {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  performSearchMock: jest.Mock<any, any>;
+  searchFacetsComponent: RenderResult;
+}
+
+const setup = (filter = ''): Setup => {
+  const performSearchMock = jest.fn();
+  const context: Partial<SearchContextIFC> = {
+    aggregationResults: [histogramAggregation],
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: {
+        projectId: '',
+        aggregation: '[histogram(price,interval:10,name:prices)]',
+        filter
+      }
+    }
+  };
+  const api: Partial<SearchApiIFC> = {
+    performSearch: performSearchMock
+  };
+  const searchFacetsComponent = render(
+    wrapWithContext(
+      <SearchFacets overrideComponentSettingsAggregations={[{ name: 'prices', label: 'Price' }]} />,
+      api,
+      context
+    )
+  );
+  return {
+    performSearchMock,
+    searchFacetsComponent
+  };
+};
+
+describe('RangeFacetsComponent', () => {
+  test('renders the label, the bounds of the histogram and a bar per bucket', async () => {
+    const { searchFacetsComponent } = setup();
+    expect(await searchFacetsComponent.findByText('Price')).toBeDefined();
+    expect(searchFacetsComponent.getByText('0 – 30')).toBeDefined();
+    expect(
+      searchFacetsComponent.container.querySelectorAll('.bx--search-facet__range-bar')
+    ).toHaveLength(3);
+  });
+
+  test('searches with the selected range when a handle is released', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup();
+    const minSlider = await searchFacetsComponent.findByLabelText('Minimum of Price');
+    fireEvent.change(minSlider, { target: { value: '1' } });
+    fireEvent.mouseUp(minSlider);
+    expect(performSearchMock).toBeCalledTimes(1);
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({ filter: 'price>=10', offset: 0 }),
+      false
+    );
+  });
+
+  test('does not move a handle past the other one', async () => {
+    const { searchFacetsComponent } = setup();
+    const maxSlider = await searchFacetsComponent.findByLabelText('Maximum of Price');
+    fireEvent.change(maxSlider, { target: { value: '0' } });
+    expect((maxSlider as HTMLInputElement).value).toEqual('1');
+  });
+
+  test('shows the range of the filter and clears it', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup('price>=10,price<=20');
+    expect(await searchFacetsComponent.findByText('10 – 20')).toBeDefined();
+    const selectedBars = searchFacetsComponent.container.querySelectorAll(
+      '.bx--search-facet__range-bar--selected'
+    );
+    expect(selectedBars).toHaveLength(1);
+    fireEvent.click(searchFacetsComponent.getByTitle('Clear all selected items'));
+    expect(performSearchMock).toBeCalledWith(expect.objectContaining({ filter: '' }), false);
+  });
+});
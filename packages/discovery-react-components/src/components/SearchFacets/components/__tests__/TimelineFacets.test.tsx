@@ -0,0 +1,133 @@
+import * as React from 'react';
+import { render, fireEvent, RenderResult } from '@testing-library/react';
+import { wrapWithContext } from 'utils/testingUtils';
+import {
+  SearchContextIFC,
+  SearchApiIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchFacets from 'components/SearchFacets/SearchFacets';
+import { timesliceAggregation } from 'components/SearchFacets/__fixtures__/aggregationResponses';
+import { getPresetStart } from 'components/SearchFacets/utils/timelineDates';
+
+interface Setup {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  performSearchMock: jest.Mock<any, any>;
+  searchFacetsComponent: RenderResult;
+}
+
+const setup = (filter = ''): Setup => {
+  const performSearchMock = jest.fn();
+  const context: Partial<SearchContextIFC> = {
+    aggregationResults: [timesliceAggregation],
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: {
+        projectId: '',
+        aggregation: '[timeslice(publication_date,1month,name:publications)]',
+        filter
+      }
+    }
+  };
+  const api: Partial<SearchApiIFC> = {
+    performSearch: performSearchMock
+  };
+  const searchFacetsComponent = render(
+    wrapWithContext(
+      <SearchFacets
+        overrideComponentSettingsAggregations={[{ name: 'publications', label: 'Published' }]}
+      />,
+      api,
+      context
+    )
+  );
+  return {
+    performSearchMock,
+    searchFacetsComponent
+  };
+};
+
+const getBars = (searchFacetsComponent: RenderResult): Element[] =>
+  Array.from(searchFacetsComponent.container.querySelectorAll('.bx--search-facet__timeline-bar'));
+
+describe('TimelineFacetsComponent', () => {
+  test('renders the label, the presets and a bar per timeslice', async () => {
+    const { searchFacetsComponent } = setup();
+    expect(await searchFacetsComponent.findByText('Published')).toBeDefined();
+    expect(searchFacetsComponent.getByText('Last 7 days')).toBeDefined();
+    expect(searchFacetsComponent.getByText('Last 30 days')).toBeDefined();
+    expect(searchFacetsComponent.getByText('Last 365 days')).toBeDefined();
+    expect(getBars(searchFacetsComponent)).toHaveLength(3);
+  });
+
+  test('searches with the brushed date range', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup();
+    await searchFacetsComponent.findByText('Published');
+    const [first, second] = getBars(searchFacetsComponent);
+    fireEvent.mouseDown(first);
+    fireEvent.mouseEnter(second);
+    fireEvent.mouseUp(second);
+    expect(performSearchMock).toBeCalledTimes(1);
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({
+        filter: 'publication_date>="2020-01-01T00:00:00Z",publication_date<="2020-03-01T00:00:00Z"',
+        offset: 0
+      }),
+      false
+    );
+  });
+
+  test('searches with a preset date range', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup();
+    fireEvent.click(await searchFacetsComponent.findByText('Last 30 days'));
+    expect(performSearchMock).toBeCalledWith(
+      expect.objectContaining({ filter: `publication_date>="${getPresetStart(30)}"` }),
+      false
+    );
+  });
+
+  test('restores the date range of the filter and clears it', async () => {
+    const { performSearchMock, searchFacetsComponent } = setup(
+      'publication_date>="2020-02-01T00:00:00Z",publication_date<="2020-03-01T00:00:00Z"'
+    );
+    await searchFacetsComponent.findByText('Published');
+    const selectedBars = searchFacetsComponent.container.querySelectorAll(
+      '.bx--search-facet__timeline-bar--selected'
+    );
+    expect(selectedBars).toHaveLength(1);
+    expect(selectedBars[0]).toBe(getBars(searchFacetsComponent)[1]);
+    fireEvent.click(searchFacetsComponent.getByTitle('Clear all selected items'));
+    expect(performSearchMock).toBeCalledWith(expect.objectContaining({ filter: '' }), false);
+  });
+
+  describe('in a time zone west of UTC', () => {
+    // the dates are formatted in the time zone of the browser unless another one is given
+    beforeAll(() => {
+      const DateTimeFormat = Intl.DateTimeFormat;
+      jest.spyOn(Intl, 'DateTimeFormat').mockImplementation(
+        (locale, options = {}) =>
+          new DateTimeFormat(locale, {
+            ...options,
+            timeZone: options.timeZone || 'America/New_York'
+          })
+      );
+    });
+    afterAll(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('labels the bars and the selection with the UTC dates', async () => {
+      const { searchFacetsComponent } = setup(
+        'publication_date>="2020-02-01T00:00:00Z",publication_date<="2020-03-01T00:00:00Z"'
+      );
+      await searchFacetsComponent.findByText('Published');
+      expect(new Intl.DateTimeFormat('en').format(new Date('2020-02-01T00:00:00Z'))).toEqual(
+        '1/31/2020'
+      );
+      expect(getBars(searchFacetsComponent)[1].getAttribute('aria-label')).toEqual(
+        'Feb 1, 2020: 25 results'
+      );
+      expect(searchFacetsComponent.getByText('Feb 1, 2020 – Mar 1, 2020')).toBeDefined();
+    });
+  });
+});
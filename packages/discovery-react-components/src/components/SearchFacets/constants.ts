@@ -1,2 +1,3 @@
 export const MAX_FACETS_UNTIL_MODAL = 10;
 export const MAX_FACETS_UNTIL_SEARCHBAR = 15;
+export const TIMELINE_PRESET_DAYS = [7, 30, 365];
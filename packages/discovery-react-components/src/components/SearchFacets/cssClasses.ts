@@ -6,6 +6,9 @@ export const fieldsetClasses = [`${settings.prefix}--fieldset`, baseClass];
 export const labelClasses = [`${settings.prefix}--label`, `${baseClass}__facet__label`];
 export const optionClass = `${baseClass}__facet__option`;
 export const optionLabelClass = `${baseClass}__facet__option-label`;
+export const optionRowClass = `${baseClass}__facet__option-row`;
+export const optionRowExcludedClass = `${optionRowClass}--excluded`;
+export const optionExcludeClass = `${baseClass}__facet__option-exclude`;
 export const singleSelectGroupClass = `${baseClass}__facet__single__select__group`;
 export const labelAndSelectionContainerClass = `${baseClass}__facet__label-and-selection-container`;
 export const showMoreModalClass = `${baseClass}__facet__show-more-modal`;
@@ -15,3 +18,24 @@ export const categoryExpandCollapseClass = `${categoryClass}--expand-collapse`;
 export const categoryGroupNameClass = `${categoryClass}--category-name`;
 
 export const collectionFacetIdPrefix = 'collection-facet-';
+
+export const rangeFacetClass = `${baseClass}__range`;
+export const rangeFacetBarsClass = `${rangeFacetClass}-bars`;
+export const rangeFacetBarClass = `${rangeFacetClass}-bar`;
+export const rangeFacetBarSelectedClass = `${rangeFacetBarClass}--selected`;
+export const rangeFacetSlidersClass = `${rangeFacetClass}-sliders`;
+export const rangeFacetSliderClass = `${rangeFacetClass}-slider`;
+export const rangeFacetSelectionClass = `${rangeFacetClass}-selection`;
+
+export const timelineFacetClass = `${baseClass}__timeline`;
+export const timelineFacetPresetsClass = `${timelineFacetClass}-presets`;
+export const timelineFacetPresetClass = `${timelineFacetClass}-preset`;
+export const timelineFacetBarsClass = `${timelineFacetClass}-bars`;
+export const timelineFacetBarClass = `${timelineFacetClass}-bar`;
+export const timelineFacetBarSelectedClass = `${timelineFacetBarClass}--selected`;
+export const timelineFacetSelectionClass = `${timelineFacetClass}-selection`;
+
+export const hierarchyClass = `${baseClass}__hierarchy`;
+export const hierarchyNodeClass = `${hierarchyClass}-node`;
+export const hierarchyNodeRowClass = `${hierarchyNodeClass}-row`;
+export const hierarchyToggleClass = `${hierarchyClass}-toggle`;
@@ -1,4 +1,6 @@
-export interface Messages {
+import { SearchErrorMessages } from 'utils/searchError';
+
+export interface Messages extends SearchErrorMessages {
   labelText: string;
   labelTextWithCount: string;
   clearAllButtonText: string;
@@ -16,6 +18,18 @@ export interface Messages {
   categoryExpandCollapseIconDescription: string;
   modalSearchBarPrompt: string;
   emptyModalSearch: string;
+  hierarchyExpandText: string;
+  hierarchyCollapseText: string;
+  excludeFacetText: string;
+  rangeFacetMinLabelText: string;
+  rangeFacetMaxLabelText: string;
+  rangeFacetSelectionText: string;
+  timelineFacetPresetsLabel: string;
+  timelineFacetPresetText: string;
+  timelineFacetBarLabelText: string;
+  timelineFacetSelectionText: string;
+  timelineFacetStartSelectionText: string;
+  timelineFacetEndSelectionText: string;
 }
 export const defaultMessages: Messages = {
   labelText: '{facetText}',
@@ -34,5 +48,23 @@ export const defaultMessages: Messages = {
   showMoreModalAriaLabel: 'Modal to select and deselect facets',
   categoryExpandCollapseIconDescription: 'Expand/Collapse',
   modalSearchBarPrompt: 'Find',
-  emptyModalSearch: 'There were no results found'
+  emptyModalSearch: 'There were no results found',
+  hierarchyExpandText: 'Expand {facetText}',
+  hierarchyCollapseText: 'Collapse {facetText}',
+  excludeFacetText: 'Exclude {facetText}',
+  rangeFacetMinLabelText: 'Minimum of {facet}',
+  rangeFacetMaxLabelText: 'Maximum of {facet}',
+  rangeFacetSelectionText: '{min} – {max}',
+  timelineFacetPresetsLabel: 'Preset date ranges',
+  timelineFacetPresetText: 'Last {days, plural, one {day} other {# days}}',
+  timelineFacetBarLabelText:
+    '{start, date, medium}: {count, plural, one {# result} other {# results}}',
+  timelineFacetSelectionText: '{start, date, medium} – {end, date, medium}',
+  timelineFacetStartSelectionText: 'Since {start, date, medium}',
+  timelineFacetEndSelectionText: 'Until {end, date, medium}',
+  unauthorizedErrorText: 'You are not authorized to fetch facets for this project',
+  rateLimitErrorText: 'Too many requests were sent. Wait a moment and try again',
+  invalidRequestErrorText: 'Facets could not be fetched because the query is not valid',
+  serverErrorText: 'Error fetching facets.',
+  genericErrorText: 'Error fetching facets.'
 };
@@ -0,0 +1,522 @@
+import { useContext, useEffect, useState } from 'react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import isEqual from 'lodash/isEqual';
+import { SearchContext, SearchApi } from 'components/DiscoverySearch/DiscoverySearch';
+import { useDeepCompareEffect } from 'utils/useDeepCompareMemoize';
+import useCompare from 'utils/useCompare';
+import { SearchError, toSearchError } from 'utils/searchError';
+import { FacetToggledEvent } from 'utils/searchEvents';
+import { mergeFilterFacets } from './utils/mergeFilterFacets';
+import { toggleFacetPrefix } from './utils/facetHierarchy';
+import { mergeDynamicFacets } from './utils/mergeDynamicFacets';
+import { mergeRangeFacets } from './utils/mergeRangeFacets';
+import { mergeTimelineFacets } from './utils/mergeTimelineFacets';
+import { SearchFilterTransform } from './utils/searchFilterTransform';
+import {
+  InternalQueryHistogramAggregation,
+  InternalQueryTermAggregation,
+  InternalQueryTimesliceAggregation,
+  SearchFilterFacets,
+  SelectableDynamicFacets
+} from './utils/searchFacetInterfaces';
+
+export interface UseFacetsOptions {
+  /**
+   * override aggregation component settings
+   */
+  overrideComponentSettingsAggregations?: DiscoveryV2.ComponentSettingsAggregation[];
+}
+
+export interface SelectableCollection extends DiscoveryV2.Collection {
+  selected: boolean;
+}
+
+export interface FacetsState {
+  /**
+   * state of the aggregations request
+   */
+  fetchState: 'init' | 'loading' | 'success' | 'error';
+  /**
+   * error of the aggregations request, if it failed
+   */
+  fetchError: SearchError | null;
+  /**
+   * term aggregations of the search, labeled from the component settings, with their selection
+   */
+  fieldFacets: InternalQueryTermAggregation[];
+  /**
+   * histogram aggregations of the search, labeled from the component settings, with their
+   * selected range
+   */
+  rangeFacets: InternalQueryHistogramAggregation[];
+  /**
+   * timeslice aggregations of the search, labeled from the component settings, with their
+   * selected date range
+   */
+  timelineFacets: InternalQueryTimesliceAggregation[];
+  /**
+   * suggested refinements of the search, with their selection
+   */
+  dynamicFacets: SelectableDynamicFacets[];
+  /**
+   * collections of the project, with their selection
+   */
+  collections: SelectableCollection[];
+  /**
+   * whether any field facet, dynamic facet or collection is selected
+   */
+  hasSelection: boolean;
+  /**
+   * replace the field and/or dynamic facets selection, and search with the resulting filter
+   */
+  updateFacets: (updatedFacets: Partial<SearchFilterFacets>) => void;
+  /**
+   * select or deselect a term of a field facet, and search with the resulting filter.
+   * Selecting a term of a facet not allowing multiple selections deselects its other terms
+   * @param facetName - name of the facet, or its field when the facet has no name
+   * @param key - term to toggle
+   * @param selected - selection of the term, toggled when not specified
+   */
+  toggleFieldFacet: (facetName: string, key: string, selected?: boolean) => void;
+  /**
+   * exclude a term of a field facet from the results or include it again, and search with the
+   * resulting filter. Excluding a term deselects it
+   * @param facetName - name of the facet, or its field when the facet has no name
+   * @param key - term to toggle
+   * @param excluded - exclusion of the term, toggled when not specified
+   */
+  toggleFieldFacetExclusion: (facetName: string, key: string, excluded?: boolean) => void;
+  /**
+   * select or deselect a path of a hierarchical field facet with its descendants, and search
+   * with the resulting filter. Selecting a path of a facet not allowing multiple selections
+   * deselects its other paths
+   * @param facetName - name of the facet, or its field when the facet has no name
+   * @param path - `/`-separated path to toggle
+   * @param selected - selection of the path, toggled when not specified
+   */
+  toggleHierarchyFacet: (facetName: string, path: string, selected?: boolean) => void;
+  /**
+   * select or deselect a dynamic facet, and search with the resulting filter
+   * @param text - text of the dynamic facet to toggle
+   * @param selected - selection of the dynamic facet, toggled when not specified
+   */
+  toggleDynamicFacet: (text: string, selected?: boolean) => void;
+  /**
+   * select a range of a numeric field, and search with the resulting filter
+   * @param field - field of the range facet
+   * @param min - lower bound of the range, unbounded when not specified
+   * @param max - upper bound of the range, unbounded when not specified. The range is deselected
+   * when neither bound is specified
+   */
+  setRangeFacet: (field: string, min?: number, max?: number) => void;
+  /**
+   * select a date range of a date field, and search with the resulting filter
+   * @param field - field of the timeline facet
+   * @param start - ISO-8601 start date of the range, unbounded when not specified
+   * @param end - ISO-8601 end date of the range, unbounded when not specified. The range is
+   * deselected when neither date is specified
+   */
+  setTimelineFacet: (field: string, start?: string, end?: string) => void;
+  /**
+   * select or deselect a collection, and search in the selected collections
+   * @param collectionId - id of the collection to toggle
+   * @param selected - selection of the collection, toggled when not specified
+   */
+  toggleCollection: (collectionId: string, selected?: boolean) => void;
+  /**
+   * replace the collections selection, and search in the selected collections
+   */
+  setSelectedCollections: (collectionIds: string[]) => void;
+  /**
+   * deselect every facet and collection, and search without filter
+   */
+  clearAll: () => void;
+}
+
+const getSelectedValues = ({
+  filterFields,
+  filterDynamic,
+  filterRanges = [],
+  filterDateRanges = [],
+  filterPrefixes = []
+}: SearchFilterFacets) => {
+  const fieldValues = filterFields.map(facet =>
+    (facet.results || [])
+      .filter(result => result.selected || result.excluded)
+      .map(result => ({
+        facetType: 'field' as const,
+        field: facet.field,
+        value: result.key,
+        ...(result.excluded && { excluded: true })
+      }))
+  );
+  const dynamicValues = filterDynamic
+    .filter(facet => facet.selected)
+    .map(facet => ({ facetType: 'dynamic' as const, value: facet.text || '' }));
+  const rangeValues = filterRanges.map(range => ({
+    facetType: 'range' as const,
+    field: range.field,
+    value: SearchFilterTransform.rangesToString([range])
+  }));
+  const prefixValues = filterPrefixes.map(({ field, prefix }) => ({
+    facetType: 'hierarchy' as const,
+    field,
+    value: prefix
+  }));
+  const dateRangeValues = filterDateRanges.map(range => ({
+    facetType: 'timeline' as const,
+    field: range.field,
+    value: SearchFilterTransform.dateRangesToString([range])
+  }));
+  return ([] as Omit<FacetToggledEvent, 'type' | 'selected'>[]).concat(
+    ...fieldValues,
+    prefixValues,
+    dynamicValues,
+    rangeValues,
+    dateRangeValues
+  );
+};
+
+// list the facet values selected and deselected between two selections
+const getFacetToggledEvents = (
+  previousFacets: SearchFilterFacets,
+  nextFacets: SearchFilterFacets
+): FacetToggledEvent[] => {
+  const toId = ({
+    facetType,
+    field,
+    value,
+    excluded
+  }: Omit<FacetToggledEvent, 'type' | 'selected'>) =>
+    [facetType, field, excluded ? `!${value}` : value].join(':');
+  const previousValues = getSelectedValues(previousFacets);
+  const nextValues = getSelectedValues(nextFacets);
+  const previousIds = previousValues.map(toId);
+  const nextIds = nextValues.map(toId);
+  return [
+    ...previousValues
+      .filter(value => !nextIds.includes(toId(value)))
+      .map(value => ({ type: 'facet_toggled' as const, ...value, selected: false })),
+    ...nextValues
+      .filter(value => !previousIds.includes(toId(value)))
+      .map(value => ({ type: 'facet_toggled' as const, ...value, selected: true }))
+  ];
+};
+
+const getCollectionToggledEvents = (
+  previousCollectionIds: string[],
+  nextCollectionIds: string[]
+): FacetToggledEvent[] => {
+  return [
+    ...previousCollectionIds
+      .filter(id => !nextCollectionIds.includes(id))
+      .map(value => ({
+        type: 'facet_toggled' as const,
+        facetType: 'collection' as const,
+        value,
+        selected: false
+      })),
+    ...nextCollectionIds
+      .filter(id => !previousCollectionIds.includes(id))
+      .map(value => ({
+        type: 'facet_toggled' as const,
+        facetType: 'collection' as const,
+        value,
+        selected: true
+      }))
+  ];
+};
+
+/**
+ * Headless hook fetching the aggregations of the current search and returning the field, dynamic
+ * and collection facets with their selection, to render search facets with custom markup
+ * @param options - facets options
+ */
+export const useFacets = ({
+  overrideComponentSettingsAggregations
+}: UseFacetsOptions = {}): FacetsState => {
+  const {
+    aggregationResults,
+    searchResponseStore: {
+      parameters: searchParameters,
+      parameters: { filter, collectionIds },
+      data: searchResponse
+    },
+    collectionsResults,
+    componentSettings
+  } = useContext(SearchContext);
+  const { fetchAggregations, performSearch, emitEvent } = useContext(SearchApi);
+
+  const [facetSelectionState, setFacetSelectionState] = useState<SearchFilterFacets>(
+    SearchFilterTransform.fromString(filter || '')
+  );
+
+  const allCollections: DiscoveryV2.Collection[] = get(collectionsResults, 'collections', []);
+  const getSelectedCollectionIds = (): string[] => {
+    const selectedCollectionIds = collectionIds || [];
+    return allCollections
+      .map(collection => collection.collection_id || '')
+      .filter(id => !!id && selectedCollectionIds.includes(id));
+  };
+  const [collectionSelectionState, setCollectionSelectionState] = useState<string[]>(
+    getSelectedCollectionIds
+  );
+
+  const [fetchState, setFetchState] = useState<FacetsState['fetchState']>('init');
+  const [fetchError, setFetchError] = useState<SearchError | null>(null);
+
+  const aggregations = aggregationResults || [];
+  const componentSettingsAggregations =
+    overrideComponentSettingsAggregations ||
+    (componentSettings && componentSettings.aggregations) ||
+    [];
+
+  const searchParamsAggregationChanged = useCompare(searchParameters.aggregation);
+  useEffect(() => {
+    async function fetchData() {
+      setFetchState('loading');
+      try {
+        await fetchAggregations(searchParameters);
+        setFetchError(null);
+        setFetchState('success');
+      } catch (error) {
+        setFetchError(toSearchError(error, searchParameters));
+        setFetchState('error');
+      }
+    }
+
+    if (searchParamsAggregationChanged || fetchState === 'init') {
+      fetchData();
+    }
+  }, [fetchAggregations, fetchState, searchParameters, searchParamsAggregationChanged]);
+
+  useDeepCompareEffect(() => {
+    if (filter === '') {
+      setFacetSelectionState({
+        filterFields: [],
+        filterDynamic: [],
+        filterRanges: [],
+        filterDateRanges: [],
+        filterPrefixes: []
+      });
+    }
+  }, [aggregations, filter]);
+
+  // follow the searches not made by the facets, ie. a restored search state
+  useEffect(() => {
+    if (filter) {
+      setFacetSelectionState(current =>
+        SearchFilterTransform.toString(current) === filter
+          ? current
+          : SearchFilterTransform.fromString(filter)
+      );
+    }
+  }, [filter]);
+
+  useDeepCompareEffect(() => {
+    const selectedCollectionIds = getSelectedCollectionIds();
+    setCollectionSelectionState(current =>
+      isEqual([...current].sort(), [...selectedCollectionIds].sort())
+        ? current
+        : selectedCollectionIds
+    );
+  }, [collectionIds]);
+
+  const fieldFacets = mergeFilterFacets(
+    aggregations,
+    facetSelectionState.filterFields,
+    componentSettingsAggregations,
+    facetSelectionState.filterPrefixes
+  );
+  const rangeFacets = mergeRangeFacets(
+    aggregations,
+    facetSelectionState.filterRanges || [],
+    componentSettingsAggregations
+  );
+  const timelineFacets = mergeTimelineFacets(
+    aggregations,
+    facetSelectionState.filterDateRanges || [],
+    componentSettingsAggregations
+  );
+  const dynamicFacets: SelectableDynamicFacets[] = mergeDynamicFacets(
+    get(searchResponse, 'suggested_refinements', []),
+    facetSelectionState.filterDynamic
+  );
+  const collections = allCollections.map(collection => ({
+    ...collection,
+    selected: collectionSelectionState.includes(collection.collection_id || '')
+  }));
+
+  const hasFieldSelection = facetSelectionState.filterFields.some(aggregation => {
+    return (
+      aggregation.results &&
+      aggregation.results.some(result => {
+        return result.selected || result.excluded;
+      })
+    );
+  });
+  const hasPrefixSelection = (facetSelectionState.filterPrefixes || []).length > 0;
+  const hasDynamicSelection = facetSelectionState.filterDynamic.some(dynamicFacet => {
+    return dynamicFacet.selected;
+  });
+  const hasRangeSelection =
+    (facetSelectionState.filterRanges || []).length > 0 ||
+    (facetSelectionState.filterDateRanges || []).length > 0;
+  const hasCollectionSelection = collectionSelectionState.length > 0;
+
+  const updateFacets = (updatedFacets: Partial<SearchFilterFacets>): void => {
+    const currentFilters = {
+      filterFields: fieldFacets,
+      filterDynamic: dynamicFacets,
+      filterRanges: facetSelectionState.filterRanges || [],
+      filterDateRanges: facetSelectionState.filterDateRanges || [],
+      filterPrefixes: facetSelectionState.filterPrefixes || []
+    };
+    const newFilters = { ...currentFilters, ...updatedFacets };
+    const filter = SearchFilterTransform.toString(newFilters);
+    getFacetToggledEvents(currentFilters, newFilters).forEach(event => emitEvent(event));
+    setFacetSelectionState(newFilters);
+    performSearch({ ...searchParameters, offset: 0, filter }, false);
+  };
+
+  const toggleFieldFacet = (facetName: string, key: string, selected?: boolean): void => {
+    const filterFields = fieldFacets.map(facet => {
+      if ((facet.name || facet.field) !== facetName) {
+        return facet;
+      }
+      const multiselect = get(facet, 'multiple_selections_allowed', true);
+      const results = facet.results || [];
+      const toggledResult = results.find(result => result.key === key);
+      const checked = selected === undefined ? !get(toggledResult, 'selected', false) : selected;
+      return {
+        ...facet,
+        results: results.map(result => {
+          if (result.key === key) {
+            return { ...result, selected: checked, excluded: false };
+          }
+          return !multiselect && checked ? { ...result, selected: false } : result;
+        })
+      };
+    });
+    updateFacets({ filterFields });
+  };
+
+  const toggleFieldFacetExclusion = (facetName: string, key: string, excluded?: boolean): void => {
+    const filterFields = fieldFacets.map(facet => {
+      if ((facet.name || facet.field) !== facetName) {
+        return facet;
+      }
+      const results = facet.results || [];
+      const toggledResult = results.find(result => result.key === key);
+      const isExcluded = excluded === undefined ? !get(toggledResult, 'excluded', false) : excluded;
+      return {
+        ...facet,
+        results: results.map(result =>
+          result.key === key ? { ...result, selected: false, excluded: isExcluded } : result
+        )
+      };
+    });
+    updateFacets({ filterFields });
+  };
+
+  const toggleHierarchyFacet = (facetName: string, path: string, selected?: boolean): void => {
+    updateFacets({ filterPrefixes: toggleFacetPrefix(fieldFacets, facetName, path, selected) });
+  };
+
+  const toggleDynamicFacet = (text: string, selected?: boolean): void => {
+    const filterDynamic = dynamicFacets.map(facet => {
+      if (facet.text !== text) {
+        return facet;
+      }
+      return { ...facet, selected: selected === undefined ? !facet.selected : selected };
+    });
+    updateFacets({ filterDynamic });
+  };
+
+  const setRangeFacet = (field: string, min?: number, max?: number): void => {
+    const otherRanges = (facetSelectionState.filterRanges || []).filter(
+      range => range.field !== field
+    );
+    const isSelected = min !== undefined || max !== undefined;
+    updateFacets({
+      filterRanges: isSelected ? [...otherRanges, { field, min, max }] : otherRanges
+    });
+  };
+
+  const setTimelineFacet = (field: string, start?: string, end?: string): void => {
+    const otherRanges = (facetSelectionState.filterDateRanges || []).filter(
+      range => range.field !== field
+    );
+    const isSelected = !!start || !!end;
+    updateFacets({
+      filterDateRanges: isSelected ? [...otherRanges, { field, start, end }] : otherRanges
+    });
+  };
+
+  const setSelectedCollections = (collectionIds: string[]): void => {
+    getCollectionToggledEvents(collectionSelectionState, collectionIds).forEach(event =>
+      emitEvent(event)
+    );
+    setCollectionSelectionState(collectionIds);
+    performSearch({ ...searchParameters, offset: 0, collectionIds });
+  };
+
+  const toggleCollection = (collectionId: string, selected?: boolean): void => {
+    const isSelected = collectionSelectionState.includes(collectionId);
+    const checked = selected === undefined ? !isSelected : selected;
+    const otherCollectionIds = collectionSelectionState.filter(id => id !== collectionId);
+    setSelectedCollections(checked ? [...otherCollectionIds, collectionId] : otherCollectionIds);
+  };
+
+  const clearAll = (): void => {
+    [
+      ...getFacetToggledEvents(
+        {
+          filterFields: fieldFacets,
+          filterDynamic: dynamicFacets,
+          filterRanges: facetSelectionState.filterRanges,
+          filterDateRanges: facetSelectionState.filterDateRanges,
+          filterPrefixes: facetSelectionState.filterPrefixes
+        },
+        { filterFields: [], filterDynamic: [] }
+      ),
+      ...getCollectionToggledEvents(collectionSelectionState, [])
+    ].forEach(event => emitEvent(event));
+    setFacetSelectionState({
+      filterFields: [],
+      filterDynamic: [],
+      filterRanges: [],
+      filterDateRanges: [],
+      filterPrefixes: []
+    });
+    setCollectionSelectionState([]);
+    performSearch({ ...searchParameters, collectionIds: [], offset: 0, filter: '' }, false);
+  };
+
+  return {
+    fetchState,
+    fetchError,
+    fieldFacets,
+    rangeFacets,
+    timelineFacets,
+    dynamicFacets,
+    collections,
+    hasSelection:
+      hasFieldSelection ||
+      hasPrefixSelection ||
+      hasRangeSelection ||
+      hasDynamicSelection ||
+      hasCollectionSelection,
+    updateFacets,
+    toggleFieldFacet,
+    toggleFieldFacetExclusion,
+    toggleHierarchyFacet,
+    toggleDynamicFacet,
+    setRangeFacet,
+    setTimelineFacet,
+    toggleCollection,
+    setSelectedCollections,
+    clearAll
+  };
+};
@@ -5,7 +5,9 @@ import {
   configurationWithoutCounts,
   configurationWithTopEntities,
   configurationWithFilterQueryAggregation,
-  configurationWithNestedQueryAggregation
+  configurationWithNestedQueryAggregation,
+  configurationWithHistogram,
+  configurationWithTimeslice
 } from 'components/SearchFacets/__fixtures__/configuration';
 
 describe('BuildAggregationQuery', () => {
@@ -44,4 +46,14 @@ describe('BuildAggregationQuery', () => {
       '[nested(enriched_text.entities).term(enriched_text.entities.text,count:12,name:entities).term(enriched_text.entities.type,count:1),term(author),nested(enriched_text.entities.enriched_text.entities.text).filter(enriched_text.entities.enriched_text.entities.model_name:"Dictionary:.test").term(enriched_text.entities.enriched_text.entities.text,count:4,name:dict_yqYQPpM8OljE)]'
     );
   });
+
+  test('it converts configuration with a histogram to expected aggregation parameter', () => {
+    const aggParam = buildAggregationQuery(configurationWithHistogram);
+    expect(aggParam).toEqual('[term(author,count:5),histogram(price,interval:10,name:prices)]');
+  });
+
+  test('it converts configuration with a timeslice to expected aggregation parameter', () => {
+    const aggParam = buildAggregationQuery(configurationWithTimeslice);
+    expect(aggParam).toEqual('[timeslice(publication_date,1month,name:publications)]');
+  });
 });
@@ -0,0 +1,72 @@
+import { buildFacetHierarchy, isHierarchicalFacet, toggleFacetPrefix } from '../facetHierarchy';
+import { categoriesAggregation } from 'components/SearchFacets/__fixtures__/aggregationResponses';
+import { InternalQueryTermAggregation } from '../searchFacetInterfaces';
+
+const results = categoriesAggregation.results || [];
+
+describe('isHierarchicalFacet', () => {
+  test('detects the facets with paths as terms', () => {
+    expect(isHierarchicalFacet(results)).toEqual(true);
+    expect(isHierarchicalFacet([...results, { key: 'flat', matching_results: 1 }])).toEqual(false);
+    expect(isHierarchicalFacet([])).toEqual(false);
+  });
+});
+
+describe('buildFacetHierarchy', () => {
+  test('builds the tree of the paths with rolled up counts', () => {
+    const hierarchy = buildFacetHierarchy(results, ['/technology/software']);
+    expect(hierarchy.map(({ path, matching_results }) => [path, matching_results])).toEqual([
+      ['/technology', 80],
+      ['/science', 40],
+      ['/art and entertainment', 10]
+    ]);
+    const [technology] = hierarchy;
+    expect(technology.label).toEqual('technology');
+    expect(technology.selected).toEqual(false);
+    expect(
+      technology.children.map(({ path, matching_results, selected }) => [
+        path,
+        matching_results,
+        selected
+      ])
+    ).toEqual([
+      ['/technology/software', 50, true],
+      ['/technology/hardware', 25, false]
+    ]);
+    expect(technology.children[0].children.map(({ label }) => label)).toEqual([
+      'databases',
+      'operating systems'
+    ]);
+  });
+});
+
+describe('toggleFacetPrefix', () => {
+  const facets: InternalQueryTermAggregation[] = [
+    { ...categoriesAggregation, selectedPrefixes: ['/science'] },
+    { type: 'term', field: 'author', selectedPrefixes: ['/staff'] }
+  ];
+
+  test('selects and deselects a path', () => {
+    expect(toggleFacetPrefix(facets, categoriesAggregation.field, '/technology')).toEqual([
+      { field: 'enriched_text.categories.label', prefix: '/science' },
+      { field: 'author', prefix: '/staff' },
+      { field: 'enriched_text.categories.label', prefix: '/technology' }
+    ]);
+    expect(toggleFacetPrefix(facets, categoriesAggregation.field, '/science')).toEqual([
+      { field: 'author', prefix: '/staff' }
+    ]);
+  });
+
+  test('replaces the selection of a facet not allowing multiple selections', () => {
+    const singleSelectFacets = facets.map(facet => ({
+      ...facet,
+      multiple_selections_allowed: false
+    }));
+    expect(
+      toggleFacetPrefix(singleSelectFacets, categoriesAggregation.field, '/technology', true)
+    ).toEqual([
+      { field: 'author', prefix: '/staff' },
+      { field: 'enriched_text.categories.label', prefix: '/technology' }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { mergeRangeFacets } from '../mergeRangeFacets';
+import { findHistogramAggregations } from '../findHistogramAggregations';
+import {
+  histogramAggregation,
+  termAndNestedHistogramAggs
+} from 'components/SearchFacets/__fixtures__/aggregationResponses';
+
+describe('findHistogramAggregations', () => {
+  test('finds histogram aggregations nested in filter aggregations', () => {
+    expect(findHistogramAggregations(termAndNestedHistogramAggs.aggregations)).toEqual([
+      histogramAggregation
+    ]);
+  });
+});
+
+describe('mergeRangeFacets', () => {
+  test('adds the label of the component settings and the selected range', () => {
+    const rangeFacets = mergeRangeFacets(
+      termAndNestedHistogramAggs.aggregations || [],
+      [
+        { field: 'price', min: 10 },
+        { field: 'rating', max: 3 }
+      ],
+      [{ name: 'prices', label: 'Price' }]
+    );
+    expect(rangeFacets).toEqual([
+      {
+        ...histogramAggregation,
+        label: 'Price',
+        selectedRange: { field: 'price', min: 10 }
+      }
+    ]);
+  });
+
+  test('returns an empty list without aggregations', () => {
+    expect(mergeRangeFacets([], [], [])).toEqual([]);
+  });
+});
@@ -123,3 +123,153 @@ describe('Filter string to QueryTermAggregation array', () => {
     ]);
   });
 });
+
+describe('Range filters', () => {
+  test('it parses range bounds out of the filter string', () => {
+    const filters = SearchFilterTransform.fromString(
+      'author:"ABMN Staff",price>=10,price<=30,rating>=2.5'
+    );
+    expect(filters.filterRanges).toEqual([
+      { field: 'price', min: 10, max: 30 },
+      { field: 'rating', min: 2.5 }
+    ]);
+    expect(filters.filterFields).toEqual([
+      {
+        type: 'term',
+        field: 'author',
+        results: [expect.objectContaining({ key: 'ABMN Staff', selected: true })]
+      }
+    ]);
+  });
+
+  test('it round trips ranges through the filter string', () => {
+    const filter = 'author:"ABMN Staff",price>=10,price<=30,rating<=-1';
+    expect(SearchFilterTransform.toString(SearchFilterTransform.fromString(filter))).toEqual(
+      filter
+    );
+  });
+});
+
+describe('Date range filters', () => {
+  test('it parses date bounds out of the filter string', () => {
+    const filters = SearchFilterTransform.fromString(
+      'publication_date>="2020-01-01T00:00:00Z",publication_date<="2020-03-01T00:00:00Z",crawl_date>="2019-06-01"'
+    );
+    expect(filters.filterDateRanges).toEqual([
+      { field: 'publication_date', start: '2020-01-01T00:00:00Z', end: '2020-03-01T00:00:00Z' },
+      { field: 'crawl_date', start: '2019-06-01' }
+    ]);
+    expect(filters.filterFields).toEqual([]);
+    expect(filters.filterDynamic).toEqual([]);
+  });
+
+  test('it round trips date ranges through the filter string', () => {
+    const filter =
+      'author:"ABMN Staff",price>=10,publication_date>="2020-01-01T00:00:00Z",publication_date<="2020-03-01T00:00:00Z"';
+    expect(SearchFilterTransform.toString(SearchFilterTransform.fromString(filter))).toEqual(
+      filter
+    );
+  });
+});
+
+describe('Prefix filters', () => {
+  test('it parses paths and their descendants out of the filter string', () => {
+    const filters = SearchFilterTransform.fromString(
+      'enriched_text.categories.label::"/technology/software"|enriched_text.categories.label:"/technology/software/*"|enriched_text.categories.label::"/art and entertainment"|enriched_text.categories.label:"/art and entertainment/*",author:"ABMN Staff"'
+    );
+    expect(filters.filterPrefixes).toEqual([
+      { field: 'enriched_text.categories.label', prefix: '/technology/software' },
+      { field: 'enriched_text.categories.label', prefix: '/art and entertainment' }
+    ]);
+    expect(filters.filterFields).toHaveLength(1);
+  });
+
+  test('it only selects a path and its descendants', () => {
+    expect(
+      SearchFilterTransform.toString({
+        filterFields: [],
+        filterDynamic: [],
+        filterPrefixes: [{ field: 'category', prefix: '/a' }]
+      })
+    ).toEqual('category::"/a"|category:"/a/*"');
+  });
+
+  test('it round trips paths through the filter string', () => {
+    const filter =
+      'author:"ABMN Staff",enriched_text.categories.label::"/technology/software"|enriched_text.categories.label:"/technology/software/*"|enriched_text.categories.label::"/science"|enriched_text.categories.label:"/science/*"';
+    expect(SearchFilterTransform.toString(SearchFilterTransform.fromString(filter))).toEqual(
+      filter
+    );
+  });
+
+  test('it round trips paths with reserved characters', () => {
+    const filterPrefixes = [
+      { field: 'category', prefix: '/news, sports & "games"' },
+      { field: 'category', prefix: '/a:b|c\\d*' }
+    ];
+    const filter = SearchFilterTransform.toString({
+      filterFields: [],
+      filterDynamic: [],
+      filterPrefixes
+    });
+    expect(filter).toEqual(
+      'category::"/news, sports & \\"games\\""|category:"/news, sports & \\"games\\"/*"|category::"/a:b|c\\\\d*"|category:"/a:b|c\\\\d*/*"'
+    );
+    const filters = SearchFilterTransform.fromString(`${filter},author:"ABMN Staff"`);
+    expect(filters.filterPrefixes).toEqual(filterPrefixes);
+    expect(filters.filterFields).toHaveLength(1);
+  });
+
+  test('it does not parse mismatched paths as prefixes', () => {
+    const filters = SearchFilterTransform.fromString('category::"/a"|category:"/b/*"');
+    expect(filters.filterPrefixes).toEqual([]);
+  });
+});
+
+describe('Excluded terms', () => {
+  test('it parses exclusions into the results of their field', () => {
+    const filters = SearchFilterTransform.fromString(
+      'author:"ABMN Staff",author:!"Eric Nguyen",subject:!"Animals"'
+    );
+    expect(filters.filterFields).toEqual([
+      {
+        type: 'term',
+        field: 'author',
+        results: [
+          { key: 'ABMN Staff', matching_results: 1, selected: true },
+          { key: 'Eric Nguyen', matching_results: 1, selected: false, excluded: true }
+        ]
+      },
+      {
+        type: 'term',
+        field: 'subject',
+        results: [{ key: 'Animals', matching_results: 1, selected: false, excluded: true }]
+      }
+    ]);
+  });
+
+  test('it writes each exclusion as its own filter after the selected terms', () => {
+    const filter = SearchFilterTransform.toString({
+      filterFields: [
+        {
+          type: 'term',
+          field: 'author',
+          results: [
+            { key: 'Eric Nguyen', matching_results: 2, excluded: true },
+            { key: 'ABMN Staff', matching_results: 3, selected: true },
+            { key: 'Aaron Mason', matching_results: 1, selected: false, excluded: true }
+          ]
+        }
+      ],
+      filterDynamic: []
+    });
+    expect(filter).toEqual('author:"ABMN Staff",author:!"Eric Nguyen",author:!"Aaron Mason"');
+  });
+
+  test('it round trips exclusions through the filter string', () => {
+    const filter = 'author:"ABMN Staff",author:!"Eric Nguyen",price>=10';
+    expect(SearchFilterTransform.toString(SearchFilterTransform.fromString(filter))).toEqual(
+      filter
+    );
+  });
+});
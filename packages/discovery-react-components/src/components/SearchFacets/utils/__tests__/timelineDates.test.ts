@@ -0,0 +1,27 @@
+import { addInterval, getPresetStart, toFilterDate } from '../timelineDates';
+
+describe('addInterval', () => {
+  const date = new Date('2020-01-31T00:00:00Z');
+
+  test('adds calendar intervals', () => {
+    expect(toFilterDate(addInterval(date, '1day'))).toEqual('2020-02-01T00:00:00Z');
+    expect(toFilterDate(addInterval(date, '2weeks'))).toEqual('2020-02-14T00:00:00Z');
+    expect(toFilterDate(addInterval(date, '1year'))).toEqual('2021-01-31T00:00:00Z');
+  });
+
+  test('adds time intervals', () => {
+    expect(toFilterDate(addInterval(date, '12hours'))).toEqual('2020-01-31T12:00:00Z');
+    expect(toFilterDate(addInterval(date, '30minutes'))).toEqual('2020-01-31T00:30:00Z');
+    expect(toFilterDate(addInterval(date, '1second'))).toEqual('2020-01-31T00:00:01Z');
+  });
+
+  test('adds a day for an unknown interval', () => {
+    expect(toFilterDate(addInterval(date, 'fortnight'))).toEqual('2020-02-01T00:00:00Z');
+  });
+});
+
+describe('getPresetStart', () => {
+  test('starts the range at midnight UTC the number of days before', () => {
+    expect(getPresetStart(7, new Date('2020-03-05T15:30:00Z'))).toEqual('2020-02-27T00:00:00Z');
+  });
+});
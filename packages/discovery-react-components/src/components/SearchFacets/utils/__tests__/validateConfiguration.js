@@ -41,4 +41,39 @@ describe('validate configuration correctly validates input', () => {
     const validConfiguration = validateConfiguration(undefined);
     expect(validConfiguration).toEqual(false);
   });
+
+  test('it returns true for a histogram with a numeric interval', () => {
+    const validConfiguration = validateConfiguration([
+      {
+        field: 'author',
+        count: 5
+      },
+      {
+        type: 'histogram',
+        field: 'price',
+        interval: 10
+      }
+    ]);
+    expect(validConfiguration).toEqual(true);
+  });
+
+  test('it returns false when the interval of a histogram is not a positive number', () => {
+    expect(validateConfiguration([{ type: 'histogram', field: 'price', interval: 'ten' }])).toEqual(
+      false
+    );
+    expect(validateConfiguration([{ type: 'histogram', field: 'price', interval: 0 }])).toEqual(
+      false
+    );
+  });
+
+  test('it returns true for a timeslice with an interval', () => {
+    const validConfiguration = validateConfiguration([
+      {
+        type: 'timeslice',
+        field: 'publication_date',
+        interval: '1day'
+      }
+    ]);
+    expect(validConfiguration).toEqual(true);
+  });
 });
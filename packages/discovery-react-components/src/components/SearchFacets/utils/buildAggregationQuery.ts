@@ -2,8 +2,14 @@ import { QueryAggregationWithName } from './searchFacetInterfaces';
 
 export const buildAggregationQuery = (configuration: QueryAggregationWithName[]): string => {
   const aggregation = configuration.map(
-    ({ type, count, name, field, aggregations, match, path }) => {
-      if (type === 'term' && field) {
+    ({ type, count, name, field, interval, aggregations, match, path }) => {
+      if (type === 'histogram' && field && interval) {
+        const histogramName = name ? ',name:' + name : '';
+        return 'histogram(' + field + ',interval:' + interval + histogramName + ')';
+      } else if (type === 'timeslice' && field && interval) {
+        const timesliceName = name ? ',name:' + name : '';
+        return 'timeslice(' + field + ',' + interval + timesliceName + ')';
+      } else if (type === 'term' && field) {
         const termCount = count ? ',count:' + count : '';
         const termName = name ? ',name:' + name : '';
         let nestedTypeTermAgg = '';
@@ -0,0 +1,98 @@
+import {
+  FacetHierarchyNode,
+  InternalQueryTermAggregation,
+  SelectableQueryTermAggregationResult,
+  SelectedPrefix
+} from './searchFacetInterfaces';
+
+const PATH_SEPARATOR = '/';
+
+/**
+ * whether the terms of a facet are `/`-separated paths, such as the labels of categories
+ * @param results - terms of the facet
+ */
+export const isHierarchicalFacet = (results: SelectableQueryTermAggregationResult[]): boolean =>
+  results.length > 0 && results.every(({ key }) => `${key}`.startsWith(PATH_SEPARATOR));
+
+/**
+ * build the tree of the paths of a hierarchical facet, with the matching results of each node
+ * rolled up from its descendants
+ * @param results - terms of the facet
+ * @param selectedPaths - paths selected as prefixes
+ */
+export const buildFacetHierarchy = (
+  results: SelectableQueryTermAggregationResult[],
+  selectedPaths: string[] = []
+): FacetHierarchyNode[] => {
+  const roots: FacetHierarchyNode[] = [];
+  results.forEach(({ key, matching_results }) => {
+    let siblings = roots;
+    let path = '';
+    `${key}`
+      .split(PATH_SEPARATOR)
+      .filter(Boolean)
+      .forEach(segment => {
+        path = `${path}${PATH_SEPARATOR}${segment}`;
+        let node = siblings.find(sibling => sibling.path === path);
+        if (!node) {
+          node = {
+            path,
+            label: segment,
+            matching_results: 0,
+            selected: selectedPaths.includes(path),
+            children: []
+          };
+          siblings.push(node);
+        }
+        node.matching_results += matching_results;
+        siblings = node.children;
+      });
+  });
+
+  const sortByMatchingResults = (nodes: FacetHierarchyNode[]): FacetHierarchyNode[] =>
+    nodes
+      .sort((a, b) => b.matching_results - a.matching_results)
+      .map(node => ({ ...node, children: sortByMatchingResults(node.children) }));
+  return sortByMatchingResults(roots);
+};
+
+/**
+ * paths selected as prefixes in the hierarchical facets
+ * @param facets - field facets with their selected prefixes
+ */
+export const getSelectedPrefixes = (facets: InternalQueryTermAggregation[]): SelectedPrefix[] =>
+  facets.reduce(
+    (prefixes: SelectedPrefix[], { field, selectedPrefixes = [] }) =>
+      prefixes.concat(selectedPrefixes.map(prefix => ({ field, prefix }))),
+    []
+  );
+
+/**
+ * select or deselect a path of a hierarchical facet. Selecting a path of a facet not allowing
+ * multiple selections deselects its other paths
+ * @param facets - field facets with their selected prefixes
+ * @param facetName - name of the facet, or its field when the facet has no name
+ * @param path - path to toggle
+ * @param selected - selection of the path, toggled when not specified
+ */
+export const toggleFacetPrefix = (
+  facets: InternalQueryTermAggregation[],
+  facetName: string,
+  path: string,
+  selected?: boolean
+): SelectedPrefix[] => {
+  const prefixes = getSelectedPrefixes(facets);
+  const facet = facets.find(facet => (facet.name || facet.field) === facetName);
+  if (!facet) {
+    return prefixes;
+  }
+  const isSelected = (facet.selectedPrefixes || []).includes(path);
+  const checked = selected === undefined ? !isSelected : selected;
+  const otherPrefixes = prefixes.filter(prefix => {
+    if (prefix.field !== facet.field) {
+      return true;
+    }
+    return prefix.prefix !== path && (!checked || facet.multiple_selections_allowed !== false);
+  });
+  return checked ? [...otherPrefixes, { field: facet.field, prefix: path }] : otherPrefixes;
+};
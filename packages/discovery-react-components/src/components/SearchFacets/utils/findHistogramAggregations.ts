@@ -0,0 +1,17 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { isBucketAggregation } from './findTermAggregations';
+
+export function findHistogramAggregations(
+  inputAggregations: DiscoveryV2.QueryAggregation[] = [],
+  outputAggregations: DiscoveryV2.QueryHistogramAggregation[] = []
+): DiscoveryV2.QueryHistogramAggregation[] {
+  inputAggregations.forEach((aggregation: DiscoveryV2.QueryAggregation) => {
+    if (aggregation.type === 'histogram') {
+      outputAggregations.push(aggregation as DiscoveryV2.QueryHistogramAggregation);
+    } else if (isBucketAggregation(aggregation)) {
+      outputAggregations.push(...findHistogramAggregations(aggregation.aggregations || []));
+    }
+  });
+
+  return outputAggregations;
+}
@@ -1,6 +1,6 @@
 import DiscoveryV2, { QueryAggregation } from 'ibm-watson/discovery/v2';
 
-function isBucketAggregation(
+export function isBucketAggregation(
   aggregation: QueryAggregation
 ): aggregation is DiscoveryV2.QueryFilterAggregation | DiscoveryV2.QueryNestedAggregation {
   const { type } = aggregation;
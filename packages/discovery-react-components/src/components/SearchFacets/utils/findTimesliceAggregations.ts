@@ -0,0 +1,17 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { isBucketAggregation } from './findTermAggregations';
+
+export function findTimesliceAggregations(
+  inputAggregations: DiscoveryV2.QueryAggregation[] = [],
+  outputAggregations: DiscoveryV2.QueryTimesliceAggregation[] = []
+): DiscoveryV2.QueryTimesliceAggregation[] {
+  inputAggregations.forEach((aggregation: DiscoveryV2.QueryAggregation) => {
+    if (aggregation.type === 'timeslice') {
+      outputAggregations.push(aggregation as DiscoveryV2.QueryTimesliceAggregation);
+    } else if (isBucketAggregation(aggregation)) {
+      outputAggregations.push(...findTimesliceAggregations(aggregation.aggregations || []));
+    }
+  });
+
+  return outputAggregations;
+}
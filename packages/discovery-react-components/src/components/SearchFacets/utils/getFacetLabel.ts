@@ -5,8 +5,14 @@ export const getFacetLabel = (
   facetText: string,
   count: number | undefined,
   messages: Messages,
-  showMatchingResults: boolean
+  showMatchingResults: boolean,
+  locale?: string
 ) =>
   count !== undefined && showMatchingResults
-    ? formatMessage(messages.labelTextWithCount, { facetText: facetText, count: count }, false)
-    : formatMessage(messages.labelText, { facetText: facetText }, false);
+    ? formatMessage(
+        messages.labelTextWithCount,
+        { facetText: facetText, count: count },
+        false,
+        locale
+      )
+    : formatMessage(messages.labelText, { facetText: facetText }, false, locale);
@@ -1,6 +1,7 @@
 import {
   InternalQueryTermAggregation,
-  SelectableQueryTermAggregationResult
+  SelectableQueryTermAggregationResult,
+  SelectedPrefix
 } from './searchFacetInterfaces';
 import { findTermAggregations } from './findTermAggregations';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
@@ -10,7 +11,8 @@ import unionBy from 'lodash/unionBy';
 export const mergeFilterFacets = (
   aggregations: DiscoveryV2.QueryAggregation[],
   filterFields: InternalQueryTermAggregation[],
-  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[]
+  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[],
+  filterPrefixes: SelectedPrefix[] = []
 ): InternalQueryTermAggregation[] => {
   if (!aggregations) {
     return [];
@@ -77,6 +79,9 @@ export const mergeFilterFacets = (
             if (matchingFilterFacetResult && matchingFilterFacetResult.selected) {
               return { ...result, selected: true };
             }
+            if (matchingFilterFacetResult && matchingFilterFacetResult.excluded) {
+              return { ...result, excluded: true };
+            }
             return result;
           }
         );
@@ -93,5 +98,12 @@ export const mergeFilterFacets = (
       } else {
         return aggregation;
       }
+    })
+    .map(aggregation => {
+      // add the paths of hierarchical facets selected as prefixes
+      const selectedPrefixes = filterPrefixes
+        .filter(({ field }) => field === aggregation.field)
+        .map(({ prefix }) => prefix);
+      return selectedPrefixes.length > 0 ? { ...aggregation, selectedPrefixes } : aggregation;
     });
 };
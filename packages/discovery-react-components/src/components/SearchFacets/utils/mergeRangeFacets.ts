@@ -0,0 +1,31 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { InternalQueryHistogramAggregation, SelectedRange } from './searchFacetInterfaces';
+import { findHistogramAggregations } from './findHistogramAggregations';
+
+export const mergeRangeFacets = (
+  aggregations: DiscoveryV2.QueryAggregation[],
+  filterRanges: SelectedRange[],
+  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[]
+): InternalQueryHistogramAggregation[] => {
+  if (!aggregations) {
+    return [];
+  }
+
+  return findHistogramAggregations(aggregations)
+    .filter(aggregation => aggregation.results)
+    .map(aggregation => {
+      // add component settings label if it exists
+      const matchingComponentSettingAggregation = componentSettingsAggregations.find(
+        setting => setting.name === get(aggregation, 'name', '')
+      );
+      const selectedRange = filterRanges.find(range => range.field === aggregation.field);
+      return {
+        ...aggregation,
+        ...(matchingComponentSettingAggregation && {
+          label: matchingComponentSettingAggregation.label
+        }),
+        ...(selectedRange && { selectedRange })
+      };
+    });
+};
@@ -0,0 +1,31 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { InternalQueryTimesliceAggregation, SelectedDateRange } from './searchFacetInterfaces';
+import { findTimesliceAggregations } from './findTimesliceAggregations';
+
+export const mergeTimelineFacets = (
+  aggregations: DiscoveryV2.QueryAggregation[],
+  filterDateRanges: SelectedDateRange[],
+  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[]
+): InternalQueryTimesliceAggregation[] => {
+  if (!aggregations) {
+    return [];
+  }
+
+  return findTimesliceAggregations(aggregations)
+    .filter(aggregation => aggregation.results)
+    .map(aggregation => {
+      // add component settings label if it exists
+      const matchingComponentSettingAggregation = componentSettingsAggregations.find(
+        setting => setting.name === get(aggregation, 'name', '')
+      );
+      const selectedRange = filterDateRanges.find(range => range.field === aggregation.field);
+      return {
+        ...aggregation,
+        ...(matchingComponentSettingAggregation && {
+          label: matchingComponentSettingAggregation.label
+        }),
+        ...(selectedRange && { selectedRange })
+      };
+    });
+};
@@ -7,6 +7,10 @@ export interface QueryAggregationWithResults extends DiscoveryV2.QueryAggregatio
 export interface SelectableQueryTermAggregationResult
   extends DiscoveryV2.QueryTermAggregationResult {
   selected?: boolean;
+  /**
+   * whether the term is excluded from the results, as `field:!"term"`
+   */
+  excluded?: boolean;
   aggregations?: QueryAggregationWithResults[];
 }
 
@@ -24,11 +28,84 @@ export interface InternalQueryTermAggregation
   // Keeping this as snake to match the SDK, otherwise this becomes a headache
   // of toggling between two cases.
   multiple_selections_allowed?: boolean;
+  /**
+   * paths selected as prefixes of a hierarchical facet
+   */
+  selectedPrefixes?: string[];
 }
 
 export interface SearchFilterFacets {
   filterFields: InternalQueryTermAggregation[];
   filterDynamic: SelectableDynamicFacets[];
+  filterRanges?: SelectedRange[];
+  filterDateRanges?: SelectedDateRange[];
+  filterPrefixes?: SelectedPrefix[];
+}
+
+/**
+ * path of a hierarchical facet selected in the filter with its descendants, as
+ * `field::"/path"|field:"/path/*"`
+ */
+export interface SelectedPrefix {
+  field: string;
+  prefix: string;
+}
+
+/**
+ * node of the tree built from the `/`-separated keys of a hierarchical facet
+ */
+export interface FacetHierarchyNode {
+  /**
+   * path of the node, as `/technology/software`
+   */
+  path: string;
+  /**
+   * last segment of the path
+   */
+  label: string;
+  /**
+   * matching results of the node and its descendants
+   */
+  matching_results: number;
+  selected: boolean;
+  children: FacetHierarchyNode[];
+}
+
+/**
+ * range of a numeric field selected in the filter, as `field>=min,field<=max`
+ */
+export interface SelectedRange {
+  field: string;
+  min?: number;
+  max?: number;
+}
+
+export interface InternalQueryHistogramAggregation extends DiscoveryV2.QueryHistogramAggregation {
+  label?: string;
+  name?: string;
+  /**
+   * range of the field selected in the filter, if any
+   */
+  selectedRange?: SelectedRange;
+}
+
+/**
+ * range of a date field selected in the filter, as `field>="start",field<="end"` with ISO-8601
+ * dates
+ */
+export interface SelectedDateRange {
+  field: string;
+  start?: string;
+  end?: string;
+}
+
+export interface InternalQueryTimesliceAggregation extends DiscoveryV2.QueryTimesliceAggregation {
+  label?: string;
+  name?: string;
+  /**
+   * date range of the field selected in the filter, if any
+   */
+  selectedRange?: SelectedDateRange;
 }
 
 export interface SelectableDynamicFacets extends DiscoveryV2.QuerySuggestedRefinement {
@@ -51,6 +128,10 @@ export interface SelectedFacet {
   selectedFacetName: string;
   selectedFacetKey: string;
   checked: boolean;
+  /**
+   * exclude the term instead of selecting it, or include it again when `false`
+   */
+  excluded?: boolean;
 }
 
 export interface QueryAggregationWithName extends DiscoveryV2.QueryAggregation {
@@ -59,6 +140,7 @@ export interface QueryAggregationWithName extends DiscoveryV2.QueryAggregation {
   name?: string;
   path?: string;
   match?: string;
+  interval?: number | string;
   aggregations?: QueryAggregationWithName[];
   matching_results?: number;
 }
@@ -4,48 +4,77 @@ import {
   SearchFilterFacets,
   InternalQueryTermAggregation,
   SelectableQueryTermAggregationResult,
-  SelectableDynamicFacets
+  SelectableDynamicFacets,
+  SelectedRange,
+  SelectedDateRange,
+  SelectedPrefix
 } from './searchFacetInterfaces';
 
 export class SearchFilterTransform {
   static SPLIT_UNQUOTED_COMMAS = /,(?=(?:(?:[^"\\"]*["\\"]){2})*[^"\\"]*$)/;
   static SPLIT_UNQUOTED_COLONS = /:(?=(?:(?:[^"\\"]*["\\"]){2})*[^"\\"]*$)/;
   static SPLIT_UNQUOTED_PIPES = /\|(?=(?:(?:[^"\\"]*["\\"]){2})*[^"\\"]*$)/;
+  static RANGE_BOUND = /^([\w.]+)(>=|<=)(-?\d+(?:\.\d+)?)$/;
+  static PREFIX_PATH = /^([\w.]+)::"((?:[^"\\]|\\.)*)"$/;
+  static PREFIX_DESCENDANTS = /^([\w.]+):"((?:[^"\\]|\\.)*)\/\*"$/;
+  static DATE_BOUND = /^([\w.]+)(>=|<=)"(\d{4}-\d{2}-\d{2}(?:T[\d:.]+Z?)?)"$/;
+  static EXCLUSION_PREFIX = '!';
 
   static fromString(filterString: string): SearchFilterFacets {
     if (filterString === '') {
       return {
         filterFields: [],
-        filterDynamic: []
+        filterDynamic: [],
+        filterRanges: [],
+        filterDateRanges: [],
+        filterPrefixes: []
       };
     }
 
     const colonRegex = RegExp(SearchFilterTransform.SPLIT_UNQUOTED_COLONS);
-    const filterFacets = partition(
+    const [dateBounds, nonDateFilters] = partition(
       filterString.split(SearchFilterTransform.SPLIT_UNQUOTED_COMMAS),
-      filter => colonRegex.test(filter)
+      filter => SearchFilterTransform.DATE_BOUND.test(filter)
     );
-    const fields = filterFacets[0].map(facetField => {
+    const [rangeBounds, nonRangeFilters] = partition(nonDateFilters, filter =>
+      SearchFilterTransform.RANGE_BOUND.test(filter)
+    );
+    const [prefixFilters, otherFilters] = partition(
+      nonRangeFilters,
+      filter => this.prefixesFromFilter(filter) !== null
+    );
+    const filterFacets = partition(otherFilters, filter => colonRegex.test(filter));
+    // exclusions are separate `field:!"value"` filters, so the results of a field are merged
+    const fields = filterFacets[0].reduce((fields: InternalQueryTermAggregation[], facetField) => {
       const facetSplit = facetField.split(SearchFilterTransform.SPLIT_UNQUOTED_COLONS);
       const field = facetSplit[0];
       const results = facetSplit[1]
         .split(SearchFilterTransform.SPLIT_UNQUOTED_PIPES)
         .sort()
         .map(result => {
-          const unquotedResult = this.unquoteString(result);
+          const excluded = result.startsWith(SearchFilterTransform.EXCLUSION_PREFIX);
+          const unquotedResult = this.unquoteString(
+            excluded ? result.slice(SearchFilterTransform.EXCLUSION_PREFIX.length) : result
+          );
           return {
             key: unquotedResult,
             matching_results: 1,
-            selected: true
+            selected: !excluded,
+            ...(excluded && { excluded })
           };
         });
 
-      return {
+      const existingField = fields.find(facet => facet.field === field);
+      if (existingField) {
+        existingField.results = (existingField.results || []).concat(results);
+        return fields;
+      }
+      return fields.concat({
         type: 'term',
         field,
         results
-      };
-    });
+      });
+    }, []);
 
     const suggestions = filterFacets[1].map(suggestion => {
       const unquotedSuggestion = this.unquoteString(suggestion);
@@ -57,14 +86,114 @@ export class SearchFilterTransform {
 
     return {
       filterFields: fields,
-      filterDynamic: suggestions
+      filterDynamic: suggestions,
+      filterRanges: this.rangesFromBounds(rangeBounds),
+      filterDateRanges: this.dateRangesFromBounds(dateBounds),
+      filterPrefixes: prefixFilters.reduce(
+        (prefixes: SelectedPrefix[], filter) =>
+          prefixes.concat(this.prefixesFromFilter(filter) || []),
+        []
+      )
     };
   }
 
   static toString(facets: SearchFilterFacets): string {
     const fieldFilters = this.fieldsToString(facets.filterFields);
+    const prefixFilters = this.prefixesToString(facets.filterPrefixes || []);
+    const rangeFilters = this.rangesToString(facets.filterRanges || []);
+    const dateRangeFilters = this.dateRangesToString(facets.filterDateRanges || []);
     const dynamicFilters = this.quoteSelectedFacets(facets.filterDynamic, 'text').join(',');
-    return [fieldFilters, dynamicFilters].filter(Boolean).join(',');
+    return [fieldFilters, prefixFilters, rangeFilters, dateRangeFilters, dynamicFilters]
+      .filter(Boolean)
+      .join(',');
+  }
+
+  // `field>=min` and `field<=max` bounds of the same field make a single range
+  private static rangesFromBounds(bounds: string[]): SelectedRange[] {
+    return bounds.reduce((ranges: SelectedRange[], bound) => {
+      const [, field, operator, value] = bound.match(SearchFilterTransform.RANGE_BOUND) || [];
+      let range = ranges.find(range => range.field === field);
+      if (!range) {
+        range = { field };
+        ranges.push(range);
+      }
+      range[operator === '>=' ? 'min' : 'max'] = Number(value);
+      return ranges;
+    }, []);
+  }
+
+  static rangesToString(ranges: SelectedRange[]): string {
+    const filterStrings: string[] = [];
+    ranges.forEach(({ field, min, max }) => {
+      if (min !== undefined) {
+        filterStrings.push(`${field}>=${min}`);
+      }
+      if (max !== undefined) {
+        filterStrings.push(`${field}<=${max}`);
+      }
+    });
+    return filterStrings.join(',');
+  }
+
+  // a path is selected with its descendants by a `field::"/path"|field:"/path/*"` filter, so sibling
+  // paths sharing its first characters (ie. `/pathname`) don't match. Returns null for other filters
+  private static prefixesFromFilter(filter: string): SelectedPrefix[] | null {
+    const terms = filter.split(SearchFilterTransform.SPLIT_UNQUOTED_PIPES);
+    if (terms.length % 2 !== 0) {
+      return null;
+    }
+    const prefixes: SelectedPrefix[] = [];
+    for (let i = 0; i < terms.length; i += 2) {
+      const [, field, path] = terms[i].match(SearchFilterTransform.PREFIX_PATH) || [];
+      const [, descendantsField, descendantsPath] =
+        terms[i + 1].match(SearchFilterTransform.PREFIX_DESCENDANTS) || [];
+      if (!field || field !== descendantsField || path !== descendantsPath) {
+        return null;
+      }
+      prefixes.push({ field, prefix: path.replace(/\\(.)/g, '$1') });
+    }
+    return prefixes;
+  }
+
+  static prefixesToString(prefixes: SelectedPrefix[]): string {
+    const prefixesByField: { [field: string]: string[] } = {};
+    prefixes.forEach(({ field, prefix }) => {
+      const path = prefix.replace(/(["\\])/g, '\\$1');
+      prefixesByField[field] = (prefixesByField[field] || []).concat(
+        `${field}::"${path}"`,
+        `${field}:"${path}/*"`
+      );
+    });
+    return Object.keys(prefixesByField)
+      .map(field => prefixesByField[field].join('|'))
+      .join(',');
+  }
+
+  // `field>="start"` and `field<="end"` bounds of the same field make a single date range
+  private static dateRangesFromBounds(bounds: string[]): SelectedDateRange[] {
+    return bounds.reduce((ranges: SelectedDateRange[], bound) => {
+      const [, field, operator, value] = bound.match(SearchFilterTransform.DATE_BOUND) || [];
+      let range = ranges.find(range => range.field === field);
+      if (!range) {
+        range = { field };
+        ranges.push(range);
+      }
+      range[operator === '>=' ? 'start' : 'end'] = value;
+      return ranges;
+    }, []);
+  }
+
+  static dateRangesToString(ranges: SelectedDateRange[]): string {
+    const filterStrings: string[] = [];
+    ranges.forEach(({ field, start, end }) => {
+      if (start) {
+        filterStrings.push(`${field}>="${start}"`);
+      }
+      if (end) {
+        filterStrings.push(`${field}<="${end}"`);
+      }
+    });
+    return filterStrings.join(',');
   }
 
   private static unquoteString(quotedString: string): string {
@@ -76,10 +205,20 @@ export class SearchFilterTransform {
     facets.forEach(facet => {
       const field = get(facet, 'field', '');
       const results = get(facet, 'results', []);
-      const keys = this.quoteSelectedFacets(results, 'key');
+      const keys = this.quoteSelectedFacets(
+        results.filter((result: SelectableQueryTermAggregationResult) => !result.excluded),
+        'key'
+      );
       if (keys.length) {
         filterStrings.push(`${field}:${keys.join('|')}`);
       }
+      // each exclusion is its own filter, since all of them have to apply
+      results
+        .filter((result: SelectableQueryTermAggregationResult) => result.excluded)
+        .forEach((result: SelectableQueryTermAggregationResult) => {
+          const [key] = this.quoteSelectedFacets([{ ...result, selected: true }], 'key');
+          filterStrings.push(`${field}:${SearchFilterTransform.EXCLUSION_PREFIX}${key}`);
+        });
     });
     return filterStrings.join(',');
   }
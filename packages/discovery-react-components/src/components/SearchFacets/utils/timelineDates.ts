@@ -0,0 +1,52 @@
+const INTERVAL_REGEX = /^(\d+)?\s*(second|minute|hour|day|week|month|year)s?$/;
+
+/**
+ * add a timeslice interval, such as `1day` or `6months`, to a date
+ * @param date - date to add the interval to
+ * @param interval - interval of the timeslice aggregation
+ */
+export const addInterval = (date: Date, interval: string): Date => {
+  const [, amount = '1', unit = 'day'] = interval.trim().match(INTERVAL_REGEX) || [];
+  const count = Number(amount);
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case 'year':
+      result.setUTCFullYear(result.getUTCFullYear() + count);
+      break;
+    case 'month':
+      result.setUTCMonth(result.getUTCMonth() + count);
+      break;
+    case 'week':
+      result.setUTCDate(result.getUTCDate() + 7 * count);
+      break;
+    case 'day':
+      result.setUTCDate(result.getUTCDate() + count);
+      break;
+    case 'hour':
+      result.setUTCHours(result.getUTCHours() + count);
+      break;
+    case 'minute':
+      result.setUTCMinutes(result.getUTCMinutes() + count);
+      break;
+    default:
+      result.setUTCSeconds(result.getUTCSeconds() + count);
+  }
+  return result;
+};
+
+/**
+ * format a date as the ISO-8601 date of a filter, without milliseconds
+ * @param date - date to format
+ */
+export const toFilterDate = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * start of the preset range of the last days, at midnight UTC so it stays the same for the day
+ * @param days - number of days of the range
+ * @param now - current date
+ */
+export const getPresetStart = (days: number, now: Date = new Date()): string => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - days);
+  return toFilterDate(start);
+};
@@ -10,7 +10,34 @@ function isConfigurationTerm(
   );
 }
 
-export const validateConfiguration = (configuration: DiscoveryV2.QueryTermAggregation[]) => {
+function isConfigurationHistogram(
+  configuration: any
+): configuration is DiscoveryV2.QueryHistogramAggregation {
+  return (
+    configuration.type === 'histogram' &&
+    typeof configuration.field === 'string' &&
+    typeof configuration.interval === 'number' &&
+    configuration.interval > 0
+  );
+}
+
+function isConfigurationTimeslice(
+  configuration: any
+): configuration is DiscoveryV2.QueryTimesliceAggregation {
+  return (
+    configuration.type === 'timeslice' &&
+    typeof configuration.field === 'string' &&
+    typeof configuration.interval === 'string'
+  );
+}
+
+export const validateConfiguration = (
+  configuration: (
+    | DiscoveryV2.QueryTermAggregation
+    | DiscoveryV2.QueryHistogramAggregation
+    | DiscoveryV2.QueryTimesliceAggregation
+  )[]
+) => {
   if (!configuration) {
     return false;
   }
@@ -21,7 +48,11 @@ export const validateConfiguration = (configuration: DiscoveryV2.QueryTermAggreg
     return false;
   }
   const termsAreNotValid = configuration.filter(config => {
-    return !isConfigurationTerm(config);
+    return (
+      !isConfigurationTerm(config) &&
+      !isConfigurationHistogram(config) &&
+      !isConfigurationTimeslice(config)
+    );
   });
   if (termsAreNotValid.length > 0) {
     return false;
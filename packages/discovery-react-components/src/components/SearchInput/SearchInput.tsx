@@ -5,19 +5,49 @@ import get from 'lodash/get';
  */
 
 import React, { FC, useContext, useEffect, useState, SyntheticEvent, KeyboardEvent } from 'react';
+import omit from 'lodash/omit';
+import uniq from 'lodash/uniq';
+import uniqWith from 'lodash/uniqWith';
+import isEqual from 'lodash/isEqual';
 import { settings } from 'carbon-components';
-import { Search as CarbonSearchInput } from 'carbon-components-react';
+import { Search as CarbonSearchInput, Tag, ToggleSmall } from 'carbon-components-react';
 import ListBox from 'carbon-components-react/lib/components/ListBox';
 import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import useDebounce from 'utils/useDebounce';
 import uuid from 'uuid';
 import Search16 from '@carbon/icons-react/lib/search/16';
+import Time16 from '@carbon/icons-react/lib/time/16';
+import Close16 from '@carbon/icons-react/lib/close/16';
+import Code16 from '@carbon/icons-react/lib/code/16';
+import Filter16 from '@carbon/icons-react/lib/filter/16';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
-import { useDeepCompareCallback } from 'utils/useDeepCompareMemoize';
+import { useDeepCompareCallback, useDeepCompareEffect } from 'utils/useDeepCompareMemoize';
+import { formatMessage } from 'utils/formatMessage';
+import { validateDql, getDqlFieldPrefix } from 'utils/dql/validateDql';
 import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
 import { withErrorBoundary } from 'react-error-boundary';
 import onErrorCallback from 'utils/onErrorCallback';
 import { FallbackComponent } from 'utils/FallbackComponent';
+import { useQueryHistory } from './useQueryHistory';
+import { QueryHistoryStorage } from './utils/queryHistoryStorage';
+import { DqlErrorMessage } from './components/DqlErrorMessage/DqlErrorMessage';
+import {
+  FilterToken,
+  parseFilterTokens,
+  addFilterTokens,
+  removeFilterToken,
+  isFilterTokenSelected,
+  getFilterTokenText
+} from './utils/filterTokens';
+import { FacetSuggestion, getFacetSuggestions } from './utils/facetSuggestions';
+import { findTermAggregations } from 'components/SearchFacets/utils/findTermAggregations';
+
+/**
+ * whether the SearchInput searches with a natural language query, or with a Discovery Query
+ * Language (DQL) query
+ */
+type QueryMode = 'natural_language' | 'dql';
 
 interface SearchInputProps {
   /**
@@ -48,6 +78,46 @@ interface SearchInputProps {
    * True to return spelling suggestion with results
    */
   spellingSuggestions?: boolean;
+  /**
+   * Prop to show/hide the recent queries of the user in the autocomplete dropdown
+   */
+  showQueryHistory?: boolean;
+  /**
+   * Storage of the recent queries. Defaults to the local storage of the browser
+   */
+  queryHistoryStorage?: QueryHistoryStorage;
+  /**
+   * Number of recent queries to keep and show in the autocomplete dropdown
+   */
+  queryHistoryLength?: number;
+  /**
+   * Prop to show/hide the toggle between natural language and Discovery Query Language (DQL) queries
+   */
+  showQueryModeToggle?: boolean;
+  /**
+   * Query mode of the SearchInput when it is rendered. In the `dql` mode, the value of the input is
+   * validated and searched as a DQL `query` instead of a `naturalLanguageQuery`
+   */
+  defaultQueryMode?: QueryMode;
+  /**
+   * Prop to search the `field:value` tokens of the fields of the project as filters instead of
+   * natural language, displayed as removable tags in the SearchInput
+   */
+  showFilterTokens?: boolean;
+  /**
+   * Prop to show/hide the facet values matching the search query in the autocomplete dropdown,
+   * like "Acme Corp in Organizations". Selecting one applies the facet filter
+   */
+  showFacetSuggestions?: boolean;
+  /**
+   * Number of facet values to show in the autocomplete dropdown
+   */
+  facetSuggestionsCount?: number;
+  /**
+   * Prop to also suggest the values of the facet fields starting with the search query found by an
+   * aggregation query, and not only the values of the current aggregation results
+   */
+  queryFacetSuggestions?: boolean;
   /**
    * Override default messages for the component by specifying custom and/or internationalized text strings
    */
@@ -75,7 +145,16 @@ const SearchInput: FC<SearchInputProps> = ({
   showAutocomplete = true,
   minCharsToAutocomplete = 0,
   spellingSuggestions,
-  messages = defaultMessages,
+  showQueryHistory = false,
+  queryHistoryStorage,
+  queryHistoryLength = 5,
+  showQueryModeToggle = false,
+  defaultQueryMode = 'natural_language',
+  showFilterTokens = false,
+  showFacetSuggestions = false,
+  facetSuggestionsCount = 3,
+  queryFacetSuggestions = false,
+  messages,
   autocompleteDelay = 200,
   placeHolderText,
   labelText,
@@ -83,7 +162,7 @@ const SearchInput: FC<SearchInputProps> = ({
   onChange,
   ...inputProps
 }) => {
-  const mergedMessages = { ...defaultMessages, ...messages };
+  const mergedMessages = useMessages('SearchInput', defaultMessages, messages);
 
   const inputId = id || `search-input__${uuid.v4()}`;
   const autocompletionClassName = `${settings.prefix}--search-autocompletion`;
@@ -91,7 +170,10 @@ const SearchInput: FC<SearchInputProps> = ({
   const {
     searchResponseStore: { parameters: searchParameters },
     autocompletionStore: { data: autocompletionResults },
-    componentSettings
+    fieldsStore: { data: fieldsResults, isLoading: isLoadingFields },
+    aggregationResults,
+    componentSettings,
+    locale
   } = useContext(SearchContext);
   const displaySettings = {
     showAutocomplete:
@@ -104,31 +186,66 @@ const SearchInput: FC<SearchInputProps> = ({
     performSearch,
     fetchAutocompletions,
     setAutocompletionOptions,
-    setSearchParameters
+    setSearchParameters,
+    emitEvent,
+    fetchFacetSuggestions,
+    fetchFields
   } = useContext(SearchApi);
-  const [value, setValue] = useState(searchParameters.naturalLanguageQuery || '');
+  const [queryMode, setQueryMode] = useState<QueryMode>(defaultQueryMode);
+  const isDql = queryMode === 'dql';
+  const [value, setValue] = useState(
+    (isDql ? searchParameters.query : searchParameters.naturalLanguageQuery) || ''
+  );
   const completions = (autocompletionResults && autocompletionResults.completions) || [];
   const lastWordOfValue = value.split(splitSearchQuerySelector).pop();
   const [skipFetchAutoCompletions, setSkipFetchAutoCompletions] = useState(false);
   const [focused, setFocused] = useState(false);
+  const { queries: recentQueries, addQuery, removeQuery } = useQueryHistory({
+    storage: queryHistoryStorage,
+    maxLength: queryHistoryLength
+  });
+  const [filterTokens, setFilterTokens] = useState<FilterToken[]>([]);
+  const [queriedFacetAggregations, setQueriedFacetAggregations] = useState<
+    DiscoveryV2.QueryAggregation[]
+  >([]);
   let focusTimeout: ReturnType<typeof setTimeout>;
 
   useEffect(() => {
-    setValue(searchParameters.naturalLanguageQuery || '');
-  }, [searchParameters.naturalLanguageQuery]);
+    if (!isDql) {
+      setValue(searchParameters.naturalLanguageQuery || '');
+    }
+  }, [isDql, searchParameters.naturalLanguageQuery]);
+
+  useEffect(() => {
+    if (isDql) {
+      setValue(searchParameters.query || '');
+    }
+  }, [isDql, searchParameters.query]);
+
+  // filter tokens and DQL field completions use the fields of the project
+  const needsFields = showFilterTokens || isDql;
+  useEffect(() => {
+    if (needsFields && !fieldsResults && !isLoadingFields) {
+      fetchFields();
+    }
+  }, [needsFields, fieldsResults, isLoadingFields, fetchFields]);
+
+  // remove the tokens deselected by other components, ie. SearchFacets
+  useEffect(() => {
+    setFilterTokens(currentTokens => {
+      const selectedTokens = currentTokens.filter(token =>
+        isFilterTokenSelected(searchParameters.filter || '', token)
+      );
+      return selectedTokens.length === currentTokens.length ? currentTokens : selectedTokens;
+    });
+  }, [searchParameters.filter]);
 
   const handleOnChange = (evt: SyntheticEvent<EventTarget>): void => {
     const target = evt.currentTarget as HTMLInputElement;
     setValue(!!target ? target.value : '');
   };
 
-  const selectAutocompletion = (i: number): void => {
-    const valueArray = value.split(splitSearchQuerySelector);
-    const prefix = valueArray.pop();
-    const completionValue = !!completions ? completions[i] : prefix;
-    valueArray.push(completionValue || '');
-    setValue(`${valueArray.join(splitSearchQuerySelector)}${splitSearchQuerySelector}`);
-
+  const focusSearchInput = (): void => {
     // The carbon Search component doesn't seem to use ForwardRef
     // so looking up by ID for now.
     const searchInput = document.getElementById(`${inputId}_input_field`);
@@ -137,16 +254,42 @@ const SearchInput: FC<SearchInputProps> = ({
     }
   };
 
+  const selectAutocompletion = (i: number): void => {
+    const valueArray = value.split(splitSearchQuerySelector);
+    const prefix = valueArray.pop();
+    const completionValue = !!completions ? completions[i] : prefix;
+    valueArray.push(completionValue || '');
+    const newValue = `${valueArray.join(splitSearchQuerySelector)}${splitSearchQuerySelector}`;
+    setValue(newValue);
+    emitEvent({
+      type: 'autocomplete_selected',
+      completion: completionValue || '',
+      position: i + 1,
+      naturalLanguageQuery: newValue
+    });
+    focusSearchInput();
+  };
+
   const prepareFreshSearchParameters = useDeepCompareCallback(
-    (nlq: string): DiscoveryV2.QueryParams => {
+    (value: string): DiscoveryV2.QueryParams => {
+      if (isDql) {
+        return {
+          ...searchParameters,
+          naturalLanguageQuery: '',
+          query: value,
+          offset: 0,
+          filter: ''
+        };
+      }
       return {
-        ...searchParameters,
-        naturalLanguageQuery: nlq,
+        // the query of the DQL mode is replaced by the natural language query
+        ...(showQueryModeToggle ? omit(searchParameters, 'query') : searchParameters),
+        naturalLanguageQuery: value,
         offset: 0,
         filter: ''
       };
     },
-    [searchParameters]
+    [searchParameters, isDql, showQueryModeToggle]
   );
 
   const setupHandleAutocompletionKeyUp = (i: number) => {
@@ -163,8 +306,37 @@ const SearchInput: FC<SearchInputProps> = ({
     };
   };
 
-  const searchAndBlur = (value: string): void => {
-    performSearch(prepareFreshSearchParameters(value));
+  const fieldNames = ((fieldsResults && fieldsResults.fields) || []).map(
+    ({ field }) => field || ''
+  );
+
+  const searchAndBlur = (submittedValue: string): void => {
+    // invalid DQL queries are highlighted instead of being searched
+    if (isDql && validateDql(submittedValue)) {
+      return;
+    }
+    let value = submittedValue;
+    let queryParameters = prepareFreshSearchParameters(value);
+    if (showFilterTokens && !isDql) {
+      const { naturalLanguageQuery, tokens } = parseFilterTokens(submittedValue, fieldNames);
+      const updatedTokens = uniqWith([...filterTokens, ...tokens], isEqual);
+      value = naturalLanguageQuery;
+      queryParameters = {
+        ...prepareFreshSearchParameters(value),
+        filter: addFilterTokens('', updatedTokens)
+      };
+      setFilterTokens(updatedTokens);
+      setValue(value);
+    }
+    performSearch(queryParameters);
+    if (showQueryHistory && !isDql && submittedValue.trim()) {
+      addQuery(submittedValue.trim());
+    }
+    emitEvent(
+      isDql
+        ? { type: 'search_submitted', naturalLanguageQuery: '', query: value }
+        : { type: 'search_submitted', naturalLanguageQuery: value }
+    );
     if (onChange) {
       onChange(value);
     }
@@ -179,6 +351,10 @@ const SearchInput: FC<SearchInputProps> = ({
 
   const debouncedSearchTerm = useDebounce(value, autocompleteDelay);
   useEffect(() => {
+    // DQL queries are only written to the search parameters once they are searched
+    if (isDql) {
+      return;
+    }
     setSearchParameters((currentSearchParameters: DiscoveryV2.QueryParams) => {
       return {
         ...currentSearchParameters,
@@ -192,7 +368,7 @@ const SearchInput: FC<SearchInputProps> = ({
       setSkipFetchAutoCompletions(false);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debouncedSearchTerm, fetchAutocompletions, setSearchParameters]);
+  }, [debouncedSearchTerm, fetchAutocompletions, setSearchParameters, isDql]);
 
   useEffect(() => {
     setAutocompletionOptions({
@@ -215,12 +391,63 @@ const SearchInput: FC<SearchInputProps> = ({
     });
   }, [setSearchParameters, spellingSuggestions]);
 
+  const isFacetSuggestionsQueryEnabled = showFacetSuggestions && queryFacetSuggestions && !isDql;
+  const facetFields = uniq(
+    findTermAggregations(aggregationResults || []).map(({ field }) => field)
+  );
+  useDeepCompareEffect(() => {
+    const prefix = debouncedSearchTerm.trim();
+    if (!isFacetSuggestionsQueryEnabled || !prefix || !facetFields.length) {
+      setQueriedFacetAggregations(current => (current.length ? [] : current));
+      return;
+    }
+    // the aggregations of a previous prefix are discarded
+    let isCurrentPrefix = true;
+    fetchFacetSuggestions(prefix, facetFields, facetSuggestionsCount)
+      .then(aggregations => {
+        if (isCurrentPrefix) {
+          setQueriedFacetAggregations(aggregations);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching facet suggestions', error);
+      });
+    return (): void => {
+      isCurrentPrefix = false;
+    };
+  }, [
+    debouncedSearchTerm,
+    facetFields,
+    facetSuggestionsCount,
+    fetchFacetSuggestions,
+    isFacetSuggestionsQueryEnabled
+  ]);
+
+  const removeToken = (token: FilterToken): void => {
+    setFilterTokens(currentTokens => currentTokens.filter(currentToken => currentToken !== token));
+    performSearch(
+      {
+        ...searchParameters,
+        offset: 0,
+        filter: removeFilterToken(searchParameters.filter || '', token)
+      },
+      false
+    );
+  };
+
   const handleOnKeyUp = (evt: KeyboardEvent<EventTarget>): void => {
     if (evt.key === 'Enter') {
       searchAndBlur(value);
     }
   };
 
+  const handleOnKeyDown = (evt: KeyboardEvent<EventTarget>): void => {
+    // backspace in an empty input removes the last token, like the last character of the input
+    if (evt.key === 'Backspace' && value === '' && filterTokens.length) {
+      removeToken(filterTokens[filterTokens.length - 1]);
+    }
+  };
+
   // onFocus for the carbon search component and the autocomplete dropdown
   const handleOnFocus = (): void => {
     // cancel the timeout set in handleOnBlur
@@ -235,11 +462,87 @@ const SearchInput: FC<SearchInputProps> = ({
     }, 0);
   };
 
+  const selectRecentQuery = (query: string): void => {
+    setValue(query);
+    searchAndBlur(query);
+    setFocused(false);
+  };
+
+  const removeRecentQuery = (query: string): void => {
+    removeQuery(query);
+    // keep the dropdown open once the focused query is removed
+    focusSearchInput();
+  };
+
+  const setupHandleRecentQueryKeyUp = (query: string) => {
+    return (evt: KeyboardEvent<EventTarget>): void => {
+      if (evt.key === 'Enter') {
+        selectRecentQuery(query);
+      } else if (evt.key === 'Delete') {
+        removeRecentQuery(query);
+      }
+    };
+  };
+
+  const setupHandleRemoveRecentQueryOnClick = (query: string) => {
+    return (evt: SyntheticEvent<EventTarget>): void => {
+      // don't select the removed query
+      evt.stopPropagation();
+      removeRecentQuery(query);
+    };
+  };
+
+  // every recent query when the input is empty, and the recent queries completing it otherwise
+  const matchingRecentQueries =
+    showQueryHistory && !isDql
+      ? recentQueries.filter(query => {
+          return query !== value && query.toLowerCase().startsWith(value.trim().toLowerCase());
+        })
+      : [];
+  const shouldShowRecentQueries = matchingRecentQueries.length > 0 && focused;
+  const recentQueriesList = matchingRecentQueries.map((query, i) => {
+    return (
+      <ListBox key={`recent_query_${i}`} className={`${autocompletionClassName}__wrapper`}>
+        <ListBox.Field
+          role="listitem"
+          id={`recent_query_${i}_field`}
+          tabIndex="0"
+          className={`${autocompletionClassName}__item`}
+          onClick={(): void => selectRecentQuery(query)}
+          onKeyUp={setupHandleRecentQueryKeyUp(query)}
+        >
+          <div className={`${autocompletionClassName}__icon`}>
+            <Time16 />
+          </div>
+          <div className={`${autocompletionClassName}__term`}>{query}</div>
+          <button
+            type="button"
+            className={`${autocompletionClassName}__remove`}
+            aria-label={formatMessage(
+              mergedMessages.removeRecentQueryLabelText,
+              { query },
+              false,
+              locale
+            ).join('')}
+            onClick={setupHandleRemoveRecentQueryOnClick(query)}
+            // the keys pressed on the button don't select or remove the query
+            onKeyUp={(evt: KeyboardEvent<EventTarget>): void => evt.stopPropagation()}
+          >
+            <Close16 />
+          </button>
+        </ListBox.Field>
+      </ListBox>
+    );
+  });
+
   const shouldShowCompletions =
-    lastWordOfValue !== '' && displaySettings.showAutocomplete && focused;
+    !isDql && lastWordOfValue !== '' && displaySettings.showAutocomplete && focused;
   const autocompletionsList = completions.map((completion, i) => {
     const valueWithoutLastWord = value.slice(0, value.length - (lastWordOfValue as string).length);
-    if (completion.startsWith(lastWordOfValue as string)) {
+    if (
+      completion.startsWith(lastWordOfValue as string) &&
+      !matchingRecentQueries.includes(`${valueWithoutLastWord}${completion}`)
+    ) {
       const suffix = completion.slice((lastWordOfValue as string).length);
       return (
         <ListBox key={`autocompletion_${i}`} className={`${autocompletionClassName}__wrapper`}>
@@ -266,6 +569,123 @@ const SearchInput: FC<SearchInputProps> = ({
     return null;
   });
 
+  // field names completing the field being typed in a DQL query
+  const fieldPrefix = isDql ? getDqlFieldPrefix(value) : null;
+  const fieldCompletions = fieldPrefix
+    ? uniq(((fieldsResults && fieldsResults.fields) || []).map(({ field }) => field || ''))
+        .filter(field => field.startsWith(fieldPrefix) && field !== fieldPrefix)
+        .slice(0, completionsCount)
+    : [];
+  const shouldShowFieldCompletions = fieldCompletions.length > 0 && focused;
+
+  const selectFieldCompletion = (field: string): void => {
+    setValue(`${value.slice(0, value.length - (fieldPrefix as string).length)}${field}`);
+    focusSearchInput();
+  };
+
+  const setupHandleFieldCompletionKeyUp = (field: string) => {
+    return (evt: KeyboardEvent<EventTarget>): void => {
+      if (evt.key === 'Enter') {
+        selectFieldCompletion(field);
+      }
+    };
+  };
+
+  const fieldCompletionsList = fieldCompletions.map((field, i) => {
+    return (
+      <ListBox key={`field_completion_${i}`} className={`${autocompletionClassName}__wrapper`}>
+        <ListBox.Field
+          role="listitem"
+          id={`field_completion_${i}_field`}
+          tabIndex="0"
+          className={`${autocompletionClassName}__item`}
+          onClick={(): void => selectFieldCompletion(field)}
+          onKeyUp={setupHandleFieldCompletionKeyUp(field)}
+        >
+          <div className={`${autocompletionClassName}__icon`}>
+            <Code16 />
+          </div>
+          <div className={`${autocompletionClassName}__term`}>
+            {value.slice(0, value.length - (fieldPrefix as string).length)}
+            <strong>{fieldPrefix}</strong>
+            {field.slice((fieldPrefix as string).length)}
+          </div>
+        </ListBox.Field>
+      </ListBox>
+    );
+  });
+
+  const facetSuggestions =
+    showFacetSuggestions && !isDql && value.trim()
+      ? getFacetSuggestions(
+          value.trim(),
+          [...(aggregationResults || []), ...queriedFacetAggregations],
+          (componentSettings && componentSettings.aggregations) || [],
+          searchParameters.filter || '',
+          facetSuggestionsCount
+        )
+      : [];
+  const shouldShowFacetSuggestions = facetSuggestions.length > 0 && focused;
+
+  // the facet filter is applied instead of changing the value of the input
+  const selectFacetSuggestion = ({ field, value }: FacetSuggestion): void => {
+    const token = { field, value };
+    if (showFilterTokens) {
+      setFilterTokens(currentTokens => uniqWith([...currentTokens, token], isEqual));
+    }
+    performSearch({
+      ...searchParameters,
+      offset: 0,
+      filter: addFilterTokens(searchParameters.filter || '', [token])
+    });
+    emitEvent({ type: 'facet_toggled', facetType: 'field', field, value, selected: true });
+    setFocused(false);
+  };
+
+  const setupHandleFacetSuggestionKeyUp = (suggestion: FacetSuggestion) => {
+    return (evt: KeyboardEvent<EventTarget>): void => {
+      if (evt.key === 'Enter') {
+        selectFacetSuggestion(suggestion);
+      }
+    };
+  };
+
+  const facetSuggestionsList = facetSuggestions.map((suggestion, i) => {
+    return (
+      <ListBox key={`facet_suggestion_${i}`} className={`${autocompletionClassName}__wrapper`}>
+        <ListBox.Field
+          role="listitem"
+          id={`facet_suggestion_${i}_field`}
+          tabIndex="0"
+          className={`${autocompletionClassName}__item`}
+          onClick={(): void => selectFacetSuggestion(suggestion)}
+          onKeyUp={setupHandleFacetSuggestionKeyUp(suggestion)}
+        >
+          <div className={`${autocompletionClassName}__icon`}>
+            <Filter16 />
+          </div>
+          <div className={`${autocompletionClassName}__term`}>
+            {formatMessage(
+              mergedMessages.facetSuggestionText,
+              { value: suggestion.value, facet: suggestion.facetLabel },
+              false,
+              locale
+            ).join('')}
+          </div>
+        </ListBox.Field>
+      </ListBox>
+    );
+  });
+
+  // the error is only displayed once the user stops typing
+  const dqlSyntaxError =
+    isDql && debouncedSearchTerm === value ? validateDql(debouncedSearchTerm) : null;
+  const dqlErrorId = `${inputId}_dql_error`;
+
+  const handleQueryModeToggle = (checked: boolean): void => {
+    setQueryMode(checked ? 'dql' : 'natural_language');
+  };
+
   return (
     <div
       className={searchInputClassNames.join(' ')}
@@ -274,22 +694,66 @@ const SearchInput: FC<SearchInputProps> = ({
       onBlur={handleOnBlur}
     >
       <div onFocus={handleOnFocus}>
+        {filterTokens.length > 0 && (
+          <div className={`${settings.prefix}--search-input__filter-tokens`}>
+            {filterTokens.map(token => (
+              <Tag
+                key={getFilterTokenText(token)}
+                filter
+                type={token.excluded ? 'red' : 'blue'}
+                title={mergedMessages.removeFilterTokenLabelText}
+                onClose={(): void => removeToken(token)}
+              >
+                {getFilterTokenText(token)}
+              </Tag>
+            ))}
+          </div>
+        )}
         <CarbonSearchInput
           onKeyUp={handleOnKeyUp}
+          onKeyDown={handleOnKeyDown}
           onChange={handleOnChange}
           value={value}
           id={`${inputId}_input_field`}
           labelText={inputProps.labelText || mergedMessages.placeholderText} //required prop, but it doesn't get rendered
-          placeHolderText={mergedMessages.placeholderText}
+          placeHolderText={
+            isDql ? mergedMessages.dqlPlaceholderText : mergedMessages.placeholderText
+          }
           closeButtonLabelText={mergedMessages.closeButtonLabelText}
+          aria-invalid={!!dqlSyntaxError}
+          aria-describedby={dqlSyntaxError ? dqlErrorId : undefined}
           {...inputProps}
         />
-        {shouldShowCompletions && (
+        {(shouldShowCompletions ||
+          shouldShowRecentQueries ||
+          shouldShowFieldCompletions ||
+          shouldShowFacetSuggestions) && (
           <div className={autocompletionClassName} data-testid="completions-dropdown-test-id">
-            {autocompletionsList}
+            {recentQueriesList}
+            {shouldShowCompletions && autocompletionsList}
+            {fieldCompletionsList}
+            {facetSuggestionsList}
           </div>
         )}
       </div>
+      {dqlSyntaxError && (
+        <DqlErrorMessage
+          id={dqlErrorId}
+          query={debouncedSearchTerm}
+          error={dqlSyntaxError}
+          messages={mergedMessages}
+        />
+      )}
+      {showQueryModeToggle && (
+        <ToggleSmall
+          aria-label={mergedMessages.dqlModeToggleLabelText}
+          className={`${settings.prefix}--search-input__query-mode-toggle`}
+          id={`${inputId}_query_mode_toggle`}
+          labelText={mergedMessages.dqlModeToggleLabelText}
+          onToggle={handleQueryModeToggle}
+          toggled={isDql}
+        />
+      )}
     </div>
   );
 };
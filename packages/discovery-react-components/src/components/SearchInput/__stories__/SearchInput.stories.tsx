@@ -24,6 +24,25 @@ const props = () => ({
     'Minimum characters in last word before showing autocomplete suggestions (minCharsToAutocomplete)',
     1
   ),
+  showQueryHistory: boolean('Show the recent queries of the user (showQueryHistory)', true),
+  queryHistoryLength: number('Number of recent queries to keep (queryHistoryLength)', 5),
+  showQueryModeToggle: boolean(
+    'Show the toggle between natural language and DQL queries (showQueryModeToggle)',
+    true
+  ),
+  showFilterTokens: boolean('Search the field:value tokens as filters (showFilterTokens)', true),
+  showFacetSuggestions: boolean(
+    'Show the facet values matching the query in the dropdown (showFacetSuggestions)',
+    false
+  ),
+  facetSuggestionsCount: number(
+    'Number of facet values to show in the dropdown (facetSuggestionsCount)',
+    3
+  ),
+  queryFacetSuggestions: boolean(
+    'Query the facet values starting with the query (queryFacetSuggestions)',
+    false
+  ),
   messages: object("Default messages for the component's text strings", defaultMessages),
   autocompleteDelay: number(
     'Milliseconds to delay the autocomplete API requests (autocompleteDelay)',
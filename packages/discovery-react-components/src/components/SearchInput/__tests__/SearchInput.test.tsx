@@ -9,15 +9,18 @@ import {
   getByTestId,
   getAllByText,
   queryByTestId,
-  waitForElementToBeRemoved
+  waitForElementToBeRemoved,
+  wait
 } from '@testing-library/react';
-import {
+import DiscoverySearch, {
   SearchContextIFC,
   SearchApiIFC,
-  autocompletionStoreDefaults
+  autocompletionStoreDefaults,
+  searchContextDefaults
 } from 'components/DiscoverySearch/DiscoverySearch';
-import { wrapWithContext } from 'utils/testingUtils';
+import { wrapWithContext, createDummyResponsePromise } from 'utils/testingUtils';
 import SearchInput from '../SearchInput';
+import { createMemoryQueryHistoryStorage } from '../utils/queryHistoryStorage';
 
 const COMPLETIONS = ['some', 'someone', 'solar', 'somatic', 'soke'];
 const SEARCHINPUTVALUE = 'so';
@@ -25,6 +28,25 @@ const expectNoCompletionsDropdown = (container: HTMLElement): void => {
   expect(queryByTestId(container, 'completions-dropdown-test-id')).toBeNull();
 };
 
+// renders the search input in a DiscoverySearch whose project has `author` and `subject` fields
+const renderWithSearchClient = (searchInput: JSX.Element) => {
+  const searchClient = {
+    query: jest.fn(() => createDummyResponsePromise({ matching_results: 0, results: [] })),
+    listCollections: () => createDummyResponsePromise({ collections: [] }),
+    getAutocompletion: () => createDummyResponsePromise({ completions: [] }),
+    getComponentSettings: () => createDummyResponsePromise({}),
+    listFields: jest.fn(() =>
+      createDummyResponsePromise({ fields: [{ field: 'author' }, { field: 'subject' }] })
+    )
+  };
+  const result = render(
+    <DiscoverySearch searchClient={searchClient} projectId="project">
+      {searchInput}
+    </DiscoverySearch>
+  );
+  return { searchClient, result };
+};
+
 function findCompletionWrappers(
   completionsDropdown: HTMLElement,
   inputValue: string
@@ -158,6 +180,23 @@ describe('<SearchInput />', () => {
     });
   });
 
+  describe('when we submit a search', () => {
+    test('emits a search_submitted event', () => {
+      const emitEventMock = jest.fn();
+      const { container } = render(
+        wrapWithContext(<SearchInput id="search-input-test-id" />, { emitEvent: emitEventMock }, {})
+      );
+      const input = getByPlaceholderText(container, 'Search') as HTMLInputElement;
+      fireEvent.change(input, { target: { value: SEARCHINPUTVALUE } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+
+      expect(emitEventMock).toBeCalledWith({
+        type: 'search_submitted',
+        naturalLanguageQuery: SEARCHINPUTVALUE
+      });
+    });
+  });
+
   describe('When we have completions', () => {
     let container: HTMLElement;
     let input: HTMLInputElement;
@@ -377,4 +416,439 @@ describe('<SearchInput />', () => {
       });
     });
   });
+
+  describe('when we show the query history', () => {
+    const RECENT_QUERIES = ['solar panels', 'wind turbines', 'solar'];
+    const context: Partial<SearchContextIFC> = {
+      autocompletionStore: {
+        ...autocompletionStoreDefaults,
+        data: {
+          completions: COMPLETIONS
+        }
+      }
+    };
+
+    const setup = (recentQueries = RECENT_QUERIES, api: Partial<SearchApiIFC> = {}) => {
+      const storage = createMemoryQueryHistoryStorage(recentQueries);
+      jest.spyOn(storage, 'save');
+      const searchInput = render(
+        wrapWithContext(
+          <SearchInput showQueryHistory queryHistoryStorage={storage} queryHistoryLength={3} />,
+          api,
+          context
+        )
+      );
+      const input = searchInput.getByPlaceholderText('Search') as HTMLInputElement;
+      return { searchInput, input, storage };
+    };
+
+    test('shows the recent queries when the input is focused and empty', async () => {
+      const { searchInput, input } = setup();
+      fireEvent.focus(input);
+      expect(await searchInput.findByText('solar panels')).toBeDefined();
+      expect(searchInput.getByText('wind turbines')).toBeDefined();
+      expect(searchInput.getByText('solar')).toBeDefined();
+    });
+
+    test('shows the recent queries matching the input before the completions', async () => {
+      const { searchInput, input } = setup();
+      await searchInput.findByPlaceholderText('Search');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'so' } });
+
+      const terms = Array.from(
+        searchInput
+          .getByTestId('completions-dropdown-test-id')
+          .querySelectorAll('[class$="__term"]')
+      ).map(term => term.textContent);
+      expect(terms).toEqual(['solar panels', 'solar', 'some', 'someone', 'somatic', 'soke']);
+    });
+
+    test('searches a recent query when it is selected', async () => {
+      const performSearch = jest.fn();
+      const { searchInput, input } = setup(RECENT_QUERIES, { performSearch });
+      fireEvent.focus(input);
+      fireEvent.keyUp(await searchInput.findByText('wind turbines'), { key: 'Enter', code: 13 });
+
+      expect(input.value).toBe('wind turbines');
+      expect(performSearch).toBeCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'wind turbines', offset: 0 })
+      );
+    });
+
+    test('removes a recent query', async () => {
+      const { searchInput, input, storage } = setup();
+      fireEvent.focus(input);
+      fireEvent.click(
+        await searchInput.findByLabelText('Remove wind turbines from the recent searches')
+      );
+
+      expect(searchInput.queryByText('wind turbines')).toBeNull();
+      expect(storage.save).toBeCalledWith(['solar panels', 'solar']);
+    });
+
+    test('removes a recent query with the Delete key', async () => {
+      const { searchInput, input, storage } = setup();
+      fireEvent.focus(input);
+      fireEvent.keyUp(await searchInput.findByText('solar'), { key: 'Delete' });
+
+      expect(storage.save).toBeCalledWith(['solar panels', 'wind turbines']);
+    });
+
+    test('adds the submitted searches first, up to the history length', async () => {
+      const { searchInput, input, storage } = setup();
+      await searchInput.findByPlaceholderText('Search');
+      fireEvent.change(input, { target: { value: 'wind turbines ' } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+      expect(storage.save).toHaveBeenLastCalledWith(['wind turbines', 'solar panels', 'solar']);
+
+      fireEvent.change(input, { target: { value: 'tides' } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+      expect(storage.save).toHaveBeenLastCalledWith(['tides', 'wind turbines', 'solar panels']);
+    });
+
+    test('does not show the recent queries by default', async () => {
+      const storage = createMemoryQueryHistoryStorage(RECENT_QUERIES);
+      const searchInput = render(
+        wrapWithContext(<SearchInput queryHistoryStorage={storage} />, {}, context)
+      );
+      const input = searchInput.getByPlaceholderText('Search');
+      fireEvent.focus(input);
+      await wait();
+      expectNoCompletionsDropdown(searchInput.container);
+    });
+  });
+
+  describe('when we search with the Discovery Query Language', () => {
+    const context: Partial<SearchContextIFC> = {
+      fieldsStore: {
+        ...searchContextDefaults.fieldsStore,
+        data: { fields: [{ field: 'title' }, { field: 'text' }, { field: 'author' }] }
+      }
+    };
+
+    const setup = (props = {}) => {
+      const performSearch = jest.fn();
+      const emitEvent = jest.fn();
+      const searchInput = render(
+        wrapWithContext(
+          <SearchInput autocompleteDelay={0} {...props} />,
+          { performSearch, emitEvent },
+          context
+        )
+      );
+      return { searchInput, performSearch, emitEvent };
+    };
+
+    test('searches the DQL query once the mode is toggled', () => {
+      const { searchInput, performSearch, emitEvent } = setup({ showQueryModeToggle: true });
+      fireEvent.click(searchInput.getByLabelText('Discovery Query Language'));
+      const input = searchInput.getByPlaceholderText('Search with the Discovery Query Language');
+      fireEvent.change(input, { target: { value: 'title:wind' } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+
+      expect(performSearch).toBeCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: '', query: 'title:wind', offset: 0 })
+      );
+      expect(emitEvent).toBeCalledWith({
+        type: 'search_submitted',
+        naturalLanguageQuery: '',
+        query: 'title:wind'
+      });
+    });
+
+    test('highlights syntax errors instead of searching', async () => {
+      const { searchInput, performSearch } = setup({ defaultQueryMode: 'dql' });
+      const input = searchInput.getByPlaceholderText('Search with the Discovery Query Language');
+      fireEvent.change(input, { target: { value: 'title:(wind' } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+
+      expect(performSearch).not.toBeCalled();
+      const error = await searchInput.findByRole('alert');
+      expect(error.textContent).toContain('Missing value after ":" at character 7');
+      expect(error.querySelector('mark')!.textContent).toEqual('(');
+      expect(input.getAttribute('aria-invalid')).toEqual('true');
+    });
+
+    test('completes the field names', () => {
+      const { searchInput } = setup({ defaultQueryMode: 'dql' });
+      const input = searchInput.getByPlaceholderText(
+        'Search with the Discovery Query Language'
+      ) as HTMLInputElement;
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'author:smith,t' } });
+
+      const dropdown = searchInput.getByTestId('completions-dropdown-test-id');
+      const fieldCompletions = findCompletionWrappers(dropdown, 'author:smith,t');
+      expect(fieldCompletions.map(term => term.textContent)).toEqual([
+        'author:smith,title',
+        'author:smith,text'
+      ]);
+      fireEvent.keyUp(fieldCompletions[0], { key: 'Enter', code: 13 });
+      expect(input.value).toEqual('author:smith,title');
+    });
+
+    test('does not complete values', () => {
+      const { searchInput } = setup({ defaultQueryMode: 'dql' });
+      const input = searchInput.getByPlaceholderText('Search with the Discovery Query Language');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'author:t' } });
+      expectNoCompletionsDropdown(searchInput.container);
+    });
+
+    test('fetches the fields of the project to complete them once the mode is toggled', async () => {
+      const {
+        searchClient,
+        result: { getByLabelText, getByPlaceholderText, findByTestId }
+      } = renderWithSearchClient(<SearchInput autocompleteDelay={0} showQueryModeToggle />);
+      await wait();
+      expect(searchClient.listFields).not.toHaveBeenCalled();
+
+      fireEvent.click(getByLabelText('Discovery Query Language'));
+      await wait(() => expect(searchClient.listFields).toHaveBeenCalledTimes(1));
+      const input = getByPlaceholderText('Search with the Discovery Query Language');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'author:smith,s' } });
+
+      const dropdown = await findByTestId('completions-dropdown-test-id');
+      expect(
+        findCompletionWrappers(dropdown, 'author:smith,s').map(term => term.textContent)
+      ).toEqual(['author:smith,subject']);
+    });
+  });
+
+  describe('when we type filter tokens', () => {
+    const getContext = (filter = ''): Partial<SearchContextIFC> => ({
+      searchResponseStore: {
+        ...searchContextDefaults.searchResponseStore,
+        parameters: { projectId: '', filter }
+      },
+      fieldsStore: {
+        ...searchContextDefaults.fieldsStore,
+        data: { fields: [{ field: 'author' }, { field: 'subject' }] }
+      }
+    });
+
+    const setup = () => {
+      const performSearch = jest.fn();
+      const api = { performSearch };
+      const searchInput = render(
+        wrapWithContext(<SearchInput showFilterTokens />, api, getContext())
+      );
+      const input = searchInput.getByPlaceholderText('Search') as HTMLInputElement;
+      const submit = (value: string) => {
+        fireEvent.change(input, { target: { value } });
+        fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+      };
+      const rerender = (filter: string) =>
+        searchInput.rerender(
+          wrapWithContext(<SearchInput showFilterTokens />, api, getContext(filter))
+        );
+      return { searchInput, input, submit, rerender, performSearch };
+    };
+
+    test('searches the tokens of known fields as filters', () => {
+      const { searchInput, input, submit, performSearch } = setup();
+      submit('author:smith budget report color:red');
+
+      expect(performSearch).toBeCalledWith(
+        expect.objectContaining({
+          naturalLanguageQuery: 'budget report color:red',
+          filter: 'author:"smith"',
+          offset: 0
+        })
+      );
+      expect(input.value).toEqual('budget report color:red');
+      expect(searchInput.getByText('author:smith')).toBeDefined();
+    });
+
+    test('keeps the tokens in the next searches', () => {
+      const { submit, performSearch } = setup();
+      submit('author:smith budget');
+      submit('subject:finance budget');
+
+      expect(performSearch).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          naturalLanguageQuery: 'budget',
+          filter: 'author:"smith",subject:"finance"'
+        })
+      );
+    });
+
+    test('removes a token', () => {
+      const { searchInput, submit, rerender, performSearch } = setup();
+      submit('author:smith budget');
+      rerender('author:"smith"');
+
+      fireEvent.click(searchInput.getByTitle('Remove filter'));
+      expect(performSearch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filter: '', offset: 0 }),
+        false
+      );
+      expect(searchInput.queryByText('author:smith')).toBeNull();
+    });
+
+    test('removes the last token with backspace in the empty input', () => {
+      const { searchInput, input, submit, rerender, performSearch } = setup();
+      submit('author:smith subject:finance');
+      rerender('author:"smith",subject:"finance"');
+      fireEvent.keyDown(input, { key: 'Backspace' });
+
+      expect(performSearch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filter: 'author:"smith"' }),
+        false
+      );
+      expect(searchInput.queryByText('subject:finance')).toBeNull();
+      expect(searchInput.getByText('author:smith')).toBeDefined();
+    });
+
+    test('searches and removes the tokens of excluded values', () => {
+      const { searchInput, submit, rerender, performSearch } = setup();
+      submit('author:!smith budget');
+
+      expect(performSearch).toBeCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'budget', filter: 'author:!"smith"' })
+      );
+      rerender('author:!"smith"');
+      expect(searchInput.getByText('author:!smith')).toBeDefined();
+
+      fireEvent.click(searchInput.getByTitle('Remove filter'));
+      expect(performSearch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filter: '' }),
+        false
+      );
+    });
+
+    test('removes the tokens of values included by other components', () => {
+      const { searchInput, submit, rerender } = setup();
+      submit('author:!smith budget');
+      rerender('author:!"smith"');
+
+      rerender('author:"smith"');
+      expect(searchInput.queryByText('author:!smith')).toBeNull();
+    });
+
+    test('removes the tokens deselected by other components', () => {
+      const { searchInput, submit, rerender } = setup();
+      submit('author:smith budget');
+      rerender('author:"smith"');
+      expect(searchInput.getByText('author:smith')).toBeDefined();
+
+      rerender('');
+      expect(searchInput.queryByText('author:smith')).toBeNull();
+    });
+
+    test('fetches the fields of the project to recognize the tokens', async () => {
+      const {
+        searchClient,
+        result: { getByPlaceholderText, findByText }
+      } = renderWithSearchClient(<SearchInput showFilterTokens />);
+      await wait(() =>
+        expect(searchClient.listFields).toHaveBeenCalledWith(
+          expect.objectContaining({ projectId: 'project' })
+        )
+      );
+      await wait();
+
+      const input = getByPlaceholderText('Search');
+      fireEvent.change(input, { target: { value: 'author:smith budget' } });
+      fireEvent.keyUp(input, { key: 'Enter', code: 13, charCode: 13 });
+
+      expect(await findByText('author:smith')).toBeDefined();
+      expect(searchClient.query).toHaveBeenLastCalledWith(
+        expect.objectContaining({ naturalLanguageQuery: 'budget', filter: 'author:"smith"' })
+      );
+      expect(searchClient.listFields).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('when we show facet suggestions', () => {
+    const aggregationResults = [
+      {
+        type: 'term',
+        field: 'enriched_text.entities.text',
+        name: 'entities',
+        results: [
+          { key: 'Acme Corp', matching_results: 4 },
+          { key: 'Globex', matching_results: 9 }
+        ]
+      },
+      {
+        type: 'term',
+        field: 'author',
+        results: [{ key: 'acme', matching_results: 6 }]
+      }
+    ];
+    const context: Partial<SearchContextIFC> = {
+      aggregationResults,
+      componentSettings: {
+        aggregations: [
+          { name: 'entities', label: 'Organizations', multiple_selections_allowed: true }
+        ]
+      }
+    };
+
+    const setup = (props = {}, api: Partial<SearchApiIFC> = {}) => {
+      const performSearch = jest.fn();
+      const emitEvent = jest.fn();
+      const searchInput = render(
+        wrapWithContext(
+          <SearchInput showFacetSuggestions {...props} />,
+          { performSearch, emitEvent, ...api },
+          context
+        )
+      );
+      const input = searchInput.getByPlaceholderText('Search') as HTMLInputElement;
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'acm' } });
+      return { searchInput, input, performSearch, emitEvent };
+    };
+
+    test('shows the facet values matching the input, matching the most results first', () => {
+      const { searchInput } = setup();
+      const suggestions = searchInput
+        .getAllByText(/ in /)
+        .map(suggestion => suggestion.textContent);
+      expect(suggestions).toEqual(['acme in author', 'Acme Corp in Organizations']);
+    });
+
+    test('applies the facet filter of a selected suggestion', () => {
+      const { searchInput, input, performSearch, emitEvent } = setup();
+      fireEvent.click(searchInput.getByText('Acme Corp in Organizations'));
+
+      expect(performSearch).toBeCalledWith(
+        expect.objectContaining({
+          filter: 'enriched_text.entities.text:"Acme Corp"',
+          offset: 0
+        })
+      );
+      expect(emitEvent).toBeCalledWith({
+        type: 'facet_toggled',
+        facetType: 'field',
+        field: 'enriched_text.entities.text',
+        value: 'Acme Corp',
+        selected: true
+      });
+      expect(input.value).toEqual('acm');
+    });
+
+    test('queries the values of the facet fields starting with the input', async () => {
+      const fetchFacetSuggestions = jest
+        .fn()
+        .mockResolvedValue([
+          { type: 'term', field: 'author', results: [{ key: 'Acme Labs', matching_results: 2 }] }
+        ]);
+      const { searchInput } = setup(
+        { queryFacetSuggestions: true, autocompleteDelay: 0 },
+        { fetchFacetSuggestions }
+      );
+
+      expect(await searchInput.findByText('Acme Labs in author')).toBeDefined();
+      expect(fetchFacetSuggestions).toBeCalledWith(
+        'acm',
+        ['enriched_text.entities.text', 'author'],
+        3
+      );
+    });
+  });
 });
@@ -0,0 +1,49 @@
+import React, { FC, useContext } from 'react';
+import { settings } from 'carbon-components';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { DqlSyntaxError } from 'utils/dql/tokenizeDql';
+import { formatMessage } from 'utils/formatMessage';
+import { Messages } from 'components/SearchInput/messages';
+
+export interface DqlErrorMessageProps {
+  /**
+   * id of the message, to describe the search input
+   */
+  id: string;
+  /**
+   * DQL query containing the error
+   */
+  query: string;
+  /**
+   * syntax error of the query
+   */
+  error: DqlSyntaxError;
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Messages;
+}
+
+export const DqlErrorMessage: FC<DqlErrorMessageProps> = ({ id, query, error, messages }) => {
+  const baseClassName = `${settings.prefix}--search-input__dql-error`;
+  const { message, position } = error;
+  const { locale } = useContext(SearchContext);
+  return (
+    <div id={id} className={baseClassName} role="alert">
+      <div className={`${baseClassName}-text`}>
+        {formatMessage(
+          messages.dqlSyntaxErrorText,
+          { message, position: position + 1 },
+          false,
+          locale
+        ).join('')}
+      </div>
+      <code className={`${baseClassName}-query`}>
+        {query.slice(0, position)}
+        {/* errors at the end of the query highlight the missing character */}
+        <mark>{query.slice(position, position + 1) || ' '}</mark>
+        {query.slice(position + 1)}
+      </code>
+    </div>
+  );
+};
@@ -7,9 +7,41 @@ export interface Messages {
    * Label text for the close button
    */
   closeButtonLabelText: string;
+  /**
+   * Label text for the button removing a recent query, where {query} is the removed query
+   */
+  removeRecentQueryLabelText: string;
+  /**
+   * Label text for the toggle between natural language and Discovery Query Language queries
+   */
+  dqlModeToggleLabelText: string;
+  /**
+   * Placeholder text for the SearchInput when searching with the Discovery Query Language
+   */
+  dqlPlaceholderText: string;
+  /**
+   * Text of a syntax error of a Discovery Query Language query, where {message} describes the
+   * error and {position} is the position of the first invalid character
+   */
+  dqlSyntaxErrorText: string;
+  /**
+   * Label text for the button removing a filter token, followed by the token
+   */
+  removeFilterTokenLabelText: string;
+  /**
+   * Text of a facet value suggested in the autocomplete dropdown, where {value} is the facet value
+   * and {facet} the label of its facet
+   */
+  facetSuggestionText: string;
 }
 
 export const defaultMessages: Messages = {
   placeholderText: 'Search',
-  closeButtonLabelText: 'Clear search input'
+  closeButtonLabelText: 'Clear search input',
+  removeRecentQueryLabelText: 'Remove {query} from the recent searches',
+  dqlModeToggleLabelText: 'Discovery Query Language',
+  dqlPlaceholderText: 'Search with the Discovery Query Language',
+  dqlSyntaxErrorText: '{message} at character {position}',
+  removeFilterTokenLabelText: 'Remove filter',
+  facetSuggestionText: '{value} in {facet}'
 };
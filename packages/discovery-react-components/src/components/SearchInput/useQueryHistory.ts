@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import isEqual from 'lodash/isEqual';
+import {
+  QueryHistoryStorage,
+  addToQueryHistory,
+  createLocalStorageQueryHistoryStorage
+} from './utils/queryHistoryStorage';
+
+export interface UseQueryHistoryOptions {
+  /**
+   * storage of the recent queries. Defaults to the local storage of the browser
+   */
+  storage?: QueryHistoryStorage;
+  /**
+   * maximum number of recent queries kept
+   */
+  maxLength?: number;
+}
+
+export interface QueryHistoryState {
+  /**
+   * recent queries, from the most to the least recent
+   */
+  queries: string[];
+  /**
+   * add a query to the recent queries, moving it first when it was already searched
+   */
+  addQuery: (query: string) => void;
+  /**
+   * remove a query from the recent queries
+   */
+  removeQuery: (query: string) => void;
+}
+
+/**
+ * Headless hook loading the recent queries from a storage, and adding and removing queries
+ * @param options - query history options
+ */
+export const useQueryHistory = ({
+  storage,
+  maxLength = 5
+}: UseQueryHistoryOptions = {}): QueryHistoryState => {
+  const defaultStorage = useMemo(() => createLocalStorageQueryHistoryStorage(), []);
+  const actualStorage = storage || defaultStorage;
+  const [queries, setQueries] = useState<string[]>([]);
+  // latest queries, so successive updates don't overwrite each other
+  const queriesRef = useRef(queries);
+
+  useEffect(() => {
+    let isCancelled = false;
+    async function loadQueries(): Promise<void> {
+      try {
+        const loadedQueries = await actualStorage.load();
+        // don't render again when the history is unchanged, ie. empty
+        if (!isCancelled && !isEqual(loadedQueries, queriesRef.current)) {
+          queriesRef.current = loadedQueries;
+          setQueries(loadedQueries);
+        }
+      } catch (err) {
+        console.error('Error loading the query history', err);
+      }
+    }
+    loadQueries();
+    return (): void => {
+      isCancelled = true;
+    };
+  }, [actualStorage]);
+
+  const updateQueries = async (update: (queries: string[]) => string[]): Promise<void> => {
+    const updatedQueries = update(queriesRef.current);
+    queriesRef.current = updatedQueries;
+    setQueries(updatedQueries);
+    try {
+      await actualStorage.save(updatedQueries);
+    } catch (err) {
+      console.error('Error saving the query history', err);
+    }
+  };
+
+  const addQuery = (query: string): void => {
+    updateQueries(queries => addToQueryHistory(queries, query, maxLength));
+  };
+
+  const removeQuery = (query: string): void => {
+    updateQueries(queries => queries.filter(recentQuery => recentQuery !== query));
+  };
+
+  return {
+    queries: queries.slice(0, maxLength),
+    addQuery,
+    removeQuery
+  };
+};
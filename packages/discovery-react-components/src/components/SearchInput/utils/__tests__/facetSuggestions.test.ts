@@ -0,0 +1,65 @@
+import { getFacetSuggestions, buildFacetSuggestionsQuery } from '../facetSuggestions';
+
+const aggregations = [
+  {
+    type: 'term',
+    field: 'author',
+    results: [
+      { key: 'Smith', matching_results: 3 },
+      { key: 'Jane Smithers', matching_results: 5 },
+      { key: 'Jones', matching_results: 8 }
+    ]
+  },
+  {
+    type: 'nested',
+    path: 'enriched_text.entities',
+    aggregations: [
+      {
+        type: 'term',
+        field: 'enriched_text.entities.text',
+        name: 'entities',
+        results: [{ key: 'Smith & Co', matching_results: 1 }]
+      }
+    ]
+  }
+];
+
+describe('facetSuggestions', () => {
+  describe('getFacetSuggestions', () => {
+    test('returns the values containing a word starting with the prefix, matching the most results first', () => {
+      expect(
+        getFacetSuggestions(
+          'smith',
+          aggregations,
+          [{ name: 'entities', label: 'Organizations', multiple_selections_allowed: true }],
+          '',
+          5
+        )
+      ).toEqual([
+        { field: 'author', value: 'Jane Smithers', facetLabel: 'author', matchingResults: 5 },
+        { field: 'author', value: 'Smith', facetLabel: 'author', matchingResults: 3 },
+        {
+          field: 'enriched_text.entities.text',
+          value: 'Smith & Co',
+          facetLabel: 'Organizations',
+          matchingResults: 1
+        }
+      ]);
+    });
+
+    test('skips the selected values and limits the number of suggestions', () => {
+      expect(getFacetSuggestions('smith', aggregations, [], 'author:"Jane Smithers"', 1)).toEqual([
+        { field: 'author', value: 'Smith', facetLabel: 'author', matchingResults: 3 }
+      ]);
+    });
+  });
+
+  describe('buildFacetSuggestionsQuery', () => {
+    test('counts the values of the fields starting with the prefix', () => {
+      expect(buildFacetSuggestionsQuery('acme co:', ['author', 'org'], 3)).toEqual({
+        filter: 'author:acme\\ co\\:*|org:acme\\ co\\:*',
+        aggregation: '[term(author,count:3),term(org,count:3)]'
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  parseFilterTokens,
+  addFilterTokens,
+  removeFilterToken,
+  isFilterTokenSelected,
+  getFilterTokenText
+} from '../filterTokens';
+
+describe('filterTokens', () => {
+  describe('parseFilterTokens', () => {
+    test('splits the tokens of known fields from the natural language query', () => {
+      expect(
+        parseFilterTokens('author:smith budget report subject:"annual budget"', [
+          'author',
+          'subject'
+        ])
+      ).toEqual({
+        naturalLanguageQuery: 'budget report',
+        tokens: [
+          { field: 'author', value: 'smith' },
+          { field: 'subject', value: 'annual budget' }
+        ]
+      });
+    });
+
+    test('keeps the tokens of unknown fields and invalid tokens in the query', () => {
+      expect(parseFilterTokens('color:red author: author::smith report', ['author'])).toEqual({
+        naturalLanguageQuery: 'color:red author: author::smith report',
+        tokens: []
+      });
+    });
+
+    test('parses the tokens of excluded values', () => {
+      expect(
+        parseFilterTokens('author:!smith subject:!"annual budget"', ['author', 'subject'])
+      ).toEqual({
+        naturalLanguageQuery: '',
+        tokens: [
+          { field: 'author', value: 'smith', excluded: true },
+          { field: 'subject', value: 'annual budget', excluded: true }
+        ]
+      });
+    });
+  });
+
+  describe('addFilterTokens', () => {
+    test('selects the values of the tokens', () => {
+      expect(
+        addFilterTokens('author:"jones","budget"', [
+          { field: 'author', value: 'smith' },
+          { field: 'author', value: 'jones' },
+          { field: 'subject', value: 'finance' }
+        ])
+      ).toEqual('author:"jones"|"smith",subject:"finance","budget"');
+    });
+
+    test('keeps the range, date range and prefix filters', () => {
+      expect(
+        addFilterTokens(
+          'enriched_text.categories.label::"/technology"|enriched_text.categories.label:"/technology/*",price>=10,publication_date>="2020-01-01"',
+          [{ field: 'author', value: 'smith' }]
+        )
+      ).toEqual(
+        'author:"smith",enriched_text.categories.label::"/technology"|enriched_text.categories.label:"/technology/*",price>=10,publication_date>="2020-01-01"'
+      );
+    });
+
+    test('excludes the values of excluded tokens', () => {
+      expect(
+        addFilterTokens('author:"jones"|"smith"', [
+          { field: 'author', value: 'smith', excluded: true }
+        ])
+      ).toEqual('author:"jones",author:!"smith"');
+      expect(
+        addFilterTokens('author:!"smith"', [{ field: 'author', value: 'smith', excluded: true }])
+      ).toEqual('author:!"smith"');
+    });
+  });
+
+  describe('removeFilterToken', () => {
+    test('deselects the value of the token', () => {
+      expect(
+        removeFilterToken('author:"jones"|"smith",subject:"finance"', {
+          field: 'author',
+          value: 'smith'
+        })
+      ).toEqual('author:"jones",subject:"finance"');
+      expect(removeFilterToken('author:"smith"', { field: 'author', value: 'smith' })).toEqual('');
+    });
+
+    test('keeps the range and prefix filters', () => {
+      expect(
+        removeFilterToken(
+          'author:"jones"|"smith",enriched_text.categories.label::"/technology"|enriched_text.categories.label:"/technology/*",price>=10,price<=50',
+          { field: 'author', value: 'smith' }
+        )
+      ).toEqual(
+        'author:"jones",enriched_text.categories.label::"/technology"|enriched_text.categories.label:"/technology/*",price>=10,price<=50'
+      );
+    });
+
+    test('only includes again the value of an excluded token', () => {
+      const filter = 'author:"jones",author:!"smith"';
+      expect(
+        removeFilterToken(filter, { field: 'author', value: 'smith', excluded: true })
+      ).toEqual('author:"jones"');
+      expect(removeFilterToken(filter, { field: 'author', value: 'smith' })).toEqual(filter);
+    });
+  });
+
+  describe('isFilterTokenSelected', () => {
+    test('checks whether the value of the token is selected', () => {
+      const filter = 'author:"jones"|"smith"';
+      expect(isFilterTokenSelected(filter, { field: 'author', value: 'smith' })).toBe(true);
+      expect(isFilterTokenSelected(filter, { field: 'subject', value: 'smith' })).toBe(false);
+      expect(isFilterTokenSelected('', { field: 'author', value: 'smith' })).toBe(false);
+    });
+
+    test('checks whether the value of an excluded token is excluded', () => {
+      const filter = 'author:!"smith"';
+      expect(isFilterTokenSelected(filter, { field: 'author', value: 'smith' })).toBe(false);
+      expect(
+        isFilterTokenSelected(filter, { field: 'author', value: 'smith', excluded: true })
+      ).toBe(true);
+    });
+  });
+
+  describe('getFilterTokenText', () => {
+    test('returns the text of the token', () => {
+      expect(getFilterTokenText({ field: 'author', value: 'smith' })).toEqual('author:smith');
+      expect(getFilterTokenText({ field: 'author', value: 'smith', excluded: true })).toEqual(
+        'author:!smith'
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  DEFAULT_QUERY_HISTORY_KEY,
+  addToQueryHistory,
+  parseQueryHistory,
+  createLocalStorageQueryHistoryStorage,
+  createMemoryQueryHistoryStorage
+} from '../queryHistoryStorage';
+
+describe('queryHistoryStorage', () => {
+  describe('addToQueryHistory', () => {
+    test('adds the query first', () => {
+      expect(addToQueryHistory(['wind', 'tides'], 'solar', 5)).toEqual(['solar', 'wind', 'tides']);
+    });
+
+    test('moves a query searched again first', () => {
+      expect(addToQueryHistory(['wind', 'tides'], 'tides', 5)).toEqual(['tides', 'wind']);
+    });
+
+    test('keeps the most recent queries', () => {
+      expect(addToQueryHistory(['wind', 'tides'], 'solar', 2)).toEqual(['solar', 'wind']);
+    });
+  });
+
+  describe('parseQueryHistory', () => {
+    test('skips the invalid queries', () => {
+      expect(parseQueryHistory(['wind', 1, '', null, 'tides'])).toEqual(['wind', 'tides']);
+      expect(parseQueryHistory('wind')).toEqual([]);
+    });
+  });
+
+  describe('createMemoryQueryHistoryStorage', () => {
+    test('loads the saved queries', () => {
+      const storage = createMemoryQueryHistoryStorage(['wind']);
+      expect(storage.load()).toEqual(['wind']);
+      storage.save(['solar']);
+      expect(storage.load()).toEqual(['solar']);
+    });
+  });
+
+  describe('createLocalStorageQueryHistoryStorage', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('stores the queries in the local storage', () => {
+      createLocalStorageQueryHistoryStorage().save(['wind']);
+      expect(window.localStorage.getItem(DEFAULT_QUERY_HISTORY_KEY)).toEqual('["wind"]');
+      expect(createLocalStorageQueryHistoryStorage().load()).toEqual(['wind']);
+      expect(createLocalStorageQueryHistoryStorage('other').load()).toEqual([]);
+    });
+
+    test('ignores an invalid value', () => {
+      window.localStorage.setItem(DEFAULT_QUERY_HISTORY_KEY, '{');
+      expect(createLocalStorageQueryHistoryStorage().load()).toEqual([]);
+    });
+  });
+});
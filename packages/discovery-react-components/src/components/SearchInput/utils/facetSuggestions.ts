@@ -0,0 +1,77 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { mergeFilterFacets } from 'components/SearchFacets/utils/mergeFilterFacets';
+import { FilterToken, isFilterTokenSelected } from './filterTokens';
+
+/**
+ * facet value matching the value of the search input, selected as a filter
+ */
+export interface FacetSuggestion extends FilterToken {
+  /**
+   * label of the facet, ie. `Organizations`
+   */
+  facetLabel: string;
+  matchingResults: number;
+}
+
+// special characters of the Discovery Query Language, escaped in the values of a filter
+const DQL_SPECIAL_CHARACTERS = /[\s,:|"\\()[\]<>=!~^*]/g;
+
+const matchesPrefix = (key: string, prefix: string): boolean => {
+  const lowerCaseKey = key.toLowerCase();
+  const lowerCasePrefix = prefix.toLowerCase();
+  return lowerCaseKey.startsWith(lowerCasePrefix) || lowerCaseKey.includes(` ${lowerCasePrefix}`);
+};
+
+/**
+ * get the facet values starting with a prefix, or containing a word starting with it, from the
+ * term aggregations of a search
+ * @param prefix - value of the search input
+ * @param aggregations - aggregations of the search
+ * @param componentSettingsAggregations - aggregations of the component settings, used for the facet labels
+ * @param filter - filter of the search, whose values are not suggested
+ * @param count - maximum number of suggestions
+ * @return the suggestions matching the most results first
+ */
+export const getFacetSuggestions = (
+  prefix: string,
+  aggregations: DiscoveryV2.QueryAggregation[],
+  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[],
+  filter: string,
+  count: number
+): FacetSuggestion[] => {
+  const suggestions: FacetSuggestion[] = [];
+  mergeFilterFacets(aggregations, [], componentSettingsAggregations).forEach(facet => {
+    const facetLabel = facet.label || facet.name || facet.field;
+    (facet.results || []).forEach(({ key, matching_results }) => {
+      const token = { field: facet.field, value: key };
+      if (
+        matchesPrefix(key, prefix) &&
+        !isFilterTokenSelected(filter, token) &&
+        !suggestions.some(({ field, value }) => field === token.field && value === token.value)
+      ) {
+        suggestions.push({ ...token, facetLabel, matchingResults: matching_results });
+      }
+    });
+  });
+  return suggestions
+    .sort((first, second) => second.matchingResults - first.matchingResults)
+    .slice(0, count);
+};
+
+/**
+ * build the filter and aggregation of a query counting the values of fields starting with a prefix
+ * @param prefix - value of the search input
+ * @param fields - fields of the facets
+ * @param count - number of values to count for each field
+ */
+export const buildFacetSuggestionsQuery = (
+  prefix: string,
+  fields: string[],
+  count: number
+): { filter: string; aggregation: string } => {
+  const escapedPrefix = prefix.replace(DQL_SPECIAL_CHARACTERS, '\\$&');
+  return {
+    filter: fields.map(field => `${field}:${escapedPrefix}*`).join('|'),
+    aggregation: `[${fields.map(field => `term(${field},count:${count})`).join(',')}]`
+  };
+};
@@ -0,0 +1,116 @@
+import { SearchFilterTransform } from 'components/SearchFacets/utils/searchFilterTransform';
+import { SelectableQueryTermAggregationResult } from 'components/SearchFacets/utils/searchFacetInterfaces';
+
+/**
+ * a `field:value` token typed in the search input, searched as a filter
+ */
+export interface FilterToken {
+  field: string;
+  value: string;
+  /**
+   * whether the value is excluded, typed as `field:!value`
+   */
+  excluded?: boolean;
+}
+
+const WORDS = /(?:[^\s"]+|"[^"]*")+/g;
+const FIELD_VALUE = /^([^\s:"]+):([^:].*)$/;
+
+const unquote = (value: string): string => value.replace(/^"(.+)"$/, '$1');
+
+/**
+ * split the `field:value` tokens of the fields of the project from the value of the search input
+ * @param value - value of the search input, ie. `author:smith budget report`
+ * @param fields - fields of the project
+ * @return the filter tokens and the rest of the value, searched as natural language query
+ */
+export const parseFilterTokens = (
+  value: string,
+  fields: string[]
+): { naturalLanguageQuery: string; tokens: FilterToken[] } => {
+  const tokens: FilterToken[] = [];
+  const words: string[] = [];
+  (value.match(WORDS) || []).forEach(word => {
+    const match = word.match(FIELD_VALUE);
+    const excluded = !!match && match[2].startsWith(SearchFilterTransform.EXCLUSION_PREFIX);
+    const tokenValue = match
+      ? unquote(excluded ? match[2].slice(SearchFilterTransform.EXCLUSION_PREFIX.length) : match[2])
+      : '';
+    if (match && fields.includes(match[1]) && tokenValue) {
+      tokens.push({ field: match[1], value: tokenValue, ...(excluded && { excluded }) });
+    } else {
+      words.push(word);
+    }
+  });
+  return { naturalLanguageQuery: words.join(' '), tokens };
+};
+
+const isTokenResult = (
+  { key, excluded }: SelectableQueryTermAggregationResult,
+  token: FilterToken
+): boolean => key === token.value && !!excluded === !!token.excluded;
+
+/**
+ * select the values of filter tokens in a filter, or exclude those of excluded tokens
+ * @param filter - filter of the search
+ * @param tokens - tokens to select
+ */
+export const addFilterTokens = (filter: string, tokens: FilterToken[]): string => {
+  // only the field filters change, the dynamic, range and prefix filters are kept as they are
+  const filterFacets = SearchFilterTransform.fromString(filter);
+  const { filterFields } = filterFacets;
+  tokens.forEach(token => {
+    const { field, value, excluded } = token;
+    const result = excluded
+      ? { key: value, matching_results: 1, selected: false, excluded }
+      : { key: value, matching_results: 1, selected: true };
+    const facet = filterFields.find(facet => facet.field === field);
+    if (!facet) {
+      filterFields.push({ type: 'term', field, results: [result] });
+    } else if (!(facet.results || []).some(facetResult => isTokenResult(facetResult, token))) {
+      // a value is either selected or excluded
+      facet.results = [...(facet.results || []).filter(({ key }) => key !== value), result];
+    }
+  });
+  return SearchFilterTransform.toString({ ...filterFacets, filterFields });
+};
+
+/**
+ * deselect the value of a filter token in a filter, or include the value of an excluded token again
+ * @param filter - filter of the search
+ * @param token - token to deselect
+ */
+export const removeFilterToken = (filter: string, token: FilterToken): string => {
+  const filterFacets = SearchFilterTransform.fromString(filter);
+  return SearchFilterTransform.toString({
+    ...filterFacets,
+    filterFields: filterFacets.filterFields.map(facet =>
+      facet.field === token.field
+        ? {
+            ...facet,
+            results: (facet.results || []).filter(result => !isTokenResult(result, token))
+          }
+        : facet
+    )
+  });
+};
+
+/**
+ * check whether the value of a filter token is selected in a filter, or excluded for an excluded token
+ * @param filter - filter of the search
+ * @param token - token to check
+ */
+export const isFilterTokenSelected = (filter: string, token: FilterToken): boolean => {
+  return SearchFilterTransform.fromString(filter).filterFields.some(
+    facet =>
+      facet.field === token.field &&
+      (facet.results || []).some(result => isTokenResult(result, token))
+  );
+};
+
+/**
+ * text of a filter token, as typed in the search input
+ * @param token - token to display
+ */
+export const getFilterTokenText = ({ field, value, excluded }: FilterToken): string =>
+  `${field}:${excluded ? SearchFilterTransform.EXCLUSION_PREFIX : ''}${value}`;
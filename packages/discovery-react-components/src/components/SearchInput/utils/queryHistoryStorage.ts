@@ -0,0 +1,78 @@
+/**
+ * storage of the recent queries, from the most to the least recent. Both methods can be async,
+ * ie. to store the recent queries of a user on a server
+ */
+export interface QueryHistoryStorage {
+  load: () => string[] | Promise<string[]>;
+  save: (queries: string[]) => void | Promise<void>;
+}
+
+export const DEFAULT_QUERY_HISTORY_KEY = 'discovery-query-history';
+
+/**
+ * validate the recent queries read from a storage, skipping the invalid ones
+ * @param value - recent queries to validate
+ */
+export const parseQueryHistory = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((query): query is string => typeof query === 'string' && !!query);
+};
+
+/**
+ * add a query to the recent queries, moving it first when it was already searched
+ * @param queries - recent queries, from the most to the least recent
+ * @param query - query to add
+ * @param maxLength - maximum number of recent queries kept
+ */
+export const addToQueryHistory = (
+  queries: string[],
+  query: string,
+  maxLength: number
+): string[] => {
+  return [query, ...queries.filter(recentQuery => recentQuery !== query)].slice(0, maxLength);
+};
+
+/**
+ * Creates a storage keeping the recent queries in memory, lost when the page is reloaded
+ */
+export const createMemoryQueryHistoryStorage = (
+  initialQueries: string[] = []
+): QueryHistoryStorage => {
+  let queries = initialQueries;
+  return {
+    load: () => queries,
+    save: updatedQueries => {
+      queries = updatedQueries;
+    }
+  };
+};
+
+/**
+ * Creates a storage keeping the recent queries in the local storage of the browser. Falls back
+ * to a memory storage when the local storage is not available (ie. disabled by the browser)
+ * @param key - local storage key of the recent queries
+ */
+export const createLocalStorageQueryHistoryStorage = (
+  key: string = DEFAULT_QUERY_HISTORY_KEY
+): QueryHistoryStorage => {
+  const memoryStorage = createMemoryQueryHistoryStorage();
+  return {
+    load: () => {
+      try {
+        const value = window.localStorage.getItem(key);
+        return value ? parseQueryHistory(JSON.parse(value)) : [];
+      } catch (err) {
+        return memoryStorage.load();
+      }
+    },
+    save: queries => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(queries));
+      } catch (err) {
+        memoryStorage.save(queries);
+      }
+    }
+  };
+};
@@ -1,13 +1,13 @@
-import React, { useContext, useEffect, useMemo, useState } from 'react';
-import get from 'lodash/get';
+import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { SkeletonText } from 'carbon-components-react';
 import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
 import { TablesOnlyToggle } from './components/TablesOnlyToggle/TablesOnlyToggle';
 import { Result } from './components/Result/Result';
 import { SpellingSuggestion } from './components/SpellingSuggestion/SpellingSuggestion';
-import { findCollectionName, getDisplaySettings, findTablesWithoutResults } from './utils';
-import { useDeepCompareEffect } from 'utils/useDeepCompareMemoize';
+import { LoadMoreResults } from './components/LoadMoreResults/LoadMoreResults';
+import { ZeroResultsFallbackBanner } from './components/ZeroResultsFallbackBanner/ZeroResultsFallbackBanner';
+import { useSearchResults } from './useSearchResults';
 import {
   baseClass,
   searchResultClass,
@@ -16,9 +16,11 @@ import {
   searchResultsListClass
 } from './cssClasses';
 import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
 import { withErrorBoundary } from 'react-error-boundary';
 import { FallbackComponent } from 'utils/FallbackComponent';
 import onErrorCallback from '../../utils/onErrorCallback';
+import { getSearchErrorMessage } from 'utils/searchError';
 
 const DEFAULT_LOADING_COUNT = 3;
 
@@ -69,6 +71,17 @@ export interface SearchResultsProps {
    * specify whether to display a toggle for showing table search results only
    */
   showTablesOnlyToggle?: boolean;
+  /**
+   * specify whether to display controls rating each result as relevant or not relevant to the query.
+   * Ratings are saved in the training queries of the project, and require a search client
+   * implementing `listTrainingQueries`, `createTrainingQuery` and `updateTrainingQuery`
+   */
+  showRelevancyFeedback?: boolean;
+  /**
+   * specify whether to append the next page of results when the end of the results is scrolled
+   * into view, instead of paginating the results. Hides the ResultsPagination component
+   */
+  infiniteScroll?: boolean;
   /**
    * override default messages for the component by specifying custom and/or internationalized text strings
    */
@@ -94,77 +107,63 @@ const SearchResults: React.FunctionComponent<SearchResultsProps> = ({
   passageTextClassName,
   showTablesOnlyToggle,
   showTablesOnly = false,
-  messages = defaultMessages,
+  showRelevancyFeedback = false,
+  infiniteScroll = false,
+  messages,
   onSelectResult,
   onChange
 }) => {
-  const mergedMessages = { ...defaultMessages, ...messages };
+  const mergedMessages = useMessages('SearchResults', defaultMessages, messages);
 
   const {
-    searchResponseStore: { data: searchResponse, isLoading, parameters },
-    collectionsResults,
-    componentSettings
+    searchResponseStore: { data: searchResponse, parameters }
   } = useContext(SearchContext);
-  const [showTablesOnlyResults, setShowTablesOnlyResults] = useState(showTablesOnly);
-  const [hasFetchedDocuments, setHasFetchedDocuments] = useState(false);
-
-  const displaySettings = getDisplaySettings(
-    { resultTitleField, bodyField, usePassages },
-    componentSettings
-  );
-
-  const { setSearchParameters, fetchDocuments } = useContext(SearchApi);
-  const matchingResults = (searchResponse && searchResponse.matching_results) || 0;
-  const results = (searchResponse && searchResponse.results) || [];
-  const tableResults = (searchResponse && searchResponse.table_results) || [];
+  const { setIsResultsPaginationComponentHidden } = useContext(SearchApi);
+  const {
+    results,
+    hasTables,
+    matchingResults,
+    isLoading,
+    error,
+    displaySettings,
+    showTablesOnlyResults,
+    setShowTablesOnlyResults,
+    hasMoreResults,
+    isLoadingMore,
+    loadMoreResults
+  } = useSearchResults({
+    resultTitleField,
+    resultLinkField,
+    resultLinkTemplate,
+    bodyField,
+    usePassages,
+    passageLength,
+    showTablesOnly
+  });
   const emptySearch = searchResponse ? mergedMessages.noResultsFoundText : '';
-  const hasTables = tableResults && tableResults.length > 0;
-  const hasMatchingResults = matchingResults && matchingResults > 0;
-  const resultsFound = showTablesOnlyResults ? hasTables : hasMatchingResults;
+  const resultsFound = showTablesOnlyResults ? hasTables : matchingResults > 0;
   const [showTablesOnlyToggleState, setShowTablesOnlyToggleState] = useState(
     typeof showTablesOnlyToggle === 'undefined' ? hasTables : showTablesOnlyToggle
   );
 
-  useEffect(() => {
-    if (passageLength) {
-      setSearchParameters((currentSearchParameters: DiscoveryV2.QueryParams) => {
-        return {
-          ...currentSearchParameters,
-          passages: {
-            characters: passageLength,
-            enabled: true
-          }
-        };
-      });
-    }
-  }, [passageLength, setSearchParameters]);
-
-  useEffect(() => {
-    setShowTablesOnlyResults(showTablesOnly);
-  }, [showTablesOnly]);
-
-  useEffect(() => {
-    setHasFetchedDocuments(false);
-  }, [parameters.naturalLanguageQuery]);
-
   useEffect(() => {
     setShowTablesOnlyToggleState(
       typeof showTablesOnlyToggle === 'undefined' ? hasTables : showTablesOnlyToggle
     );
   }, [showTablesOnlyToggle, hasTables]);
 
-  // tablesWithoutResults are the tables in our searchResponse with no corresponding QueryResult
-  useDeepCompareEffect(() => {
-    const tableResults = (searchResponse && searchResponse.table_results) || [];
-    const results = (searchResponse && searchResponse.results) || [];
-    const tablesWithoutResults = findTablesWithoutResults(tableResults, results);
-    if (!hasFetchedDocuments && tablesWithoutResults && tablesWithoutResults.length) {
-      const filterString =
-        'document_id::' + tablesWithoutResults.map(table => table.source_document_id).join('|');
-      fetchDocuments(filterString, searchResponse);
-      setHasFetchedDocuments(true);
+  // the pagination is hidden while the results scroll infinitely, and shown again when infinite
+  // scroll is turned off unless only the tables are shown. The tables only toggle shows the
+  // pagination again when toggled off, so it is hidden after it
+  const wasInfiniteScrollRef = useRef(false);
+  useEffect(() => {
+    if (infiniteScroll) {
+      setIsResultsPaginationComponentHidden(true);
+    } else if (wasInfiniteScrollRef.current) {
+      setIsResultsPaginationComponentHidden(showTablesOnlyResults);
     }
-  }, [searchResponse, fetchDocuments, hasFetchedDocuments]);
+    wasInfiniteScrollRef.current = infiniteScroll;
+  }, [infiniteScroll, showTablesOnlyResults, setIsResultsPaginationComponentHidden]);
 
   const skeletons = useMemo(() => {
     const searchResultLoadingClasses = [searchResultClass, searchResultLoadingClass];
@@ -186,6 +185,7 @@ const SearchResults: React.FunctionComponent<SearchResultsProps> = ({
   return (
     <div className={baseClass}>
       <div className={searchResultsHeaderClass} data-testid="search_results_header">
+        <ZeroResultsFallbackBanner messages={mergedMessages} />
         <SpellingSuggestion
           spellingSuggestionPrefix={mergedMessages.spellingSuggestionsPrefix}
           onChange={onChange}
@@ -199,56 +199,41 @@ const SearchResults: React.FunctionComponent<SearchResultsProps> = ({
       </div>
       {isLoading ? (
         skeletons
+      ) : error ? (
+        <div className={searchResultClass} data-testid="search_results_error">
+          {getSearchErrorMessage(error, mergedMessages)}
+        </div>
       ) : resultsFound ? (
         <div className={searchResultsListClass}>
-          {showTablesOnlyResults
-            ? (tableResults as DiscoveryV2.QueryTableResult[]).map(table => {
-                const collectionName = findCollectionName(collectionsResults, table);
-                const result = results.find(
-                  result => result.document_id === table.source_document_id
-                );
-
-                return (
-                  <Result
-                    key={`${table.collection_id}_${table.table_id}`}
-                    bodyField={displaySettings.bodyField}
-                    collectionName={collectionName}
-                    result={result}
-                    resultLinkField={resultLinkField}
-                    resultLinkTemplate={resultLinkTemplate}
-                    resultTitleField={displaySettings.resultTitleField}
-                    showTablesOnlyResults={showTablesOnlyResults}
-                    table={table}
-                    messages={mergedMessages}
-                    onSelectResult={onSelectResult}
-                  />
-                );
-              })
-            : (results as DiscoveryV2.QueryResult[]).map(result => {
-                const documentTableResult:
-                  | DiscoveryV2.QueryTableResult
-                  | undefined = tableResults.find(tableResult => {
-                  return tableResult.source_document_id === result.document_id;
-                });
-                const collectionName = findCollectionName(collectionsResults, result);
-                return (
-                  <Result
-                    key={`${get(result, 'result_metadata.collection_id')}_${result.document_id}`}
-                    bodyField={displaySettings.bodyField}
-                    collectionName={collectionName}
-                    passageTextClassName={passageTextClassName}
-                    result={result}
-                    resultLinkField={resultLinkField}
-                    resultLinkTemplate={resultLinkTemplate}
-                    resultTitleField={displaySettings.resultTitleField}
-                    table={documentTableResult}
-                    usePassages={displaySettings.usePassages}
-                    dangerouslyRenderHtml={dangerouslyRenderHtml}
-                    messages={mergedMessages}
-                    onSelectResult={onSelectResult}
-                  />
-                );
-              })}
+          {results.map(({ key, result, table, collectionName, position }) => (
+            <Result
+              key={key}
+              bodyField={displaySettings.bodyField}
+              collectionName={collectionName}
+              passageTextClassName={passageTextClassName}
+              result={result}
+              resultLinkField={resultLinkField}
+              resultLinkTemplate={resultLinkTemplate}
+              resultTitleField={displaySettings.resultTitleField}
+              showTablesOnlyResults={showTablesOnlyResults}
+              table={table}
+              usePassages={displaySettings.usePassages}
+              dangerouslyRenderHtml={dangerouslyRenderHtml}
+              messages={mergedMessages}
+              onSelectResult={onSelectResult}
+              position={position}
+              showRelevancyFeedback={showRelevancyFeedback}
+            />
+          ))}
+          {infiniteScroll && isLoadingMore && skeletons}
+          {infiniteScroll && (
+            <LoadMoreResults
+              hasMoreResults={hasMoreResults}
+              isLoadingMore={isLoadingMore}
+              loadMoreResults={loadMoreResults}
+              messages={mergedMessages}
+            />
+          )}
         </div>
       ) : (
         emptySearch && <div className={searchResultClass}>{emptySearch}</div>
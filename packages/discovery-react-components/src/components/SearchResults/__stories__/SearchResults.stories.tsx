@@ -43,6 +43,14 @@ const props = () => ({
   usePassages: boolean('Use passages when rendering the results (usePassages)', true),
   passageLength: number('Passage length, between 50 and 2000 (passageLength)', 400),
   dangerouslyRenderHtml: boolean('Render passages as HTML (dangerouslyRenderHtml)', false),
+  infiniteScroll: boolean(
+    'Append the next page of results when scrolling to the end (infiniteScroll)',
+    false
+  ),
+  showRelevancyFeedback: boolean(
+    'Display buttons rating the results as relevant or not (showRelevancyFeedback)',
+    false
+  ),
   passageTextClassName: select(
     'ClassName for styling passage text and highlights (passageTextClassName)',
     {
@@ -64,6 +72,30 @@ class OverrideableDummySearchClient extends DummySearchClient {
     action('listCollection')(listCollectionParams);
     return createDummyResponsePromise(overrideCollectionsResults);
   }
+
+  public async listTrainingQueries(
+    listTrainingQueriesParams: DiscoveryV2.ListTrainingQueriesParams
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<any> {
+    action('listTrainingQueries')(listTrainingQueriesParams);
+    return createDummyResponsePromise({ queries: [] });
+  }
+
+  public async createTrainingQuery(
+    createTrainingQueryParams: DiscoveryV2.CreateTrainingQueryParams
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<any> {
+    action('createTrainingQuery')(createTrainingQueryParams);
+    return createDummyResponsePromise({});
+  }
+
+  public async updateTrainingQuery(
+    updateTrainingQueryParams: DiscoveryV2.UpdateTrainingQueryParams
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<any> {
+    action('updateTrainingQuery')(updateTrainingQueryParams);
+    return createDummyResponsePromise({});
+  }
 }
 
 const discoverySearchProps = (knobValues: any): DiscoverySearchProps => {
@@ -75,6 +107,7 @@ const discoverySearchProps = (knobValues: any): DiscoverySearchProps => {
   return {
     searchClient: new OverrideableDummySearchClient(),
     projectId: text('Project ID', 'project-id'),
+    overrideQueryParameters: { naturalLanguageQuery: text('Query', 'example query') },
     overrideSearchResults: trimmedSearchResults,
     overrideCollectionsResults
   };
@@ -303,6 +303,44 @@ describe('<SearchResults />', () => {
         expect(searchResults.getAllByTestId('search_results_header')).toHaveLength(1);
       });
     });
+
+    describe('and the search failed', () => {
+      beforeEach(() => {
+        searchResponseStoreOverrides = {
+          ...searchResponseStoreOverrides,
+          isLoading: false,
+          isError: true,
+          error: { status: 429, message: 'Too many requests', retryable: true, parameters: {} }
+        };
+      });
+
+      test('renders the message for the error status', () => {
+        ({ searchResults } = setup({ searchResponseStoreOverrides }));
+        expect(searchResults.getByTestId('search_results_error').textContent).toEqual(
+          'Too many searches were sent. Wait a moment and try again'
+        );
+      });
+
+      test('renders the custom message for the error status', () => {
+        ({ searchResults } = setup(
+          { searchResponseStoreOverrides },
+          { messages: { rateLimitErrorText: 'Slow down' } }
+        ));
+        expect(searchResults.getByText('Slow down')).toBeInTheDocument();
+      });
+
+      test('renders the generic message when the status is unknown', () => {
+        searchResponseStoreOverrides.error = {
+          message: 'Network Error',
+          retryable: true,
+          parameters: {}
+        };
+        ({ searchResults } = setup({ searchResponseStoreOverrides }));
+        expect(
+          searchResults.getByText('There was an error performing the search')
+        ).toBeInTheDocument();
+      });
+    });
   });
 
   describe('when passageLength is defined', () => {
@@ -457,6 +495,7 @@ describe('<SearchResults />', () => {
               searchResponseStore: {
                 isLoading: false,
                 isError: false,
+                error: null,
                 parameters: {
                   projectId: 'my project id'
                 },
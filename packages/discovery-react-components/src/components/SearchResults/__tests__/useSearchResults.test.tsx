@@ -0,0 +1,125 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import { useSearchResults, UseSearchResultsOptions } from '../useSearchResults';
+import searchResults from '../__fixtures__/searchResults';
+import collectionsResponse from '../__fixtures__/collectionsResponse';
+
+const setup = (
+  options: UseSearchResultsOptions = {},
+  contextOverrides: Partial<SearchContextIFC> = {}
+) => {
+  const setSelectedResultMock = jest.fn();
+  const fetchDocumentsMock = jest.fn();
+  const emitEventMock = jest.fn();
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      data: searchResults,
+      parameters: { projectId: '', naturalLanguageQuery: 'machine learning', offset: 10 }
+    },
+    collectionsResults: collectionsResponse,
+    componentSettings: {
+      fields_shown: { body: { use_passage: true, field: 'text' }, title: { field: 'title' } }
+    },
+    ...contextOverrides
+  };
+  const wrapper: React.FC = ({ children }) =>
+    wrapWithContext(
+      <>{children}</>,
+      {
+        setSelectedResult: setSelectedResultMock,
+        fetchDocuments: fetchDocumentsMock,
+        emitEvent: emitEventMock
+      },
+      context
+    );
+  const { result } = renderHook(() => useSearchResults(options), { wrapper });
+  return { result, setSelectedResultMock, fetchDocumentsMock, emitEventMock };
+};
+
+describe('useSearchResults', () => {
+  test('resolves the title, body and collection name of the results', () => {
+    const { result } = setup();
+    const [firstItem, , thirdItem] = result.current.results;
+    expect(result.current.results).toHaveLength(4);
+    expect(result.current.matchingResults).toBe(20967);
+    expect(firstItem).toMatchObject({
+      key: '8713a92b-28aa-b291-0000-016ddc68aa2a_d1dadc06c2b0855289c728b2c3819514',
+      title: 'Alternate title',
+      collectionName: 'IBM Docs',
+      passage: searchResults.results![0].document_passages![0]
+    });
+    expect(firstItem.body).toContain('<em>Machine-learning</em> techniques');
+    expect(thirdItem.passage).toBeUndefined();
+    expect(thirdItem.body).toContain('trains a model');
+  });
+
+  test('uses the body field when passages are disabled', () => {
+    const { result } = setup({ usePassages: false, resultTitleField: 'extracted_metadata.title' });
+    const [firstItem] = result.current.results;
+    expect(firstItem.passage).toBeUndefined();
+    expect(firstItem.body).toBeUndefined();
+    expect(firstItem.title).toBe('IBM_Analytics_Machine_Learning.pdf');
+  });
+
+  test('pairs the results with their tables', () => {
+    const { result } = setup();
+    expect(result.current.hasTables).toBe(true);
+    expect(result.current.results[1].table).toBe(searchResults.table_results![0]);
+
+    act(() => {
+      result.current.setShowTablesOnlyResults(true);
+    });
+    const tableItems = result.current.results;
+    expect(tableItems).toHaveLength(2);
+    expect(tableItems[0].result).toBe(searchResults.results![1]);
+    expect(tableItems[1].result).toBeUndefined();
+  });
+
+  test('fetches the documents of the tables without results', () => {
+    const { fetchDocumentsMock } = setup();
+    expect(fetchDocumentsMock).toBeCalledWith(
+      'document_id::66666603f45647091eafe392664588cd',
+      searchResults
+    );
+  });
+
+  test('resolves the result links from the link template', () => {
+    const { result } = setup({ resultLinkTemplate: 'https://example.com/{{document_id}}' });
+    expect(result.current.results[0].link).toBe(
+      'https://example.com/d1dadc06c2b0855289c728b2c3819514'
+    );
+  });
+
+  test('selects a result', () => {
+    const { result, setSelectedResultMock, emitEventMock } = setup();
+    const [, secondItem] = result.current.results;
+    act(() => {
+      result.current.selectResult(secondItem, secondItem.passage, 'passage');
+    });
+    expect(emitEventMock).toBeCalledWith({
+      type: 'result_clicked',
+      documentId: '59ee2403f45647091eafe392664588cd',
+      collectionId: '8713a92b-28aa-b291-0000-016ddc68aa2a',
+      rank: 12,
+      position: 2,
+      elementType: 'passage',
+      link: undefined,
+      naturalLanguageQuery: 'machine learning'
+    });
+    const [firstItem] = result.current.results;
+    act(() => {
+      result.current.selectResult(firstItem, firstItem.passage, 'passage');
+    });
+    expect(setSelectedResultMock).toBeCalledWith({
+      document: firstItem.result,
+      element: firstItem.passage,
+      elementType: 'passage'
+    });
+  });
+});
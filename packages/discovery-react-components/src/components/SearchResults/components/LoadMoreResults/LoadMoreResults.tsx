@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { Button } from 'carbon-components-react';
+import { searchResultsLoadMoreClass } from 'components/SearchResults/cssClasses';
+import { Messages } from 'components/SearchResults/messages';
+
+export interface LoadMoreResultsProps {
+  /**
+   * whether more results of the search can be loaded
+   */
+  hasMoreResults: boolean;
+  /**
+   * whether more results are being loaded
+   */
+  isLoadingMore: boolean;
+  /**
+   * used to append the next page of results
+   */
+  loadMoreResults: () => void;
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Partial<Messages>;
+}
+
+export const LoadMoreResults: React.FunctionComponent<LoadMoreResultsProps> = ({
+  hasMoreResults,
+  isLoadingMore,
+  loadMoreResults,
+  messages
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadMoreResultsRef = useRef(loadMoreResults);
+  loadMoreResultsRef.current = loadMoreResults;
+  const canObserve = typeof IntersectionObserver !== 'undefined';
+  const isWaiting = hasMoreResults && !isLoadingMore;
+
+  // the sentinel is observed again after every page, so a page not filling the screen loads the next one
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!canObserve || !isWaiting || !sentinel) {
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreResultsRef.current();
+      }
+    });
+    observer.observe(sentinel);
+    return (): void => observer.disconnect();
+  }, [canObserve, isWaiting]);
+
+  if (!isWaiting) {
+    return null;
+  }
+  return (
+    <div className={searchResultsLoadMoreClass} ref={sentinelRef} data-testid="load_more_results">
+      {!canObserve && (
+        <Button kind="ghost" onClick={loadMoreResults}>
+          {messages.loadMoreResultsButtonText}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import { QueryResult } from 'ibm-watson/discovery/v2';
+import {
+  SearchApiIFC,
+  SearchContextIFC,
+  searchResponseStoreDefaults,
+  fetchMoreResultsStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchResults from 'components/SearchResults/SearchResults';
+import { wrapWithContext } from 'utils/testingUtils';
+
+const queryResults: QueryResult[] = [
+  { document_id: 'doc1', result_metadata: { collection_id: 'col1' } },
+  { document_id: 'doc2', result_metadata: { collection_id: 'col1' } }
+];
+
+const setup = (contextOverrides: Partial<SearchContextIFC> = {}, infiniteScroll = true) => {
+  const api: Partial<SearchApiIFC> = {
+    fetchMoreResults: jest.fn(),
+    setIsResultsPaginationComponentHidden: jest.fn()
+  };
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: { projectId: '', count: 2 },
+      data: { matching_results: 10, results: queryResults }
+    },
+    fetchMoreResultsStore: fetchMoreResultsStoreDefaults,
+    hasMoreResults: true,
+    ...contextOverrides
+  };
+  const searchResults = render(
+    wrapWithContext(<SearchResults infiniteScroll={infiniteScroll} />, api, context)
+  );
+  const setInfiniteScroll = (infiniteScroll: boolean) =>
+    searchResults.rerender(
+      wrapWithContext(<SearchResults infiniteScroll={infiniteScroll} />, api, context)
+    );
+  return { searchResults, api, setInfiniteScroll };
+};
+
+describe('<LoadMoreResults />', () => {
+  test('is not displayed without infinite scroll', () => {
+    const {
+      searchResults: { queryByTestId },
+      api
+    } = setup({}, false);
+    expect(queryByTestId('load_more_results')).toBeNull();
+    expect(api.setIsResultsPaginationComponentHidden).not.toHaveBeenCalled();
+  });
+
+  test('hides the pagination', () => {
+    const { api } = setup();
+    expect(api.setIsResultsPaginationComponentHidden).toHaveBeenCalledWith(true);
+  });
+
+  test('shows the pagination again when infinite scroll is turned off', () => {
+    const { api, setInfiniteScroll } = setup();
+    setInfiniteScroll(false);
+    expect(api.setIsResultsPaginationComponentHidden).toHaveBeenLastCalledWith(false);
+
+    setInfiniteScroll(true);
+    expect(api.setIsResultsPaginationComponentHidden).toHaveBeenLastCalledWith(true);
+  });
+
+  test('is not displayed when every result is displayed', () => {
+    const {
+      searchResults: { queryByTestId }
+    } = setup({ hasMoreResults: false });
+    expect(queryByTestId('load_more_results')).toBeNull();
+  });
+
+  test('displays skeletons while more results are loading', () => {
+    const {
+      searchResults: { queryByTestId, getAllByTestId }
+    } = setup({ fetchMoreResultsStore: { ...fetchMoreResultsStoreDefaults, isLoading: true } });
+    expect(queryByTestId('load_more_results')).toBeNull();
+    expect(getAllByTestId('skeleton_text')).toHaveLength(2);
+  });
+
+  describe('when the browser can observe the end of the results', () => {
+    let observe: jest.Mock;
+    let disconnect: jest.Mock;
+    let intersect: (isIntersecting: boolean) => void;
+
+    beforeEach(() => {
+      observe = jest.fn();
+      disconnect = jest.fn();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (window as any).IntersectionObserver = jest.fn(callback => {
+        intersect = isIntersecting => callback([{ isIntersecting }]);
+        return { observe, disconnect };
+      });
+    });
+
+    afterEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (window as any).IntersectionObserver;
+    });
+
+    test('loads more results when the end of the results is scrolled into view', () => {
+      const {
+        searchResults: { getByTestId, queryByText, unmount },
+        api
+      } = setup();
+      expect(observe).toHaveBeenCalledWith(getByTestId('load_more_results'));
+      expect(queryByText('Load more results')).toBeNull();
+
+      intersect(false);
+      expect(api.fetchMoreResults).not.toHaveBeenCalled();
+      intersect(true);
+      expect(api.fetchMoreResults).toHaveBeenCalledTimes(1);
+
+      unmount();
+      expect(disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('when the browser cannot observe the end of the results', () => {
+    test('loads more results from a button', () => {
+      const {
+        searchResults: { getByText },
+        api
+      } = setup();
+      fireEvent.click(getByText('Load more results'));
+      expect(api.fetchMoreResults).toHaveBeenCalledTimes(1);
+    });
+  });
+});
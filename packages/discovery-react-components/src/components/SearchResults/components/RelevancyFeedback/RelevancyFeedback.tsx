@@ -0,0 +1,79 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { Button } from 'carbon-components-react';
+import ThumbsUp16 from '@carbon/icons-react/lib/thumbs-up/16';
+import ThumbsDown16 from '@carbon/icons-react/lib/thumbs-down/16';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import {
+  searchResultRelevancyFeedbackClass,
+  searchResultRelevancyFeedbackSelectedClass
+} from 'components/SearchResults/cssClasses';
+import { Messages } from 'components/SearchResults/messages';
+import { RelevancyRating } from 'utils/relevancyFeedback';
+
+export interface RelevancyFeedbackProps {
+  /**
+   * the query result document to rate
+   */
+  result: DiscoveryV2.QueryResult;
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Partial<Messages>;
+}
+
+export const RelevancyFeedback: React.FunctionComponent<RelevancyFeedbackProps> = ({
+  result,
+  messages
+}) => {
+  const { submitRelevancyFeedback } = useContext(SearchApi);
+  const {
+    searchResponseStore: {
+      parameters: { naturalLanguageQuery, filter }
+    }
+  } = useContext(SearchContext);
+  const [rating, setRating] = useState<RelevancyRating | null>(null);
+
+  // a rating applies to a query, so it is cleared when the query changes
+  useEffect(() => {
+    setRating(null);
+  }, [naturalLanguageQuery, filter]);
+
+  const handleRate = (newRating: RelevancyRating) => async () => {
+    const previousRating = rating;
+    setRating(newRating);
+    try {
+      await submitRelevancyFeedback(result, newRating);
+    } catch (err) {
+      setRating(previousRating);
+      console.error('Error submitting relevancy feedback', err);
+    }
+  };
+
+  const buttons: { rating: RelevancyRating; text?: string; icon: typeof ThumbsUp16 }[] = [
+    { rating: 'relevant', text: messages.relevantButtonText, icon: ThumbsUp16 },
+    { rating: 'not_relevant', text: messages.notRelevantButtonText, icon: ThumbsDown16 }
+  ];
+
+  return (
+    <div className={searchResultRelevancyFeedbackClass}>
+      {buttons.map(button => {
+        const isSelected = rating === button.rating;
+        return (
+          <Button
+            key={button.rating}
+            className={isSelected ? searchResultRelevancyFeedbackSelectedClass : undefined}
+            kind="ghost"
+            size="small"
+            hasIconOnly
+            renderIcon={button.icon}
+            iconDescription={button.text}
+            tooltipPosition="bottom"
+            aria-pressed={isSelected}
+            onClick={handleRate(button.rating)}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { render, fireEvent, wait, RenderResult } from '@testing-library/react';
+import { QueryResult } from 'ibm-watson/discovery/v2';
+import {
+  SearchApiIFC,
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchResults from 'components/SearchResults/SearchResults';
+import { wrapWithContext } from 'utils/testingUtils';
+
+const queryResults: QueryResult[] = [
+  {
+    document_id: 'doc1',
+    result_metadata: { collection_id: 'col1', document_retrieval_source: 'search', confidence: 1 }
+  }
+];
+
+const setup = (api: Partial<SearchApiIFC>, showRelevancyFeedback = true) => {
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: { projectId: '', naturalLanguageQuery: 'tiger' },
+      data: { matching_results: 1, results: queryResults }
+    }
+  };
+  return render(
+    wrapWithContext(<SearchResults showRelevancyFeedback={showRelevancyFeedback} />, api, context)
+  );
+};
+
+const getButton = ({ getByText }: RenderResult, text: string) => {
+  return getByText(text).closest('button') as HTMLButtonElement;
+};
+
+describe('<RelevancyFeedback />', () => {
+  test('is not displayed by default', () => {
+    const { queryByText } = setup({}, false);
+    expect(queryByText('Relevant')).toBeNull();
+    expect(queryByText('Not relevant')).toBeNull();
+  });
+
+  test('submits the rating of the result', async () => {
+    const submitRelevancyFeedback = jest.fn(() => Promise.resolve());
+    const searchResults = setup({ submitRelevancyFeedback });
+
+    fireEvent.click(getButton(searchResults, 'Not relevant'));
+    expect(submitRelevancyFeedback).toHaveBeenCalledWith(queryResults[0], 'not_relevant');
+    await wait(() =>
+      expect(getButton(searchResults, 'Not relevant').getAttribute('aria-pressed')).toBe('true')
+    );
+    expect(getButton(searchResults, 'Relevant').getAttribute('aria-pressed')).toBe('false');
+  });
+
+  test('reverts the rating when it cannot be submitted', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const submitRelevancyFeedback = jest.fn(() => Promise.reject(new Error('failure')));
+    const searchResults = setup({ submitRelevancyFeedback });
+
+    fireEvent.click(getButton(searchResults, 'Relevant'));
+    expect(getButton(searchResults, 'Relevant').getAttribute('aria-pressed')).toBe('true');
+    await wait(() =>
+      expect(getButton(searchResults, 'Relevant').getAttribute('aria-pressed')).toBe('false')
+    );
+    expect(consoleError).toHaveBeenCalledWith(
+      'Error submitting relevancy feedback',
+      expect.any(Error)
+    );
+    consoleError.mockRestore();
+  });
+});
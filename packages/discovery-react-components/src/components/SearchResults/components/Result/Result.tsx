@@ -1,7 +1,6 @@
 import React, { useContext } from 'react';
 import get from 'lodash/get';
 import isEqual from 'lodash/isEqual';
-import mustache from 'mustache';
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
 import {
   SearchApi,
@@ -9,6 +8,7 @@ import {
   SelectedResult
 } from 'components/DiscoverySearch/DiscoverySearch';
 import { ResultElement } from '../ResultElement/ResultElement';
+import { RelevancyFeedback } from '../RelevancyFeedback/RelevancyFeedback';
 import { SkeletonText } from 'carbon-components-react';
 import {
   searchResultClass,
@@ -20,7 +20,7 @@ import {
   searchResultFooterTitleClass,
   searchResultFooterCollectionNameClass
 } from 'components/SearchResults/cssClasses';
-import { getDocumentTitle } from 'utils/getDocumentTitle';
+import { getResultDisplay, getResultClickedEvent } from 'components/SearchResults/utils';
 import { Messages } from 'components/SearchResults/messages';
 import { formatMessage } from 'utils/formatMessage';
 
@@ -80,6 +80,15 @@ export interface ResultProps {
    * callback function from the component for sending document
    */
   onSelectResult?: (document: { document: DiscoveryV2.QueryResult }) => void;
+  /**
+   * 1-based position of the result in the current page, reported in the `result_clicked` event
+   */
+  position?: number;
+  /**
+   * specify whether to display controls rating the result as relevant or not relevant to the query.
+   * Ratings are saved in the training queries of the project
+   */
+  showRelevancyFeedback?: boolean;
 }
 export const Result: React.FunctionComponent<ResultProps> = ({
   bodyField,
@@ -94,50 +103,34 @@ export const Result: React.FunctionComponent<ResultProps> = ({
   dangerouslyRenderHtml,
   usePassages,
   onSelectResult,
-  messages
+  messages,
+  position = 1,
+  showRelevancyFeedback = false
 }) => {
-  const { setSelectedResult } = useContext(SearchApi);
+  const { setSelectedResult, emitEvent } = useContext(SearchApi);
   const {
     selectedResult,
-    fetchDocumentsResponseStore: { isLoading }
+    fetchDocumentsResponseStore: { isLoading },
+    searchResponseStore: { parameters: searchParameters },
+    locale
   } = useContext(SearchContext);
 
-  const firstPassage: DiscoveryV2.QueryResultPassage | undefined = get(
-    result,
-    'document_passages[0]'
-  );
-  const firstPassageText = get(firstPassage, 'passage_text');
-  const firstAnswerText = get(firstPassage,'answers[0]["answer_text"]')
-  print(firstAnswerText)
-  const hasPassage = usePassages && !!firstPassageText;
-  let displayedText: string | undefined = get(result, bodyField);
-  if (hasPassage) {
-    if(!!firstAnswerText){
-      displayedText = firstAnswerText + "*****" + firstPassageText;
-    }
-    else{
-      displayedText = firstPassageText;
-    }
-  }
-
-  let displayedText: string | undefined = get(result, bodyField);
-  if (hasPassage) {
-    displayedText = firstPassageText;
-  }
+  const { title, body: displayedText, passage, link } = getResultDisplay(result, {
+    resultTitleField,
+    bodyField,
+    usePassages,
+    resultLinkField,
+    resultLinkTemplate
+  });
+  const hasPassage = !!passage;
   const shouldDangerouslyRenderHtml = hasPassage || dangerouslyRenderHtml;
-  const displayedTextElement = hasPassage ? firstPassage : null;
+  const displayedTextElement = hasPassage ? passage : null;
   const displayedTextElementType = hasPassage ? 'passage' : null;
   const tableHtml: string | undefined = get(table, 'table_html');
   // Need to check that showTablesOnlyResults isn't enabled to ensure text for a linked result isn't displayed in a tables only results view
   const hasText = displayedText && !showTablesOnlyResults;
   const emptyResultContent = !(hasText || tableHtml);
 
-  let title = getDocumentTitle(result, resultTitleField);
-
-  if (Array.isArray(title)) {
-    title = title[0]; // only first element will be shown if title is array
-  }
-
   const searchResultClasses = [searchResultClass];
   if (isEqual(result, selectedResult.document)) {
     searchResultClasses.push(searchResultSelectedClass);
@@ -160,12 +153,20 @@ export const Result: React.FunctionComponent<ResultProps> = ({
   ) => {
     return (event: React.MouseEvent) => {
       event.preventDefault();
-      if (resultLinkField || resultLinkTemplate) {
-        // expected behavior, use the resultLinkField if it exists over the resultLinkTemplate
-        const url = resultLinkField
-          ? get(result, resultLinkField)
-          : mustache.render(resultLinkTemplate as string, result);
-        window.open(url);
+      const opensLink = !!(resultLinkField || resultLinkTemplate);
+      emitEvent(
+        getResultClickedEvent({
+          result,
+          table,
+          position,
+          offset: searchParameters.offset,
+          elementType,
+          link: opensLink ? link : undefined,
+          naturalLanguageQuery: searchParameters.naturalLanguageQuery
+        })
+      );
+      if (opensLink) {
+        window.open(link);
       } else if (result) {
         setSelectedResult({ document: result, element, elementType });
         //When onSelectResult props is present, send back document
@@ -211,7 +212,8 @@ export const Result: React.FunctionComponent<ResultProps> = ({
                     ? formatMessage(
                         messages.elementTableLabel,
                         { documentName: title },
-                        false
+                        false,
+                        locale
                       ).join('')
                     : undefined
                 }
@@ -236,6 +238,9 @@ export const Result: React.FunctionComponent<ResultProps> = ({
               {messages.collectionLabel} {collectionName}
             </div>
           )}
+          {showRelevancyFeedback && result && (
+            <RelevancyFeedback result={result} messages={messages} />
+          )}
         </div>
       )}
     </div>
@@ -25,7 +25,7 @@ export const SpellingSuggestion: FC<SpellingSuggestionProps> = ({
   const {
     searchResponseStore: { parameters: searchParameters, data: searchResponse }
   } = useContext(SearchContext);
-  const { performSearch } = useContext(SearchApi);
+  const { performSearch, emitEvent } = useContext(SearchApi);
   const suggestedQuery = searchResponse && searchResponse.suggested_query;
 
   const prepareFreshSearchParameters = useDeepCompareCallback(
@@ -44,6 +44,11 @@ export const SpellingSuggestion: FC<SpellingSuggestionProps> = ({
     evt.preventDefault();
     if (!!suggestedQuery) {
       performSearch(prepareFreshSearchParameters(suggestedQuery));
+      emitEvent({
+        type: 'spelling_suggestion_accepted',
+        originalQuery: searchParameters.naturalLanguageQuery || '',
+        suggestedQuery
+      });
       if (onChange) {
         onChange(suggestedQuery);
       }
@@ -0,0 +1,58 @@
+import React, { FC, useContext } from 'react';
+import { Button } from 'carbon-components-react';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import {
+  searchResultsZeroResultsFallbackClass,
+  searchResultsZeroResultsFallbackTextClass
+} from 'components/SearchResults/cssClasses';
+import { Messages } from 'components/SearchResults/messages';
+import { formatMessage } from 'utils/formatMessage';
+import { RemovedFilter } from 'utils/zeroResultsFallback';
+
+export interface ZeroResultsFallbackBannerProps {
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages: Messages;
+}
+
+const getFilterLabel = ({ field, values }: RemovedFilter): string =>
+  field ? `${field}: ${values.join(', ')}` : values.join(', ');
+
+export const ZeroResultsFallbackBanner: FC<ZeroResultsFallbackBannerProps> = ({ messages }) => {
+  const { zeroResultsFallback, locale } = useContext(SearchContext);
+  const { undoZeroResultsFallback } = useContext(SearchApi);
+
+  if (!zeroResultsFallback) {
+    return null;
+  }
+
+  const { suggestedQuery, removedFilters } = zeroResultsFallback;
+  return (
+    <div className={searchResultsZeroResultsFallbackClass} role="status">
+      {suggestedQuery && (
+        <div className={searchResultsZeroResultsFallbackTextClass}>
+          {formatMessage(
+            messages.zeroResultsSuggestedQueryText,
+            { query: suggestedQuery },
+            false,
+            locale
+          ).join('')}
+        </div>
+      )}
+      {removedFilters.map((removedFilter, index) => (
+        <div key={index} className={searchResultsZeroResultsFallbackTextClass}>
+          {formatMessage(
+            messages.zeroResultsRemovedFilterText,
+            { filter: getFilterLabel(removedFilter) },
+            false,
+            locale
+          ).join('')}
+        </div>
+      ))}
+      <Button kind="ghost" size="small" onClick={undoZeroResultsFallback}>
+        {messages.zeroResultsUndoButtonText}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import {
+  SearchApiIFC,
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import SearchResults from 'components/SearchResults/SearchResults';
+import { wrapWithContext } from 'utils/testingUtils';
+import { ZeroResultsFallback } from 'utils/zeroResultsFallback';
+
+const setup = (zeroResultsFallback: ZeroResultsFallback | null) => {
+  const api: Partial<SearchApiIFC> = {
+    undoZeroResultsFallback: jest.fn()
+  };
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      data: { matching_results: 0, results: [] }
+    },
+    zeroResultsFallback
+  };
+  const searchResults = render(wrapWithContext(<SearchResults />, api, context));
+  return { searchResults, api };
+};
+
+describe('<ZeroResultsFallbackBanner />', () => {
+  const parameters = { projectId: '', naturalLanguageQuery: 'hello', filter: '' };
+  const zeroResultsFallback: ZeroResultsFallback = {
+    originalParameters: {
+      ...parameters,
+      naturalLanguageQuery: 'helo',
+      filter: 'author:"smith"|"jones","budget"'
+    },
+    parameters,
+    suggestedQuery: 'hello',
+    removedFilters: [{ field: 'author', values: ['smith', 'jones'] }, { values: ['budget'] }]
+  };
+
+  test('is not displayed without a fallback', () => {
+    const {
+      searchResults: { queryByRole }
+    } = setup(null);
+    expect(queryByRole('status')).toBeNull();
+  });
+
+  test('displays the spelling suggestion and the removed filters', () => {
+    const {
+      searchResults: { getByText }
+    } = setup(zeroResultsFallback);
+    expect(getByText('Showing results for hello instead')).toBeInTheDocument();
+    expect(getByText('Removed filter author: smith, jones')).toBeInTheDocument();
+    expect(getByText('Removed filter budget')).toBeInTheDocument();
+  });
+
+  test('undoes the fallback', () => {
+    const {
+      searchResults: { getByText },
+      api
+    } = setup(zeroResultsFallback);
+    fireEvent.click(getByText('Undo'));
+    expect(api.undoZeroResultsFallback).toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,9 @@ import { settings } from 'carbon-components';
 export const baseClass = `${settings.prefix}--search-results`;
 export const searchResultsListClass = `${baseClass}__list`;
 export const searchResultsHeaderClass = `${baseClass}__header`;
+export const searchResultsLoadMoreClass = `${baseClass}__load-more`;
+export const searchResultsZeroResultsFallbackClass = `${baseClass}__zero-results-fallback`;
+export const searchResultsZeroResultsFallbackTextClass = `${searchResultsZeroResultsFallbackClass}__text`;
 
 // Single search result
 export const searchResultClass = `${settings.prefix}--search-result`;
@@ -18,3 +21,5 @@ export const searchResultContentWrapperHalfClass = `${searchResultContentWrapper
 export const searchResultFooterClass = `${searchResultClass}__footer`;
 export const searchResultFooterTitleClass = `${searchResultFooterClass}__title`;
 export const searchResultFooterCollectionNameClass = `${searchResultFooterClass}__collection-name`;
+export const searchResultRelevancyFeedbackClass = `${searchResultFooterClass}__relevancy-feedback`;
+export const searchResultRelevancyFeedbackSelectedClass = `${searchResultRelevancyFeedbackClass}--selected`;
@@ -1,4 +1,6 @@
-export interface Messages {
+import { SearchErrorMessages } from 'utils/searchError';
+
+export interface Messages extends SearchErrorMessages {
   /**
    * override the default label for the collection name on each search result
    */
@@ -31,6 +33,30 @@ export interface Messages {
    * override the default text to use as the label for the table result
    */
   elementTableLabel: string;
+  /**
+   * override the default description of the button rating a search result as relevant
+   */
+  relevantButtonText: string;
+  /**
+   * override the default description of the button rating a search result as not relevant
+   */
+  notRelevantButtonText: string;
+  /**
+   * override the default text of the button loading more results, displayed in infinite scroll mode when the browser cannot detect the end of the results being scrolled into view
+   */
+  loadMoreResultsButtonText: string;
+  /**
+   * override the default text displayed when the spelling suggestion was searched because the search returned no results
+   */
+  zeroResultsSuggestedQueryText: string;
+  /**
+   * override the default text displayed for each facet filter removed because the search returned no results
+   */
+  zeroResultsRemovedFilterText: string;
+  /**
+   * override the default text of the button searching again with the query and filters returning no results
+   */
+  zeroResultsUndoButtonText: string;
 }
 
 export const defaultMessages: Messages = {
@@ -41,5 +67,16 @@ export const defaultMessages: Messages = {
   spellingSuggestionsPrefix: 'Did you mean:',
   emptyResultContentBodyText: 'Excerpt unavailable.',
   noResultsFoundText: 'There were no results found',
-  elementTableLabel: 'Table snippet extracted from {documentName}'
+  elementTableLabel: 'Table snippet extracted from {documentName}',
+  relevantButtonText: 'Relevant',
+  notRelevantButtonText: 'Not relevant',
+  loadMoreResultsButtonText: 'Load more results',
+  zeroResultsSuggestedQueryText: 'Showing results for {query} instead',
+  zeroResultsRemovedFilterText: 'Removed filter {filter}',
+  zeroResultsUndoButtonText: 'Undo',
+  unauthorizedErrorText: 'You are not authorized to search this project',
+  rateLimitErrorText: 'Too many searches were sent. Wait a moment and try again',
+  invalidRequestErrorText: 'The search could not be completed because the query is not valid',
+  serverErrorText: 'The search service is currently unavailable. Try again later',
+  genericErrorText: 'There was an error performing the search'
 };
@@ -0,0 +1,292 @@
+import { useContext, useEffect, useState } from 'react';
+import get from 'lodash/get';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import {
+  SearchApi,
+  SearchContext,
+  SelectedResult
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { useDeepCompareEffect } from 'utils/useDeepCompareMemoize';
+import { SearchError } from 'utils/searchError';
+import {
+  findCollectionName,
+  getDisplaySettings,
+  findTablesWithoutResults,
+  getResultClickedEvent
+} from './utils';
+import { getResultDisplay, ResultDisplay } from './utils/getResultDisplay';
+
+export interface UseSearchResultsOptions {
+  /**
+   * field on the result object to pull the result title from. Defaults to the component settings
+   */
+  resultTitleField?: string;
+  /**
+   * field on the result object to pull the result link from
+   */
+  resultLinkField?: string;
+  /**
+   * mustache template used to create the result link, when `resultLinkField` is not set
+   */
+  resultLinkTemplate?: string;
+  /**
+   * field on the result object displayed when there is no passage. Defaults to the component settings
+   */
+  bodyField?: string;
+  /**
+   * whether passages should be used as the body of the results. Defaults to the component settings
+   */
+  usePassages?: boolean;
+  /**
+   * approximate max length of the passages requested for the results
+   */
+  passageLength?: number;
+  /**
+   * whether only table results should be returned by default
+   */
+  showTablesOnly?: boolean;
+}
+
+export interface SearchResultItem extends ResultDisplay {
+  /**
+   * unique key of the item, usable as a React key
+   */
+  key: string;
+  /**
+   * query result of the item. Undefined for a table whose document has not been fetched yet
+   */
+  result?: DiscoveryV2.QueryResult;
+  /**
+   * table result paired with the item
+   */
+  table?: DiscoveryV2.QueryTableResult;
+  /**
+   * name of the collection of the item, falling back on the collection id
+   */
+  collectionName: string;
+  /**
+   * 1-based position of the item in the current page
+   */
+  position: number;
+  /**
+   * 1-based rank of the item across every page of results
+   */
+  rank: number;
+}
+
+export interface SearchResultsState {
+  /**
+   * results of the current search, or their tables when only table results are shown
+   */
+  results: SearchResultItem[];
+  /**
+   * number of results matching the current search
+   */
+  matchingResults: number;
+  /**
+   * whether the current search returned table results
+   */
+  hasTables: boolean;
+  /**
+   * whether a search is in progress
+   */
+  isLoading: boolean;
+  /**
+   * error of the last search, if it failed
+   */
+  error: SearchError | null;
+  /**
+   * response of the last search, null before the first search
+   */
+  searchResponse: DiscoveryV2.QueryResponse | null;
+  /**
+   * title field, body field and passages setting resolved against the component settings
+   */
+  displaySettings: ReturnType<typeof getDisplaySettings>;
+  /**
+   * whether only table results are returned
+   */
+  showTablesOnlyResults: boolean;
+  /**
+   * show only table results, or every result
+   */
+  setShowTablesOnlyResults: (showTablesOnlyResults: boolean) => void;
+  /**
+   * whether more results of the search can be loaded with `loadMoreResults`
+   */
+  hasMoreResults: boolean;
+  /**
+   * whether more results are being loaded
+   */
+  isLoadingMore: boolean;
+  /**
+   * append the results of the next page of the search to the current results
+   */
+  loadMoreResults: () => void;
+  /**
+   * open the link of an item when there is one, otherwise make it the selected result.
+   * Emits a `result_clicked` event
+   */
+  selectResult: (
+    item: SearchResultItem,
+    element?: SelectedResult['element'],
+    elementType?: SelectedResult['elementType']
+  ) => void;
+}
+
+/**
+ * Headless hook returning the results of the current search with their title, body, link,
+ * collection name and table resolved, to render search results with custom markup
+ * @param options - display options of the results
+ */
+export const useSearchResults = ({
+  resultTitleField,
+  resultLinkField,
+  resultLinkTemplate,
+  bodyField,
+  usePassages,
+  passageLength,
+  showTablesOnly = false
+}: UseSearchResultsOptions = {}): SearchResultsState => {
+  const {
+    searchResponseStore: { data: searchResponse, isLoading, error, parameters },
+    collectionsResults,
+    componentSettings,
+    fetchMoreResultsStore,
+    hasMoreResults
+  } = useContext(SearchContext);
+  const {
+    setSearchParameters,
+    setSelectedResult,
+    fetchDocuments,
+    fetchMoreResults,
+    emitEvent
+  } = useContext(SearchApi);
+  const [showTablesOnlyResults, setShowTablesOnlyResults] = useState(showTablesOnly);
+  // documents of the tables without results which were already requested
+  const [fetchedDocumentIds, setFetchedDocumentIds] = useState<string[]>([]);
+
+  const displaySettings = getDisplaySettings(
+    { resultTitleField, bodyField, usePassages },
+    componentSettings
+  );
+  const matchingResults = (searchResponse && searchResponse.matching_results) || 0;
+  const queryResults = (searchResponse && searchResponse.results) || [];
+  const tableResults = (searchResponse && searchResponse.table_results) || [];
+
+  useEffect(() => {
+    if (passageLength) {
+      setSearchParameters((currentSearchParameters: DiscoveryV2.QueryParams) => {
+        return {
+          ...currentSearchParameters,
+          passages: {
+            characters: passageLength,
+            enabled: true
+          }
+        };
+      });
+    }
+  }, [passageLength, setSearchParameters]);
+
+  useEffect(() => {
+    setShowTablesOnlyResults(showTablesOnly);
+  }, [showTablesOnly]);
+
+  useEffect(() => {
+    setFetchedDocumentIds([]);
+  }, [parameters.naturalLanguageQuery]);
+
+  // tablesWithoutResults are the tables in our searchResponse with no corresponding QueryResult.
+  // Appending more results may add tables, so only their documents not requested yet are fetched
+  useDeepCompareEffect(() => {
+    const tableResults = (searchResponse && searchResponse.table_results) || [];
+    const results = (searchResponse && searchResponse.results) || [];
+    const tablesWithoutResults = findTablesWithoutResults(tableResults, results) || [];
+    const documentIds = tablesWithoutResults
+      .map(table => table.source_document_id || '')
+      .filter(documentId => !fetchedDocumentIds.includes(documentId));
+    if (documentIds.length) {
+      const filterString = 'document_id::' + documentIds.join('|');
+      fetchDocuments(filterString, searchResponse);
+      setFetchedDocumentIds([...fetchedDocumentIds, ...documentIds]);
+    }
+  }, [searchResponse, fetchDocuments, fetchedDocumentIds]);
+
+  const toItem = (
+    key: string,
+    result: DiscoveryV2.QueryResult | undefined,
+    table: DiscoveryV2.QueryTableResult | undefined,
+    index: number
+  ): SearchResultItem => {
+    return {
+      key,
+      result,
+      table,
+      position: index + 1,
+      rank: (parameters.offset || 0) + index + 1,
+      collectionName: findCollectionName(
+        collectionsResults,
+        (result || table) as DiscoveryV2.QueryResult | DiscoveryV2.QueryTableResult
+      ),
+      ...getResultDisplay(result, {
+        ...displaySettings,
+        resultLinkField,
+        resultLinkTemplate
+      })
+    };
+  };
+
+  const results = showTablesOnlyResults
+    ? tableResults.map((table, index) => {
+        const result = queryResults.find(result => result.document_id === table.source_document_id);
+        return toItem(`${table.collection_id}_${table.table_id}`, result, table, index);
+      })
+    : queryResults.map((result, index) => {
+        const table = tableResults.find(tableResult => {
+          return tableResult.source_document_id === result.document_id;
+        });
+        return toItem(
+          `${get(result, 'result_metadata.collection_id')}_${result.document_id}`,
+          result,
+          table,
+          index
+        );
+      });
+
+  const selectResult = (
+    item: SearchResultItem,
+    element: SelectedResult['element'] = null,
+    elementType: SelectedResult['elementType'] = null
+  ): void => {
+    emitEvent(
+      getResultClickedEvent({
+        ...item,
+        offset: parameters.offset,
+        elementType,
+        link: resultLinkField || resultLinkTemplate ? item.link : undefined,
+        naturalLanguageQuery: parameters.naturalLanguageQuery
+      })
+    );
+    if (resultLinkField || resultLinkTemplate) {
+      window.open(item.link);
+    } else if (item.result) {
+      setSelectedResult({ document: item.result, element, elementType });
+    }
+  };
+
+  return {
+    results,
+    matchingResults,
+    hasTables: tableResults.length > 0,
+    isLoading,
+    error,
+    searchResponse,
+    displaySettings,
+    showTablesOnlyResults,
+    setShowTablesOnlyResults,
+    hasMoreResults,
+    isLoadingMore: fetchMoreResultsStore.isLoading,
+    loadMoreResults: fetchMoreResults,
+    selectResult
+  };
+};
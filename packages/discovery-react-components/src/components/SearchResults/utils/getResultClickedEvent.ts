@@ -0,0 +1,34 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { ResultClickedEvent } from 'utils/searchEvents';
+
+interface ResultClickedParams {
+  result?: DiscoveryV2.QueryResult;
+  table?: DiscoveryV2.QueryTableResult;
+  position: number;
+  offset?: number;
+  elementType?: 'passage' | 'table' | null;
+  link?: string;
+  naturalLanguageQuery?: string;
+}
+
+export const getResultClickedEvent = ({
+  result,
+  table,
+  position,
+  offset = 0,
+  elementType = null,
+  link,
+  naturalLanguageQuery
+}: ResultClickedParams): ResultClickedEvent => {
+  return {
+    type: 'result_clicked',
+    documentId: get(result, 'document_id') || get(table, 'source_document_id', ''),
+    collectionId: get(result, 'result_metadata.collection_id') || get(table, 'collection_id'),
+    rank: offset + position,
+    position,
+    elementType,
+    link,
+    naturalLanguageQuery
+  };
+};
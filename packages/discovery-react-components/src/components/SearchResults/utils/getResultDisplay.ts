@@ -0,0 +1,68 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import mustache from 'mustache';
+import { getDocumentTitle } from 'utils/getDocumentTitle';
+
+interface ResultDisplayParams {
+  resultTitleField: string;
+  bodyField: string;
+  usePassages?: boolean;
+  resultLinkField?: string;
+  resultLinkTemplate?: string;
+}
+
+export interface ResultDisplay {
+  /**
+   * title of the result, falling back on the document metadata and id
+   */
+  title: string;
+  /**
+   * text to display for the result: the first passage when passages are used, the body field otherwise
+   */
+  body?: string;
+  /**
+   * passage displayed as the body of the result, if any
+   */
+  passage?: DiscoveryV2.QueryResultPassage;
+  /**
+   * link of the result, when a link field or template is configured
+   */
+  link?: string;
+}
+
+export const getResultDisplay = (
+  result: DiscoveryV2.QueryResult | undefined,
+  {
+    resultTitleField,
+    bodyField,
+    usePassages,
+    resultLinkField,
+    resultLinkTemplate
+  }: ResultDisplayParams
+): ResultDisplay => {
+  const firstPassage: DiscoveryV2.QueryResultPassage | undefined = get(
+    result,
+    'document_passages[0]'
+  );
+  const hasPassage = usePassages && !!get(firstPassage, 'passage_text');
+
+  let title = getDocumentTitle(result, resultTitleField);
+  if (Array.isArray(title)) {
+    title = title[0]; // only first element will be shown if title is array
+  }
+
+  // use the resultLinkField if it exists over the resultLinkTemplate
+  let link: string | undefined;
+  if (resultLinkField) {
+    link = get(result, resultLinkField);
+  } else if (resultLinkTemplate) {
+    link = mustache.render(resultLinkTemplate, result);
+  }
+
+  return {
+    title,
+    body: hasPassage ? get(firstPassage, 'passage_text') : get(result, bodyField),
+    passage: hasPassage ? firstPassage : undefined,
+    link
+  };
+};
@@ -1,3 +1,5 @@
 export { findCollectionName } from './findCollectionName';
 export { getDisplaySettings } from './getDisplaySettings';
 export { findTablesWithoutResults } from './findTablesWithoutResults';
+export { getResultDisplay } from './getResultDisplay';
+export { getResultClickedEvent } from './getResultClickedEvent';
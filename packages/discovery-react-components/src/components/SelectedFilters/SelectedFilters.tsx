@@ -0,0 +1,101 @@
+import React, { FC, useContext } from 'react';
+import { Button, Tag } from 'carbon-components-react';
+import { withErrorBoundary } from 'react-error-boundary';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { FallbackComponent } from 'utils/FallbackComponent';
+import onErrorCallback from 'utils/onErrorCallback';
+import { formatMessage } from 'utils/formatMessage';
+import { useMessages } from 'utils/useMessages';
+import { SelectedFilter, SelectedFilterGroup, useSelectedFilters } from './useSelectedFilters';
+import { baseClass, groupClass, groupLabelClass, tagClass, clearAllClass } from './cssClasses';
+import { defaultMessages, Messages } from './messages';
+
+export interface SelectedFiltersProps {
+  /**
+   * override default messages for the component by specifying custom and/or internationalized text strings
+   */
+  messages?: Partial<Messages>;
+}
+
+const SelectedFilters: FC<SelectedFiltersProps> = ({ messages }) => {
+  const mergedMessages = useMessages('SelectedFilters', defaultMessages, messages);
+  const { locale } = useContext(SearchContext);
+  const { groups, removeFilter, clearAll } = useSelectedFilters();
+
+  const getGroupLabel = (group: SelectedFilterGroup): string => {
+    if (group.type === 'dynamic') {
+      return mergedMessages.dynamicFacetsLabel;
+    }
+    if (group.type === 'collection') {
+      return mergedMessages.collectionsLabel;
+    }
+    return group.label || group.field || '';
+  };
+
+  const getFilterText = ({ value, name, excluded, range, dateRange }: SelectedFilter): string => {
+    let message = '{value}';
+    if (excluded) {
+      message = mergedMessages.excludedValueText;
+    } else if (range) {
+      message =
+        range.max === undefined
+          ? mergedMessages.rangeMinText
+          : range.min === undefined
+          ? mergedMessages.rangeMaxText
+          : mergedMessages.rangeText;
+    } else if (dateRange) {
+      message = !dateRange.end
+        ? mergedMessages.dateRangeStartText
+        : !dateRange.start
+        ? mergedMessages.dateRangeEndText
+        : mergedMessages.dateRangeText;
+    }
+    return formatMessage(
+      message,
+      {
+        value: name || value,
+        min: range && range.min,
+        max: range && range.max,
+        start: dateRange && dateRange.start ? new Date(dateRange.start) : undefined,
+        end: dateRange && dateRange.end ? new Date(dateRange.end) : undefined
+      },
+      false,
+      locale
+    ).join('');
+  };
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={baseClass}>
+      {groups.map(group => (
+        <div key={`${group.type}-${group.field || ''}`} className={groupClass}>
+          <span className={groupLabelClass}>{getGroupLabel(group)}</span>
+          {group.filters.map(filter => (
+            <Tag
+              key={`${filter.facetType}-${filter.excluded ? '!' : ''}${filter.value}`}
+              className={tagClass}
+              type={filter.excluded ? 'red' : 'blue'}
+              filter
+              title={mergedMessages.removeFilterTitle}
+              onClose={() => removeFilter(filter)}
+            >
+              {getFilterText(filter)}
+            </Tag>
+          ))}
+        </div>
+      ))}
+      <Button className={clearAllClass} kind="ghost" size="small" onClick={clearAll}>
+        {mergedMessages.clearAllButtonText}
+      </Button>
+    </div>
+  );
+};
+
+export default withErrorBoundary(
+  SelectedFilters,
+  FallbackComponent('SelectedFilters'),
+  onErrorCallback
+);
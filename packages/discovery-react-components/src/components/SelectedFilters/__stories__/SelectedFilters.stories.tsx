@@ -0,0 +1,72 @@
+import React from 'react';
+import { storiesOf } from '@storybook/react';
+import { object, text } from '@storybook/addon-knobs/react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { action } from '@storybook/addon-actions';
+import { StoryWrapper, DummySearchClient } from 'utils/storybookUtils';
+import { createDummyResponsePromise } from 'utils/testingUtils';
+import DiscoverySearch, { DiscoverySearchProps } from 'components/DiscoverySearch/DiscoverySearch';
+import SearchFacets from 'components/SearchFacets/SearchFacets';
+import { facetsQueryResponse } from 'components/SearchFacets/__fixtures__/facetsQueryResponse';
+import collectionsResponse from 'components/SearchFacets/__fixtures__/collectionsResponse';
+import aggregationComponentSettingsResponse from 'components/SearchFacets/__fixtures__/componentSettingsResponse';
+import SelectedFilters from '../SelectedFilters';
+import { defaultMessages } from '../messages';
+import marked from 'marked';
+import defaultReadme from './default.md';
+
+const props = () => ({
+  messages: object("Default messages for the component's text strings", defaultMessages)
+});
+
+class DummySearchClientWithFacets extends DummySearchClient {
+  query(params: DiscoveryV2.QueryParams): Promise<DiscoveryV2.Response<DiscoveryV2.QueryResponse>> {
+    action('query')(params);
+    return createDummyResponsePromise(facetsQueryResponse.result);
+  }
+  listCollections(
+    params: DiscoveryV2.ListCollectionsParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.ListCollectionsResponse>> {
+    action('listCollections')(params);
+    return createDummyResponsePromise(collectionsResponse.result);
+  }
+  getComponentSettings(
+    params: DiscoveryV2.GetComponentSettingsParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.ComponentSettingsResponse>> {
+    action('getComponentSettings')(params);
+    return createDummyResponsePromise(aggregationComponentSettingsResponse.result);
+  }
+}
+
+const discoverySearchProps = (): DiscoverySearchProps => ({
+  searchClient: new DummySearchClientWithFacets(),
+  projectId: text('Project ID', 'project-id'),
+  overrideQueryParameters: {
+    filter: text(
+      'Filter',
+      'category:"Research",machine_learning_terms:"Neural network"|"MNIST",machine_learning_terms:!"CIFAR-10"'
+    ),
+    collectionIds: object('Collection IDs', ['machine-learning'])
+  }
+});
+
+storiesOf('SelectedFilters', module)
+  .addParameters({ component: SelectedFilters })
+  .add(
+    'default',
+    () => {
+      return (
+        <StoryWrapper>
+          <DiscoverySearch {...discoverySearchProps()}>
+            <SelectedFilters {...props()} />
+            <SearchFacets />
+          </DiscoverySearch>
+        </StoryWrapper>
+      );
+    },
+    {
+      info: {
+        text: marked(defaultReadme)
+      }
+    }
+  );
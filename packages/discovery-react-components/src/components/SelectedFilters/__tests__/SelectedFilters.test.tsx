@@ -0,0 +1,154 @@
+import React from 'react';
+import { render, fireEvent, RenderResult, within } from '@testing-library/react';
+import {
+  SearchApiIFC,
+  SearchContextIFC,
+  searchResponseStoreDefaults
+} from 'components/DiscoverySearch/DiscoverySearch';
+import { wrapWithContext } from 'utils/testingUtils';
+import collectionsResponse from 'components/SearchFacets/__fixtures__/collectionsResponse';
+import SelectedFilters from '../SelectedFilters';
+
+interface Setup extends RenderResult {
+  performSearchMock: jest.Mock;
+  emitEventMock: jest.Mock;
+}
+
+const setup = (filter = '', collectionIds: string[] = []): Setup => {
+  const performSearchMock = jest.fn();
+  const emitEventMock = jest.fn();
+  const api: Partial<SearchApiIFC> = {
+    performSearch: performSearchMock,
+    emitEvent: emitEventMock
+  };
+  const context: Partial<SearchContextIFC> = {
+    searchResponseStore: {
+      ...searchResponseStoreDefaults,
+      parameters: { projectId: '', naturalLanguageQuery: 'cats', offset: 20, filter, collectionIds }
+    },
+    aggregationResults: [
+      { type: 'term', field: 'author', name: 'author_id' },
+      { type: 'histogram', field: 'price', name: 'price_id', interval: 10 }
+    ],
+    componentSettings: {
+      aggregations: [
+        { name: 'author_id', label: 'Writers' },
+        { name: 'price_id', label: 'Price' }
+      ]
+    },
+    collectionsResults: collectionsResponse.result
+  };
+  const result = render(wrapWithContext(<SelectedFilters />, api, context));
+  return { ...result, performSearchMock, emitEventMock };
+};
+
+const getGroup = (container: HTMLElement, label: string): HTMLElement =>
+  within(container).getByText(label).parentElement as HTMLElement;
+
+describe('<SelectedFilters />', () => {
+  test('renders nothing without filter or collections', () => {
+    const { container } = setup();
+    expect(container.firstChild).toBeNull();
+  });
+
+  test('groups the values of the filter by the label of their facet', () => {
+    const {
+      container
+    } = setup(
+      'author:"ABMN Staff"|"News Staff",author:!"editor",subject:"Animals",price>=10,price<=50,"tiger"',
+      ['ai-strategy']
+    );
+    const authors = getGroup(container, 'Writers');
+    expect(within(authors).getByText('ABMN Staff')).toBeInTheDocument();
+    expect(within(authors).getByText('News Staff')).toBeInTheDocument();
+    expect(within(authors).getByText('Not editor')).toBeInTheDocument();
+    expect(within(getGroup(container, 'subject')).getByText('Animals')).toBeInTheDocument();
+    expect(within(getGroup(container, 'Price')).getByText('10 – 50')).toBeInTheDocument();
+    expect(within(getGroup(container, 'Dynamic Facets')).getByText('tiger')).toBeInTheDocument();
+    expect(within(getGroup(container, 'Collections')).getByText('AI Strategy')).toBeInTheDocument();
+  });
+
+  test('describes date ranges and ranges with a single bound', () => {
+    const { getByText } = setup('publication_date>="2020-01-15",price>=10');
+    expect(getByText('Since Jan 15, 2020')).toBeInTheDocument();
+    expect(getByText('≥ 10')).toBeInTheDocument();
+  });
+
+  test('searches without a removed term', () => {
+    const { getByLabelText, performSearchMock, emitEventMock } = setup(
+      'author:"ABMN Staff"|"News Staff",price>=10'
+    );
+    fireEvent.click(
+      within(getByLabelText('Remove ABMN Staff', { selector: 'div' })).getByRole('button')
+    );
+    expect(performSearchMock).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: 'author:"News Staff",price>=10', offset: 0 }),
+      false
+    );
+    expect(emitEventMock).toHaveBeenCalledWith({
+      type: 'facet_toggled',
+      facetType: 'field',
+      field: 'author',
+      value: 'ABMN Staff',
+      selected: false
+    });
+  });
+
+  test('searches without a removed exclusion or range', () => {
+    const { getByLabelText, performSearchMock } = setup(
+      'author:"ABMN Staff",author:!"editor",price>=10,price<=50'
+    );
+    fireEvent.click(
+      within(getByLabelText('Remove Not editor', { selector: 'div' })).getByRole('button')
+    );
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: 'author:"ABMN Staff",price>=10,price<=50' }),
+      false
+    );
+    fireEvent.click(
+      within(getByLabelText('Remove 10 – 50', { selector: 'div' })).getByRole('button')
+    );
+    expect(performSearchMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filter: 'author:"ABMN Staff",author:!"editor"' }),
+      false
+    );
+  });
+
+  test('searches without a removed collection', () => {
+    const { getByLabelText, performSearchMock } = setup('', ['ai-strategy', 'machine-learning']);
+    fireEvent.click(
+      within(getByLabelText('Remove AI Strategy', { selector: 'div' })).getByRole('button')
+    );
+    expect(performSearchMock).toHaveBeenCalledWith(
+      expect.objectContaining({ collectionIds: ['machine-learning'], offset: 0 }),
+      false
+    );
+  });
+
+  test('clears every value', () => {
+    const { getByText, performSearchMock, emitEventMock } = setup('"tiger"', ['ai-strategy']);
+    fireEvent.click(getByText('Clear all'));
+    expect(performSearchMock).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: '', collectionIds: [], offset: 0 }),
+      false
+    );
+    expect(emitEventMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('uses custom messages', () => {
+    const performSearchMock = jest.fn();
+    const { getByText } = render(
+      wrapWithContext(
+        <SelectedFilters messages={{ excludedValueText: 'Without {value}' }} />,
+        { performSearch: performSearchMock },
+        {
+          searchResponseStore: {
+            ...searchResponseStoreDefaults,
+            parameters: { projectId: '', filter: 'author:!"editor"' }
+          }
+        }
+      )
+    );
+    expect(getByText('Without editor')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,7 @@
+import { settings } from 'carbon-components';
+
+export const baseClass = `${settings.prefix}--selected-filters`;
+export const groupClass = `${baseClass}__group`;
+export const groupLabelClass = `${baseClass}__group-label`;
+export const tagClass = `${baseClass}__tag`;
+export const clearAllClass = `${baseClass}__clear-all`;
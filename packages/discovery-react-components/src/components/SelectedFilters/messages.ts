@@ -0,0 +1,60 @@
+export interface Messages {
+  /**
+   * override the default label of the selected dynamic facets
+   */
+  dynamicFacetsLabel: string;
+  /**
+   * override the default label of the selected collections
+   */
+  collectionsLabel: string;
+  /**
+   * override the default title of the button removing a value
+   */
+  removeFilterTitle: string;
+  /**
+   * override the default text of the button removing every value
+   */
+  clearAllButtonText: string;
+  /**
+   * override the default text of an excluded term. Use {value} for the term
+   */
+  excludedValueText: string;
+  /**
+   * override the default text of a range. Use {min} and {max} for its bounds
+   */
+  rangeText: string;
+  /**
+   * override the default text of a range without upper bound. Use {min} for its lower bound
+   */
+  rangeMinText: string;
+  /**
+   * override the default text of a range without lower bound. Use {max} for its upper bound
+   */
+  rangeMaxText: string;
+  /**
+   * override the default text of a date range. Use {start} and {end} for its dates
+   */
+  dateRangeText: string;
+  /**
+   * override the default text of a date range without end date. Use {start} for its start date
+   */
+  dateRangeStartText: string;
+  /**
+   * override the default text of a date range without start date. Use {end} for its end date
+   */
+  dateRangeEndText: string;
+}
+
+export const defaultMessages: Messages = {
+  dynamicFacetsLabel: 'Dynamic Facets',
+  collectionsLabel: 'Collections',
+  removeFilterTitle: 'Remove',
+  clearAllButtonText: 'Clear all',
+  excludedValueText: 'Not {value}',
+  rangeText: '{min} – {max}',
+  rangeMinText: '≥ {min}',
+  rangeMaxText: '≤ {max}',
+  dateRangeText: '{start, date, medium} – {end, date, medium}',
+  dateRangeStartText: 'Since {start, date, medium}',
+  dateRangeEndText: 'Until {end, date, medium}'
+};
@@ -0,0 +1,286 @@
+import { useContext } from 'react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { SearchApi, SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { SearchFilterTransform } from 'components/SearchFacets/utils/searchFilterTransform';
+import {
+  SearchFilterFacets,
+  SelectedDateRange,
+  SelectedRange
+} from 'components/SearchFacets/utils/searchFacetInterfaces';
+import { findTermAggregations } from 'components/SearchFacets/utils/findTermAggregations';
+import { findHistogramAggregations } from 'components/SearchFacets/utils/findHistogramAggregations';
+import { findTimesliceAggregations } from 'components/SearchFacets/utils/findTimesliceAggregations';
+import { FacetToggledEvent } from 'utils/searchEvents';
+
+export interface SelectedFilter {
+  /**
+   * type of the facet the value is selected in, as in `facet_toggled` events
+   */
+  facetType: FacetToggledEvent['facetType'];
+  /**
+   * field of the facet, for field, hierarchy, range and timeline facets
+   */
+  field?: string;
+  /**
+   * term of a field facet, path of a hierarchy facet, text of a dynamic facet, id of a collection or filter of a range or date range
+   */
+  value: string;
+  /**
+   * name of a collection
+   */
+  name?: string;
+  /**
+   * whether the term of a field facet is excluded instead of included
+   */
+  excluded?: boolean;
+  /**
+   * bounds of a range facet
+   */
+  range?: SelectedRange;
+  /**
+   * dates of a timeline facet
+   */
+  dateRange?: SelectedDateRange;
+}
+
+export interface SelectedFilterGroup {
+  /**
+   * `field` for the values of a field, `dynamic` for the dynamic facets and `collection` for the collections
+   */
+  type: 'field' | 'dynamic' | 'collection';
+  /**
+   * field of the values, for field groups
+   */
+  field?: string;
+  /**
+   * label of the aggregation of the field in the component settings, for field groups. Defaults to the field
+   */
+  label?: string;
+  filters: SelectedFilter[];
+}
+
+export interface SelectedFiltersState {
+  /**
+   * values of the filter and selected collections of the current search, grouped by facet
+   */
+  groups: SelectedFilterGroup[];
+  /**
+   * search again without a value of the filter or a collection
+   */
+  removeFilter: (filter: SelectedFilter) => void;
+  /**
+   * search again without filter, in every collection
+   */
+  clearAll: () => void;
+}
+
+// labels of the component settings aggregations, by field of the aggregations with the same name
+const getFieldLabels = (
+  aggregations: DiscoveryV2.QueryAggregation[],
+  componentSettingsAggregations: DiscoveryV2.ComponentSettingsAggregation[]
+): Record<string, string> => {
+  const fieldAggregations: DiscoveryV2.QueryAggregation[] = [
+    ...findTermAggregations(aggregations),
+    ...findHistogramAggregations(aggregations),
+    ...findTimesliceAggregations(aggregations)
+  ];
+  return fieldAggregations.reduce((labels: Record<string, string>, aggregation) => {
+    const field: string = get(aggregation, 'field', '');
+    const setting = componentSettingsAggregations.find(
+      ({ name }) => !!name && name === get(aggregation, 'name')
+    );
+    if (field && !labels[field] && setting && setting.label) {
+      labels[field] = setting.label;
+    }
+    return labels;
+  }, {});
+};
+
+const getFilterValues = ({
+  filterFields,
+  filterDynamic,
+  filterRanges = [],
+  filterDateRanges = [],
+  filterPrefixes = []
+}: SearchFilterFacets): SelectedFilter[] => {
+  const fieldValues = filterFields.map(({ field, results = [] }) =>
+    results
+      .filter(result => result.selected || result.excluded)
+      .map(result => ({
+        facetType: 'field' as const,
+        field,
+        value: result.key,
+        ...(result.excluded && { excluded: true })
+      }))
+  );
+  return ([] as SelectedFilter[]).concat(
+    ...fieldValues,
+    filterPrefixes.map(({ field, prefix }) => ({
+      facetType: 'hierarchy' as const,
+      field,
+      value: prefix
+    })),
+    filterRanges.map(range => ({
+      facetType: 'range' as const,
+      field: range.field,
+      value: SearchFilterTransform.rangesToString([range]),
+      range
+    })),
+    filterDateRanges.map(dateRange => ({
+      facetType: 'timeline' as const,
+      field: dateRange.field,
+      value: SearchFilterTransform.dateRangesToString([dateRange]),
+      dateRange
+    })),
+    filterDynamic
+      .filter(facet => facet.selected)
+      .map(facet => ({ facetType: 'dynamic' as const, value: facet.text || '' }))
+  );
+};
+
+const toDeselectedEvent = ({
+  facetType,
+  field,
+  value,
+  excluded
+}: SelectedFilter): FacetToggledEvent => ({
+  type: 'facet_toggled',
+  facetType,
+  field,
+  value,
+  ...(excluded && { excluded: true }),
+  selected: false
+});
+
+// the filter without a value, `field:"a"|"b"` without `a` becomes `field:"b"`
+const removeFilterValue = (
+  facets: SearchFilterFacets,
+  { facetType, field, value, excluded }: SelectedFilter
+): SearchFilterFacets => {
+  switch (facetType) {
+    case 'field':
+      return {
+        ...facets,
+        filterFields: facets.filterFields.map(facet =>
+          facet.field === field
+            ? {
+                ...facet,
+                results: (facet.results || []).filter(
+                  result => result.key !== value || !!result.excluded !== !!excluded
+                )
+              }
+            : facet
+        )
+      };
+    case 'hierarchy':
+      return {
+        ...facets,
+        filterPrefixes: (facets.filterPrefixes || []).filter(
+          prefix => prefix.field !== field || prefix.prefix !== value
+        )
+      };
+    case 'range':
+      return {
+        ...facets,
+        filterRanges: (facets.filterRanges || []).filter(range => range.field !== field)
+      };
+    case 'timeline':
+      return {
+        ...facets,
+        filterDateRanges: (facets.filterDateRanges || []).filter(range => range.field !== field)
+      };
+    case 'dynamic':
+      return {
+        ...facets,
+        filterDynamic: facets.filterDynamic.filter(facet => facet.text !== value)
+      };
+    default:
+      return facets;
+  }
+};
+
+/**
+ * Headless hook returning the values of the filter and the collections of the current search, to
+ * render the selected filters with custom markup
+ */
+export const useSelectedFilters = (): SelectedFiltersState => {
+  const { performSearch, emitEvent } = useContext(SearchApi);
+  const {
+    searchResponseStore: {
+      parameters: searchParameters,
+      parameters: { filter, collectionIds }
+    },
+    aggregationResults,
+    collectionsResults,
+    componentSettings
+  } = useContext(SearchContext);
+
+  const filterFacets = SearchFilterTransform.fromString(filter || '');
+  const fieldLabels = getFieldLabels(
+    aggregationResults || [],
+    (componentSettings && componentSettings.aggregations) || []
+  );
+  const collections: DiscoveryV2.Collection[] = get(collectionsResults, 'collections', []);
+  const collectionValues: SelectedFilter[] = (collectionIds || []).map(collectionId => {
+    const collection = collections.find(({ collection_id }) => collection_id === collectionId);
+    return {
+      facetType: 'collection',
+      value: collectionId,
+      name: (collection && collection.name) || collectionId
+    };
+  });
+
+  const groups = getFilterValues(filterFacets).reduce(
+    (groups: SelectedFilterGroup[], filterValue) => {
+      const { facetType, field } = filterValue;
+      const type = facetType === 'dynamic' ? 'dynamic' : 'field';
+      const group = groups.find(group => group.type === type && group.field === field);
+      if (group) {
+        group.filters.push(filterValue);
+        return groups;
+      }
+      return groups.concat(
+        type === 'field'
+          ? { type, field, label: fieldLabels[field || ''] || field, filters: [filterValue] }
+          : { type, filters: [filterValue] }
+      );
+    },
+    []
+  );
+  if (collectionValues.length > 0) {
+    groups.push({ type: 'collection', filters: collectionValues });
+  }
+
+  const removeFilter = (filterValue: SelectedFilter): void => {
+    emitEvent(toDeselectedEvent(filterValue));
+    if (filterValue.facetType === 'collection') {
+      performSearch(
+        {
+          ...searchParameters,
+          offset: 0,
+          collectionIds: (collectionIds || []).filter(id => id !== filterValue.value)
+        },
+        false
+      );
+      return;
+    }
+    performSearch(
+      {
+        ...searchParameters,
+        offset: 0,
+        filter: SearchFilterTransform.toString(removeFilterValue(filterFacets, filterValue))
+      },
+      false
+    );
+  };
+
+  const clearAll = (): void => {
+    groups.forEach(group =>
+      group.filters.forEach(filterValue => emitEvent(toDeselectedEvent(filterValue)))
+    );
+    performSearch({ ...searchParameters, collectionIds: [], offset: 0, filter: '' }, false);
+  };
+
+  return { groups, removeFilter, clearAll };
+};
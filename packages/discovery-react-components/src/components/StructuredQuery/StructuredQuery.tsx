@@ -4,6 +4,7 @@ import { RuleGroup } from './components/RuleGroup/RuleGroup';
 import { AddRuleRowButton } from './components/AddRuleRowButton/AddRuleRowButton';
 import { AddRuleGroupButton } from './components/AddRuleGroupButton/AddRuleGroupButton';
 import { defaultMessages, Messages } from './messages';
+import { useMessages } from 'utils/useMessages';
 import {
   structuredQueryClass,
   structuredQueryRulesButtonsClass,
@@ -24,8 +25,8 @@ export interface StructuredQueryProps {
   messages?: Partial<Messages>;
 }
 
-const StructuredQuery: FC<StructuredQueryProps> = ({ messages = defaultMessages }) => {
-  const mergedMessages = { ...defaultMessages, ...messages };
+const StructuredQuery: FC<StructuredQueryProps> = ({ messages }) => {
+  const mergedMessages = useMessages('StructuredQuery', defaultMessages, messages);
   const [structuredQuerySelection, setStructuredQuerySelection] = useState<
     StructuredQuerySelection
   >({
@@ -40,6 +40,7 @@ function setup(
       data: { fields: projectFields },
       isLoading: fieldsStoreLoadingState,
       isError: fieldsStoreErrorState,
+      error: null,
       parameters: {
         projectId: ''
       }
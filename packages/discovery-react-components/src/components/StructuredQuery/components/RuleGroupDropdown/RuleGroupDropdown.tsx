@@ -1,5 +1,6 @@
-import React, { FC, Dispatch, SetStateAction } from 'react';
+import React, { FC, Dispatch, SetStateAction, useContext } from 'react';
 import { Dropdown } from 'carbon-components-react';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
 import { Messages } from 'components/StructuredQuery/messages';
 import { structuredQueryRuleGroupDropdownClass } from 'components/StructuredQuery/cssClasses';
 import { formatMessage } from 'utils/formatMessage';
@@ -33,6 +34,7 @@ export const RuleGroupDropdown: FC<RuleGroupDropdownProps> = ({
   setStructuredQuerySelection,
   groupId
 }) => {
+  const { locale } = useContext(SearchContext);
   const ruleGroupDropdownItems = [
     { label: messages.ruleGroupDropdownAllOptionText, value: ',' },
     { label: messages.ruleGroupDropdownAnyOptionText, value: '|' }
@@ -67,7 +69,12 @@ export const RuleGroupDropdown: FC<RuleGroupDropdownProps> = ({
 
   return (
     <div className={structuredQueryRuleGroupDropdownClass}>
-      {formatMessage(messages.ruleGroupDropdownText, { dropdown: ruleGroupDropdownElement })}
+      {formatMessage(
+        messages.ruleGroupDropdownText,
+        { dropdown: ruleGroupDropdownElement },
+        true,
+        locale
+      )}
     </div>
   );
 };
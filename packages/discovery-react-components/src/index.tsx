@@ -6,6 +6,8 @@ export {
 export { default as SearchInput } from './components/SearchInput/SearchInput';
 export { default as SearchFacets } from './components/SearchFacets/SearchFacets';
 export { default as ResultsPagination } from './components/ResultsPagination/ResultsPagination';
+export { default as ResultsSort } from './components/ResultsSort/ResultsSort';
+export { default as SelectedFilters } from './components/SelectedFilters/SelectedFilters';
 export { DocumentPreview } from './components/DocumentPreview/DocumentPreview';
 export { default as SearchResults } from './components/SearchResults/SearchResults';
 export {
@@ -15,3 +17,26 @@ export {
 export { CIDocument, canRenderCIDocument } from './components/CIDocument/CIDocument';
 export { default as StructuredQuery } from './components/StructuredQuery/StructuredQuery';
 export { getDocumentTitle } from './utils/getDocumentTitle';
+export { InMemorySearchClient } from './utils/inMemorySearchClient/InMemorySearchClient';
+export {
+  FederatedSearchClient,
+  getResultProjectId
+} from './utils/federatedSearchClient/FederatedSearchClient';
+export { useSearchResults } from './components/SearchResults/useSearchResults';
+export { useFacets } from './components/SearchFacets/useFacets';
+export { usePagination } from './components/ResultsPagination/usePagination';
+export { useResultsSort } from './components/ResultsSort/useResultsSort';
+export { useSelectedFilters } from './components/SelectedFilters/useSelectedFilters';
+export { default as SavedSearches } from './components/SavedSearches/SavedSearches';
+export { useSavedSearches } from './components/SavedSearches/useSavedSearches';
+export {
+  createLocalStorageSavedSearchStorage,
+  createMemorySavedSearchStorage
+} from './components/SavedSearches/utils/savedSearchStorage';
+export { useQueryHistory } from './components/SearchInput/useQueryHistory';
+export {
+  createLocalStorageQueryHistoryStorage,
+  createMemoryQueryHistoryStorage
+} from './components/SearchInput/utils/queryHistoryStorage';
+export { formatMessage } from './utils/formatMessage';
+export { messagePacks, getMessagePack } from './utils/messagePacks';
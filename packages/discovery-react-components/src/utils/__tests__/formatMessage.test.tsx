@@ -20,4 +20,96 @@ describe('formatMessage util', () => {
     expect(messageOneMatch).toBeDefined();
     expect(messageTwoMatch).toBeDefined();
   });
+
+  test('formats numbers and dates for the locale', () => {
+    expect(formatMessage('{total} results', { total: 1234567 }, false, 'en').join('')).toEqual(
+      '1,234,567 results'
+    );
+    expect(formatMessage('{total} results', { total: 1234567 }, false, 'de').join('')).toEqual(
+      '1.234.567 results'
+    );
+    expect(
+      formatMessage('{ratio, number, percent}', { ratio: 0.25 }, false, 'en').join('')
+    ).toEqual('25%');
+    expect(
+      formatMessage(
+        'Saved on {date, date, long}',
+        { date: new Date(2020, 0, 31) },
+        false,
+        'fr'
+      ).join('')
+    ).toEqual('Saved on 31 janvier 2020');
+  });
+
+  test('formats dates in the given time zone', () => {
+    const date = new Date('2020-02-01T00:00:00Z');
+    expect(formatMessage('{date, date, medium}', { date }, false, 'en', 'UTC').join('')).toEqual(
+      'Feb 1, 2020'
+    );
+    expect(
+      formatMessage('{date, date, medium}', { date }, false, 'en', 'America/New_York').join('')
+    ).toEqual('Jan 31, 2020');
+  });
+
+  test('keeps the numbers as is without a locale', () => {
+    expect(formatMessage('{total} results', { total: 1234567 }, false).join('')).toEqual(
+      '1234567 results'
+    );
+    expect(
+      formatMessage(
+        '{count, plural, one {# result} other {# results}}',
+        { count: 1500 },
+        false
+      ).join('')
+    ).toEqual('1500 results');
+  });
+
+  test('selects the plural form of a number for the locale', () => {
+    const message = '{count, plural, =0 {No results} one {# result} other {# results}} for {query}';
+    expect(formatMessage(message, { count: 0, query: 'tiger' }, false, 'en').join('')).toEqual(
+      'No results for tiger'
+    );
+    expect(formatMessage(message, { count: 1, query: 'tiger' }, false, 'en').join('')).toEqual(
+      '1 result for tiger'
+    );
+    expect(formatMessage(message, { count: 1500, query: 'tiger' }, false, 'en').join('')).toEqual(
+      '1,500 results for tiger'
+    );
+    expect(
+      formatMessage(
+        '{count, plural, one {# résultat} other {# résultats}}',
+        { count: 0 },
+        false,
+        'fr'
+      ).join('')
+    ).toEqual('0 résultat');
+    expect(
+      formatMessage(
+        '{position, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+        { position: 22 },
+        false,
+        'en'
+      ).join('')
+    ).toEqual('22nd');
+  });
+
+  test('selects a message for a value', () => {
+    const message = '{type, select, table {Table} passage {Passage} other {Result}} of {name}';
+    expect(formatMessage(message, { type: 'table', name: 'doc' }, false).join('')).toEqual(
+      'Table of doc'
+    );
+    expect(formatMessage(message, { type: 'image', name: 'doc' }, false).join('')).toEqual(
+      'Result of doc'
+    );
+  });
+
+  test('escapes the syntax characters quoted with apostrophes', () => {
+    expect(
+      formatMessage("Don't replace '{name}' or ''{name}''", { name: 'x' }, false).join('')
+    ).toEqual("Don't replace {name} or 'x'");
+  });
+
+  test('replaces the variables of messages which are not valid ICU messages', () => {
+    expect(formatMessage('{a} and {b, unknown}', { a: 'x' }, false).join('')).toEqual('x and ');
+  });
 });
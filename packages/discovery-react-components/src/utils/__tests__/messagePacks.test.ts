@@ -0,0 +1,22 @@
+import { getMessagePack, messagePacks } from 'utils/messagePacks';
+
+describe('getMessagePack', () => {
+  it('returns no messages without a locale', () => {
+    expect(getMessagePack()).toEqual({});
+  });
+
+  it('returns the message pack of the locale', () => {
+    expect(getMessagePack('fr')).toBe(messagePacks.fr);
+  });
+
+  it('returns the message pack of the language of the locale', () => {
+    expect(getMessagePack('de-CH')).toBe(messagePacks.de);
+    expect(getMessagePack('es_MX')).toBe(messagePacks.es);
+    expect(getMessagePack('JA-JP')).toBe(messagePacks.ja);
+  });
+
+  it('returns no messages for a locale without a message pack', () => {
+    expect(getMessagePack('en-US')).toEqual({});
+    expect(getMessagePack('pt-BR')).toEqual({});
+  });
+});
@@ -0,0 +1,138 @@
+import { createDummyResponsePromise } from '../testingUtils';
+import { SearchClient, TrainingSearchClient } from 'components/DiscoverySearch/types';
+import {
+  isTrainingSearchClient,
+  findTrainingQuery,
+  mergeTrainingExample,
+  saveRelevancyFeedback
+} from '../relevancyFeedback';
+
+const createClient = (queries: object[]): TrainingSearchClient => {
+  return ({
+    query: jest.fn(),
+    getAutocompletion: jest.fn(),
+    listCollections: jest.fn(),
+    getComponentSettings: jest.fn(),
+    listFields: jest.fn(),
+    listTrainingQueries: jest.fn(() => createDummyResponsePromise({ queries })),
+    createTrainingQuery: jest.fn(() => createDummyResponsePromise({ query_id: 'new' })),
+    updateTrainingQuery: jest.fn(() => createDummyResponsePromise({ query_id: 'existing' }))
+  } as unknown) as TrainingSearchClient;
+};
+
+describe('relevancyFeedback', () => {
+  describe('isTrainingSearchClient', () => {
+    test('requires every training method', () => {
+      const searchClient = createClient([]);
+      expect(isTrainingSearchClient(searchClient)).toBe(true);
+      expect(
+        isTrainingSearchClient(({
+          ...searchClient,
+          updateTrainingQuery: undefined
+        } as unknown) as SearchClient)
+      ).toBe(false);
+    });
+  });
+
+  describe('findTrainingQuery', () => {
+    const queries = [
+      { query_id: '1', natural_language_query: 'tiger', filter: 'animal:cat', examples: [] },
+      { query_id: '2', natural_language_query: 'tiger', filter: '', examples: [] }
+    ];
+
+    test('matches the query and the filter', () => {
+      expect(findTrainingQuery(queries, 'tiger', 'animal:cat')).toBe(queries[0]);
+      expect(findTrainingQuery(queries, 'tiger', 'animal:dog')).toBeUndefined();
+      expect(findTrainingQuery(queries, 'lion', 'animal:cat')).toBeUndefined();
+    });
+
+    test('matches a missing filter with an empty filter', () => {
+      expect(findTrainingQuery(queries, 'tiger')).toBe(queries[1]);
+    });
+  });
+
+  describe('mergeTrainingExample', () => {
+    test('replaces the example of the same document and collection', () => {
+      const examples = [
+        {
+          document_id: 'doc1',
+          collection_id: 'col1',
+          relevance: 10,
+          created: '2020-01-01T00:00:00Z',
+          updated: '2020-01-01T00:00:00Z'
+        },
+        { document_id: 'doc1', collection_id: 'col2', relevance: 10 },
+        { document_id: 'doc2', collection_id: 'col1', relevance: 0 }
+      ];
+
+      expect(
+        mergeTrainingExample(examples, { document_id: 'doc1', collection_id: 'col1', relevance: 0 })
+      ).toEqual([
+        { document_id: 'doc1', collection_id: 'col2', relevance: 10 },
+        { document_id: 'doc2', collection_id: 'col1', relevance: 0 },
+        { document_id: 'doc1', collection_id: 'col1', relevance: 0 }
+      ]);
+    });
+  });
+
+  describe('saveRelevancyFeedback', () => {
+    test('creates a training query when the query has none', async () => {
+      const searchClient = createClient([
+        { query_id: 'existing', natural_language_query: 'tiger', filter: 'animal:cat' }
+      ]);
+
+      const trainingQuery = await saveRelevancyFeedback(searchClient, {
+        projectId: 'project',
+        naturalLanguageQuery: 'tiger',
+        documentId: 'doc1',
+        collectionId: 'col1',
+        rating: 'relevant'
+      });
+
+      expect(trainingQuery).toEqual({ query_id: 'new' });
+      expect(searchClient.listTrainingQueries).toHaveBeenCalledWith({ projectId: 'project' });
+      expect(searchClient.updateTrainingQuery).not.toHaveBeenCalled();
+      expect(searchClient.createTrainingQuery).toHaveBeenCalledWith({
+        projectId: 'project',
+        naturalLanguageQuery: 'tiger',
+        examples: [{ document_id: 'doc1', collection_id: 'col1', relevance: 10 }]
+      });
+    });
+
+    test('merges the rating into the training query of the query and filter', async () => {
+      const searchClient = createClient([
+        {
+          query_id: 'existing',
+          natural_language_query: 'tiger',
+          filter: 'animal:cat',
+          examples: [
+            { document_id: 'doc1', collection_id: 'col1', relevance: 10 },
+            { document_id: 'doc2', collection_id: 'col1', relevance: 10 }
+          ]
+        }
+      ]);
+
+      const trainingQuery = await saveRelevancyFeedback(searchClient, {
+        projectId: 'project',
+        naturalLanguageQuery: 'tiger',
+        filter: 'animal:cat',
+        documentId: 'doc1',
+        collectionId: 'col1',
+        rating: 'not_relevant'
+      });
+
+      expect(trainingQuery).toEqual({ query_id: 'existing' });
+      expect(searchClient.createTrainingQuery).not.toHaveBeenCalled();
+      expect(searchClient.updateTrainingQuery).toHaveBeenCalledWith({
+        projectId: 'project',
+        queryId: 'existing',
+        naturalLanguageQuery: 'tiger',
+        filter: 'animal:cat',
+        examples: [
+          { document_id: 'doc2', collection_id: 'col1', relevance: 10 },
+          { document_id: 'doc1', collection_id: 'col1', relevance: 0 }
+        ]
+      });
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { toSearchError, getSearchErrorMessage, SearchErrorMessages } from '../searchError';
+
+const messages: SearchErrorMessages = {
+  unauthorizedErrorText: 'unauthorized',
+  rateLimitErrorText: 'rate limit',
+  invalidRequestErrorText: 'invalid',
+  serverErrorText: 'server',
+  genericErrorText: 'generic'
+};
+
+describe('searchError', () => {
+  describe('toSearchError', () => {
+    test('reads the status code set by the SDK', () => {
+      const error: any = new Error('Too many requests');
+      error.code = 429;
+      expect(toSearchError(error, { projectId: 'p' })).toEqual({
+        status: 429,
+        message: 'Too many requests',
+        retryable: true,
+        parameters: { projectId: 'p' }
+      });
+    });
+
+    test('flags client errors as not retryable', () => {
+      expect(toSearchError({ status: 400, message: 'bad' }, {}).retryable).toBe(false);
+    });
+
+    test('flags errors without a response as retryable', () => {
+      const error = toSearchError(new Error('Network Error'), {});
+      expect(error.status).toBeUndefined();
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('getSearchErrorMessage', () => {
+    test.each([
+      [401, 'unauthorized'],
+      [403, 'unauthorized'],
+      [429, 'rate limit'],
+      [400, 'invalid'],
+      [503, 'server'],
+      [404, 'generic'],
+      [undefined, 'generic']
+    ])('returns the message for status %s', (status, expected) => {
+      expect(
+        getSearchErrorMessage(
+          { status: status as number | undefined, message: '', retryable: false, parameters: {} },
+          messages
+        )
+      ).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { toSearchState, parseSearchState } from '../searchState';
+
+describe('searchState', () => {
+  describe('toSearchState', () => {
+    test('keeps the serializable parameters of a search', () => {
+      expect(
+        toSearchState({
+          projectId: 'project',
+          naturalLanguageQuery: 'tiger',
+          filter: 'animal:cat',
+          collectionIds: ['col1'],
+          sort: '-date',
+          count: 20,
+          offset: 40
+        })
+      ).toEqual({
+        version: 1,
+        naturalLanguageQuery: 'tiger',
+        filter: 'animal:cat',
+        collectionIds: ['col1'],
+        sort: '-date',
+        count: 20
+      });
+    });
+
+    test('defaults the missing parameters', () => {
+      expect(toSearchState({ projectId: 'project' })).toEqual({
+        version: 1,
+        naturalLanguageQuery: '',
+        filter: '',
+        collectionIds: []
+      });
+    });
+  });
+
+  describe('parseSearchState', () => {
+    test('returns a valid search state', () => {
+      const state = {
+        version: 1,
+        naturalLanguageQuery: 'tiger',
+        filter: '',
+        collectionIds: ['col1'],
+        count: 10
+      };
+      expect(parseSearchState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+    });
+
+    test('throws on an unsupported version', () => {
+      expect(() =>
+        parseSearchState({ version: 2, naturalLanguageQuery: '', filter: '', collectionIds: [] })
+      ).toThrow('Unsupported search state version: 2');
+    });
+
+    test('throws on an invalid search state', () => {
+      expect(() => parseSearchState('tiger')).toThrow('Invalid search state');
+      expect(() =>
+        parseSearchState({ version: 1, naturalLanguageQuery: '', filter: '', collectionIds: [1] })
+      ).toThrow('Invalid search state');
+      expect(() =>
+        parseSearchState({
+          version: 1,
+          naturalLanguageQuery: '',
+          filter: '',
+          collectionIds: [],
+          count: -1
+        })
+      ).toThrow('Invalid search state');
+    });
+  });
+});
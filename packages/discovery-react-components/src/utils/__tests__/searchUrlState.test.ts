@@ -0,0 +1,86 @@
+import { hasUrlSearchState, parseUrlSearchState, serializeUrlSearchState } from '../searchUrlState';
+
+describe('searchUrlState', () => {
+  describe('hasUrlSearchState', () => {
+    test('returns false when the query string has no search state', () => {
+      expect(hasUrlSearchState('?foo=bar')).toBe(false);
+    });
+
+    test('returns true when the query string has search state', () => {
+      expect(hasUrlSearchState('?foo=bar&q=watson')).toBe(true);
+    });
+
+    test('uses the param prefix', () => {
+      expect(hasUrlSearchState('?q=watson', { paramPrefix: 'ds_' })).toBe(false);
+      expect(hasUrlSearchState('?ds_q=watson', { paramPrefix: 'ds_' })).toBe(true);
+    });
+  });
+
+  describe('parseUrlSearchState', () => {
+    test('reads the search state', () => {
+      expect(
+        parseUrlSearchState(
+          '?q=watson+discovery&filter=author%3A%22smith%22&offset=20&count=10&collections=a%2Cb&document=doc1'
+        )
+      ).toEqual({
+        parameters: {
+          naturalLanguageQuery: 'watson discovery',
+          filter: 'author:"smith"',
+          offset: 20,
+          count: 10,
+          collectionIds: ['a', 'b']
+        },
+        selectedDocumentId: 'doc1'
+      });
+    });
+
+    test('resets missing parameters and ignores invalid numbers', () => {
+      expect(parseUrlSearchState('?offset=-1&count=foo')).toEqual({
+        parameters: {
+          naturalLanguageQuery: '',
+          filter: '',
+          offset: 0,
+          collectionIds: []
+        },
+        selectedDocumentId: undefined
+      });
+    });
+  });
+
+  describe('serializeUrlSearchState', () => {
+    test('writes the search state and keeps unrelated parameters', () => {
+      expect(
+        serializeUrlSearchState('?foo=bar&q=old', {
+          parameters: {
+            naturalLanguageQuery: 'watson',
+            filter: '',
+            offset: 10,
+            count: 10,
+            collectionIds: ['a', 'b']
+          },
+          selectedDocumentId: 'doc1'
+        })
+      ).toEqual('?foo=bar&q=watson&offset=10&count=10&collections=a%2Cb&document=doc1');
+    });
+
+    test('returns an empty string when there is nothing to write', () => {
+      expect(serializeUrlSearchState('?q=old', { parameters: { offset: 0 } })).toEqual('');
+    });
+
+    test('round trips the search state with a param prefix', () => {
+      const options = { paramPrefix: 'ds_' };
+      const state = {
+        parameters: {
+          naturalLanguageQuery: 'a & b',
+          filter: 'field:"x,y"|"z"',
+          offset: 0,
+          collectionIds: []
+        },
+        selectedDocumentId: undefined
+      };
+      const serialized = serializeUrlSearchState('', state, options);
+      expect(serialized).toContain('ds_q=');
+      expect(parseUrlSearchState(serialized, options)).toEqual(state);
+    });
+  });
+});
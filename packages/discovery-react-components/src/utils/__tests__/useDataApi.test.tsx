@@ -12,7 +12,7 @@ import {
   useFieldsApi,
   FieldsStore
 } from '../useDataApi';
-import { SearchClient } from 'components/DiscoverySearch/types';
+import { SearchClient, AbortableParams } from 'components/DiscoverySearch/types';
 
 class BaseSearchClient implements SearchClient {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -180,6 +180,31 @@ describe('useSearchResultsApi', () => {
       expect(json.isError).toEqual(true);
     });
 
+    test('it stores the error details', async () => {
+      class InvalidQueryClient extends BaseSearchClient {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        public async query(): Promise<any> {
+          const error: any = new Error('Invalid query');
+          error.code = 400;
+          return Promise.reject(error);
+        }
+      }
+      const result = render(<TestSearchStoreComponent searchClient={new InvalidQueryClient()} />);
+      const performSearchButton = result.getByTestId('performSearch');
+
+      fireEvent.click(performSearchButton);
+      await waitForDomChange({ container: result.container });
+      const json: SearchResponseStore = JSON.parse(
+        result.getByTestId('searchResponseStore').textContent || '{}'
+      );
+      expect(json.error).toEqual({
+        status: 400,
+        message: 'Invalid query',
+        retryable: false,
+        parameters: expect.objectContaining({ projectId: expect.any(String) })
+      });
+    });
+
     test('sets the search results', async () => {
       const result = render(
         <TestSearchStoreComponent searchClient={new SingleQueryResultSearchClient()} />
@@ -238,6 +263,62 @@ describe('useSearchResultsApi', () => {
         jest.runOnlyPendingTimers();
         expect(consoleError).not.toHaveBeenCalled();
       });
+
+      test('aborts the previous request without flagging an error', async () => {
+        const signals: AbortSignal[] = [];
+        class AbortableClient extends BaseSearchClient {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          public async query({ signal }: AbortableParams = {}): Promise<any> {
+            signals.push(signal!);
+            return new Promise((resolve, reject) => {
+              signal!.addEventListener('abort', () => {
+                const error = new Error('aborted');
+                error.name = 'AbortError';
+                reject(error);
+              });
+              setTimeout(() => resolve({ result: { matching_results: signals.length } }), 10);
+            });
+          }
+        }
+        const { getByTestId } = render(
+          <TestSearchStoreComponent searchClient={new AbortableClient()} />
+        );
+        const performSearchButton = getByTestId('performSearch');
+
+        fireEvent.click(performSearchButton);
+        fireEvent.click(performSearchButton);
+        expect(signals).toHaveLength(2);
+        expect(signals[0].aborted).toBe(true);
+        expect(signals[1].aborted).toBe(false);
+
+        await wait(() => {
+          const json: SearchResponseStore = JSON.parse(
+            getByTestId('searchResponseStore').textContent || '{}'
+          );
+          expect(json.isLoading).toEqual(false);
+          expect(json.isError).toEqual(false);
+          expect(json.data).toEqual({ matching_results: 2 });
+        });
+      });
+
+      test('aborts the in-flight request on unmount', () => {
+        let signal: AbortSignal | undefined;
+        class AbortableClient extends BaseSearchClient {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          public async query(searchParams: AbortableParams = {}): Promise<any> {
+            signal = searchParams.signal;
+            return new Promise(() => {});
+          }
+        }
+        const { getByTestId, unmount } = render(
+          <TestSearchStoreComponent searchClient={new AbortableClient()} />
+        );
+
+        fireEvent.click(getByTestId('performSearch'));
+        expect(signal!.aborted).toBe(false);
+        unmount();
+        expect(signal!.aborted).toBe(true);
+      });
     });
 
     describe('freshest data', () => {
@@ -719,7 +800,8 @@ describe('useFetchDocumentsApi', () => {
         aggregation: '',
         passages: {},
         tableResults: {},
-        filter: 'filter_string'
+        filter: 'filter_string',
+        signal: expect.any(AbortSignal)
       });
       await wait(); // wait for component to finish rendering (prevent "act" warning)
     });
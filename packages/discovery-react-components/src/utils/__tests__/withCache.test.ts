@@ -0,0 +1,98 @@
+import { createDummyResponsePromise } from '../testingUtils';
+import { SearchClient } from 'components/DiscoverySearch/types';
+import {
+  withCache,
+  getCacheKey,
+  createMemoryCacheStore,
+  invalidateCache,
+  CacheStore
+} from '../withCache';
+
+const createClient = (): SearchClient => {
+  return ({
+    query: jest.fn(() => createDummyResponsePromise({ matching_results: 1 })),
+    getAutocompletion: jest.fn(() => createDummyResponsePromise({ completions: [] })),
+    listCollections: jest.fn(() => createDummyResponsePromise({ collections: [] })),
+    getComponentSettings: jest.fn(() => createDummyResponsePromise({})),
+    listFields: jest.fn(() => createDummyResponsePromise({ fields: [] }))
+  } as unknown) as SearchClient;
+};
+
+describe('withCache', () => {
+  let searchClient: SearchClient;
+  let store: CacheStore;
+
+  beforeEach(() => {
+    searchClient = createClient();
+    store = createMemoryCacheStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('resolves equivalent requests from the cache', async () => {
+    const cachedClient = withCache(searchClient, { store });
+
+    await cachedClient.query({ projectId: 'project', naturalLanguageQuery: 'foo', offset: 0 });
+    const response = await cachedClient.query({
+      offset: 0,
+      naturalLanguageQuery: 'foo',
+      projectId: 'project',
+      filter: undefined,
+      signal: new AbortController().signal
+    });
+
+    expect(response.result).toEqual({ matching_results: 1 });
+    expect(searchClient.query).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends the request again once the entry expired', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cachedClient = withCache(searchClient, { store, ttl: 100 });
+
+    await cachedClient.query({ projectId: 'project' });
+    now.mockReturnValue(1200);
+    await cachedClient.query({ projectId: 'project' });
+
+    expect(searchClient.query).toHaveBeenCalledTimes(2);
+  });
+
+  test('evicts the least recently used entries', async () => {
+    const cachedClient = withCache(searchClient, { store, maxEntries: 2 });
+
+    await cachedClient.query({ projectId: 'project', offset: 0 });
+    await cachedClient.query({ projectId: 'project', offset: 10 });
+    await cachedClient.query({ projectId: 'project', offset: 0 });
+    await cachedClient.query({ projectId: 'project', offset: 20 });
+
+    expect(store.keys()).toEqual([
+      getCacheKey('query', { projectId: 'project', offset: 0 }),
+      getCacheKey('query', { projectId: 'project', offset: 20 })
+    ]);
+  });
+
+  test('does not cache disabled methods or failed requests', async () => {
+    (searchClient.listFields as jest.Mock).mockRejectedValueOnce(new Error('failure'));
+    const cachedClient = withCache(searchClient, { store, methods: { query: false } });
+
+    await cachedClient.query({ projectId: 'project' });
+    await cachedClient.query({ projectId: 'project' });
+    await expect(cachedClient.listFields({ projectId: 'project' })).rejects.toThrow('failure');
+    await cachedClient.listFields({ projectId: 'project' });
+
+    expect(searchClient.query).toHaveBeenCalledTimes(2);
+    expect(searchClient.listFields).toHaveBeenCalledTimes(2);
+  });
+
+  test('invalidates the cached responses', async () => {
+    const cachedClient = withCache(searchClient, { store });
+    await cachedClient.query({ projectId: 'project' });
+    await cachedClient.listFields({ projectId: 'project' });
+
+    invalidateCache(store, 'query');
+    expect(store.keys()).toEqual([getCacheKey('listFields', { projectId: 'project' })]);
+    invalidateCache(store);
+    expect(store.keys()).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { createDummyResponse, createDummyResponsePromise } from '../testingUtils';
+import { SearchClient } from 'components/DiscoverySearch/types';
+import { withInterceptors, SearchClientInterceptor } from '../withInterceptors';
+
+const createClient = (query: jest.Mock): SearchClient => {
+  return ({
+    query,
+    getAutocompletion: jest.fn(),
+    listCollections: jest.fn(),
+    getComponentSettings: jest.fn(),
+    listFields: jest.fn()
+  } as unknown) as SearchClient;
+};
+
+describe('withInterceptors', () => {
+  test('runs request hooks in order and response hooks in reverse order', async () => {
+    const calls: string[] = [];
+    const query = jest.fn(() => createDummyResponsePromise({ matching_results: 1 }));
+    const interceptors: SearchClientInterceptor[] = [
+      {
+        request: async params => {
+          calls.push('first request');
+          return { ...params, headers: { 'X-Tenant': 'tenant' } };
+        },
+        response: response => {
+          calls.push('first response');
+          return { ...response, result: { ...response.result, first: true } };
+        }
+      },
+      {
+        request: params => {
+          calls.push('second request');
+          return { ...params, filter: `${params.filter},tenant::tenant` };
+        },
+        response: async response => {
+          calls.push('second response');
+          expect(response.result.first).toBeUndefined();
+          return response;
+        }
+      }
+    ];
+    const searchClient = withInterceptors(createClient(query), () => interceptors);
+
+    const { result } = await searchClient.query({ projectId: 'project', filter: 'author:smith' });
+
+    expect(calls).toEqual(['first request', 'second request', 'second response', 'first response']);
+    expect(query).toHaveBeenCalledWith({
+      projectId: 'project',
+      filter: 'author:smith,tenant::tenant',
+      headers: { 'X-Tenant': 'tenant' }
+    });
+    expect(result).toEqual({ matching_results: 1, first: true });
+  });
+
+  test('lets error hooks inspect errors and recover from them', async () => {
+    const query = jest.fn().mockRejectedValue(new Error('failure'));
+    const onError = jest.fn(error => {
+      throw error;
+    });
+    const interceptors: SearchClientInterceptor[] = [
+      { error: () => createDummyResponse({ matching_results: 0 }) },
+      { error: onError }
+    ];
+    const searchClient = withInterceptors(createClient(query), () => interceptors);
+
+    const { result } = await searchClient.query({ projectId: 'project' });
+
+    expect(onError).toHaveBeenCalledWith(
+      new Error('failure'),
+      expect.objectContaining({ method: 'query', params: { projectId: 'project' } })
+    );
+    expect(result).toEqual({ matching_results: 0 });
+  });
+
+  test('reads the latest interceptors for every request', async () => {
+    const query = jest.fn(() => createDummyResponsePromise({}));
+    let interceptors: SearchClientInterceptor[] = [];
+    const searchClient = withInterceptors(createClient(query), () => interceptors);
+
+    await searchClient.query({ projectId: 'project' });
+    interceptors = [{ request: params => ({ ...params, count: 5 }) }];
+    await searchClient.query({ projectId: 'project' });
+
+    expect(query).toHaveBeenLastCalledWith({ projectId: 'project', count: 5 });
+  });
+});
@@ -0,0 +1,116 @@
+import { createDummyResponsePromise } from '../testingUtils';
+import { SearchClient } from 'components/DiscoverySearch/types';
+import { withRetry, getRetryDelay, defaultRetryPolicy } from '../withRetry';
+
+const createError = (code?: number): Error => {
+  const error: any = new Error(`Error ${code}`);
+  error.code = code;
+  return error;
+};
+
+const createClient = (query: jest.Mock): SearchClient => {
+  return ({
+    query,
+    getAutocompletion: jest.fn(),
+    listCollections: jest.fn(),
+    getComponentSettings: jest.fn(),
+    listFields: jest.fn()
+  } as unknown) as SearchClient;
+};
+
+describe('withRetry', () => {
+  test('retries failed requests until they succeed', async () => {
+    const query = jest
+      .fn()
+      .mockRejectedValueOnce(createError(503))
+      .mockRejectedValueOnce(createError(429))
+      .mockImplementationOnce(() => createDummyResponsePromise({ matching_results: 1 }));
+    const onRetry = jest.fn();
+    const searchClient = withRetry(createClient(query), { backoffBase: 0 }, onRetry);
+
+    const { result } = await searchClient.query({ projectId: 'project' });
+    expect(result).toEqual({ matching_results: 1 });
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith({
+      method: 'query',
+      attempt: 3,
+      delay: 0,
+      error: expect.objectContaining({ status: 429 })
+    });
+  });
+
+  test('does not retry status codes missing from the policy', async () => {
+    const query = jest.fn().mockRejectedValue(createError(400));
+    const searchClient = withRetry(createClient(query), { backoffBase: 0 });
+
+    await expect(searchClient.query({ projectId: 'project' })).rejects.toThrow('Error 400');
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops after the maximum number of attempts', async () => {
+    const query = jest.fn().mockRejectedValue(createError(503));
+    const searchClient = withRetry(createClient(query), { backoffBase: 0, maxAttempts: 2 });
+
+    await expect(searchClient.query({ projectId: 'project' })).rejects.toThrow('Error 503');
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  test('stops retrying when the request is aborted', async () => {
+    const query = jest.fn().mockRejectedValue(createError());
+    const abortController = new AbortController();
+    const searchClient = withRetry(createClient(query), { backoffBase: 1000 }, () =>
+      abortController.abort()
+    );
+
+    await expect(
+      searchClient.query({ projectId: 'project', signal: abortController.signal })
+    ).rejects.toHaveProperty('name', 'AbortError');
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not retry the creation of training queries', async () => {
+    const createTrainingQuery = jest.fn().mockRejectedValue(createError(503));
+    const updateTrainingQuery = jest
+      .fn()
+      .mockRejectedValueOnce(createError(503))
+      .mockImplementationOnce(() => createDummyResponsePromise({ query_id: 'query' }));
+    const searchClient = withRetry(
+      Object.assign(createClient(jest.fn()), {
+        listTrainingQueries: jest.fn(),
+        createTrainingQuery,
+        updateTrainingQuery
+      }),
+      { backoffBase: 0 }
+    );
+
+    await expect(
+      (searchClient as any).createTrainingQuery({ projectId: 'project' })
+    ).rejects.toThrow('Error 503');
+    expect(createTrainingQuery).toHaveBeenCalledTimes(1);
+    await (searchClient as any).updateTrainingQuery({ projectId: 'project', queryId: 'query' });
+    expect(updateTrainingQuery).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps the methods not used by the components', () => {
+    const searchClient = withRetry(
+      Object.assign(createClient(jest.fn()), { listProjects: () => 'projects' })
+    );
+    expect((searchClient as any).listProjects()).toEqual('projects');
+  });
+
+  describe('getRetryDelay', () => {
+    test('doubles the delay with every attempt, up to the maximum delay', () => {
+      const policy = { ...defaultRetryPolicy, jitter: 0 };
+      expect(getRetryDelay(policy, 2)).toEqual(500);
+      expect(getRetryDelay(policy, 3)).toEqual(1000);
+      expect(getRetryDelay(policy, 10)).toEqual(10000);
+    });
+
+    test('randomizes part of the delay', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      expect(getRetryDelay(defaultRetryPolicy, 2)).toEqual(250);
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { getZeroResultsFallback } from '../zeroResultsFallback';
+
+const aggregations = [
+  {
+    type: 'term',
+    field: 'author',
+    results: [
+      { key: 'smith', matching_results: 3 },
+      { key: 'jones', matching_results: 4 }
+    ]
+  },
+  {
+    type: 'nested',
+    path: 'enriched_text',
+    aggregations: [
+      { type: 'term', field: 'type', results: [{ key: 'memo', matching_results: 10 }] }
+    ]
+  }
+];
+
+describe('getZeroResultsFallback', () => {
+  test('searches the spelling suggestion first', () => {
+    const parameters = { projectId: '', naturalLanguageQuery: 'helo', filter: 'type:"memo"' };
+    expect(
+      getZeroResultsFallback(parameters, { suggested_query: 'hello' }, aggregations, null)
+    ).toEqual({
+      originalParameters: parameters,
+      parameters: { ...parameters, naturalLanguageQuery: 'hello', offset: 0 },
+      suggestedQuery: 'hello',
+      removedFilters: []
+    });
+  });
+
+  test('removes the facet filter matching the fewest results', () => {
+    const parameters = {
+      projectId: '',
+      naturalLanguageQuery: 'budget',
+      filter: 'type:"memo",author:"smith"|"jones"'
+    };
+    expect(getZeroResultsFallback(parameters, {}, aggregations, null)).toEqual({
+      originalParameters: parameters,
+      parameters: { ...parameters, filter: 'type:"memo"', offset: 0 },
+      removedFilters: [{ field: 'author', values: ['smith', 'jones'] }]
+    });
+  });
+
+  test('removes the last facet filter when the results of the filters are not counted', () => {
+    const parameters = { projectId: '', filter: 'author:"smith","budget report"' };
+    expect(getZeroResultsFallback(parameters, {}, null, null)).toMatchObject({
+      parameters: { filter: 'author:"smith"' },
+      removedFilters: [{ values: ['budget report'] }]
+    });
+  });
+
+  test('keeps the changes of the previous fallbacks', () => {
+    const originalParameters = { projectId: '', naturalLanguageQuery: 'helo', filter: 'type:memo' };
+    const parameters = { ...originalParameters, naturalLanguageQuery: 'hello' };
+    const fallback = {
+      originalParameters,
+      parameters,
+      suggestedQuery: 'hello',
+      removedFilters: []
+    };
+    expect(
+      getZeroResultsFallback(parameters, { suggested_query: 'hallo' }, aggregations, fallback)
+    ).toEqual({
+      ...fallback,
+      parameters: { ...parameters, filter: '', offset: 0 },
+      removedFilters: [{ field: 'type', values: ['memo'] }]
+    });
+  });
+
+  test('returns null when there is nothing left to change', () => {
+    expect(getZeroResultsFallback({ projectId: '', filter: '' }, {}, aggregations, null)).toBe(
+      null
+    );
+    expect(
+      getZeroResultsFallback({ projectId: '', filter: '(type:memo,author:smith)' }, {}, null, null)
+    ).toBe(null);
+  });
+});
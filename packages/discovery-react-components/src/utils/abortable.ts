@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+const ABORT_ERROR_NAME = 'AbortError';
+
+/**
+ * error used to reject requests that were aborted
+ */
+export const createAbortError = (): Error => {
+  const error = new Error('The request was aborted');
+  error.name = ABORT_ERROR_NAME;
+  return error;
+};
+
+/**
+ * check whether an error was thrown because its request was aborted
+ * @param error - error thrown by a request
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === ABORT_ERROR_NAME;
+};
+
+/**
+ * Races a request against an abort signal, so callers stop waiting for an aborted request even when
+ * the search client does not support cancellation
+ * @param request - pending request
+ * @param signal - signal used to abort the request
+ * @return a promise that rejects with an AbortError as soon as the signal is aborted
+ */
+export const abortable = <T>(request: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return request;
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = (): void => reject(createAbortError());
+    signal.addEventListener('abort', handleAbort);
+    request.then(
+      result => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(result);
+      },
+      error => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Custom hook that tracks the in-flight request of a single store. Every time a new signal is
+ * requested the previous request is aborted, and the last one is aborted on unmount
+ * @return a method that aborts the previous request and returns the signal for the next one
+ */
+export const useAbortController = (): (() => AbortSignal | undefined) => {
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return (): void => {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+      }
+    };
+  }, []);
+
+  return useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+    // AbortController is not available in every supported browser
+    abortControllerRef.current =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+    return abortControllerRef.current ? abortControllerRef.current.signal : undefined;
+  }, []);
+};
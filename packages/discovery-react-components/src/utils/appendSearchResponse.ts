@@ -0,0 +1,36 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+
+const getResultId = (result: DiscoveryV2.QueryResult): string =>
+  `${get(result, 'result_metadata.collection_id')}_${result.document_id}`;
+
+const getTableId = (table: DiscoveryV2.QueryTableResult): string =>
+  `${table.collection_id}_${table.table_id}`;
+
+/**
+ * Appends the results and table results of the next page of a search to the current search
+ * response, skipping the results already displayed (ie. when documents were added to the project
+ * between the two requests)
+ * @param searchResponse - current search response
+ * @param nextPage - search response of the next page
+ */
+export const appendSearchResponse = (
+  searchResponse: DiscoveryV2.QueryResponse,
+  nextPage: DiscoveryV2.QueryResponse
+): DiscoveryV2.QueryResponse => {
+  const results = searchResponse.results || [];
+  const tableResults = searchResponse.table_results || [];
+  const resultIds = results.map(getResultId);
+  const tableIds = tableResults.map(getTableId);
+  return {
+    ...searchResponse,
+    results: [
+      ...results,
+      ...(nextPage.results || []).filter(result => !resultIds.includes(getResultId(result)))
+    ],
+    table_results: [
+      ...tableResults,
+      ...(nextPage.table_results || []).filter(table => !tableIds.includes(getTableId(table)))
+    ]
+  };
+};
@@ -0,0 +1,136 @@
+import { parseDql } from '../parseDql';
+import { tokenizeDql, DqlSyntaxError } from '../tokenizeDql';
+
+describe('tokenizeDql', () => {
+  test('splits a query into tokens with their positions', () => {
+    expect(tokenizeDql('author::"Smith, J",!year>=2010')).toEqual([
+      { type: 'word', value: 'author', start: 0, end: 6 },
+      { type: 'operator', value: '::', start: 6, end: 8 },
+      { type: 'string', value: 'Smith, J', start: 8, end: 18 },
+      { type: 'and', value: ',', start: 18, end: 19 },
+      { type: 'not', value: '!', start: 19, end: 20 },
+      { type: 'word', value: 'year', start: 20, end: 24 },
+      { type: 'operator', value: '>=', start: 24, end: 26 },
+      { type: 'word', value: '2010', start: 26, end: 30 }
+    ]);
+  });
+
+  test('unescapes quoted strings', () => {
+    expect(tokenizeDql('"say \\"hi\\""')[0].value).toEqual('say "hi"');
+  });
+
+  test('unescapes the escaped characters of words', () => {
+    expect(tokenizeDql('path:C\\:\\\\docs\\*')).toEqual([
+      { type: 'word', value: 'path', start: 0, end: 4 },
+      { type: 'operator', value: ':', start: 4, end: 5 },
+      { type: 'word', value: 'C:\\docs*', start: 5, end: 16 }
+    ]);
+  });
+
+  test('splits fuzzy and proximity modifiers', () => {
+    expect(tokenizeDql('"wind turbine"~3,tyde~')).toEqual([
+      { type: 'string', value: 'wind turbine', start: 0, end: 14 },
+      { type: 'fuzzy', value: '~3', start: 14, end: 16 },
+      { type: 'and', value: ',', start: 16, end: 17 },
+      { type: 'word', value: 'tyde', start: 17, end: 21 },
+      { type: 'fuzzy', value: '~', start: 21, end: 22 }
+    ]);
+  });
+
+  test('throws on invalid modifiers and escapes', () => {
+    expect(() => tokenizeDql('tyde~a')).toThrow(
+      new DqlSyntaxError('Expected a distance after "~"', 5)
+    );
+    expect(() => tokenizeDql('path:C\\')).toThrow(
+      new DqlSyntaxError('Unterminated escape sequence', 6)
+    );
+  });
+
+  test('throws on unterminated quoted strings', () => {
+    expect(() => tokenizeDql('author:"smith')).toThrow(
+      new DqlSyntaxError('Unterminated quoted string', 7)
+    );
+  });
+});
+
+describe('parseDql', () => {
+  test('returns null for an empty query', () => {
+    expect(parseDql('  ')).toBeNull();
+  });
+
+  test('parses conditions with several values', () => {
+    expect(parseDql('author:"Smith"|"Jones",subject::!draft')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'condition',
+          field: 'author',
+          operator: ':',
+          negated: false,
+          values: ['Smith', 'Jones']
+        },
+        {
+          type: 'condition',
+          field: 'subject',
+          operator: '::',
+          negated: true,
+          values: ['draft']
+        }
+      ]
+    });
+  });
+
+  test('gives precedence to "," over "|"', () => {
+    expect(parseDql('a:1|b:2,c:3')).toEqual({
+      type: 'or',
+      children: [
+        expect.objectContaining({ field: 'a' }),
+        {
+          type: 'and',
+          children: [
+            expect.objectContaining({ field: 'b' }),
+            expect.objectContaining({ field: 'c' })
+          ]
+        }
+      ]
+    });
+  });
+
+  test('parses negations, parentheses and text', () => {
+    expect(parseDql('!(a:1,"free text")')).toEqual({
+      type: 'not',
+      child: {
+        type: 'and',
+        children: [expect.objectContaining({ field: 'a' }), { type: 'text', value: 'free text' }]
+      }
+    });
+  });
+
+  test('accepts fuzzy and proximity modifiers after values', () => {
+    expect(parseDql('author:smith~1,"wind turbine"~3')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'condition', field: 'author', operator: ':', negated: false, values: ['smith'] },
+        { type: 'text', value: 'wind turbine' }
+      ]
+    });
+  });
+
+  test.each([
+    ['author:', 7, 'Missing value after ":"'],
+    ['(author:smith', 0, 'Missing closing parenthesis'],
+    ['author:smith)', 12, 'Unexpected ")"'],
+    ['"author":smith', 0, 'Field names cannot be quoted'],
+    ['~2', 0, 'Unexpected "~2"'],
+    ['author:smith~1~2', 14, 'Unexpected "~2"']
+  ])('throws on invalid query %s', (dql, position, message) => {
+    try {
+      parseDql(dql);
+      throw new Error('expected a syntax error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DqlSyntaxError);
+      expect(error.message).toEqual(message);
+      expect(error.position).toEqual(position);
+    }
+  });
+});
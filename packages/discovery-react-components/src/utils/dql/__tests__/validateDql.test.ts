@@ -0,0 +1,34 @@
+import { validateDql, getDqlFieldPrefix } from '../validateDql';
+import { DqlSyntaxError } from '../tokenizeDql';
+
+describe('validateDql', () => {
+  test('returns null for a valid query', () => {
+    expect(validateDql('title:wind*,!(author::"Smith, J"|year>2010)')).toBeNull();
+    expect(validateDql('')).toBeNull();
+  });
+
+  test('returns the syntax error of an invalid query', () => {
+    const error = validateDql('title:(wind');
+    expect(error).toEqual(new DqlSyntaxError('Missing value after ":"', 6));
+    expect(error!.position).toEqual(6);
+    expect(validateDql('title:"wind')).toEqual(new DqlSyntaxError('Unterminated quoted string', 6));
+  });
+});
+
+describe('getDqlFieldPrefix', () => {
+  test.each([
+    ['tit', 'tit'],
+    ['author:smith,tit', 'tit'],
+    ['author:smith|(!tit', 'tit'],
+    ['enriched_text.ent', 'enriched_text.ent']
+  ])('returns the field name being typed in %s', (dql, prefix) => {
+    expect(getDqlFieldPrefix(dql)).toEqual(prefix);
+  });
+
+  test.each([[''], ['title:'], ['title:wi'], ['title:!wi'], ['title '], ['"title']])(
+    'returns null when no field name is typed in %s',
+    dql => {
+      expect(getDqlFieldPrefix(dql)).toBeNull();
+    }
+  );
+});
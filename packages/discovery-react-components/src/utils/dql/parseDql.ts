@@ -0,0 +1,176 @@
+import { tokenizeDql, DqlToken, DqlSyntaxError } from './tokenizeDql';
+
+export type DqlOperator = ':' | '::' | '>=' | '<=' | '>' | '<';
+
+/**
+ * `field:value` (contains), `field::value` (exact match) or a comparison. `field:!value` and
+ * `field::!value` are negated. Several values (`field:"a"|"b"`) match any of them
+ */
+export interface DqlConditionNode {
+  type: 'condition';
+  field: string;
+  operator: DqlOperator;
+  negated: boolean;
+  values: string[];
+}
+
+/**
+ * a value without field, matching any field of the document
+ */
+export interface DqlTextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface DqlNotNode {
+  type: 'not';
+  child: DqlNode;
+}
+
+export interface DqlLogicalNode {
+  type: 'and' | 'or';
+  children: DqlNode[];
+}
+
+export type DqlNode = DqlConditionNode | DqlTextNode | DqlNotNode | DqlLogicalNode;
+
+class DqlParser {
+  private tokens: DqlToken[];
+  private index = 0;
+  private length: number;
+
+  public constructor(dql: string) {
+    this.tokens = tokenizeDql(dql);
+    this.length = dql.length;
+  }
+
+  public parse(): DqlNode | null {
+    if (!this.tokens.length) {
+      return null;
+    }
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new DqlSyntaxError(`Unexpected "${token.value}"`, token.start);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): DqlToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(): DqlToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private isValue(token?: DqlToken): boolean {
+    return !!token && (token.type === 'string' || token.type === 'word');
+  }
+
+  private parseLogical(type: 'and' | 'or', parseOperand: () => DqlNode): DqlNode {
+    const children = [parseOperand()];
+    while (this.peek() && this.peek()!.type === type) {
+      this.next();
+      children.push(parseOperand());
+    }
+    return children.length === 1 ? children[0] : { type, children };
+  }
+
+  private parseOr(): DqlNode {
+    return this.parseLogical('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): DqlNode {
+    return this.parseLogical('and', () => this.parseUnary());
+  }
+
+  private parseUnary(): DqlNode {
+    const token = this.peek();
+    if (token && token.type === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): DqlNode {
+    const token = this.next();
+    if (!token) {
+      throw new DqlSyntaxError('Unexpected end of query', this.length);
+    }
+    if (token.type === 'openParen') {
+      const node = this.parseOr();
+      const closeParen = this.next();
+      if (!closeParen || closeParen.type !== 'closeParen') {
+        throw new DqlSyntaxError('Missing closing parenthesis', token.start);
+      }
+      return node;
+    }
+    if (!this.isValue(token)) {
+      throw new DqlSyntaxError(`Unexpected "${token.value}"`, token.start);
+    }
+
+    const operator = this.peek();
+    if (!operator || operator.type !== 'operator') {
+      this.skipFuzzy();
+      return { type: 'text', value: token.value };
+    }
+    if (token.type !== 'word') {
+      throw new DqlSyntaxError('Field names cannot be quoted', token.start);
+    }
+    this.next();
+    let negated = false;
+    if (this.peek() && this.peek()!.type === 'not') {
+      this.next();
+      negated = true;
+    }
+    const values = [this.parseValue(operator)];
+    // `field:a|b` lists several values, unless `b` is followed by an operator (`field:a|other:b`)
+    while (
+      this.peek() &&
+      this.peek()!.type === 'or' &&
+      this.isValue(this.peek(1)) &&
+      !(this.peek(2) && this.peek(2)!.type === 'operator')
+    ) {
+      this.next();
+      values.push(this.parseValue(operator));
+    }
+    return {
+      type: 'condition',
+      field: token.value,
+      operator: operator.value as DqlOperator,
+      negated,
+      values
+    };
+  }
+
+  private parseValue(operator: DqlToken): string {
+    const token = this.next();
+    if (!this.isValue(token)) {
+      throw new DqlSyntaxError(
+        `Missing value after "${operator.value}"`,
+        token ? token.start : operator.end
+      );
+    }
+    this.skipFuzzy();
+    return token!.value;
+  }
+
+  // fuzzy and proximity modifiers are validated, but not kept in the parsed nodes
+  private skipFuzzy(): void {
+    if (this.peek() && this.peek()!.type === 'fuzzy') {
+      this.next();
+    }
+  }
+}
+
+/**
+ * parse a Discovery Query Language (DQL) string. `,` (and) takes precedence over `|` (or)
+ * @param dql - DQL string, ie. a filter
+ * @return the root node of the parsed query, or null for an empty query
+ * @throws DqlSyntaxError when the query is not valid
+ */
+export const parseDql = (dql: string): DqlNode | null => {
+  return new DqlParser(dql).parse();
+};
@@ -0,0 +1,129 @@
+export type DqlTokenType =
+  | 'string'
+  | 'word'
+  | 'operator'
+  | 'fuzzy'
+  | 'not'
+  | 'and'
+  | 'or'
+  | 'openParen'
+  | 'closeParen';
+
+/**
+ * a token of a Discovery Query Language (DQL) string
+ */
+export interface DqlToken {
+  type: DqlTokenType;
+  /**
+   * value of the token. Quoted strings are unquoted and unescaped, and escaped characters of
+   * words (ie. `\:`) are unescaped
+   */
+  value: string;
+  /**
+   * position of the first character of the token in the DQL string
+   */
+  start: number;
+  /**
+   * position after the last character of the token in the DQL string
+   */
+  end: number;
+}
+
+export class DqlSyntaxError extends Error {
+  public position: number;
+
+  public constructor(message: string, position: number) {
+    super(message);
+    this.name = 'DqlSyntaxError';
+    this.position = position;
+  }
+}
+
+const OPERATORS = ['::', ':', '>=', '<=', '>', '<'];
+const SINGLE_CHARACTER_TOKENS: { [character: string]: DqlTokenType } = {
+  '!': 'not',
+  ',': 'and',
+  '|': 'or',
+  '(': 'openParen',
+  ')': 'closeParen'
+};
+const WORD_DELIMITERS = /[\s,|()"!:<>~]/;
+
+/**
+ * split a DQL string into tokens
+ * @param dql - DQL string, ie. a filter
+ * @throws DqlSyntaxError when a quoted string is not closed, a word ends with an escape character
+ * or `~` is not followed by a distance
+ */
+export const tokenizeDql = (dql: string): DqlToken[] => {
+  const tokens: DqlToken[] = [];
+  let position = 0;
+  while (position < dql.length) {
+    const character = dql[position];
+    if (/\s/.test(character)) {
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(operator => dql.startsWith(operator, position));
+    if (operator) {
+      tokens.push({
+        type: 'operator',
+        value: operator,
+        start: position,
+        end: position + operator.length
+      });
+      position += operator.length;
+    } else if (SINGLE_CHARACTER_TOKENS[character]) {
+      tokens.push({
+        type: SINGLE_CHARACTER_TOKENS[character],
+        value: character,
+        start: position,
+        end: position + 1
+      });
+      position++;
+    } else if (character === '~') {
+      // fuzzy (`word~1`) and proximity (`"two words"~3`) modifiers, with an optional distance
+      let end = position + 1;
+      while (end < dql.length && /\d/.test(dql[end])) {
+        end++;
+      }
+      if (end < dql.length && !WORD_DELIMITERS.test(dql[end])) {
+        throw new DqlSyntaxError('Expected a distance after "~"', end);
+      }
+      tokens.push({ type: 'fuzzy', value: dql.slice(position, end), start: position, end });
+      position = end;
+    } else if (character === '"') {
+      let value = '';
+      let end = position + 1;
+      while (end < dql.length && dql[end] !== '"') {
+        if (dql[end] === '\\' && end + 1 < dql.length) {
+          end++;
+        }
+        value += dql[end];
+        end++;
+      }
+      if (end >= dql.length) {
+        throw new DqlSyntaxError('Unterminated quoted string', position);
+      }
+      tokens.push({ type: 'string', value, start: position, end: end + 1 });
+      position = end + 1;
+    } else {
+      let value = '';
+      let end = position;
+      while (end < dql.length && !WORD_DELIMITERS.test(dql[end])) {
+        if (dql[end] === '\\') {
+          end++;
+          if (end >= dql.length) {
+            throw new DqlSyntaxError('Unterminated escape sequence', end - 1);
+          }
+        }
+        value += dql[end];
+        end++;
+      }
+      tokens.push({ type: 'word', value, start: position, end });
+      position = end;
+    }
+  }
+  return tokens;
+};
@@ -0,0 +1,48 @@
+import { parseDql } from './parseDql';
+import { tokenizeDql, DqlSyntaxError } from './tokenizeDql';
+
+/**
+ * check the syntax of a Discovery Query Language (DQL) string
+ * @param dql - DQL string, ie. a query
+ * @return the first syntax error of the query, or null when the query is valid
+ */
+export const validateDql = (dql: string): DqlSyntaxError | null => {
+  try {
+    parseDql(dql);
+    return null;
+  } catch (err) {
+    if (err instanceof DqlSyntaxError) {
+      return err;
+    }
+    throw err;
+  }
+};
+
+/**
+ * get the beginning of the field name being typed at the end of a DQL string, to autocomplete it
+ * @param dql - DQL string, ie. a query
+ * @return the beginning of the field name, or null when the end of the query is not a field name
+ */
+export const getDqlFieldPrefix = (dql: string): string | null => {
+  let tokens;
+  try {
+    tokens = tokenizeDql(dql);
+  } catch (err) {
+    return null;
+  }
+  const lastToken = tokens[tokens.length - 1];
+  if (!lastToken || lastToken.type !== 'word' || lastToken.end !== dql.length) {
+    return null;
+  }
+  // a word following a value, an operator (`field:value`) or a negated operator (`field:!value`)
+  // is a value
+  const previousTypes = tokens.slice(-3, -1).map(({ type }) => type);
+  const previousType = previousTypes[previousTypes.length - 1];
+  if (
+    ['word', 'string', 'fuzzy', 'operator'].includes(previousType) ||
+    (previousType === 'not' && previousTypes[0] === 'operator' && previousTypes.length === 2)
+  ) {
+    return null;
+  }
+  return dql.slice(lastToken.start);
+};
@@ -0,0 +1,341 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import uniq from 'lodash/uniq';
+import { SearchClient, AbortableParams } from 'components/DiscoverySearch/types';
+import { isAbortError } from 'utils/abortable';
+import { SearchError, toSearchError } from 'utils/searchError';
+import { mergeAggregations } from './mergeAggregations';
+import { mergeResults, FederatedMergeStrategy } from './mergeResults';
+
+export interface FederatedSource {
+  /**
+   * project to search
+   */
+  projectId: string;
+  /**
+   * search client sending the requests of the project
+   */
+  searchClient: SearchClient;
+  /**
+   * weight of the results of the project when merging the results, defaults to 1
+   */
+  weight?: number;
+}
+
+/**
+ * details of a project whose request failed while the other projects answered
+ */
+export interface FederatedSourceError {
+  /**
+   * project of the failed request
+   */
+  projectId: string;
+  /**
+   * error of the failed request
+   */
+  error: SearchError;
+}
+
+export interface FederatedSearchClientOptions {
+  /**
+   * projects searched together
+   */
+  sources: FederatedSource[];
+  /**
+   * how the results of the projects are ordered, defaults to `confidence`
+   */
+  mergeStrategy?: FederatedMergeStrategy;
+  /**
+   * called for every project whose request failed. The responses of the other projects are still
+   * merged, and the request only fails when no project answers
+   */
+  onSourceError?: (sourceError: FederatedSourceError) => void;
+}
+
+const DEFAULT_COUNT = 10;
+
+const toResponse = <T>(result: T): DiscoveryV2.Response<T> => ({
+  result,
+  status: 200,
+  statusText: 'OK',
+  headers: {}
+});
+
+const tagResponse = (
+  response: DiscoveryV2.QueryResponse,
+  projectId: string
+): DiscoveryV2.QueryResponse => ({
+  ...response,
+  results: (response.results || []).map(result => ({
+    ...result,
+    result_metadata: {
+      ...result.result_metadata,
+      project_id: projectId
+    } as DiscoveryV2.QueryResultMetadata
+  })),
+  table_results: (response.table_results || []).map(tableResult => ({
+    ...tableResult,
+    project_id: projectId
+  }))
+});
+
+/**
+ * get the project a result of a federated search comes from
+ * @param result - query result or table result
+ */
+export const getResultProjectId = (
+  result: DiscoveryV2.QueryResult | DiscoveryV2.QueryTableResult
+): string | undefined => {
+  return get(result, 'result_metadata.project_id') || get(result, 'project_id');
+};
+
+/**
+ * Search client searching several projects at once, each with its own search client. Queries are
+ * sent to every project in parallel, their results are merged by normalized confidence or round
+ * robin, and their term, histogram and timeslice aggregations are merged by key. Each result is
+ * tagged with its project in `result_metadata.project_id` (and table results in `project_id`).
+ * Projects failing to answer are reported to `onSourceError` and left out of the merged responses.
+ * The `projectId` of the requests is ignored, and `collectionIds` are sent to the projects owning
+ * the collections. Component settings are read from the first project
+ */
+export class FederatedSearchClient implements SearchClient {
+  private sources: Required<FederatedSource>[];
+  private mergeStrategy: FederatedMergeStrategy;
+  private onSourceError?: (sourceError: FederatedSourceError) => void;
+  private collectionIds: Map<FederatedSource, Promise<string[]>> = new Map();
+
+  public constructor({
+    sources,
+    mergeStrategy = 'confidence',
+    onSourceError
+  }: FederatedSearchClientOptions) {
+    if (!sources.length) {
+      throw new Error('A federated search requires at least one source');
+    }
+    this.sources = sources.map(({ weight = 1, ...source }) => ({ ...source, weight }));
+    this.mergeStrategy = mergeStrategy;
+    this.onSourceError = onSourceError;
+  }
+
+  public async query({
+    projectId,
+    collectionIds,
+    offset = 0,
+    count = DEFAULT_COUNT,
+    ...params
+  }: DiscoveryV2.QueryParams & AbortableParams): Promise<
+    DiscoveryV2.Response<DiscoveryV2.QueryResponse>
+  > {
+    // the results of a page may come from any project, so every project returns all the results
+    // up to the end of the page
+    const responses = await this.settle(
+      this.sources.map(async source => {
+        const sourceCollections = await this.getSourceCollectionIds(source, collectionIds);
+        if (sourceCollections && !sourceCollections.length) {
+          return null;
+        }
+        return source.searchClient.query({
+          ...params,
+          projectId: source.projectId,
+          ...(sourceCollections ? { collectionIds: sourceCollections } : {}),
+          offset: 0,
+          count: offset + count
+        });
+      }),
+      params
+    );
+
+    const searchedResponses: {
+      source: Required<FederatedSource>;
+      result: DiscoveryV2.QueryResponse;
+    }[] = [];
+    responses.forEach((response, index) => {
+      if (response) {
+        const source = this.sources[index];
+        searchedResponses.push({ source, result: tagResponse(response.result, source.projectId) });
+      }
+    });
+
+    const results = mergeResults(
+      searchedResponses.map(({ source, result }) => ({
+        results: result.results || [],
+        weight: source.weight
+      })),
+      this.mergeStrategy
+    );
+    const suggestedRefinements = ([] as DiscoveryV2.QuerySuggestedRefinement[]).concat(
+      ...searchedResponses.map(({ result }) => result.suggested_refinements || [])
+    );
+    const suggestedQuery = searchedResponses
+      .map(({ result }) => result.suggested_query)
+      .find(suggestedQuery => !!suggestedQuery);
+    const retrievalDetails = searchedResponses
+      .map(({ result }) => result.retrieval_details)
+      .find(retrievalDetails => !!retrievalDetails);
+
+    return toResponse({
+      matching_results: searchedResponses.reduce(
+        (total, { result }) => total + (result.matching_results || 0),
+        0
+      ),
+      results: results.slice(offset, offset + count),
+      aggregations: mergeAggregations(
+        searchedResponses.map(({ result }) => result.aggregations || [])
+      ),
+      table_results: ([] as DiscoveryV2.QueryTableResult[]).concat(
+        ...searchedResponses.map(({ result }) => result.table_results || [])
+      ),
+      suggested_refinements: uniq(suggestedRefinements.map(({ text }) => text)).map(text => ({
+        text
+      })),
+      ...(suggestedQuery ? { suggested_query: suggestedQuery } : {}),
+      ...(retrievalDetails ? { retrieval_details: retrievalDetails } : {})
+    });
+  }
+
+  public async getAutocompletion({
+    projectId,
+    count,
+    ...params
+  }: DiscoveryV2.GetAutocompletionParams & AbortableParams): Promise<
+    DiscoveryV2.Response<DiscoveryV2.Completions>
+  > {
+    const responses = await this.settle(
+      this.sources.map(source =>
+        source.searchClient.getAutocompletion({ ...params, projectId: source.projectId, count })
+      ),
+      params
+    );
+    const completions = uniq(
+      ([] as string[]).concat(
+        ...responses.map(response => (response && response.result.completions) || [])
+      )
+    );
+    return toResponse({ completions: count ? completions.slice(0, count) : completions });
+  }
+
+  public async listCollections({
+    projectId,
+    ...params
+  }: DiscoveryV2.ListCollectionsParams & AbortableParams): Promise<
+    DiscoveryV2.Response<DiscoveryV2.ListCollectionsResponse>
+  > {
+    const responses = await this.settle(
+      this.sources.map(source =>
+        source.searchClient.listCollections({ ...params, projectId: source.projectId })
+      ),
+      params
+    );
+    return toResponse({
+      collections: ([] as DiscoveryV2.Collection[]).concat(
+        ...responses.map(response => (response && response.result.collections) || [])
+      )
+    });
+  }
+
+  public async getComponentSettings({
+    projectId,
+    ...params
+  }: DiscoveryV2.GetComponentSettingsParams & AbortableParams): Promise<
+    DiscoveryV2.Response<DiscoveryV2.ComponentSettingsResponse>
+  > {
+    const [{ searchClient, projectId: sourceProjectId }] = this.sources;
+    return searchClient.getComponentSettings({ ...params, projectId: sourceProjectId });
+  }
+
+  public async listFields({
+    projectId,
+    collectionIds,
+    ...params
+  }: DiscoveryV2.ListFieldsParams & AbortableParams): Promise<
+    DiscoveryV2.Response<DiscoveryV2.ListFieldsResponse>
+  > {
+    const responses = await this.settle(
+      this.sources.map(async source => {
+        const sourceCollections = await this.getSourceCollectionIds(source, collectionIds);
+        if (sourceCollections && !sourceCollections.length) {
+          return null;
+        }
+        return source.searchClient.listFields({
+          ...params,
+          projectId: source.projectId,
+          ...(sourceCollections ? { collectionIds: sourceCollections } : {})
+        });
+      }),
+      params
+    );
+    return toResponse({
+      fields: ([] as DiscoveryV2.Field[]).concat(
+        ...responses.map(response => (response && response.result.fields) || [])
+      )
+    });
+  }
+
+  /**
+   * wait for the requests sent to every source, reporting the failed ones. Fails with the first
+   * error when no source answered
+   * @param requests - request of each source, resolving to null when the source is not searched
+   * @param params - parameters of the federated request
+   * @return the response of each source, or null for the sources that failed or were not searched
+   */
+  private async settle<T>(
+    requests: Promise<T | null>[],
+    params: any // eslint-disable-line @typescript-eslint/no-explicit-any
+  ): Promise<(T | null)[]> {
+    const outcomes = await Promise.all(
+      requests.map(request =>
+        request.then(
+          value => ({ status: 'fulfilled' as const, value }),
+          (reason: unknown) => ({ status: 'rejected' as const, reason })
+        )
+      )
+    );
+    const responses = outcomes.map(outcome =>
+      outcome.status === 'fulfilled' ? outcome.value : null
+    );
+    const failures: { projectId: string; reason: unknown }[] = [];
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        failures.push({ projectId: this.sources[index].projectId, reason: outcome.reason });
+      }
+    });
+    if (failures.length && !responses.some(response => response !== null)) {
+      throw failures[0].reason;
+    }
+    // aborted requests are not failures, the federated request is aborted with them
+    failures
+      .filter(({ reason }) => !isAbortError(reason))
+      .forEach(({ projectId, reason }) => {
+        if (this.onSourceError) {
+          this.onSourceError({ projectId, error: toSearchError(reason, params) });
+        }
+      });
+    return responses;
+  }
+
+  /**
+   * get the requested collections owned by a source, or undefined when no collection is requested
+   */
+  private async getSourceCollectionIds(
+    source: Required<FederatedSource>,
+    collectionIds: string[] | undefined
+  ): Promise<string[] | undefined> {
+    if (!collectionIds || !collectionIds.length) {
+      return undefined;
+    }
+    let sourceCollectionIds = this.collectionIds.get(source);
+    if (!sourceCollectionIds) {
+      sourceCollectionIds = Promise.resolve(
+        source.searchClient.listCollections({ projectId: source.projectId })
+      ).then(({ result }) =>
+        (result.collections || []).map(({ collection_id }) => collection_id || '')
+      );
+      this.collectionIds.set(source, sourceCollectionIds);
+      // the collections are shared by every request, so their request is not aborted with them.
+      // A failed request is sent again by the next search
+      sourceCollectionIds.catch(() => this.collectionIds.delete(source));
+    }
+    const ownedCollectionIds = await sourceCollectionIds;
+    return collectionIds.filter(collectionId => ownedCollectionIds.includes(collectionId));
+  }
+}
@@ -0,0 +1,269 @@
+import { SearchClient } from 'components/DiscoverySearch/types';
+import { InMemorySearchClient } from 'utils/inMemorySearchClient/InMemorySearchClient';
+import { FederatedSearchClient, getResultProjectId } from '../FederatedSearchClient';
+
+const createSource = (
+  projectId: string,
+  collectionId: string,
+  documents: { document_id: string; text: string; author: string }[],
+  weight?: number
+) => ({
+  projectId,
+  weight,
+  searchClient: new InMemorySearchClient({
+    documents: documents.map(document => ({
+      ...document,
+      result_metadata: { collection_id: collectionId }
+    })),
+    collections: [{ collection_id: collectionId, name: collectionId }]
+  })
+});
+
+const createSources = (weight?: number) => [
+  createSource('news', 'articles', [
+    { document_id: 'news1', text: 'tiger tiger tiger', author: 'Smith' },
+    { document_id: 'news2', text: 'tiger in the zoo', author: 'Jones' }
+  ]),
+  createSource(
+    'wiki',
+    'pages',
+    [
+      { document_id: 'wiki1', text: 'the tiger is a cat', author: 'Smith' },
+      { document_id: 'wiki2', text: 'lion', author: 'Brown' }
+    ],
+    weight
+  )
+];
+
+describe('FederatedSearchClient', () => {
+  test('requires a source', () => {
+    expect(() => new FederatedSearchClient({ sources: [] })).toThrow(
+      'A federated search requires at least one source'
+    );
+  });
+
+  describe('query', () => {
+    test('queries every project in parallel with its project id', async () => {
+      const sources = createSources();
+      const spies = sources.map(({ searchClient }) => jest.spyOn(searchClient, 'query'));
+      const searchClient = new FederatedSearchClient({ sources });
+
+      await searchClient.query({ projectId: 'ignored', naturalLanguageQuery: 'tiger', count: 2 });
+
+      expect(spies[0]).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'news', offset: 0, count: 2 })
+      );
+      expect(spies[1]).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'wiki', offset: 0, count: 2 })
+      );
+    });
+
+    test('merges the results by normalized confidence and tags them with their project', async () => {
+      const searchClient = new FederatedSearchClient({ sources: createSources() });
+
+      const { result } = await searchClient.query({
+        projectId: '',
+        naturalLanguageQuery: 'tiger'
+      });
+
+      expect(result.matching_results).toBe(3);
+      const results = result.results || [];
+      // the best result of each project has a normalized confidence of 1
+      expect(results.map(({ document_id }) => document_id)).toEqual(['news1', 'wiki1', 'news2']);
+      expect(results.map(getResultProjectId)).toEqual(['news', 'wiki', 'news']);
+    });
+
+    test('weighs the results of each project', async () => {
+      const searchClient = new FederatedSearchClient({ sources: createSources(2) });
+
+      const { result } = await searchClient.query({
+        projectId: '',
+        naturalLanguageQuery: 'tiger'
+      });
+
+      expect((result.results || []).map(({ document_id }) => document_id)).toEqual([
+        'wiki1',
+        'news1',
+        'news2'
+      ]);
+    });
+
+    test('alternates between the projects with the round robin strategy', async () => {
+      const searchClient = new FederatedSearchClient({
+        sources: createSources(),
+        mergeStrategy: 'round_robin'
+      });
+
+      const { result } = await searchClient.query({ projectId: '', offset: 1, count: 2 });
+
+      expect((result.results || []).map(({ document_id }) => document_id)).toEqual([
+        'wiki1',
+        'news2'
+      ]);
+    });
+
+    test('merges term aggregations by key', async () => {
+      const searchClient = new FederatedSearchClient({ sources: createSources() });
+
+      const { result } = await searchClient.query({
+        projectId: '',
+        aggregation: 'term(author,count:2)'
+      });
+
+      expect(result.aggregations).toEqual([
+        {
+          type: 'term',
+          field: 'author',
+          count: 2,
+          results: [
+            { key: 'Smith', matching_results: 2 },
+            { key: 'Jones', matching_results: 1 }
+          ]
+        }
+      ]);
+    });
+
+    test('sends the collection ids to the projects owning them', async () => {
+      const sources = createSources();
+      const spies = sources.map(({ searchClient }) => jest.spyOn(searchClient, 'query'));
+      const searchClient = new FederatedSearchClient({ sources });
+
+      const { result } = await searchClient.query({ projectId: '', collectionIds: ['pages'] });
+
+      expect(spies[0]).not.toHaveBeenCalled();
+      expect(spies[1]).toHaveBeenCalledWith(expect.objectContaining({ collectionIds: ['pages'] }));
+      expect(result.matching_results).toBe(2);
+    });
+
+    test('returns the results of the other projects when a project fails', async () => {
+      const sources = createSources();
+      jest
+        .spyOn(sources[1].searchClient, 'query')
+        .mockRejectedValue(Object.assign(new Error('failure'), { code: 503 }));
+      const onSourceError = jest.fn();
+      const searchClient = new FederatedSearchClient({ sources, onSourceError });
+
+      const { result } = await searchClient.query({ projectId: '', naturalLanguageQuery: 'tiger' });
+
+      expect((result.results || []).map(({ document_id }) => document_id)).toEqual([
+        'news1',
+        'news2'
+      ]);
+      expect(onSourceError).toHaveBeenCalledWith({
+        projectId: 'wiki',
+        error: expect.objectContaining({ status: 503, message: 'failure' })
+      });
+    });
+
+    test('fails when every project fails', async () => {
+      const sources = createSources();
+      sources.forEach(({ searchClient }) =>
+        jest.spyOn(searchClient, 'query').mockRejectedValue(new Error('failure'))
+      );
+      const searchClient = new FederatedSearchClient({ sources });
+
+      await expect(searchClient.query({ projectId: '' })).rejects.toThrow('failure');
+    });
+
+    test('merges histogram and timeslice aggregations by key', async () => {
+      const sources = createSources();
+      const aggregations = [
+        [
+          {
+            type: 'histogram',
+            field: 'price',
+            interval: 10,
+            results: [
+              { key: 0, matching_results: 1 },
+              { key: 10, matching_results: 2 }
+            ]
+          },
+          {
+            type: 'timeslice',
+            field: 'date',
+            interval: '1year',
+            results: [{ key_as_string: '2020-01-01', key: 1577836800000, matching_results: 3 }]
+          }
+        ],
+        [
+          {
+            type: 'histogram',
+            field: 'price',
+            interval: 10,
+            results: [
+              { key: 10, matching_results: 1 },
+              { key: 20, matching_results: 4 }
+            ]
+          },
+          {
+            type: 'timeslice',
+            field: 'date',
+            interval: '1year',
+            results: [
+              { key_as_string: '2019-01-01', key: 1546300800000, matching_results: 1 },
+              { key_as_string: '2020-01-01', key: 1577836800000, matching_results: 2 }
+            ]
+          }
+        ]
+      ];
+      sources.forEach(({ searchClient }, index) =>
+        jest.spyOn(searchClient, 'query').mockResolvedValue({
+          result: { matching_results: 0, results: [], aggregations: aggregations[index] },
+          status: 200,
+          statusText: 'OK',
+          headers: {}
+        })
+      );
+      const searchClient = new FederatedSearchClient({ sources });
+
+      const { result } = await searchClient.query({ projectId: '' });
+
+      expect(result.aggregations).toEqual([
+        {
+          type: 'histogram',
+          field: 'price',
+          interval: 10,
+          results: [
+            { key: 0, matching_results: 1 },
+            { key: 10, matching_results: 3 },
+            { key: 20, matching_results: 4 }
+          ]
+        },
+        {
+          type: 'timeslice',
+          field: 'date',
+          interval: '1year',
+          results: [
+            { key_as_string: '2019-01-01', key: 1546300800000, matching_results: 1 },
+            { key_as_string: '2020-01-01', key: 1577836800000, matching_results: 5 }
+          ]
+        }
+      ]);
+    });
+  });
+
+  test('merges the collections, fields and autocompletions of the projects', async () => {
+    const searchClient: SearchClient = new FederatedSearchClient({ sources: createSources() });
+
+    const {
+      result: { collections }
+    } = await searchClient.listCollections({ projectId: '' });
+    expect(collections).toEqual([
+      { collection_id: 'articles', name: 'articles' },
+      { collection_id: 'pages', name: 'pages' }
+    ]);
+
+    const {
+      result: { fields = [] }
+    } = await searchClient.listFields({ projectId: '' });
+    expect(fields.filter(({ field }) => field === 'author')).toEqual([
+      { field: 'author', type: 'string', collection_id: 'articles' },
+      { field: 'author', type: 'string', collection_id: 'pages' }
+    ]);
+
+    const {
+      result: { completions }
+    } = await searchClient.getAutocompletion({ projectId: '', prefix: 't', count: 5 });
+    expect(completions).toEqual(['tiger', 'the']);
+  });
+});
@@ -0,0 +1,90 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Aggregation = DiscoveryV2.QueryAggregation & { [key: string]: any };
+
+const getAggregationId = (aggregation: Aggregation): string => {
+  const { type, name, field, path, match } = aggregation;
+  return [type, name || field || path || match || ''].join(':');
+};
+
+interface BucketResult {
+  key: string | number;
+  matching_results: number;
+  aggregations?: DiscoveryV2.QueryAggregation[];
+}
+
+// results of the same key are merged, summing their matching results
+const mergeBucketResults = <T extends BucketResult>(results: T[], otherResults: T[]): T[] => {
+  const mergedResults = results.map(result => ({ ...result }));
+  otherResults.forEach(otherResult => {
+    const result = mergedResults.find(({ key }) => key === otherResult.key);
+    if (!result) {
+      mergedResults.push({ ...otherResult });
+      return;
+    }
+    result.matching_results += otherResult.matching_results;
+    if (result.aggregations || otherResult.aggregations) {
+      result.aggregations = mergeAggregations([
+        result.aggregations || [],
+        otherResult.aggregations || []
+      ]);
+    }
+  });
+  return mergedResults;
+};
+
+const mergeAggregation = (aggregation: Aggregation, otherAggregation: Aggregation): Aggregation => {
+  if (aggregation.type === 'term') {
+    const results = mergeBucketResults<DiscoveryV2.QueryTermAggregationResult>(
+      aggregation.results || [],
+      otherAggregation.results || []
+    ).sort((a, b) => b.matching_results - a.matching_results);
+    // each project returns its own top terms, so only the overall top terms are kept
+    const count = Math.max(aggregation.count || 0, otherAggregation.count || 0);
+    return { ...aggregation, results: count ? results.slice(0, count) : results };
+  }
+  if (aggregation.type === 'histogram' || aggregation.type === 'timeslice') {
+    // the projects share the interval of the aggregation, so their buckets have the same keys
+    const results = mergeBucketResults<BucketResult>(
+      aggregation.results || [],
+      otherAggregation.results || []
+    ).sort((a, b) => Number(a.key) - Number(b.key));
+    return { ...aggregation, results };
+  }
+  if (aggregation.type === 'nested' || aggregation.type === 'filter') {
+    return {
+      ...aggregation,
+      matching_results: aggregation.matching_results + otherAggregation.matching_results,
+      aggregations: mergeAggregations([
+        aggregation.aggregations || [],
+        otherAggregation.aggregations || []
+      ])
+    };
+  }
+  return aggregation;
+};
+
+/**
+ * Merges the aggregations of several projects. Term, histogram and timeslice aggregations are
+ * merged by key, summing the matching results of the keys, and nested and filter aggregations sum
+ * their matching results. Any other aggregation is taken from the first project returning it
+ * @param aggregationLists - aggregations returned by each project
+ */
+export const mergeAggregations = (
+  aggregationLists: DiscoveryV2.QueryAggregation[][]
+): DiscoveryV2.QueryAggregation[] => {
+  const mergedAggregations: Aggregation[] = [];
+  aggregationLists.forEach(aggregations => {
+    aggregations.forEach(aggregation => {
+      const id = getAggregationId(aggregation);
+      const index = mergedAggregations.findIndex(merged => getAggregationId(merged) === id);
+      if (index === -1) {
+        mergedAggregations.push(aggregation);
+      } else {
+        mergedAggregations[index] = mergeAggregation(mergedAggregations[index], aggregation);
+      }
+    });
+  });
+  return mergedAggregations;
+};
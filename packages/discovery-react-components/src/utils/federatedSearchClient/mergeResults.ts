@@ -0,0 +1,64 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+
+/**
+ * how the results of the projects are ordered:
+ * - `confidence` sorts the results by their confidence, normalized against the most confident
+ *   result of their project and multiplied by the weight of the project
+ * - `round_robin` alternates between the results of each project, starting with the projects of
+ *   highest weight
+ */
+export type FederatedMergeStrategy = 'confidence' | 'round_robin';
+
+export interface WeightedResults {
+  results: DiscoveryV2.QueryResult[];
+  weight: number;
+}
+
+const mergeByConfidence = (sources: WeightedResults[]): DiscoveryV2.QueryResult[] => {
+  const scoredResults = sources.map(({ results, weight }, sourceIndex) => {
+    const confidences: number[] = results.map(result =>
+      get(result, 'result_metadata.confidence', 0)
+    );
+    const maxConfidence = Math.max(0, ...confidences);
+    return results.map((result, rank) => ({
+      result,
+      score: maxConfidence ? (confidences[rank] / maxConfidence) * weight : 0,
+      rank,
+      sourceIndex
+    }));
+  });
+  return ([] as typeof scoredResults[0])
+    .concat(...scoredResults)
+    .sort((a, b) => b.score - a.score || a.rank - b.rank || a.sourceIndex - b.sourceIndex)
+    .map(({ result }) => result);
+};
+
+const mergeByRoundRobin = (sources: WeightedResults[]): DiscoveryV2.QueryResult[] => {
+  // sort is not guaranteed to be stable, so ties are ordered by the index of the source
+  const orderedSources = sources
+    .map((source, index) => ({ ...source, index }))
+    .sort((a, b) => b.weight - a.weight || a.index - b.index);
+  const maxLength = Math.max(0, ...sources.map(({ results }) => results.length));
+  const mergedResults: DiscoveryV2.QueryResult[] = [];
+  for (let rank = 0; rank < maxLength; rank++) {
+    orderedSources.forEach(({ results }) => {
+      if (rank < results.length) {
+        mergedResults.push(results[rank]);
+      }
+    });
+  }
+  return mergedResults;
+};
+
+/**
+ * Merges the results of several projects into a single list of results
+ * @param sources - results of each project, in the order of the projects, with their weight
+ * @param strategy - how the results are ordered
+ */
+export const mergeResults = (
+  sources: WeightedResults[],
+  strategy: FederatedMergeStrategy
+): DiscoveryV2.QueryResult[] => {
+  return strategy === 'round_robin' ? mergeByRoundRobin(sources) : mergeByConfidence(sources);
+};
@@ -1,30 +1,326 @@
 import React, { ReactNode } from 'react';
 
 interface SubstitutionValues {
-  [name: string]: ReactNode;
+  [name: string]: ReactNode | Date;
 }
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | {
+      type: 'plural';
+      name: string;
+      ordinal: boolean;
+      offset: number;
+      options: { [selector: string]: MessageNode[] };
+    }
+  | { type: 'select'; name: string; options: { [selector: string]: MessageNode[] } };
+
+/**
+ * text of the message, or the value of a `{variable}`, kept as is so it can be a React element
+ */
+type FormattedPart = { text: string } | { value: ReactNode };
+
 const SPLIT_VARIABLES_REGEX = /({[^}]+})/;
 
+const dateStyles: { [style: string]: Intl.DateTimeFormatOptions } = {
+  short: { year: '2-digit', month: 'numeric', day: 'numeric' },
+  medium: { year: 'numeric', month: 'short', day: 'numeric' },
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  full: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }
+};
+
+const timeStyles: { [style: string]: Intl.DateTimeFormatOptions } = {
+  short: { hour: 'numeric', minute: 'numeric' },
+  medium: { hour: 'numeric', minute: 'numeric', second: 'numeric' },
+  long: { hour: 'numeric', minute: 'numeric', second: 'numeric', timeZoneName: 'short' },
+  full: { hour: 'numeric', minute: 'numeric', second: 'numeric', timeZoneName: 'short' }
+};
+
+const numberStyles: { [style: string]: Intl.NumberFormatOptions } = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' }
+};
+
+/**
+ * parser of the ICU message syntax: `{name}` arguments, `{name, number|date|time, style}`
+ * formatted arguments, and `{name, plural|selectordinal|select, ...}` clauses
+ */
+class MessageParser {
+  private position = 0;
+
+  constructor(private message: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.position < this.message.length) {
+      throw new Error(`Unexpected "}" at character ${this.position}`);
+    }
+    return nodes;
+  }
+
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flushText = (): void => {
+      if (text) {
+        nodes.push({ type: 'text', value: text });
+        text = '';
+      }
+    };
+    while (this.position < this.message.length) {
+      const char = this.message[this.position];
+      if (char === "'") {
+        text += this.parseQuote(inPlural);
+      } else if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument());
+      } else if (char === '}') {
+        break;
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+    flushText();
+    return nodes;
+  }
+
+  // an apostrophe escapes the syntax characters following it, and two apostrophes are an apostrophe
+  private parseQuote(inPlural: boolean): string {
+    const next = this.message[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.position++;
+      return "'";
+    }
+    let quoted = '';
+    this.position++;
+    while (this.position < this.message.length) {
+      const char = this.message[this.position];
+      if (char === "'" && this.message[this.position + 1] === "'") {
+        quoted += "'";
+        this.position += 2;
+      } else if (char === "'") {
+        this.position++;
+        return quoted;
+      } else {
+        quoted += char;
+        this.position++;
+      }
+    }
+    return quoted;
+  }
+
+  private readUntil(delimiters: string): string {
+    const start = this.position;
+    while (
+      this.position < this.message.length &&
+      !delimiters.includes(this.message[this.position])
+    ) {
+      this.position++;
+    }
+    if (this.position >= this.message.length) {
+      throw new Error(`Unclosed argument at character ${start}`);
+    }
+    return this.message.slice(start, this.position).trim();
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.message[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.message[this.position] !== char) {
+      throw new Error(`Expected "${char}" at character ${this.position}`);
+    }
+    this.position++;
+  }
+
+  private parseArgument(): MessageNode {
+    this.expect('{');
+    const name = this.readUntil(',}');
+    if (this.message[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name };
+    }
+    this.position++;
+    const format = this.readUntil(',}');
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      this.expect(',');
+      this.skipWhitespace();
+      let offset = 0;
+      const offsetMatch = this.message.slice(this.position).match(/^offset:\s*(\d+)/);
+      if (format !== 'select' && offsetMatch) {
+        offset = Number(offsetMatch[1]);
+        this.position += offsetMatch[0].length;
+      }
+      const options = this.parseOptions(format !== 'select');
+      return format === 'select'
+        ? { type: 'select', name, options }
+        : { type: 'plural', name, ordinal: format === 'selectordinal', offset, options };
+    }
+    if (format !== 'number' && format !== 'date' && format !== 'time') {
+      throw new Error(`Unknown argument type "${format}"`);
+    }
+    let style: string | undefined;
+    if (this.message[this.position] === ',') {
+      this.position++;
+      style = this.readUntil('}');
+    }
+    this.expect('}');
+    return { type: 'argument', name, format, style };
+  }
+
+  private parseOptions(inPlural: boolean): { [selector: string]: MessageNode[] } {
+    const options: { [selector: string]: MessageNode[] } = {};
+    this.skipWhitespace();
+    while (this.message[this.position] !== '}') {
+      const selector = this.readUntil('{').trim();
+      if (!selector) {
+        throw new Error(`Missing selector at character ${this.position}`);
+      }
+      this.expect('{');
+      options[selector] = this.parseNodes(inPlural);
+      this.expect('}');
+      this.skipWhitespace();
+      if (this.position >= this.message.length) {
+        throw new Error('Unclosed clause');
+      }
+    }
+    this.position++;
+    return options;
+  }
+}
+
+const toDate = (value: ReactNode | Date): Date =>
+  value instanceof Date ? value : new Date(value as string | number);
+
+const formatNumber = (value: number, locale?: string, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+const formatNodes = (
+  nodes: MessageNode[],
+  values: SubstitutionValues,
+  locale?: string,
+  timeZone?: string,
+  pluralValue?: number
+): FormattedPart[] => {
+  const parts: FormattedPart[] = [];
+  nodes.forEach(node => {
+    switch (node.type) {
+      case 'text':
+        parts.push({ text: node.value });
+        break;
+      case 'pound':
+        parts.push({
+          text: locale ? formatNumber(pluralValue || 0, locale) : `${pluralValue || 0}`
+        });
+        break;
+      case 'argument': {
+        const value = values[node.name];
+        if (node.format === 'number') {
+          parts.push({
+            text: formatNumber(Number(value), locale, numberStyles[node.style || ''])
+          });
+        } else if (node.format === 'date' || node.format === 'time') {
+          const styles = node.format === 'date' ? dateStyles : timeStyles;
+          parts.push({
+            text: new Intl.DateTimeFormat(locale, {
+              ...styles[node.style || 'medium'],
+              timeZone
+            }).format(toDate(value))
+          });
+        } else if (typeof value === 'number') {
+          // numbers are only grouped for an explicit locale, ie. `138993` rather than `138,993`
+          parts.push({ value: locale ? formatNumber(value, locale) : value });
+        } else if (value instanceof Date) {
+          parts.push({ value: new Intl.DateTimeFormat(locale, { timeZone }).format(value) });
+        } else {
+          parts.push({ value });
+        }
+        break;
+      }
+      case 'plural': {
+        const value = Number(values[node.name]);
+        const category = new Intl.PluralRules(locale, {
+          type: node.ordinal ? 'ordinal' : 'cardinal'
+        }).select(value - node.offset);
+        const option =
+          node.options[`=${value}`] || node.options[category] || node.options.other || [];
+        parts.push(...formatNodes(option, values, locale, timeZone, value - node.offset));
+        break;
+      }
+      case 'select': {
+        const option = node.options[String(values[node.name])] || node.options.other || [];
+        parts.push(...formatNodes(option, values, locale, timeZone, pluralValue));
+        break;
+      }
+    }
+  });
+  return parts;
+};
+
+// messages which are not valid ICU messages are formatted by replacing their `{variable}`s
+const substituteVariables = (message: string, values: SubstitutionValues): FormattedPart[] =>
+  message
+    .split(SPLIT_VARIABLES_REGEX)
+    .filter(part => part !== '')
+    .map(part =>
+      part.includes('{')
+        ? { value: values[part.replace(/{/g, '').replace(/}/g, '')] as ReactNode }
+        : { text: part }
+    );
+
+const mergeText = (parts: FormattedPart[]): FormattedPart[] =>
+  parts.reduce<FormattedPart[]>((merged, part) => {
+    const previous = merged[merged.length - 1];
+    if ('text' in part && previous && 'text' in previous) {
+      merged[merged.length - 1] = { text: previous.text + part.text };
+    } else {
+      merged.push(part);
+    }
+    return merged;
+  }, []);
+
+/**
+ * format a message using the ICU message syntax, ie. `{count, plural, one {# result} other {# results}}`.
+ * Numbers and dates are formatted for the locale. Without a locale, `{name}` and `#` numbers are
+ * kept as is
+ * @param message - message to format
+ * @param values - values of the arguments of the message, which can be React elements
+ * @param outputJsx - whether to wrap the text in `span`s and the values in `div`s
+ * @param locale - locale used to format the numbers and dates and select the plural forms,
+ * defaults to the locale of the browser
+ * @param timeZone - time zone used to format the dates, defaults to the time zone of the browser
+ */
 export const formatMessage = (
   message: string,
   values: SubstitutionValues,
-  outputJsx: boolean = true
-) => {
-  return message.split(SPLIT_VARIABLES_REGEX).map((part, i) => {
-    const variableWithoutBraces = part.replace(/{/g, '').replace(/}/g, '');
-    if (part === '') {
-      return part;
-    }
-    return part.includes('{') ? (
-      outputJsx ? (
-        <div key={i}>{values[variableWithoutBraces]}</div>
-      ) : (
-        values[variableWithoutBraces]
-      )
-    ) : outputJsx ? (
-      <span key={i}>{part}</span>
-    ) : (
-      part
-    );
+  outputJsx: boolean = true,
+  locale?: string,
+  timeZone?: string
+): ReactNode[] => {
+  let parts: FormattedPart[];
+  try {
+    parts = formatNodes(new MessageParser(message).parse(), values, locale, timeZone);
+  } catch (error) {
+    parts = substituteVariables(message, values);
+  }
+  return mergeText(parts).map((part, i) => {
+    if ('text' in part) {
+      return outputJsx ? <span key={i}>{part.text}</span> : part.text;
+    }
+    return outputJsx ? <div key={i}>{part.value}</div> : part.value;
   });
 };
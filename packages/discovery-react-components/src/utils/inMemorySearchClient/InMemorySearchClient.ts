@@ -0,0 +1,319 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import get from 'lodash/get';
+import { SearchClient, AbortableParams } from 'components/DiscoverySearch/types';
+import { createAbortError } from 'utils/abortable';
+import { parseDql } from 'utils/dql/parseDql';
+import { computeAggregations } from './aggregations';
+import { getFieldValues, getTextValues, getTerms } from './documentValues';
+import { matchesDql } from './matchesDql';
+
+/**
+ * a document of the in-memory corpus. The collection of the document is read from
+ * `result_metadata.collection_id`, and defaults to the first collection
+ */
+export interface InMemoryDocument {
+  document_id?: string;
+  result_metadata?: Partial<DiscoveryV2.QueryResultMetadata>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [field: string]: any;
+}
+
+export interface InMemorySearchClientOptions {
+  /**
+   * documents to search
+   */
+  documents: InMemoryDocument[];
+  /**
+   * collections of the project
+   */
+  collections?: DiscoveryV2.Collection[];
+  /**
+   * component settings of the project
+   */
+  componentSettings?: DiscoveryV2.ComponentSettingsResponse;
+  /**
+   * field used to build passages and autocompletions
+   */
+  bodyField?: string;
+  /**
+   * field containing the title of the documents
+   */
+  titleField?: string;
+}
+
+interface IndexedDocument {
+  document: DiscoveryV2.QueryResult;
+  terms: string[];
+}
+
+const DEFAULT_COUNT = 10;
+const DEFAULT_PASSAGE_CHARACTERS = 200;
+const DEFAULT_COMPLETIONS_COUNT = 5;
+const DEFAULT_COLLECTION: DiscoveryV2.Collection = {
+  collection_id: 'default',
+  name: 'Default collection'
+};
+
+const toResponse = <T>(result: T): DiscoveryV2.Response<T> => ({
+  result,
+  status: 200,
+  statusText: 'OK',
+  headers: {}
+});
+
+const checkSignal = (params?: AbortableParams): void => {
+  if (params && params.signal && params.signal.aborted) {
+    throw createAbortError();
+  }
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getFieldType = (value: any): string => {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'long' : 'double';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))) {
+    return 'date';
+  }
+  return value !== null && typeof value === 'object' ? 'nested' : 'string';
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Search client answering requests from documents kept in memory, so the components can be used
+ * without a Discovery instance (ie. in development and tests). Supports:
+ * - natural language queries, matching and ranking documents on their terms
+ * - DQL filters and queries (`field:value`, `field::value`, `,`, `|`, `!` and comparisons)
+ * - `term`, `nested` and `filter` aggregations
+ * - passages, offset and count
+ * - prefix autocompletions
+ */
+export class InMemorySearchClient implements SearchClient {
+  private documents: IndexedDocument[];
+  private collections: DiscoveryV2.Collection[];
+  private componentSettings: DiscoveryV2.ComponentSettingsResponse;
+  private bodyField: string;
+
+  public constructor({
+    documents,
+    collections = [DEFAULT_COLLECTION],
+    componentSettings,
+    bodyField = 'text',
+    titleField = 'title'
+  }: InMemorySearchClientOptions) {
+    this.collections = collections;
+    this.bodyField = bodyField;
+    this.componentSettings = componentSettings || {
+      fields_shown: { body: { use_passage: true, field: bodyField }, title: { field: titleField } },
+      autocomplete: true,
+      structured_search: false,
+      results_per_page: DEFAULT_COUNT,
+      aggregations: []
+    };
+    const defaultCollectionId = collections.length ? collections[0].collection_id : undefined;
+    this.documents = documents.map((document, index) => {
+      const { document_id, result_metadata = {}, ...fields } = document;
+      return {
+        document: {
+          ...fields,
+          document_id: document_id || `document_${index}`,
+          result_metadata: {
+            ...result_metadata,
+            collection_id: result_metadata.collection_id || defaultCollectionId || ''
+          }
+        },
+        terms: getTerms(getTextValues(fields).join(' '))
+      };
+    });
+  }
+
+  public async query(
+    params: DiscoveryV2.QueryParams & AbortableParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.QueryResponse>> {
+    checkSignal(params);
+    const {
+      naturalLanguageQuery = '',
+      query,
+      filter,
+      collectionIds,
+      aggregation,
+      passages = {},
+      offset = 0,
+      count = DEFAULT_COUNT
+    } = params;
+    const returnFields: string[] | undefined = get(params, 'returnFields');
+    const queryTerms = getTerms(naturalLanguageQuery);
+    const dql = [filter, query].filter((dql): dql is string => !!dql).map(dql => parseDql(dql));
+
+    const matches = this.documents
+      .filter(({ document }) => {
+        return (
+          (!collectionIds ||
+            !collectionIds.length ||
+            collectionIds.includes(document.result_metadata.collection_id)) &&
+          dql.every(node => matchesDql(document, node))
+        );
+      })
+      .map(indexedDocument => ({
+        ...indexedDocument,
+        score: indexedDocument.terms.filter(term => queryTerms.includes(term)).length
+      }))
+      .filter(({ score }) => !queryTerms.length || score > 0)
+      // Array.prototype.sort is not stable in every browser, so keep the corpus order on ties
+      .map((match, index) => ({ ...match, index }))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const maxScore = matches.length ? matches[0].score : 0;
+    const results = matches.slice(offset, offset + count).map(({ document, score }) => {
+      const result: DiscoveryV2.QueryResult = returnFields
+        ? this.pickFields(document, returnFields)
+        : { ...document };
+      if (queryTerms.length) {
+        result.result_metadata = {
+          ...result.result_metadata,
+          confidence: maxScore ? score / maxScore : 0
+        };
+        if (passages.enabled !== false) {
+          result.document_passages = this.getPassages(
+            document,
+            queryTerms,
+            passages.fields || [this.bodyField],
+            passages.characters || DEFAULT_PASSAGE_CHARACTERS
+          );
+        }
+      }
+      return result;
+    });
+
+    const response: DiscoveryV2.QueryResponse = {
+      matching_results: matches.length,
+      results,
+      retrieval_details: { document_retrieval_strategy: 'untrained' }
+    };
+    if (aggregation) {
+      response.aggregations = computeAggregations(
+        aggregation,
+        matches.map(({ document }) => document)
+      );
+    }
+    return toResponse(response);
+  }
+
+  public async getAutocompletion(
+    params: DiscoveryV2.GetAutocompletionParams & AbortableParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.Completions>> {
+    checkSignal(params);
+    const { prefix, field, count = DEFAULT_COMPLETIONS_COUNT } = params;
+    const lowerCasePrefix = prefix.toLowerCase();
+    const frequencies = new Map<string, number>();
+    this.documents.forEach(({ document, terms }) => {
+      const fieldTerms = field ? getTerms(getFieldValues(document, field).join(' ')) : terms;
+      fieldTerms
+        .filter(term => term.startsWith(lowerCasePrefix) && term !== lowerCasePrefix)
+        .forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    });
+    const completions = Array.from(frequencies.entries())
+      .sort(([termA, countA], [termB, countB]) => countB - countA || termA.localeCompare(termB))
+      .slice(0, count)
+      .map(([term]) => term);
+    return toResponse({ completions });
+  }
+
+  public async listCollections(
+    params: DiscoveryV2.ListCollectionsParams & AbortableParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.ListCollectionsResponse>> {
+    checkSignal(params);
+    return toResponse({ collections: this.collections });
+  }
+
+  public async getComponentSettings(
+    params: DiscoveryV2.GetComponentSettingsParams & AbortableParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.ComponentSettingsResponse>> {
+    checkSignal(params);
+    return toResponse(this.componentSettings);
+  }
+
+  public async listFields(
+    params: DiscoveryV2.ListFieldsParams & AbortableParams
+  ): Promise<DiscoveryV2.Response<DiscoveryV2.ListFieldsResponse>> {
+    checkSignal(params);
+    const fields = new Map<string, DiscoveryV2.Field>();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const addFields = (value: any, path: string, collectionId: string): void => {
+      Object.keys(value).forEach(key => {
+        const field = path ? `${path}.${key}` : key;
+        const values = Array.isArray(value[key]) ? value[key] : [value[key]];
+        values
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .filter((fieldValue: any) => fieldValue !== undefined && fieldValue !== null)
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .forEach((fieldValue: any) => {
+            const type = getFieldType(fieldValue);
+            const id = `${collectionId}:${field}`;
+            if (!fields.has(id)) {
+              fields.set(id, { field, type, collection_id: collectionId });
+            }
+            if (type === 'nested') {
+              addFields(fieldValue, field, collectionId);
+            }
+          });
+      });
+    };
+    this.documents.forEach(({ document: { document_id, result_metadata, ...document } }) => {
+      addFields(document, '', result_metadata.collection_id);
+    });
+    return toResponse({ fields: Array.from(fields.values()) });
+  }
+
+  private pickFields(
+    document: DiscoveryV2.QueryResult,
+    returnFields: string[]
+  ): DiscoveryV2.QueryResult {
+    const { document_id, result_metadata } = document;
+    return returnFields
+      .map(field => field.split('.')[0])
+      .filter(field => document[field] !== undefined)
+      .reduce((result, field) => ({ ...result, [field]: document[field] }), {
+        document_id,
+        result_metadata
+      });
+  }
+
+  private getPassages(
+    document: DiscoveryV2.QueryResult,
+    queryTerms: string[],
+    fields: string[],
+    characters: number
+  ): DiscoveryV2.QueryResultPassage[] {
+    const termPattern = new RegExp(
+      `(${queryTerms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+      'gi'
+    );
+    for (const field of fields) {
+      const text: string | undefined = getFieldValues(document, field)
+        .filter(value => typeof value === 'string')
+        .join('\n');
+      const matchIndex = text ? text.search(termPattern) : -1;
+      if (matchIndex >= 0) {
+        const start = Math.max(
+          0,
+          Math.min(matchIndex - Math.floor(characters / 2), text.length - characters)
+        );
+        const end = Math.min(text.length, start + characters);
+        const passageText = escapeHtml(text.slice(start, end)).replace(termPattern, '<em>$1</em>');
+        return [{ passage_text: passageText, start_offset: start, end_offset: end, field }];
+      }
+    }
+    return [];
+  }
+}
+
+export default InMemorySearchClient;
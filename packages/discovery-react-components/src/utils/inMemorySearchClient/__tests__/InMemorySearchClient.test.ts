@@ -0,0 +1,196 @@
+import { InMemorySearchClient } from '../InMemorySearchClient';
+
+const documents = [
+  {
+    document_id: 'doc1',
+    title: 'Watson Discovery',
+    text: 'Watson Discovery finds answers in your documents.',
+    author: 'Smith',
+    year: 2019,
+    enriched_text: { entities: [{ text: 'Watson', type: 'Product' }] }
+  },
+  {
+    document_id: 'doc2',
+    title: 'Search basics',
+    text: 'Search engines rank documents. Watson can search too.',
+    author: 'Jones',
+    year: 2015,
+    enriched_text: {
+      entities: [
+        { text: 'Watson', type: 'Product' },
+        { text: 'IBM', type: 'Company' }
+      ]
+    }
+  },
+  {
+    document_id: 'doc3',
+    title: 'Cooking',
+    text: 'Recipes for <b>pasta</b>.',
+    author: 'Smith',
+    year: 2010,
+    result_metadata: { collection_id: 'recipes' }
+  }
+];
+
+const collections = [
+  { collection_id: 'articles', name: 'Articles' },
+  { collection_id: 'recipes', name: 'Recipes' }
+];
+
+describe('InMemorySearchClient', () => {
+  const searchClient = new InMemorySearchClient({ documents, collections });
+
+  describe('query', () => {
+    test('returns every document without natural language query', async () => {
+      const { result } = await searchClient.query({ projectId: 'project' });
+      expect(result.matching_results).toEqual(3);
+      expect(result.results!.map(result => result.document_id)).toEqual(['doc1', 'doc2', 'doc3']);
+      expect(result.results![0].result_metadata.collection_id).toEqual('articles');
+      expect(result.results![2].result_metadata.collection_id).toEqual('recipes');
+    });
+
+    test('ranks the documents matching the natural language query', async () => {
+      const { result } = await searchClient.query({
+        projectId: 'project',
+        naturalLanguageQuery: 'search watson'
+      });
+      expect(result.results!.map(result => result.document_id)).toEqual(['doc2', 'doc1']);
+      expect(result.results![0].result_metadata.confidence).toEqual(1);
+      expect(result.results![0].document_passages).toEqual([
+        {
+          passage_text:
+            '<em>Search</em> engines rank documents. <em>Watson</em> can <em>search</em> too.',
+          start_offset: 0,
+          end_offset: 53,
+          field: 'text'
+        }
+      ]);
+    });
+
+    test('applies offset, count and passage settings', async () => {
+      const { result } = await searchClient.query({
+        projectId: 'project',
+        naturalLanguageQuery: 'documents',
+        offset: 1,
+        count: 1,
+        passages: { enabled: false }
+      });
+      expect(result.matching_results).toEqual(2);
+      expect(result.results!.map(result => result.document_id)).toEqual(['doc2']);
+      expect(result.results![0].document_passages).toBeUndefined();
+    });
+
+    test.each([
+      ['author:smith', ['doc1', 'doc3']],
+      ['author::smith', []],
+      ['author::"Smith"|"Jones"', ['doc1', 'doc2', 'doc3']],
+      ['author:Smith,year>2012', ['doc1']],
+      ['!author:smith', ['doc2']],
+      ['author:!smith', ['doc2']],
+      ['year<=2015,year>=2015', ['doc2']],
+      ['enriched_text.entities.text::IBM', ['doc2']],
+      ['title:watson|title:cook*', ['doc1', 'doc3']],
+      ['"pasta"', ['doc3']]
+    ])('filters the documents with %s', async (filter, expected) => {
+      const { result } = await searchClient.query({ projectId: 'project', filter });
+      expect(result.results!.map(result => result.document_id)).toEqual(expected);
+    });
+
+    test('filters the documents by collection', async () => {
+      const { result } = await searchClient.query({
+        projectId: 'project',
+        collectionIds: ['recipes']
+      });
+      expect(result.results!.map(result => result.document_id)).toEqual(['doc3']);
+    });
+
+    test('computes term aggregations over the matching documents', async () => {
+      const { result } = await searchClient.query({
+        projectId: 'project',
+        filter: 'year>2010',
+        aggregation:
+          '[term(author,count:1),nested(enriched_text.entities).term(enriched_text.entities.text,name:entities).term(enriched_text.entities.type,count:1)]'
+      });
+      expect(result.aggregations).toEqual([
+        {
+          type: 'term',
+          field: 'author',
+          count: 1,
+          results: [{ key: 'Jones', matching_results: 1 }]
+        },
+        {
+          type: 'nested',
+          path: 'enriched_text.entities',
+          matching_results: 2,
+          aggregations: [
+            {
+              type: 'term',
+              field: 'enriched_text.entities.text',
+              count: 10,
+              name: 'entities',
+              results: [
+                {
+                  key: 'Watson',
+                  matching_results: 2,
+                  aggregations: [
+                    {
+                      type: 'term',
+                      field: 'enriched_text.entities.type',
+                      count: 1,
+                      results: [{ key: 'Product', matching_results: 2 }]
+                    }
+                  ]
+                },
+                expect.objectContaining({ key: 'IBM', matching_results: 1 })
+              ]
+            }
+          ]
+        }
+      ]);
+    });
+
+    test('rejects aborted requests', async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+      await expect(
+        searchClient.query({ projectId: 'project', signal: abortController.signal })
+      ).rejects.toHaveProperty('name', 'AbortError');
+    });
+  });
+
+  test('returns prefix completions sorted by frequency', async () => {
+    const { result } = await searchClient.getAutocompletion({ projectId: 'project', prefix: 'Se' });
+    expect(result.completions).toEqual(['search']);
+    const { result: titleResult } = await searchClient.getAutocompletion({
+      projectId: 'project',
+      prefix: 'd',
+      field: 'title'
+    });
+    expect(titleResult.completions).toEqual(['discovery']);
+  });
+
+  test('lists the collections', async () => {
+    const { result } = await searchClient.listCollections({ projectId: 'project' });
+    expect(result.collections).toEqual(collections);
+  });
+
+  test('returns default component settings', async () => {
+    const { result } = await searchClient.getComponentSettings({ projectId: 'project' });
+    expect(result.fields_shown).toEqual({
+      body: { use_passage: true, field: 'text' },
+      title: { field: 'title' }
+    });
+  });
+
+  test('lists the fields found in the documents', async () => {
+    const { result } = await searchClient.listFields({ projectId: 'project' });
+    expect(result.fields).toEqual(
+      expect.arrayContaining([
+        { field: 'year', type: 'long', collection_id: 'articles' },
+        { field: 'enriched_text', type: 'nested', collection_id: 'articles' },
+        { field: 'enriched_text.entities.type', type: 'string', collection_id: 'articles' },
+        { field: 'title', type: 'string', collection_id: 'recipes' }
+      ])
+    );
+  });
+});
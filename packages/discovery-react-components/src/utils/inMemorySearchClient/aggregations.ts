@@ -0,0 +1,155 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { parseDql } from 'utils/dql/parseDql';
+import { getFieldValues } from './documentValues';
+import { matchesDql } from './matchesDql';
+
+interface AggregationCall {
+  type: string;
+  args: string[];
+}
+
+const DEFAULT_TERM_COUNT = 10;
+
+// split on the separator, ignoring separators within parentheses and quotes
+const splitTopLevel = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+    if (character === '"' && value[index - 1] !== '\\') {
+      quoted = !quoted;
+    } else if (!quoted && character === '(') {
+      depth++;
+    } else if (!quoted && character === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && character === separator) {
+      parts.push(value.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const parseChain = (aggregation: string): AggregationCall[] => {
+  const calls: AggregationCall[] = [];
+  const callPattern = /^\.?(\w+)\(/;
+  let rest = aggregation;
+  while (rest) {
+    const match = rest.match(callPattern);
+    if (!match) {
+      break;
+    }
+    // find the parenthesis closing this call
+    let depth = 0;
+    let end = match[0].length - 1;
+    for (; end < rest.length; end++) {
+      if (rest[end] === '(') {
+        depth++;
+      } else if (rest[end] === ')' && --depth === 0) {
+        break;
+      }
+    }
+    const content = rest.slice(match[0].length, end);
+    calls.push({
+      type: match[1],
+      args: match[1] === 'filter' ? [content] : splitTopLevel(content, ',')
+    });
+    rest = rest.slice(end + 1);
+  }
+  return calls;
+};
+
+const getOption = (args: string[], name: string): string | undefined => {
+  const option = args.find(arg => arg.startsWith(`${name}:`));
+  return option ? option.slice(name.length + 1) : undefined;
+};
+
+const computeAggregation = (
+  [call, ...rest]: AggregationCall[],
+  documents: object[]
+): DiscoveryV2.QueryAggregation | null => {
+  const computeSubAggregations = (
+    documents: object[]
+  ): { aggregations?: DiscoveryV2.QueryAggregation[] } => {
+    const subAggregation = rest.length ? computeAggregation(rest, documents) : null;
+    return subAggregation ? { aggregations: [subAggregation] } : {};
+  };
+
+  switch (call.type) {
+    case 'term': {
+      const [field] = call.args;
+      const countOption = getOption(call.args, 'count');
+      const count = countOption ? parseInt(countOption, 10) : DEFAULT_TERM_COUNT;
+      const name = getOption(call.args, 'name');
+      const buckets = new Map<string, object[]>();
+      documents.forEach(document => {
+        const keys = new Set(
+          getFieldValues(document, field)
+            .filter(value => typeof value !== 'object')
+            .map(String)
+        );
+        keys.forEach(key => buckets.set(key, [...(buckets.get(key) || []), document]));
+      });
+      const results = Array.from(buckets.entries())
+        .sort(([keyA, documentsA], [keyB, documentsB]) => {
+          return documentsB.length - documentsA.length || keyA.localeCompare(keyB);
+        })
+        .slice(0, count)
+        .map(([key, bucketDocuments]) => ({
+          key,
+          matching_results: bucketDocuments.length,
+          ...computeSubAggregations(bucketDocuments)
+        }));
+      return {
+        type: 'term',
+        field,
+        count,
+        ...(name ? { name } : {}),
+        results
+      } as DiscoveryV2.QueryTermAggregation;
+    }
+    case 'nested': {
+      const [path] = call.args;
+      return {
+        type: 'nested',
+        path,
+        matching_results: documents.length,
+        ...computeSubAggregations(documents)
+      } as DiscoveryV2.QueryNestedAggregation;
+    }
+    case 'filter': {
+      const [match] = call.args;
+      const filter = parseDql(match);
+      const filteredDocuments = documents.filter(document => matchesDql(document, filter));
+      return {
+        type: 'filter',
+        match,
+        matching_results: filteredDocuments.length,
+        ...computeSubAggregations(filteredDocuments)
+      } as DiscoveryV2.QueryFilterAggregation;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * compute the aggregations of an aggregation query over a set of documents. Supports the `term`,
+ * `nested` and `filter` aggregations, other aggregations are ignored
+ * @param aggregation - aggregation query, ie. `[term(author,count:3),term(subject)]`
+ * @param documents - documents matching the query
+ */
+export const computeAggregations = (
+  aggregation: string,
+  documents: object[]
+): DiscoveryV2.QueryAggregation[] => {
+  const unwrapped = aggregation.trim().replace(/^\[([\s\S]*)\]$/, '$1');
+  return splitTopLevel(unwrapped, ',')
+    .map(parseChain)
+    .filter(chain => chain.length > 0)
+    .map(chain => computeAggregation(chain, documents))
+    .filter((aggregation): aggregation is DiscoveryV2.QueryAggregation => !!aggregation);
+};
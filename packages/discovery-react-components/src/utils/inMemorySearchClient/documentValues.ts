@@ -0,0 +1,52 @@
+/**
+ * read every value of a field, following arrays on the way (ie. `enriched_text.entities.text`
+ * returns the text of every entity)
+ * @param document - document to read from
+ * @param field - dot separated field path
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const getFieldValues = (document: any, field: string): any[] => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let values: any[] = [document];
+  field.split('.').forEach(key => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const nextValues: any[] = [];
+    values.forEach(value => {
+      const child = value !== null && typeof value === 'object' ? value[key] : undefined;
+      (Array.isArray(child) ? child : [child])
+        .filter(item => item !== undefined && item !== null)
+        .forEach(item => nextValues.push(item));
+    });
+    values = nextValues;
+  });
+  return values;
+};
+
+/**
+ * read every string value of a document, at any depth
+ * @param value - document or value to read from
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const getTextValues = (value: any): string[] => {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((texts, item) => texts.concat(getTextValues(item)), []);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value).reduce(
+      (texts, key) => texts.concat(getTextValues(value[key])),
+      [] as string[]
+    );
+  }
+  return [];
+};
+
+/**
+ * split a text into lower case terms
+ * @param text - text to split
+ */
+export const getTerms = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) || [];
+};
@@ -0,0 +1,84 @@
+import { DqlNode, DqlConditionNode } from 'utils/dql/parseDql';
+import { getFieldValues, getTextValues } from './documentValues';
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` matches any characters
+const toRegExp = (value: string, exact: boolean): RegExp => {
+  const pattern = value
+    .split('*')
+    .map(escapeRegExp)
+    .join('.*');
+  return new RegExp(exact ? `^${pattern}$` : pattern, 'i');
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const compare = (documentValue: any, value: string): number => {
+  const documentNumber = Number(documentValue);
+  const number = Number(value);
+  if (value.trim() !== '' && !isNaN(number) && !isNaN(documentNumber)) {
+    return documentNumber - number;
+  }
+  const documentDate = Date.parse(documentValue);
+  const date = Date.parse(value);
+  if (!isNaN(date) && !isNaN(documentDate)) {
+    return documentDate - date;
+  }
+  return String(documentValue).localeCompare(value);
+};
+
+const matchesValue = (
+  documentValue: unknown,
+  { operator }: DqlConditionNode,
+  value: string
+): boolean => {
+  switch (operator) {
+    case ':':
+      return toRegExp(value, false).test(String(documentValue));
+    case '::':
+      return value.includes('*')
+        ? toRegExp(value, true).test(String(documentValue))
+        : String(documentValue) === value;
+    case '>':
+      return compare(documentValue, value) > 0;
+    case '>=':
+      return compare(documentValue, value) >= 0;
+    case '<':
+      return compare(documentValue, value) < 0;
+    case '<=':
+      return compare(documentValue, value) <= 0;
+  }
+};
+
+const matchesCondition = (document: object, condition: DqlConditionNode): boolean => {
+  const documentValues = getFieldValues(document, condition.field).filter(
+    value => typeof value !== 'object'
+  );
+  const matches = condition.values.some(value =>
+    documentValues.some(documentValue => matchesValue(documentValue, condition, value))
+  );
+  return condition.negated ? !matches : matches;
+};
+
+/**
+ * check whether a document matches a parsed DQL query
+ * @param document - document to check
+ * @param node - parsed DQL query
+ */
+export const matchesDql = (document: object, node: DqlNode | null): boolean => {
+  if (!node) {
+    return true;
+  }
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesDql(document, child));
+    case 'or':
+      return node.children.some(child => matchesDql(document, child));
+    case 'not':
+      return !matchesDql(document, node.child);
+    case 'condition':
+      return matchesCondition(document, node);
+    case 'text':
+      return getTextValues(document).some(text => toRegExp(node.value, false).test(text));
+  }
+};
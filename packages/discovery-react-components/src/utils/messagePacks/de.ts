@@ -0,0 +1,156 @@
+import { MessagePack } from './types';
+
+const de: MessagePack = {
+  SearchInput: {
+    placeholderText: 'Suchen',
+    closeButtonLabelText: 'Sucheingabe löschen',
+    removeRecentQueryLabelText: '{query} aus den letzten Suchen entfernen',
+    dqlModeToggleLabelText: 'Discovery Query Language',
+    dqlPlaceholderText: 'Mit der Discovery Query Language suchen',
+    dqlSyntaxErrorText: '{message} bei Zeichen {position}',
+    removeFilterTokenLabelText: 'Filter entfernen',
+    facetSuggestionText: '{value} in {facet}'
+  },
+  SearchResults: {
+    collectionLabel: 'Sammlung:',
+    viewExcerptInDocumentButtonText: 'Passage im Dokument anzeigen',
+    viewTableInDocumentButtonText: 'Tabelle im Dokument anzeigen',
+    tablesOnlyToggleLabelText: 'Nur Tabellenergebnisse anzeigen',
+    spellingSuggestionsPrefix: 'Meinten Sie:',
+    emptyResultContentBodyText: 'Auszug nicht verfügbar.',
+    noResultsFoundText: 'Es wurden keine Ergebnisse gefunden',
+    elementTableLabel: 'Tabellenausschnitt aus {documentName}',
+    relevantButtonText: 'Relevant',
+    notRelevantButtonText: 'Nicht relevant',
+    loadMoreResultsButtonText: 'Weitere Ergebnisse laden',
+    zeroResultsSuggestedQueryText: 'Stattdessen werden Ergebnisse für {query} angezeigt',
+    zeroResultsRemovedFilterText: 'Filter {filter} entfernt',
+    zeroResultsUndoButtonText: 'Rückgängig',
+    unauthorizedErrorText: 'Sie sind nicht berechtigt, dieses Projekt zu durchsuchen',
+    rateLimitErrorText:
+      'Es wurden zu viele Suchen gesendet. Warten Sie einen Moment und versuchen Sie es erneut',
+    invalidRequestErrorText:
+      'Die Suche konnte nicht ausgeführt werden, weil die Abfrage ungültig ist',
+    serverErrorText: 'Der Suchservice ist zurzeit nicht verfügbar. Versuchen Sie es später erneut',
+    genericErrorText: 'Bei der Suche ist ein Fehler aufgetreten'
+  },
+  SearchFacets: {
+    clearAllButtonText: 'Alle löschen',
+    clearFacetTitle: 'Alle ausgewählten Elemente löschen',
+    clearFacetSelectionTitle: 'Ausgewähltes Element löschen',
+    collapsedFacetShowMoreText: 'Mehr anzeigen',
+    collapsedFacetShowLessText: 'Weniger anzeigen',
+    collapsedFacetShowAllText: 'Alle anzeigen',
+    collectionSelectTitleText: 'Sammlungen',
+    collectionSelectLabel: 'Verfügbare Sammlungen',
+    dynamicFacetsLabel: 'Dynamische Facetten',
+    showMoreModalPrimaryButtonText: 'Anwenden',
+    showMoreModalSecondaryButtonText: 'Abbrechen',
+    showMoreModalAriaLabel: 'Dialog zum Auswählen und Abwählen von Facetten',
+    categoryExpandCollapseIconDescription: 'Ein-/Ausblenden',
+    modalSearchBarPrompt: 'Suchen',
+    emptyModalSearch: 'Es wurden keine Ergebnisse gefunden',
+    hierarchyExpandText: '{facetText} einblenden',
+    hierarchyCollapseText: '{facetText} ausblenden',
+    excludeFacetText: '{facetText} ausschließen',
+    rangeFacetMinLabelText: 'Minimum von {facet}',
+    rangeFacetMaxLabelText: 'Maximum von {facet}',
+    timelineFacetPresetsLabel: 'Vordefinierte Zeiträume',
+    timelineFacetPresetText: '{days, plural, one {Letzter Tag} other {Letzte # Tage}}',
+    timelineFacetBarLabelText:
+      '{start, date, medium}: {count, plural, one {# Ergebnis} other {# Ergebnisse}}',
+    timelineFacetStartSelectionText: 'Seit {start, date, medium}',
+    timelineFacetEndSelectionText: 'Bis {end, date, medium}',
+    unauthorizedErrorText: 'Sie sind nicht berechtigt, die Facetten dieses Projekts abzurufen',
+    rateLimitErrorText:
+      'Es wurden zu viele Anfragen gesendet. Warten Sie einen Moment und versuchen Sie es erneut',
+    invalidRequestErrorText:
+      'Die Facetten konnten nicht abgerufen werden, weil die Abfrage ungültig ist',
+    serverErrorText: 'Fehler beim Abrufen der Facetten.',
+    genericErrorText: 'Fehler beim Abrufen der Facetten.'
+  },
+  ResultsPagination: {
+    itemRangeText: '{min}–{max} von {total, plural, one {# Ergebnis} other {# Ergebnissen}}',
+    itemsPerPageText: 'Elemente pro Seite:',
+    pageRangeText: 'von {total, plural, one {# Seite} other {# Seiten}}'
+  },
+  ResultsSort: {
+    labelText: 'Sortieren nach',
+    relevanceOptionText: 'Relevanz',
+    ascendingOptionText: '{field} (aufsteigend)',
+    descendingOptionText: '{field} (absteigend)'
+  },
+  SelectedFilters: {
+    dynamicFacetsLabel: 'Dynamische Facetten',
+    collectionsLabel: 'Sammlungen',
+    removeFilterTitle: 'Entfernen',
+    clearAllButtonText: 'Alle löschen',
+    excludedValueText: 'Nicht {value}',
+    dateRangeStartText: 'Seit {start, date, medium}',
+    dateRangeEndText: 'Bis {end, date, medium}'
+  },
+  SavedSearches: {
+    saveSearchLabelText: 'Name der Suche',
+    saveSearchButtonText: 'Suche speichern',
+    noSavedSearchesText: 'Es gibt keine gespeicherten Suchen',
+    runSearchLabelText: 'Gespeicherte Suche {name} ausführen',
+    renameButtonText: 'Umbenennen',
+    deleteButtonText: 'Löschen',
+    renameLabelText: 'Neuer Name',
+    renameConfirmButtonText: 'Speichern',
+    renameCancelButtonText: 'Abbrechen',
+    storageErrorText: 'Die gespeicherten Suchen konnten nicht geladen oder aktualisiert werden'
+  },
+  StructuredQuery: {
+    ruleGroupDropdownText: '{dropdown} der folgenden Regeln erfüllen',
+    ruleGroupDropdownAllOptionText: 'alle',
+    ruleGroupDropdownAnyOptionText: 'eine',
+    ruleGroupDropdownLabelText:
+      'Wählen Sie aus, ob alle oder eine der folgenden Regeln erfüllt werden müssen',
+    fieldDropdownPlaceholderText: 'Feld auswählen',
+    fieldDropdownTitleText: 'Feld',
+    fieldDropdownLoadingText: 'Projektfelder werden geladen',
+    fieldDropdownErrorText: 'Fehler beim Laden der Projektfelder',
+    operatorDropdownIsOptionText: 'ist',
+    operatorDropdownIsNotOptionText: 'ist nicht',
+    operatorDropdownContainsOptionText: 'enthält',
+    operatorDropdownDoesNotContainOptionText: 'enthält nicht',
+    operatorDropdownPlaceholderText: 'Operator auswählen',
+    operatorDropdownTitleText: 'Operator',
+    valueInputLabelText: 'Wert',
+    valueInputPlaceholderText: 'Wert eingeben',
+    addRuleRowText: 'Regel hinzufügen',
+    removeRuleRowButtonIconDescription: 'Regel entfernen',
+    addRuleGroupText: 'Regelgruppe hinzufügen'
+  },
+  DocumentPreview: {
+    noDataMessage: 'Keine Dokumentdaten',
+    errorMessage: 'Fehler bei der Vorschau des Dokuments'
+  },
+  CIDocument: {
+    defaultDocumentName: 'Dokument',
+    attributesTabLabel: 'Attribute',
+    relationsTabLabel: 'Beziehungen',
+    filtersTabLabel: 'Filter',
+    metadataTabLabel: 'Metadaten',
+    parseErrorMessage: 'Beim Parsen des Dokuments ist ein Fehler aufgetreten',
+    contractCategoryLabel: 'Kategorie',
+    contractNatureLabel: 'Art',
+    contractPartyLabel: 'Partei',
+    contractAttributeLabel: 'Attribut',
+    invoiceAttributeLabel: 'Attribut',
+    invoiceRelationsLabel: 'Beziehung',
+    navigationToolbarLabel: 'Navigationsleiste',
+    noneLabel: 'Keine',
+    detailsTitle: 'Details',
+    noneSelectedMessage: 'Nichts ausgewählt',
+    filterTitle: 'Beschriftungen zum Filtern der Elemente auswählen',
+    resetFilterLabel: 'Filter zurücksetzen',
+    partiesHeading: 'Parteien',
+    previousLabel: 'Zurück',
+    nextLabel: 'Weiter',
+    navigation: 'Navigation der hervorgehobenen Elemente'
+  }
+};
+
+export default de;
@@ -0,0 +1,153 @@
+import { MessagePack } from './types';
+
+const es: MessagePack = {
+  SearchInput: {
+    placeholderText: 'Buscar',
+    closeButtonLabelText: 'Borrar la búsqueda',
+    removeRecentQueryLabelText: 'Eliminar {query} de las búsquedas recientes',
+    dqlModeToggleLabelText: 'Discovery Query Language',
+    dqlPlaceholderText: 'Buscar con Discovery Query Language',
+    dqlSyntaxErrorText: '{message} en el carácter {position}',
+    removeFilterTokenLabelText: 'Eliminar filtro',
+    facetSuggestionText: '{value} en {facet}'
+  },
+  SearchResults: {
+    collectionLabel: 'Colección:',
+    viewExcerptInDocumentButtonText: 'Ver el pasaje en el documento',
+    viewTableInDocumentButtonText: 'Ver la tabla en el documento',
+    tablesOnlyToggleLabelText: 'Mostrar solo resultados de tablas',
+    spellingSuggestionsPrefix: 'Quizás quiso decir:',
+    emptyResultContentBodyText: 'Extracto no disponible.',
+    noResultsFoundText: 'No se encontraron resultados',
+    elementTableLabel: 'Fragmento de tabla extraído de {documentName}',
+    relevantButtonText: 'Relevante',
+    notRelevantButtonText: 'No relevante',
+    loadMoreResultsButtonText: 'Cargar más resultados',
+    zeroResultsSuggestedQueryText: 'Se muestran resultados de {query} en su lugar',
+    zeroResultsRemovedFilterText: 'Se eliminó el filtro {filter}',
+    zeroResultsUndoButtonText: 'Deshacer',
+    unauthorizedErrorText: 'No tiene autorización para buscar en este proyecto',
+    rateLimitErrorText: 'Se enviaron demasiadas búsquedas. Espere un momento y vuelva a intentarlo',
+    invalidRequestErrorText: 'No se pudo completar la búsqueda porque la consulta no es válida',
+    serverErrorText:
+      'El servicio de búsqueda no está disponible en este momento. Vuelva a intentarlo más tarde',
+    genericErrorText: 'Se produjo un error al realizar la búsqueda'
+  },
+  SearchFacets: {
+    clearAllButtonText: 'Borrar todo',
+    clearFacetTitle: 'Borrar todos los elementos seleccionados',
+    clearFacetSelectionTitle: 'Borrar el elemento seleccionado',
+    collapsedFacetShowMoreText: 'Mostrar más',
+    collapsedFacetShowLessText: 'Mostrar menos',
+    collapsedFacetShowAllText: 'Mostrar todo',
+    collectionSelectTitleText: 'Colecciones',
+    collectionSelectLabel: 'Colecciones disponibles',
+    dynamicFacetsLabel: 'Facetas dinámicas',
+    showMoreModalPrimaryButtonText: 'Aplicar',
+    showMoreModalSecondaryButtonText: 'Cancelar',
+    showMoreModalAriaLabel: 'Ventana para seleccionar y deseleccionar facetas',
+    categoryExpandCollapseIconDescription: 'Expandir/Contraer',
+    modalSearchBarPrompt: 'Buscar',
+    emptyModalSearch: 'No se encontraron resultados',
+    hierarchyExpandText: 'Expandir {facetText}',
+    hierarchyCollapseText: 'Contraer {facetText}',
+    excludeFacetText: 'Excluir {facetText}',
+    rangeFacetMinLabelText: 'Mínimo de {facet}',
+    rangeFacetMaxLabelText: 'Máximo de {facet}',
+    timelineFacetPresetsLabel: 'Intervalos de fechas predefinidos',
+    timelineFacetPresetText: '{days, plural, one {Último día} other {Últimos # días}}',
+    timelineFacetBarLabelText:
+      '{start, date, medium}: {count, plural, one {# resultado} other {# resultados}}',
+    timelineFacetStartSelectionText: 'Desde {start, date, medium}',
+    timelineFacetEndSelectionText: 'Hasta {end, date, medium}',
+    unauthorizedErrorText: 'No tiene autorización para obtener las facetas de este proyecto',
+    rateLimitErrorText:
+      'Se enviaron demasiadas solicitudes. Espere un momento y vuelva a intentarlo',
+    invalidRequestErrorText: 'No se pudieron obtener las facetas porque la consulta no es válida',
+    serverErrorText: 'Error al obtener las facetas.',
+    genericErrorText: 'Error al obtener las facetas.'
+  },
+  ResultsPagination: {
+    itemRangeText: '{min}–{max} de {total, plural, one {# resultado} other {# resultados}}',
+    itemsPerPageText: 'Elementos por página:',
+    pageRangeText: 'de {total, plural, one {# página} other {# páginas}}'
+  },
+  ResultsSort: {
+    labelText: 'Ordenar por',
+    relevanceOptionText: 'Relevancia',
+    ascendingOptionText: '{field} (ascendente)',
+    descendingOptionText: '{field} (descendente)'
+  },
+  SelectedFilters: {
+    dynamicFacetsLabel: 'Facetas dinámicas',
+    collectionsLabel: 'Colecciones',
+    removeFilterTitle: 'Eliminar',
+    clearAllButtonText: 'Borrar todo',
+    excludedValueText: 'Excepto {value}',
+    dateRangeStartText: 'Desde {start, date, medium}',
+    dateRangeEndText: 'Hasta {end, date, medium}'
+  },
+  SavedSearches: {
+    saveSearchLabelText: 'Nombre de la búsqueda',
+    saveSearchButtonText: 'Guardar búsqueda',
+    noSavedSearchesText: 'No hay búsquedas guardadas',
+    runSearchLabelText: 'Ejecutar la búsqueda guardada {name}',
+    renameButtonText: 'Cambiar nombre',
+    deleteButtonText: 'Eliminar',
+    renameLabelText: 'Nuevo nombre',
+    renameConfirmButtonText: 'Guardar',
+    renameCancelButtonText: 'Cancelar',
+    storageErrorText: 'No se pudieron cargar ni actualizar las búsquedas guardadas'
+  },
+  StructuredQuery: {
+    ruleGroupDropdownText: 'Cumplir {dropdown} de las siguientes reglas',
+    ruleGroupDropdownAllOptionText: 'todas',
+    ruleGroupDropdownAnyOptionText: 'alguna',
+    ruleGroupDropdownLabelText: 'Elija si se deben cumplir todas o alguna de las siguientes reglas',
+    fieldDropdownPlaceholderText: 'Seleccionar campo',
+    fieldDropdownTitleText: 'Campo',
+    fieldDropdownLoadingText: 'Cargando los campos del proyecto',
+    fieldDropdownErrorText: 'Error al cargar los campos del proyecto',
+    operatorDropdownIsOptionText: 'es',
+    operatorDropdownIsNotOptionText: 'no es',
+    operatorDropdownContainsOptionText: 'contiene',
+    operatorDropdownDoesNotContainOptionText: 'no contiene',
+    operatorDropdownPlaceholderText: 'Seleccionar operador',
+    operatorDropdownTitleText: 'Operador',
+    valueInputLabelText: 'Valor',
+    valueInputPlaceholderText: 'Introducir valor',
+    addRuleRowText: 'Añadir regla',
+    removeRuleRowButtonIconDescription: 'Eliminar regla',
+    addRuleGroupText: 'Añadir grupo de reglas'
+  },
+  DocumentPreview: {
+    noDataMessage: 'No hay datos del documento',
+    errorMessage: 'Error al obtener la vista previa del documento'
+  },
+  CIDocument: {
+    defaultDocumentName: 'Documento',
+    attributesTabLabel: 'Atributos',
+    relationsTabLabel: 'Relaciones',
+    filtersTabLabel: 'Filtros',
+    metadataTabLabel: 'Metadatos',
+    parseErrorMessage: 'Se produjo un error al analizar el documento',
+    contractCategoryLabel: 'Categoría',
+    contractNatureLabel: 'Naturaleza',
+    contractPartyLabel: 'Parte',
+    contractAttributeLabel: 'Atributo',
+    invoiceAttributeLabel: 'Atributo',
+    invoiceRelationsLabel: 'Relación',
+    navigationToolbarLabel: 'Barra de navegación',
+    noneLabel: 'Ninguno',
+    detailsTitle: 'Detalles',
+    noneSelectedMessage: 'No hay nada seleccionado',
+    filterTitle: 'Seleccione etiquetas para filtrar los elementos',
+    resetFilterLabel: 'Restablecer filtros',
+    partiesHeading: 'Partes',
+    previousLabel: 'Anterior',
+    nextLabel: 'Siguiente',
+    navigation: 'Navegación de los elementos resaltados'
+  }
+};
+
+export default es;
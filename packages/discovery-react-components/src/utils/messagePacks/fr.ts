@@ -0,0 +1,152 @@
+import { MessagePack } from './types';
+
+const fr: MessagePack = {
+  SearchInput: {
+    placeholderText: 'Rechercher',
+    closeButtonLabelText: 'Effacer la recherche',
+    removeRecentQueryLabelText: 'Supprimer {query} des recherches récentes',
+    dqlModeToggleLabelText: 'Discovery Query Language',
+    dqlPlaceholderText: 'Rechercher avec le Discovery Query Language',
+    dqlSyntaxErrorText: '{message} au caractère {position}',
+    removeFilterTokenLabelText: 'Supprimer le filtre',
+    facetSuggestionText: '{value} dans {facet}'
+  },
+  SearchResults: {
+    collectionLabel: 'Collection :',
+    viewExcerptInDocumentButtonText: 'Afficher le passage dans le document',
+    viewTableInDocumentButtonText: 'Afficher le tableau dans le document',
+    tablesOnlyToggleLabelText: 'Afficher uniquement les tableaux',
+    spellingSuggestionsPrefix: 'Vouliez-vous dire :',
+    emptyResultContentBodyText: 'Extrait indisponible.',
+    noResultsFoundText: "Aucun résultat n'a été trouvé",
+    elementTableLabel: 'Extrait de tableau de {documentName}',
+    relevantButtonText: 'Pertinent',
+    notRelevantButtonText: 'Non pertinent',
+    loadMoreResultsButtonText: 'Charger plus de résultats',
+    zeroResultsSuggestedQueryText: 'Résultats affichés pour {query} à la place',
+    zeroResultsRemovedFilterText: 'Filtre {filter} supprimé',
+    zeroResultsUndoButtonText: 'Annuler',
+    unauthorizedErrorText: "Vous n'êtes pas autorisé à rechercher dans ce projet",
+    rateLimitErrorText: 'Trop de recherches ont été envoyées. Patientez un instant puis réessayez',
+    invalidRequestErrorText: "La recherche n'a pas pu aboutir car la requête n'est pas valide",
+    serverErrorText: 'Le service de recherche est actuellement indisponible. Réessayez plus tard',
+    genericErrorText: "Une erreur s'est produite lors de la recherche"
+  },
+  SearchFacets: {
+    clearAllButtonText: 'Tout effacer',
+    clearFacetTitle: 'Effacer tous les éléments sélectionnés',
+    clearFacetSelectionTitle: "Effacer l'élément sélectionné",
+    collapsedFacetShowMoreText: 'Afficher plus',
+    collapsedFacetShowLessText: 'Afficher moins',
+    collapsedFacetShowAllText: 'Tout afficher',
+    collectionSelectTitleText: 'Collections',
+    collectionSelectLabel: 'Collections disponibles',
+    dynamicFacetsLabel: 'Facettes dynamiques',
+    showMoreModalPrimaryButtonText: 'Appliquer',
+    showMoreModalSecondaryButtonText: 'Annuler',
+    showMoreModalAriaLabel: 'Fenêtre de sélection et de désélection des facettes',
+    categoryExpandCollapseIconDescription: 'Développer/Réduire',
+    modalSearchBarPrompt: 'Rechercher',
+    emptyModalSearch: "Aucun résultat n'a été trouvé",
+    hierarchyExpandText: 'Développer {facetText}',
+    hierarchyCollapseText: 'Réduire {facetText}',
+    excludeFacetText: 'Exclure {facetText}',
+    rangeFacetMinLabelText: 'Minimum de {facet}',
+    rangeFacetMaxLabelText: 'Maximum de {facet}',
+    timelineFacetPresetsLabel: 'Périodes prédéfinies',
+    timelineFacetPresetText: '{days, plural, one {Dernier jour} other {# derniers jours}}',
+    timelineFacetBarLabelText:
+      '{start, date, medium} : {count, plural, one {# résultat} other {# résultats}}',
+    timelineFacetStartSelectionText: 'Depuis le {start, date, medium}',
+    timelineFacetEndSelectionText: 'Jusqu’au {end, date, medium}',
+    unauthorizedErrorText: "Vous n'êtes pas autorisé à récupérer les facettes de ce projet",
+    rateLimitErrorText: 'Trop de requêtes ont été envoyées. Patientez un instant puis réessayez',
+    invalidRequestErrorText:
+      "Les facettes n'ont pas pu être récupérées car la requête n'est pas valide",
+    serverErrorText: 'Erreur lors de la récupération des facettes.',
+    genericErrorText: 'Erreur lors de la récupération des facettes.'
+  },
+  ResultsPagination: {
+    itemRangeText: '{min}–{max} sur {total, plural, one {# résultat} other {# résultats}}',
+    itemsPerPageText: 'Éléments par page :',
+    pageRangeText: 'sur {total, plural, one {# page} other {# pages}}'
+  },
+  ResultsSort: {
+    labelText: 'Trier par',
+    relevanceOptionText: 'Pertinence',
+    ascendingOptionText: '{field} (croissant)',
+    descendingOptionText: '{field} (décroissant)'
+  },
+  SelectedFilters: {
+    dynamicFacetsLabel: 'Facettes dynamiques',
+    removeFilterTitle: 'Supprimer',
+    clearAllButtonText: 'Tout effacer',
+    excludedValueText: 'Sauf {value}',
+    dateRangeStartText: 'Depuis le {start, date, medium}',
+    dateRangeEndText: 'Jusqu’au {end, date, medium}'
+  },
+  SavedSearches: {
+    saveSearchLabelText: 'Nom de la recherche',
+    saveSearchButtonText: 'Enregistrer la recherche',
+    noSavedSearchesText: "Il n'y a aucune recherche enregistrée",
+    runSearchLabelText: 'Lancer la recherche enregistrée {name}',
+    renameButtonText: 'Renommer',
+    deleteButtonText: 'Supprimer',
+    renameLabelText: 'Nouveau nom',
+    renameConfirmButtonText: 'Enregistrer',
+    renameCancelButtonText: 'Annuler',
+    storageErrorText: "Les recherches enregistrées n'ont pas pu être chargées ou mises à jour"
+  },
+  StructuredQuery: {
+    ruleGroupDropdownText: 'Respecter {dropdown} des règles suivantes',
+    ruleGroupDropdownAllOptionText: 'toutes',
+    ruleGroupDropdownAnyOptionText: "l'une",
+    ruleGroupDropdownLabelText:
+      "Choisissez s'il faut respecter toutes les règles suivantes ou l'une d'entre elles",
+    fieldDropdownPlaceholderText: 'Sélectionner un champ',
+    fieldDropdownTitleText: 'Champ',
+    fieldDropdownLoadingText: 'Chargement des champs du projet',
+    fieldDropdownErrorText: 'Erreur lors du chargement des champs du projet',
+    operatorDropdownIsOptionText: 'est',
+    operatorDropdownIsNotOptionText: "n'est pas",
+    operatorDropdownContainsOptionText: 'contient',
+    operatorDropdownDoesNotContainOptionText: 'ne contient pas',
+    operatorDropdownPlaceholderText: 'Sélectionner un opérateur',
+    operatorDropdownTitleText: 'Opérateur',
+    valueInputLabelText: 'Valeur',
+    valueInputPlaceholderText: 'Saisir une valeur',
+    addRuleRowText: 'Ajouter une règle',
+    removeRuleRowButtonIconDescription: 'Supprimer la règle',
+    addRuleGroupText: 'Ajouter un groupe de règles'
+  },
+  DocumentPreview: {
+    noDataMessage: 'Aucune donnée de document',
+    errorMessage: "Erreur lors de l'aperçu du document"
+  },
+  CIDocument: {
+    defaultDocumentName: 'Document',
+    attributesTabLabel: 'Attributs',
+    relationsTabLabel: 'Relations',
+    filtersTabLabel: 'Filtres',
+    metadataTabLabel: 'Métadonnées',
+    parseErrorMessage: "Une erreur s'est produite lors de l'analyse du document",
+    contractCategoryLabel: 'Catégorie',
+    contractNatureLabel: 'Nature',
+    contractPartyLabel: 'Partie',
+    contractAttributeLabel: 'Attribut',
+    invoiceAttributeLabel: 'Attribut',
+    invoiceRelationsLabel: 'Relation',
+    navigationToolbarLabel: 'Barre de navigation',
+    noneLabel: 'Aucun',
+    detailsTitle: 'Détails',
+    noneSelectedMessage: 'Aucune sélection',
+    filterTitle: 'Sélectionnez des libellés pour filtrer les éléments',
+    resetFilterLabel: 'Réinitialiser les filtres',
+    partiesHeading: 'Parties',
+    previousLabel: 'Précédent',
+    nextLabel: 'Suivant',
+    navigation: 'Navigation des éléments mis en évidence'
+  }
+};
+
+export default fr;
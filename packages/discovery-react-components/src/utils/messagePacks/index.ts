@@ -0,0 +1,24 @@
+import { MessagePack } from './types';
+import de from './de';
+import es from './es';
+import fr from './fr';
+import ja from './ja';
+
+export * from './types';
+
+/**
+ * message packs bundled with the components, by language
+ */
+export const messagePacks: { [language: string]: MessagePack } = { de, es, fr, ja };
+
+/**
+ * get the message pack of a locale, or of its language (ie. `de` for `de-CH`)
+ * @param locale - BCP 47 language tag
+ */
+export const getMessagePack = (locale?: string): MessagePack => {
+  if (!locale) {
+    return {};
+  }
+  const normalizedLocale = locale.toLowerCase();
+  return messagePacks[normalizedLocale] || messagePacks[normalizedLocale.split(/[-_]/)[0]] || {};
+};
@@ -0,0 +1,150 @@
+import { MessagePack } from './types';
+
+const ja: MessagePack = {
+  SearchInput: {
+    placeholderText: '検索',
+    closeButtonLabelText: '検索入力をクリア',
+    removeRecentQueryLabelText: '最近の検索から {query} を削除',
+    dqlModeToggleLabelText: 'Discovery Query Language',
+    dqlPlaceholderText: 'Discovery Query Language で検索',
+    dqlSyntaxErrorText: '{position} 文字目: {message}',
+    removeFilterTokenLabelText: 'フィルターを削除',
+    facetSuggestionText: '{facet} の {value}'
+  },
+  SearchResults: {
+    collectionLabel: 'コレクション:',
+    viewExcerptInDocumentButtonText: '文書内のパッセージを表示',
+    viewTableInDocumentButtonText: '文書内の表を表示',
+    tablesOnlyToggleLabelText: '表の結果のみを表示',
+    spellingSuggestionsPrefix: 'もしかして:',
+    emptyResultContentBodyText: '抜粋はありません。',
+    noResultsFoundText: '結果が見つかりませんでした',
+    elementTableLabel: '{documentName} から抽出された表',
+    relevantButtonText: '関連あり',
+    notRelevantButtonText: '関連なし',
+    loadMoreResultsButtonText: 'さらに結果を読み込む',
+    zeroResultsSuggestedQueryText: '代わりに {query} の結果を表示しています',
+    zeroResultsRemovedFilterText: 'フィルター {filter} を削除しました',
+    zeroResultsUndoButtonText: '元に戻す',
+    unauthorizedErrorText: 'このプロジェクトを検索する権限がありません',
+    rateLimitErrorText: '送信された検索が多すぎます。しばらく待ってから再試行してください',
+    invalidRequestErrorText: 'クエリーが無効なため、検索を完了できませんでした',
+    serverErrorText: '検索サービスは現在使用できません。後で再試行してください',
+    genericErrorText: '検索の実行中にエラーが発生しました'
+  },
+  SearchFacets: {
+    clearAllButtonText: 'すべてクリア',
+    clearFacetTitle: '選択されたすべての項目をクリア',
+    clearFacetSelectionTitle: '選択された項目をクリア',
+    collapsedFacetShowMoreText: 'さらに表示',
+    collapsedFacetShowLessText: '表示を減らす',
+    collapsedFacetShowAllText: 'すべて表示',
+    collectionSelectTitleText: 'コレクション',
+    collectionSelectLabel: '使用可能なコレクション',
+    dynamicFacetsLabel: '動的ファセット',
+    showMoreModalPrimaryButtonText: '適用',
+    showMoreModalSecondaryButtonText: 'キャンセル',
+    showMoreModalAriaLabel: 'ファセットを選択および選択解除するダイアログ',
+    categoryExpandCollapseIconDescription: '展開/折りたたみ',
+    modalSearchBarPrompt: '検索',
+    emptyModalSearch: '結果が見つかりませんでした',
+    hierarchyExpandText: '{facetText} を展開',
+    hierarchyCollapseText: '{facetText} を折りたたむ',
+    excludeFacetText: '{facetText} を除外',
+    rangeFacetMinLabelText: '{facet} の最小値',
+    rangeFacetMaxLabelText: '{facet} の最大値',
+    timelineFacetPresetsLabel: '定義済みの期間',
+    timelineFacetPresetText: '過去 {days} 日間',
+    timelineFacetBarLabelText: '{start, date, medium}: {count} 件',
+    timelineFacetStartSelectionText: '{start, date, medium} 以降',
+    timelineFacetEndSelectionText: '{end, date, medium} まで',
+    unauthorizedErrorText: 'このプロジェクトのファセットを取得する権限がありません',
+    rateLimitErrorText: '送信された要求が多すぎます。しばらく待ってから再試行してください',
+    invalidRequestErrorText: 'クエリーが無効なため、ファセットを取得できませんでした',
+    serverErrorText: 'ファセットの取得中にエラーが発生しました。',
+    genericErrorText: 'ファセットの取得中にエラーが発生しました。'
+  },
+  ResultsPagination: {
+    itemRangeText: '{min}–{max} 件 (全 {total} 件)',
+    itemsPerPageText: 'ページあたりの項目数:',
+    pageRangeText: '/ {total} ページ'
+  },
+  ResultsSort: {
+    labelText: '並べ替え',
+    relevanceOptionText: '関連度',
+    ascendingOptionText: '{field} (昇順)',
+    descendingOptionText: '{field} (降順)'
+  },
+  SelectedFilters: {
+    dynamicFacetsLabel: '動的ファセット',
+    collectionsLabel: 'コレクション',
+    removeFilterTitle: '削除',
+    clearAllButtonText: 'すべてクリア',
+    excludedValueText: '{value} 以外',
+    dateRangeStartText: '{start, date, medium} 以降',
+    dateRangeEndText: '{end, date, medium} まで'
+  },
+  SavedSearches: {
+    saveSearchLabelText: '検索の名前',
+    saveSearchButtonText: '検索を保存',
+    noSavedSearchesText: '保存された検索はありません',
+    runSearchLabelText: '保存された検索 {name} を実行',
+    renameButtonText: '名前変更',
+    deleteButtonText: '削除',
+    renameLabelText: '新しい名前',
+    renameConfirmButtonText: '保存',
+    renameCancelButtonText: 'キャンセル',
+    storageErrorText: '保存された検索を読み込みまたは更新できませんでした'
+  },
+  StructuredQuery: {
+    ruleGroupDropdownText: '次のルールの {dropdown} を満たす',
+    ruleGroupDropdownAllOptionText: 'すべて',
+    ruleGroupDropdownAnyOptionText: 'いずれか',
+    ruleGroupDropdownLabelText: '次のルールのすべてを満たすか、いずれかを満たすかを選択',
+    fieldDropdownPlaceholderText: 'フィールドを選択',
+    fieldDropdownTitleText: 'フィールド',
+    fieldDropdownLoadingText: 'プロジェクトのフィールドを読み込んでいます',
+    fieldDropdownErrorText: 'プロジェクトのフィールドの読み込み中にエラーが発生しました',
+    operatorDropdownIsOptionText: '等しい',
+    operatorDropdownIsNotOptionText: '等しくない',
+    operatorDropdownContainsOptionText: '含む',
+    operatorDropdownDoesNotContainOptionText: '含まない',
+    operatorDropdownPlaceholderText: '演算子を選択',
+    operatorDropdownTitleText: '演算子',
+    valueInputLabelText: '値',
+    valueInputPlaceholderText: '値を入力',
+    addRuleRowText: 'ルールを追加',
+    removeRuleRowButtonIconDescription: 'ルールを削除',
+    addRuleGroupText: 'ルールのグループを追加'
+  },
+  DocumentPreview: {
+    noDataMessage: '文書データがありません',
+    errorMessage: '文書のプレビュー中にエラーが発生しました'
+  },
+  CIDocument: {
+    defaultDocumentName: '文書',
+    attributesTabLabel: '属性',
+    relationsTabLabel: '関係',
+    filtersTabLabel: 'フィルター',
+    metadataTabLabel: 'メタデータ',
+    parseErrorMessage: '文書の解析中にエラーが発生しました',
+    contractCategoryLabel: 'カテゴリー',
+    contractNatureLabel: '性質',
+    contractPartyLabel: '当事者',
+    contractAttributeLabel: '属性',
+    invoiceAttributeLabel: '属性',
+    invoiceRelationsLabel: '関係',
+    navigationToolbarLabel: 'ナビゲーション・ツールバー',
+    noneLabel: 'なし',
+    detailsTitle: '詳細',
+    noneSelectedMessage: '何も選択されていません',
+    filterTitle: '要素をフィルターに掛けるラベルを選択',
+    resetFilterLabel: 'フィルターをリセット',
+    partiesHeading: '当事者',
+    previousLabel: '前へ',
+    nextLabel: '次へ',
+    navigation: '強調表示された項目のナビゲーション'
+  }
+};
+
+export default ja;
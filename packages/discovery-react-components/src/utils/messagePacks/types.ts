@@ -0,0 +1,41 @@
+import { Messages as SearchInputMessages } from 'components/SearchInput/messages';
+import { Messages as SearchResultsMessages } from 'components/SearchResults/messages';
+import { Messages as SearchFacetsMessages } from 'components/SearchFacets/messages';
+import { Messages as ResultsPaginationMessages } from 'components/ResultsPagination/messages';
+import { Messages as ResultsSortMessages } from 'components/ResultsSort/messages';
+import { Messages as SelectedFiltersMessages } from 'components/SelectedFilters/messages';
+import { Messages as SavedSearchesMessages } from 'components/SavedSearches/messages';
+import { Messages as StructuredQueryMessages } from 'components/StructuredQuery/messages';
+import { Messages as DocumentPreviewMessages } from 'components/DocumentPreview/messages';
+import { Messages as CIDocumentMessages } from 'components/CIDocument/components/CIDocument/messages';
+import { Messages as DetailsPaneMessages } from 'components/CIDocument/components/DetailsPane/messages';
+import { Messages as FilterPanelMessages } from 'components/CIDocument/components/FilterPanel/messages';
+import { Messages as MetadataPaneMessages } from 'components/CIDocument/components/MetadataPane/messages';
+import { Messages as NavigationToolbarMessages } from 'components/CIDocument/components/NavigationToolbar/messages';
+
+/**
+ * messages of each component
+ */
+export interface ComponentMessages {
+  SearchInput: SearchInputMessages;
+  SearchResults: SearchResultsMessages;
+  SearchFacets: SearchFacetsMessages;
+  ResultsPagination: ResultsPaginationMessages;
+  ResultsSort: ResultsSortMessages;
+  SelectedFilters: SelectedFiltersMessages;
+  SavedSearches: SavedSearchesMessages;
+  StructuredQuery: StructuredQueryMessages;
+  DocumentPreview: DocumentPreviewMessages;
+  CIDocument: DetailsPaneMessages &
+    FilterPanelMessages &
+    MetadataPaneMessages &
+    NavigationToolbarMessages &
+    CIDocumentMessages;
+}
+
+/**
+ * translated messages of the components for a locale. Missing messages are displayed in English
+ */
+export type MessagePack = {
+  [component in keyof ComponentMessages]?: Partial<ComponentMessages[component]>;
+};
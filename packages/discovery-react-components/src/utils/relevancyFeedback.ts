@@ -0,0 +1,127 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import {
+  SearchClient,
+  TrainingSearchClient,
+  TrainingSearchClientMethod
+} from 'components/DiscoverySearch/types';
+
+export type RelevancyRating = 'relevant' | 'not_relevant';
+
+/**
+ * relevance stored in the training examples for each rating. Discovery uses relevance values
+ * between 0 (not relevant) and 10 (most relevant)
+ */
+export const relevanceValues: { [rating in RelevancyRating]: number } = {
+  relevant: 10,
+  not_relevant: 0
+};
+
+export interface RelevancyFeedback {
+  projectId: string;
+  naturalLanguageQuery: string;
+  filter?: string;
+  documentId: string;
+  collectionId: string;
+  rating: RelevancyRating;
+}
+
+/**
+ * search client methods used to submit relevancy feedback
+ */
+export const trainingMethods: TrainingSearchClientMethod[] = [
+  'listTrainingQueries',
+  'createTrainingQuery',
+  'updateTrainingQuery'
+];
+
+/**
+ * check whether a search client can manage the training queries of the project
+ * @param searchClient - search client to check
+ */
+export const isTrainingSearchClient = (
+  searchClient: SearchClient
+): searchClient is TrainingSearchClient => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return trainingMethods.every(method => typeof (searchClient as any)[method] === 'function');
+};
+
+/**
+ * find the training query of a natural language query and filter. A missing filter matches an
+ * empty filter
+ * @param queries - training queries of the project
+ * @param naturalLanguageQuery - natural language query to find
+ * @param filter - filter of the query to find
+ */
+export const findTrainingQuery = (
+  queries: DiscoveryV2.TrainingQuery[],
+  naturalLanguageQuery: string,
+  filter?: string
+): DiscoveryV2.TrainingQuery | undefined => {
+  return queries.find(query => {
+    return (
+      query.natural_language_query === naturalLanguageQuery &&
+      (query.filter || '') === (filter || '')
+    );
+  });
+};
+
+/**
+ * add an example to the examples of a training query, replacing the example of the same document
+ * @param examples - current examples of the training query
+ * @param example - example to add
+ */
+export const mergeTrainingExample = (
+  examples: DiscoveryV2.TrainingExample[],
+  example: DiscoveryV2.TrainingExample
+): DiscoveryV2.TrainingExample[] => {
+  const otherExamples = examples
+    .filter(({ document_id, collection_id }) => {
+      return document_id !== example.document_id || collection_id !== example.collection_id;
+    })
+    // created and updated dates are set by the service
+    .map(({ document_id, collection_id, relevance }) => ({
+      document_id,
+      collection_id,
+      relevance
+    }));
+  return [...otherExamples, example];
+};
+
+/**
+ * store a relevancy rating in the training query of its natural language query and filter,
+ * creating the training query when it does not exist yet
+ * @param searchClient - search client managing the training queries
+ * @param feedback - rating of a document for a query
+ */
+export const saveRelevancyFeedback = async (
+  searchClient: TrainingSearchClient,
+  { projectId, naturalLanguageQuery, filter, documentId, collectionId, rating }: RelevancyFeedback
+): Promise<DiscoveryV2.TrainingQuery> => {
+  const example: DiscoveryV2.TrainingExample = {
+    document_id: documentId,
+    collection_id: collectionId,
+    relevance: relevanceValues[rating]
+  };
+  const {
+    result: { queries = [] }
+  } = await searchClient.listTrainingQueries({ projectId });
+  const trainingQuery = findTrainingQuery(queries, naturalLanguageQuery, filter);
+
+  if (trainingQuery && trainingQuery.query_id) {
+    const { result } = await searchClient.updateTrainingQuery({
+      projectId,
+      queryId: trainingQuery.query_id,
+      naturalLanguageQuery,
+      filter: trainingQuery.filter,
+      examples: mergeTrainingExample(trainingQuery.examples || [], example)
+    });
+    return result;
+  }
+  const { result } = await searchClient.createTrainingQuery({
+    projectId,
+    naturalLanguageQuery,
+    ...(filter ? { filter } : {}),
+    examples: [example]
+  });
+  return result;
+};
@@ -0,0 +1,94 @@
+/**
+ * error stored by the data stores when a request fails
+ */
+export interface SearchError {
+  /**
+   * HTTP status code of the failed request. Undefined when no response was received (ie. network errors)
+   */
+  status?: number;
+  /**
+   * error message returned by the service, or the client error message
+   */
+  message: string;
+  /**
+   * whether sending the same request again may succeed
+   */
+  retryable: boolean;
+  /**
+   * parameters of the request that failed
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any;
+}
+
+/**
+ * messages used to describe a failed request, based on its status code
+ */
+export interface SearchErrorMessages {
+  /**
+   * override the default text to show when a request is not authorized (401 and 403 status codes)
+   */
+  unauthorizedErrorText: string;
+  /**
+   * override the default text to show when too many requests were sent (429 status code)
+   */
+  rateLimitErrorText: string;
+  /**
+   * override the default text to show when the request is invalid, ie. a malformed query (400 status code)
+   */
+  invalidRequestErrorText: string;
+  /**
+   * override the default text to show when the service failed to process the request (5xx status codes)
+   */
+  serverErrorText: string;
+  /**
+   * override the default text to show for any other failed request
+   */
+  genericErrorText: string;
+}
+
+/**
+ * check whether a request failing with the given status code may succeed if sent again
+ * @param status - HTTP status code, undefined when no response was received
+ */
+export const isRetryableStatus = (status?: number): boolean => {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * convert an error thrown by the search client into a SearchError
+ * @param error - error thrown by the search client. The SDK sets the status code on `code`
+ * @param parameters - parameters of the request that failed
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const toSearchError = (error: any, parameters: any): SearchError => {
+  const rawStatus = error && (error.status || error.code);
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  return {
+    status,
+    message: (error && error.message) || (error ? String(error) : 'Request failed'),
+    retryable: isRetryableStatus(status),
+    parameters
+  };
+};
+
+/**
+ * pick the message describing a failed request
+ * @param error - the failed request error
+ * @param messages - messages to pick from
+ */
+export const getSearchErrorMessage = (
+  { status }: SearchError,
+  messages: SearchErrorMessages
+): string => {
+  if (status === 401 || status === 403) {
+    return messages.unauthorizedErrorText;
+  } else if (status === 429) {
+    return messages.rateLimitErrorText;
+  } else if (status === 400) {
+    return messages.invalidRequestErrorText;
+  } else if (status !== undefined && status >= 500) {
+    return messages.serverErrorText;
+  }
+  return messages.genericErrorText;
+};
@@ -0,0 +1,137 @@
+/**
+ * a search was submitted from the search input
+ */
+export interface SearchSubmittedEvent {
+  type: 'search_submitted';
+  naturalLanguageQuery: string;
+  /**
+   * Discovery Query Language query, when the search was submitted in the DQL mode
+   */
+  query?: string;
+}
+
+/**
+ * an autocompletion was selected in the search input
+ */
+export interface AutocompleteSelectedEvent {
+  type: 'autocomplete_selected';
+  completion: string;
+  /**
+   * 1-based position of the completion in the suggestions
+   */
+  position: number;
+  /**
+   * query of the search input once the completion is applied
+   */
+  naturalLanguageQuery: string;
+}
+
+/**
+ * the spelling suggestion of a search was searched for
+ */
+export interface SpellingSuggestionAcceptedEvent {
+  type: 'spelling_suggestion_accepted';
+  originalQuery: string;
+  suggestedQuery: string;
+}
+
+/**
+ * a facet value was selected or deselected
+ */
+export interface FacetToggledEvent {
+  type: 'facet_toggled';
+  facetType: 'field' | 'hierarchy' | 'dynamic' | 'collection' | 'range' | 'timeline';
+  /**
+   * field of the facet, for field, hierarchy, range and timeline facets
+   */
+  field?: string;
+  /**
+   * term of a field facet, path of a hierarchy facet, text of a dynamic facet, id of a collection or filter of a range or date range
+   */
+  value: string;
+  selected: boolean;
+  /**
+   * whether the term of a field facet is excluded instead of included
+   */
+  excluded?: boolean;
+}
+
+/**
+ * another page of results was requested
+ */
+export interface PageChangedEvent {
+  type: 'page_changed';
+  page: number;
+  previousPage: number;
+  pageSize: number;
+}
+
+/**
+ * the results were sorted differently
+ */
+export interface SortChangedEvent {
+  type: 'sort_changed';
+  /**
+   * `sort` query parameter, or an empty string when sorting by relevance
+   */
+  sort: string;
+  previousSort: string;
+}
+
+/**
+ * a search result was clicked
+ */
+export interface ResultClickedEvent {
+  type: 'result_clicked';
+  documentId: string;
+  collectionId?: string;
+  /**
+   * 1-based rank of the result across every page of results
+   */
+  rank: number;
+  /**
+   * 1-based position of the result in the current page
+   */
+  position: number;
+  /**
+   * element of the result which was clicked
+   */
+  elementType: 'passage' | 'table' | null;
+  /**
+   * link opened for the result, when results link to another page
+   */
+  link?: string;
+  naturalLanguageQuery?: string;
+}
+
+/**
+ * a document was displayed in the document preview
+ */
+export interface DocumentPreviewedEvent {
+  type: 'document_previewed';
+  documentId: string;
+  collectionId?: string;
+}
+
+/**
+ * an element of a document was selected in the CI document
+ */
+export interface CIElementSelectedEvent {
+  type: 'ci_element_selected';
+  documentId?: string;
+  elementId: string;
+  elementType?: string;
+}
+
+export type SearchEvent =
+  | SearchSubmittedEvent
+  | AutocompleteSelectedEvent
+  | SpellingSuggestionAcceptedEvent
+  | FacetToggledEvent
+  | PageChangedEvent
+  | SortChangedEvent
+  | ResultClickedEvent
+  | DocumentPreviewedEvent
+  | CIElementSelectedEvent;
+
+export type SearchEventType = SearchEvent['type'];
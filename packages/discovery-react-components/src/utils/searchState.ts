@@ -0,0 +1,72 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+
+/**
+ * version of the search state schema, incremented whenever the schema changes so older saved
+ * states can be migrated
+ */
+export const SEARCH_STATE_VERSION = 1;
+
+/**
+ * serializable state of a search, restored with `restoreSearchState`
+ */
+export interface SearchState {
+  version: typeof SEARCH_STATE_VERSION;
+  naturalLanguageQuery: string;
+  filter: string;
+  collectionIds: string[];
+  sort?: string;
+  /**
+   * number of results per page
+   */
+  count?: number;
+}
+
+/**
+ * get the serializable state of a search from its parameters
+ * @param parameters - parameters of the search
+ */
+export const toSearchState = ({
+  naturalLanguageQuery,
+  filter,
+  collectionIds,
+  sort,
+  count
+}: DiscoveryV2.QueryParams): SearchState => {
+  return {
+    version: SEARCH_STATE_VERSION,
+    naturalLanguageQuery: naturalLanguageQuery || '',
+    filter: filter || '',
+    collectionIds: collectionIds || [],
+    ...(sort ? { sort } : {}),
+    ...(count ? { count } : {})
+  };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * validate a search state read from a storage, ie. parsed from JSON
+ * @param value - search state to validate
+ * @throws when the value is not a search state of a supported version
+ */
+export const parseSearchState = (value: unknown): SearchState => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid search state');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { version, naturalLanguageQuery, filter, collectionIds, sort, count } = value as any;
+  if (version !== SEARCH_STATE_VERSION) {
+    throw new Error(`Unsupported search state version: ${version}`);
+  }
+  if (
+    !isString(naturalLanguageQuery) ||
+    !isString(filter) ||
+    !Array.isArray(collectionIds) ||
+    !collectionIds.every(isString) ||
+    (sort !== undefined && !isString(sort)) ||
+    (count !== undefined && !(Number.isInteger(count) && count > 0))
+  ) {
+    throw new Error('Invalid search state');
+  }
+  return toSearchState({ projectId: '', naturalLanguageQuery, filter, collectionIds, sort, count });
+};
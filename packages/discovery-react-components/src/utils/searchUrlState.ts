@@ -0,0 +1,133 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+
+/**
+ * options used to configure how the search state is stored in the URL
+ */
+export interface UrlStateOptions {
+  /**
+   * prefix added to every query string key written by the components, to avoid collisions with
+   * query string parameters owned by the application
+   */
+  paramPrefix?: string;
+  /**
+   * use `history.replaceState` instead of `history.pushState` when the search state changes
+   */
+  replace?: boolean;
+}
+
+/**
+ * search state that can be stored in (and restored from) the URL
+ */
+export interface UrlSearchState {
+  parameters: Pick<
+    DiscoveryV2.QueryParams,
+    'naturalLanguageQuery' | 'filter' | 'offset' | 'count' | 'collectionIds'
+  >;
+  selectedDocumentId?: string;
+}
+
+const URL_KEYS = {
+  naturalLanguageQuery: 'q',
+  filter: 'filter',
+  offset: 'offset',
+  count: 'count',
+  collectionIds: 'collections',
+  selectedDocumentId: 'document'
+};
+
+const getKeys = (paramPrefix: string = ''): typeof URL_KEYS => {
+  return Object.keys(URL_KEYS).reduce(
+    (keys, name) => ({ ...keys, [name]: `${paramPrefix}${URL_KEYS[name]}` }),
+    {} as typeof URL_KEYS
+  );
+};
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+  const parsedValue = parseInt(value, 10);
+  return isNaN(parsedValue) || parsedValue < 0 ? undefined : parsedValue;
+};
+
+/**
+ * check whether a query string contains any search state written by the components
+ * @param search - query string, usually `window.location.search`
+ * @param options - url state options
+ */
+export const hasUrlSearchState = (search: string, options: UrlStateOptions = {}): boolean => {
+  const searchParams = new URLSearchParams(search);
+  return Object.values(getKeys(options.paramPrefix)).some(key => searchParams.has(key));
+};
+
+/**
+ * read the search state from a query string. Parameters missing from the query string are set to
+ * their empty values so that navigating back to a less specific search clears them, except for
+ * `count` which is owned by the pagination settings when absent
+ * @param search - query string, usually `window.location.search`
+ * @param options - url state options
+ */
+export const parseUrlSearchState = (
+  search: string,
+  options: UrlStateOptions = {}
+): UrlSearchState => {
+  const keys = getKeys(options.paramPrefix);
+  const searchParams = new URLSearchParams(search);
+  const collections = searchParams.get(keys.collectionIds);
+  const parameters: UrlSearchState['parameters'] = {
+    naturalLanguageQuery: searchParams.get(keys.naturalLanguageQuery) || '',
+    filter: searchParams.get(keys.filter) || '',
+    offset: parseNumber(searchParams.get(keys.offset)) || 0,
+    collectionIds: collections ? collections.split(',').filter(Boolean) : []
+  };
+  const count = parseNumber(searchParams.get(keys.count));
+  if (count) {
+    parameters.count = count;
+  }
+
+  return {
+    parameters,
+    selectedDocumentId: searchParams.get(keys.selectedDocumentId) || undefined
+  };
+};
+
+/**
+ * write the search state into a query string, preserving any query string parameters that do
+ * not belong to the components
+ * @param search - current query string, usually `window.location.search`
+ * @param state - search state to serialize
+ * @param options - url state options
+ * @return the updated query string, including the leading `?` when not empty
+ */
+export const serializeUrlSearchState = (
+  search: string,
+  { parameters, selectedDocumentId }: UrlSearchState,
+  options: UrlStateOptions = {}
+): string => {
+  const keys = getKeys(options.paramPrefix);
+  const searchParams = new URLSearchParams(search);
+  Object.values(keys).forEach(key => searchParams.delete(key));
+
+  const { naturalLanguageQuery, filter, offset, count, collectionIds } = parameters;
+  if (naturalLanguageQuery) {
+    searchParams.set(keys.naturalLanguageQuery, naturalLanguageQuery);
+  }
+  if (filter) {
+    searchParams.set(keys.filter, filter);
+  }
+  if (offset) {
+    searchParams.set(keys.offset, offset.toString());
+  }
+  if (count) {
+    searchParams.set(keys.count, count.toString());
+  }
+  if (collectionIds && collectionIds.length) {
+    searchParams.set(keys.collectionIds, collectionIds.join(','));
+  }
+  if (selectedDocumentId) {
+    searchParams.set(keys.selectedDocumentId, selectedDocumentId);
+  }
+
+  const serialized = searchParams.toString();
+  return serialized ? `?${serialized}` : '';
+};
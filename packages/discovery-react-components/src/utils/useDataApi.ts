@@ -1,6 +1,8 @@
 import DiscoveryV2 from 'ibm-watson/discovery/v2';
 import { useState, useEffect, useReducer, useCallback, useRef } from 'react';
 import { SearchClient } from 'components/DiscoverySearch/types';
+import { abortable, isAbortError, useAbortController } from './abortable';
+import { SearchError, toSearchError } from './searchError';
 
 /**
  * generic reducer to handle updating loading, error, and data
@@ -13,20 +15,23 @@ const dataFetchReducer = (state: any, action: any) => {
       return {
         ...state,
         isLoading: true,
-        isError: false
+        isError: false,
+        error: null
       };
     case 'FETCH_SUCCESS':
       return {
         ...state,
         isLoading: false,
         isError: false,
+        error: null,
         data: action.payload
       };
     case 'FETCH_FAILURE':
       return {
         ...state,
         isLoading: false,
-        isError: true
+        isError: true,
+        error: action.payload
       };
     default:
       throw new Error();
@@ -75,7 +80,8 @@ interface FetchToken {
 
 /**
  * Custom hook that fetches and stores data while handling complex condidions such as:
- * - request cancellation
+ * - request cancellation (the signal of the previous in-flight request is aborted when a new one is
+ *   sent, and its response is discarded even if the search client ignores the signal)
  * - latest data fetching
  * - error handling
  * @param initialParameters - initial parameters used with this API
@@ -94,12 +100,15 @@ const useDataApi = (
   const cancelToken = useRef(false);
   // counter to keep track of the most recent API request
   const requestIdRef = useRef(0);
+  // aborts the previous in-flight request whenever a new one is sent
+  const nextAbortSignal = useAbortController();
   // token used to invoke the API call and optionally return the response data to the callback
   const [fetchToken, setFetchToken] = useState<FetchToken>({ trigger: false, callback: undefined });
   const [parameters, setParameters] = useState(initialParameters);
   const [state, dispatch] = useReducer(dataFetchReducer, {
     isLoading: false,
     isError: false,
+    error: null,
     data: initialData
   });
 
@@ -109,9 +118,13 @@ const useDataApi = (
 
   const fetchData = useCallback(
     async (parameters, requestId, callback): Promise<void> => {
+      const signal = nextAbortSignal();
       dispatch({ type: 'FETCH_REQUEST' });
       try {
-        const { result } = await searchClientMethod.call(searchClient, parameters);
+        const { result } = await abortable(
+          Promise.resolve(searchClientMethod.call(searchClient, { ...parameters, signal })),
+          signal
+        );
         // before storing the data, make sure the component hasn't been unmounted
         // and make sure this request is the most recent one (discard old requests)
         if (!cancelToken.current && requestId === requestIdRef.current) {
@@ -121,12 +134,13 @@ const useDataApi = (
           }
         }
       } catch (error) {
-        if (!cancelToken.current) {
-          dispatch({ type: 'FETCH_FAILURE' });
+        // aborted requests were replaced by a newer request, so they are not failures
+        if (!cancelToken.current && !isAbortError(error)) {
+          dispatch({ type: 'FETCH_FAILURE', payload: toSearchError(error, parameters) });
         }
       }
     },
-    [searchClient, searchClientMethod]
+    [searchClient, searchClientMethod, nextAbortSignal]
   );
 
   // in order to prevent state updates after component unmount, set the cancel token
@@ -156,6 +170,10 @@ const useDataApi = (
 interface ReducerState {
   isLoading: boolean;
   isError: boolean;
+  /**
+   * details of the last failed request, null when the last request succeeded
+   */
+  error: SearchError | null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -329,6 +347,66 @@ export const useFetchDocumentsApi = (
   ];
 };
 
+/**
+ * concrete implementation of the reducer state for fetching more results
+ */
+export interface FetchMoreResultsStore extends ReducerState {
+  data: DiscoveryV2.QueryResponse | null;
+  parameters: DiscoveryV2.QueryParams;
+}
+
+/**
+ * fetch more results actions used to interact with the search API and search state
+ */
+export interface FetchMoreResultsActions {
+  /**
+   * method used to invoke the search request for another page with a callback to return the response data
+   */
+  fetchMoreResults: (
+    searchParameters: DiscoveryV2.QueryParams,
+    callback: (result: DiscoveryV2.QueryResponse) => void
+  ) => void;
+}
+
+/**
+ * concrete usage of the useDataApi helper method for fetching the next pages of a search
+ * @param searchParameters - initial search parameters to set
+ * @param searchClient - search client used to perform requests
+ * @return a 2-element array containing the fetch more results store data and fetchMoreResults-specific store actions
+ */
+export const useFetchMoreResultsApi = (
+  searchParameters: DiscoveryV2.QueryParams,
+  searchClient: SearchClient
+): [FetchMoreResultsStore, FetchMoreResultsActions] => {
+  const {
+    state: searchState,
+    parameters: currentSearchParameters,
+    setParameters: setSearchParameters,
+    setFetchToken
+  } = useDataApi(searchParameters, null, searchClient.query, searchClient);
+
+  const fetchMoreResults = useCallback(
+    (
+      searchParameters: DiscoveryV2.QueryParams,
+      callback: (result: DiscoveryV2.QueryResponse) => void
+    ): void => {
+      setSearchParameters(searchParameters);
+      setFetchToken({ trigger: true, callback });
+    },
+    [setSearchParameters, setFetchToken]
+  );
+
+  return [
+    {
+      ...searchState,
+      parameters: currentSearchParameters
+    },
+    {
+      fetchMoreResults
+    }
+  ];
+};
+
 /**
  * concrete implementation of the reducer state for fetch documents
  */
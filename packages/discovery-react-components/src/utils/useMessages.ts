@@ -0,0 +1,24 @@
+import { useContext } from 'react';
+import { SearchContext } from 'components/DiscoverySearch/DiscoverySearch';
+import { useDeepCompareMemo } from './useDeepCompareMemoize';
+import { ComponentMessages, getMessagePack } from './messagePacks';
+
+/**
+ * get the messages of a component, translated with the message pack of the locale of
+ * `DiscoverySearch` and overridden by the messages passed to the component
+ * @param component - name of the component
+ * @param defaultMessages - English messages of the component
+ * @param messages - messages passed to the component
+ */
+export const useMessages = <K extends keyof ComponentMessages>(
+  component: K,
+  defaultMessages: ComponentMessages[K],
+  messages: Partial<ComponentMessages[K]> = {}
+): ComponentMessages[K] => {
+  const { locale } = useContext(SearchContext);
+  // keep the same object while the messages are unchanged, so they can be effect dependencies
+  return useDeepCompareMemo(
+    () => ({ ...defaultMessages, ...getMessagePack(locale)[component], ...messages }),
+    [component, defaultMessages, locale, messages]
+  );
+};
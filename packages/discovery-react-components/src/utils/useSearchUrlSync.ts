@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import {
+  UrlStateOptions,
+  UrlSearchState,
+  hasUrlSearchState,
+  parseUrlSearchState,
+  serializeUrlSearchState
+} from './searchUrlState';
+
+interface UseSearchUrlSyncParams {
+  /**
+   * whether the search state should be synchronized with the URL
+   */
+  enabled: boolean;
+  /**
+   * url state options
+   */
+  options?: UrlStateOptions;
+  /**
+   * parameters of the current search
+   */
+  searchParameters: DiscoveryV2.QueryParams;
+  /**
+   * response of the current search
+   */
+  searchResponse: DiscoveryV2.QueryResponse | null;
+  /**
+   * document of the currently selected result
+   */
+  selectedDocument: DiscoveryV2.QueryResult | null;
+  /**
+   * method used to run a search restored from the URL
+   */
+  performSearch: (searchParameters: DiscoveryV2.QueryParams) => void;
+  /**
+   * method used to select the document restored from the URL
+   */
+  setSelectedDocument: (document: DiscoveryV2.QueryResult | null) => void;
+}
+
+const canUseHistory = (): boolean =>
+  typeof window !== 'undefined' && !!window.history && !!window.location;
+
+/**
+ * Keeps the search parameters and selected document in sync with the URL query string:
+ * - restores (and runs) the search found in the URL on load
+ * - writes a history entry every time a search response or the selected document changes, and
+ *   replaces the entry of a restored search instead
+ * - restores the search when navigating back and forward through the history
+ */
+export const useSearchUrlSync = ({
+  enabled,
+  options = {},
+  searchParameters,
+  searchResponse,
+  selectedDocument,
+  performSearch,
+  setSelectedDocument
+}: UseSearchUrlSyncParams): void => {
+  // search state read from the URL, waiting to be applied on the next render so that parameters
+  // set by child components when mounting (ie. count) are not overwritten
+  const [pendingRestore, setPendingRestore] = useState<UrlSearchState | null>(null);
+  // document id restored from the URL, waiting for the search response containing it
+  const pendingDocumentIdRef = useRef<string | undefined>(undefined);
+  // response displayed when a search was restored, the next response is the one of the restored
+  // search. Writing it replaces the history entry, which was just restored
+  const responseBeforeRestoreRef = useRef<DiscoveryV2.QueryResponse | null | undefined>(undefined);
+  // keep references to the latest values to avoid re-registering listeners on every render
+  const latestRef = useRef({
+    searchParameters,
+    searchResponse,
+    performSearch,
+    setSelectedDocument,
+    options
+  });
+  latestRef.current = {
+    searchParameters,
+    searchResponse,
+    performSearch,
+    setSelectedDocument,
+    options
+  };
+
+  useEffect(() => {
+    if (!enabled || !canUseHistory()) {
+      return;
+    }
+    if (hasUrlSearchState(window.location.search, latestRef.current.options)) {
+      setPendingRestore(parseUrlSearchState(window.location.search, latestRef.current.options));
+    }
+    const handlePopState = (): void => {
+      const restoredState = parseUrlSearchState(window.location.search, latestRef.current.options);
+      // the restore is pending before deselecting, so the deselection doesn't write to the URL
+      setPendingRestore(restoredState);
+      if (!restoredState.selectedDocumentId) {
+        latestRef.current.setSelectedDocument(null);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return (): void => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (pendingRestore) {
+      pendingDocumentIdRef.current = pendingRestore.selectedDocumentId;
+      responseBeforeRestoreRef.current = latestRef.current.searchResponse;
+      latestRef.current.performSearch({
+        ...latestRef.current.searchParameters,
+        ...pendingRestore.parameters
+      });
+      setPendingRestore(null);
+    }
+  }, [pendingRestore]);
+
+  const selectedDocumentId = selectedDocument ? selectedDocument.document_id : undefined;
+  useEffect(() => {
+    if (!enabled || !canUseHistory() || !searchResponse || pendingRestore) {
+      return;
+    }
+
+    const isRestoredSearch =
+      responseBeforeRestoreRef.current !== undefined &&
+      responseBeforeRestoreRef.current !== searchResponse;
+    if (isRestoredSearch) {
+      responseBeforeRestoreRef.current = undefined;
+    }
+
+    let documentId = selectedDocumentId;
+    const pendingDocumentId = pendingDocumentIdRef.current;
+    if (pendingDocumentId) {
+      pendingDocumentIdRef.current = undefined;
+      const restoredDocument = (searchResponse.results || []).find(
+        result => result.document_id === pendingDocumentId
+      );
+      if (restoredDocument) {
+        documentId = pendingDocumentId;
+        latestRef.current.setSelectedDocument(restoredDocument);
+      }
+    }
+
+    const { paramPrefix, replace } = latestRef.current.options;
+    const { naturalLanguageQuery, filter, offset, count, collectionIds } = searchParameters;
+    const currentSearch = window.location.search;
+    const currentState = serializeUrlSearchState(
+      currentSearch,
+      parseUrlSearchState(currentSearch, { paramPrefix }),
+      { paramPrefix }
+    );
+    const nextState = serializeUrlSearchState(
+      currentSearch,
+      {
+        parameters: { naturalLanguageQuery, filter, offset, count, collectionIds },
+        selectedDocumentId: documentId
+      },
+      { paramPrefix }
+    );
+    if (nextState !== currentState) {
+      const url = `${window.location.pathname}${nextState}${window.location.hash}`;
+      // parameters missing from a restored URL, ie. the count set by the pagination, must not add
+      // a history entry, or going back would restore the same search again
+      if (replace || isRestoredSearch) {
+        window.history.replaceState(window.history.state, '', url);
+      } else {
+        window.history.pushState(window.history.state, '', url);
+      }
+    }
+    // only write to the URL when a new search response arrives or the selection changes,
+    // not while the search parameters are being edited
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, searchResponse, selectedDocumentId]);
+};
+
+export default useSearchUrlSync;
@@ -0,0 +1,169 @@
+import {
+  SearchClient,
+  SearchClientMethod,
+  TrainingSearchClientMethod
+} from 'components/DiscoverySearch/types';
+import { wrapSearchClient } from './wrapSearchClient';
+
+/**
+ * a cached search client response
+ */
+export interface CacheEntry {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  response: any;
+  /**
+   * time (in milliseconds since epoch) after which the response is stale
+   */
+  expiresAt: number;
+}
+
+/**
+ * storage used by the cache. `keys` must return the keys from the least to the most recently set,
+ * which is used to evict the least recently used entries
+ */
+export interface CacheStore {
+  get: (key: string) => CacheEntry | undefined;
+  set: (key: string, entry: CacheEntry) => void;
+  delete: (key: string) => void;
+  clear: () => void;
+  keys: () => string[];
+}
+
+/**
+ * options used to cache search client responses
+ */
+export interface CacheOptions {
+  /**
+   * time in milliseconds a response is reused for
+   */
+  ttl?: number;
+  /**
+   * maximum number of cached responses. The least recently used response is evicted first
+   */
+  maxEntries?: number;
+  /**
+   * search client methods whose responses are cached. The training queries are not cached by
+   * default, as every relevancy feedback changes them
+   */
+  methods?: Partial<Record<SearchClientMethod | TrainingSearchClientMethod, boolean>>;
+  /**
+   * storage used by the cache, defaults to an in-memory store
+   */
+  store?: CacheStore;
+}
+
+export const defaultCacheOptions: Required<Omit<CacheOptions, 'store'>> = {
+  ttl: 5 * 60 * 1000,
+  maxEntries: 100,
+  methods: {
+    query: true,
+    getAutocompletion: true,
+    listFields: true,
+    listCollections: true,
+    getComponentSettings: false,
+    listTrainingQueries: false,
+    createTrainingQuery: false,
+    updateTrainingQuery: false
+  }
+};
+
+/**
+ * create a cache store keeping the entries in memory
+ */
+export const createMemoryCacheStore = (): CacheStore => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: key => entries.get(key),
+    set: (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: key => {
+      entries.delete(key);
+    },
+    clear: () => entries.clear(),
+    keys: () => Array.from(entries.keys())
+  };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined && key !== 'signal')
+      .reduce((normalized, key) => ({ ...normalized, [key]: normalize(value[key]) }), {});
+  }
+  return value;
+};
+
+/**
+ * build the cache key of a request. Parameters are sorted and undefined values are dropped so that
+ * equivalent requests share the same key
+ * @param method - search client method
+ * @param params - request parameters
+ */
+export const getCacheKey = (
+  method: SearchClientMethod | TrainingSearchClientMethod,
+  params: any // eslint-disable-line @typescript-eslint/no-explicit-any
+): string => {
+  return `${method}:${JSON.stringify(normalize(params || {}))}`;
+};
+
+/**
+ * remove cached responses
+ * @param store - cache store
+ * @param method - only remove the responses of this search client method
+ */
+export const invalidateCache = (
+  store: CacheStore,
+  method?: SearchClientMethod | TrainingSearchClientMethod
+): void => {
+  if (!method) {
+    store.clear();
+    return;
+  }
+  store
+    .keys()
+    .filter(key => key.startsWith(`${method}:`))
+    .forEach(key => store.delete(key));
+};
+
+/**
+ * Creates a search client that resolves repeated requests from a cache. Only successful responses
+ * are cached
+ * @param searchClient - search client used to send the requests
+ * @param cacheOptions - options used to cache the responses
+ */
+export const withCache = (
+  searchClient: SearchClient,
+  cacheOptions: CacheOptions = {}
+): SearchClient => {
+  const { ttl, maxEntries } = { ...defaultCacheOptions, ...cacheOptions };
+  const methods = { ...defaultCacheOptions.methods, ...cacheOptions.methods };
+  const store = cacheOptions.store || createMemoryCacheStore();
+
+  return wrapSearchClient(searchClient, (method, request) => {
+    if (!methods[method]) {
+      return request;
+    }
+    return async params => {
+      const key = getCacheKey(method, params);
+      const entry = store.get(key);
+      store.delete(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        // set the entry again to mark it as the most recently used
+        store.set(key, entry);
+        return entry.response;
+      }
+
+      const response = await request(params);
+      store.set(key, { response, expiresAt: Date.now() + ttl });
+      const keys = store.keys();
+      keys.slice(0, Math.max(keys.length - maxEntries, 0)).forEach(key => store.delete(key));
+      return response;
+    };
+  });
+};
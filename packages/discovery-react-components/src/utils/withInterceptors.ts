@@ -0,0 +1,93 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import {
+  SearchClient,
+  SearchClientMethod,
+  TrainingSearchClientMethod
+} from 'components/DiscoverySearch/types';
+import { wrapSearchClient, SearchClientRequest } from './wrapSearchClient';
+
+/**
+ * details of the intercepted request, shared by the hooks of an interceptor for a single request
+ */
+export interface InterceptorContext {
+  /**
+   * search client method of the request
+   */
+  method: SearchClientMethod | TrainingSearchClientMethod;
+  /**
+   * parameters sent by this interceptor, once transformed by its `request` hook
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params: any;
+  /**
+   * time (in milliseconds since epoch) the request reached this interceptor
+   */
+  startTime: number;
+}
+
+/**
+ * Middleware wrapping every search client request. Every hook can be async.
+ * `request` hooks run in the order of the interceptors, `response` and `error` hooks in reverse
+ * order, so the first interceptor sees the final response
+ */
+export interface SearchClientInterceptor {
+  /**
+   * transform the parameters before the request is sent
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  request?: (params: any, context: InterceptorContext) => any | Promise<any>;
+  /**
+   * transform or inspect the response of a successful request
+   */
+  response?: (
+    response: DiscoveryV2.Response<any>, // eslint-disable-line @typescript-eslint/no-explicit-any
+    context: InterceptorContext
+  ) => DiscoveryV2.Response<any> | Promise<DiscoveryV2.Response<any>>; // eslint-disable-line @typescript-eslint/no-explicit-any
+  /**
+   * inspect the error of a failed request. Throw an error to fail the request, or return a
+   * response to recover from it
+   */
+  error?: (
+    error: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+    context: InterceptorContext
+  ) => DiscoveryV2.Response<any> | Promise<DiscoveryV2.Response<any>>; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+const intercept = (
+  method: SearchClientMethod | TrainingSearchClientMethod,
+  interceptor: SearchClientInterceptor,
+  next: SearchClientRequest
+): SearchClientRequest => async params => {
+  const context: InterceptorContext = { method, params, startTime: Date.now() };
+  if (interceptor.request) {
+    context.params = await interceptor.request(params, context);
+  }
+  let response;
+  try {
+    response = await next(context.params);
+  } catch (error) {
+    if (!interceptor.error) {
+      throw error;
+    }
+    return interceptor.error(error, context);
+  }
+  return interceptor.response ? interceptor.response(response, context) : response;
+};
+
+/**
+ * Creates a search client sending every request through a chain of interceptors
+ * @param searchClient - search client used to send the requests
+ * @param getInterceptors - returns the interceptors to use, read every time a request is sent
+ */
+export const withInterceptors = (
+  searchClient: SearchClient,
+  getInterceptors: () => SearchClientInterceptor[]
+): SearchClient => {
+  return wrapSearchClient(searchClient, (method, request) => params => {
+    const chain = getInterceptors().reduceRight<SearchClientRequest>(
+      (next, interceptor) => intercept(method, interceptor, next),
+      request
+    );
+    return chain(params);
+  });
+};
@@ -0,0 +1,151 @@
+import {
+  SearchClient,
+  SearchClientMethod,
+  TrainingSearchClientMethod
+} from 'components/DiscoverySearch/types';
+import { createAbortError, isAbortError } from './abortable';
+import { SearchError, toSearchError } from './searchError';
+import { wrapSearchClient } from './wrapSearchClient';
+
+/**
+ * options used to retry failed requests
+ */
+export interface RetryPolicy {
+  /**
+   * maximum number of attempts, including the first request
+   */
+  maxAttempts?: number;
+  /**
+   * delay in milliseconds before the first retry. The delay doubles with every retry
+   */
+  backoffBase?: number;
+  /**
+   * maximum delay in milliseconds between two attempts
+   */
+  maxDelay?: number;
+  /**
+   * ratio (between 0 and 1) of the delay that is randomized, to avoid retrying many requests at the same time
+   */
+  jitter?: number;
+  /**
+   * status codes of the requests to retry. Requests failing without a response (ie. network errors) are always retried
+   */
+  retryOn?: number[];
+}
+
+/**
+ * details of a request about to be retried
+ */
+export interface RetryEvent {
+  /**
+   * search client method of the failed request
+   */
+  method: SearchClientMethod | TrainingSearchClientMethod;
+  /**
+   * number of the upcoming attempt, starting at 2 for the first retry
+   */
+  attempt: number;
+  /**
+   * delay in milliseconds before the request is sent again
+   */
+  delay: number;
+  /**
+   * error of the failed attempt
+   */
+  error: SearchError;
+}
+
+export const defaultRetryPolicy: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  backoffBase: 500,
+  maxDelay: 10000,
+  jitter: 0.5,
+  retryOn: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * methods whose requests are never retried, since a request failing after reaching the server
+ * would create a duplicate training query
+ */
+const nonRetriedMethods: (SearchClientMethod | TrainingSearchClientMethod)[] = [
+  'createTrainingQuery'
+];
+
+/**
+ * compute the delay before the given attempt
+ * @param policy - retry policy
+ * @param attempt - number of the upcoming attempt, starting at 2 for the first retry
+ */
+export const getRetryDelay = (
+  { backoffBase, maxDelay, jitter }: Required<RetryPolicy>,
+  attempt: number
+): number => {
+  const delay = Math.min(backoffBase * Math.pow(2, attempt - 2), maxDelay);
+  const randomizedDelay = delay * Math.min(Math.max(jitter, 0), 1) * Math.random();
+  return Math.round(delay - randomizedDelay);
+};
+
+const wait = (delay: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const handleAbort = (): void => {
+      clearTimeout(timeout);
+      reject(createAbortError());
+    };
+    const timeout = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', handleAbort);
+      }
+      resolve();
+    }, delay);
+    if (signal) {
+      signal.addEventListener('abort', handleAbort);
+    }
+  });
+};
+
+/**
+ * Creates a search client that sends failed requests again, waiting longer after every attempt.
+ * Aborted requests and requests creating training queries are never retried
+ * @param searchClient - search client used to send the requests
+ * @param retryPolicy - options used to retry failed requests
+ * @param onRetry - called every time a request is about to be retried
+ */
+export const withRetry = (
+  searchClient: SearchClient,
+  retryPolicy: RetryPolicy = {},
+  onRetry?: (event: RetryEvent) => void
+): SearchClient => {
+  const policy = { ...defaultRetryPolicy, ...retryPolicy };
+  return wrapSearchClient(searchClient, (method, request) => {
+    if (nonRetriedMethods.includes(method)) {
+      return request;
+    }
+    return async params => {
+      const signal: AbortSignal | undefined = params && params.signal;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await request(params);
+        } catch (error) {
+          const searchError = toSearchError(error, params);
+          const shouldRetry =
+            attempt < policy.maxAttempts &&
+            !isAbortError(error) &&
+            !(signal && signal.aborted) &&
+            (searchError.status === undefined || policy.retryOn.includes(searchError.status));
+          if (!shouldRetry) {
+            throw error;
+          }
+          const delay = getRetryDelay(policy, attempt + 1);
+          if (onRetry) {
+            onRetry({ method, attempt: attempt + 1, delay, error: searchError });
+          }
+          await wait(delay, signal);
+        }
+      }
+    };
+  });
+};
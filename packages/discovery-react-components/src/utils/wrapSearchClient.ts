@@ -0,0 +1,49 @@
+import {
+  SearchClient,
+  SearchClientMethod,
+  TrainingSearchClientMethod
+} from 'components/DiscoverySearch/types';
+import { isTrainingSearchClient, trainingMethods } from './relevancyFeedback';
+
+/**
+ * search client methods used by the components
+ */
+export const searchClientMethods: SearchClientMethod[] = [
+  'query',
+  'getAutocompletion',
+  'listCollections',
+  'getComponentSettings',
+  'listFields'
+];
+
+/**
+ * a request sent to one of the search client methods
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SearchClientRequest = (params: any) => Promise<any>;
+
+/**
+ * Creates a search client that sends every request through a wrapper, including the training
+ * requests when the search client supports them. Any method not used by the components is
+ * inherited from the original search client
+ * @param searchClient - search client to wrap
+ * @param wrapMethod - returns the wrapped request for the given method
+ */
+export const wrapSearchClient = (
+  searchClient: SearchClient,
+  wrapMethod: (
+    method: SearchClientMethod | TrainingSearchClientMethod,
+    request: SearchClientRequest
+  ) => SearchClientRequest
+): SearchClient => {
+  const wrappedClient = Object.create(searchClient);
+  const methods = isTrainingSearchClient(searchClient)
+    ? [...searchClientMethods, ...trainingMethods]
+    : searchClientMethods;
+  methods.forEach(method => {
+    const request: SearchClientRequest = params =>
+      Promise.resolve((searchClient[method] as SearchClientRequest).call(searchClient, params));
+    wrappedClient[method] = wrapMethod(method, request);
+  });
+  return wrappedClient;
+};
@@ -0,0 +1,166 @@
+import DiscoveryV2 from 'ibm-watson/discovery/v2';
+import { findTermAggregations } from 'components/SearchFacets/utils/findTermAggregations';
+import { SearchFilterTransform } from 'components/SearchFacets/utils/searchFilterTransform';
+
+/**
+ * facet filter removed from a search returning no results
+ */
+export interface RemovedFilter {
+  /**
+   * field of the removed field facet, undefined for dynamic facets
+   */
+  field?: string;
+  values: string[];
+}
+
+/**
+ * search sent instead of a search returning no results
+ */
+export interface ZeroResultsFallback {
+  /**
+   * parameters of the search returning no results
+   */
+  originalParameters: DiscoveryV2.QueryParams;
+  /**
+   * parameters of the search sent instead
+   */
+  parameters: DiscoveryV2.QueryParams;
+  /**
+   * spelling suggestion searched instead of the natural language query, if any
+   */
+  suggestedQuery?: string;
+  /**
+   * facet filters removed from the filter of the original search, in the order they were removed
+   */
+  removedFilters: RemovedFilter[];
+}
+
+interface FilterClause {
+  clause: string;
+  filter: RemovedFilter;
+}
+
+const QUOTED_STRINGS = /"(?:[^"\\]|\\.)*"/g;
+
+const unquote = (value: string): string => value.replace(/^"(.+)"$/, '$1').replace(/\\"/g, '"');
+
+/**
+ * split a filter into its facet filters, which are combined with `,`
+ * @param filter - filter of the search
+ * @return the facet filters, or null when the filter cannot be split, ie. it contains groups
+ */
+const splitFilter = (filter: string): FilterClause[] | null => {
+  if (/[()]/.test(filter.replace(QUOTED_STRINGS, ''))) {
+    return null;
+  }
+  return filter.split(SearchFilterTransform.SPLIT_UNQUOTED_COMMAS).map(clause => {
+    // exact matches (`field::value`) are split on both colons
+    const [field, ...operands] = clause.split(SearchFilterTransform.SPLIT_UNQUOTED_COLONS);
+    const values = operands.filter(Boolean).join(':');
+    if (!operands.length) {
+      return { clause, filter: { values: [unquote(clause)] } };
+    }
+    return {
+      clause,
+      filter: {
+        field,
+        values: values.split(SearchFilterTransform.SPLIT_UNQUOTED_PIPES).map(unquote)
+      }
+    };
+  });
+};
+
+/**
+ * count the results matching a facet filter in the aggregations of the search
+ * @return the number of results, or undefined when the aggregations don't contain the values
+ */
+const countMatchingResults = (
+  { field, values }: RemovedFilter,
+  aggregations: DiscoveryV2.QueryAggregation[]
+): number | undefined => {
+  const aggregation = findTermAggregations(aggregations).find(
+    aggregation => aggregation.field === field
+  );
+  const results = ((aggregation && aggregation.results) || []).filter(({ key }) =>
+    values.includes(key)
+  );
+  return results.length
+    ? results.reduce((count, { matching_results }) => count + matching_results, 0)
+    : undefined;
+};
+
+/**
+ * find the facet filter matching the fewest results. Facet filters without a count, ie. dynamic
+ * facets, are only removed when no facet filter has a count, starting with the last one
+ */
+const findMostRestrictiveClause = (
+  clauses: FilterClause[],
+  aggregations: DiscoveryV2.QueryAggregation[]
+): FilterClause => {
+  let mostRestrictive = clauses[clauses.length - 1];
+  let fewestResults: number | undefined;
+  clauses.forEach(clause => {
+    const count = countMatchingResults(clause.filter, aggregations);
+    if (count !== undefined && (fewestResults === undefined || count <= fewestResults)) {
+      mostRestrictive = clause;
+      fewestResults = count;
+    }
+  });
+  return mostRestrictive;
+};
+
+/**
+ * get the search to send instead of a search returning no results. The spelling suggestion of the
+ * response is searched first, then the facet filters are removed one at a time, starting with the
+ * one matching the fewest results
+ * @param parameters - parameters of the search returning no results
+ * @param response - response of the search
+ * @param aggregations - aggregations of the search without its filter, used to count the results
+ * matching each facet filter
+ * @param fallback - fallback of the search, if it is already a fallback search
+ * @return the next fallback, or null when there is nothing left to change
+ */
+export const getZeroResultsFallback = (
+  parameters: DiscoveryV2.QueryParams,
+  response: DiscoveryV2.QueryResponse,
+  aggregations: DiscoveryV2.QueryAggregation[] | null,
+  fallback: ZeroResultsFallback | null
+): ZeroResultsFallback | null => {
+  const current: ZeroResultsFallback = fallback || {
+    originalParameters: parameters,
+    parameters,
+    removedFilters: []
+  };
+  const { naturalLanguageQuery, filter } = parameters;
+  const suggestedQuery = response.suggested_query;
+  if (
+    !current.suggestedQuery &&
+    naturalLanguageQuery &&
+    suggestedQuery &&
+    suggestedQuery !== naturalLanguageQuery
+  ) {
+    return {
+      ...current,
+      parameters: { ...parameters, naturalLanguageQuery: suggestedQuery, offset: 0 },
+      suggestedQuery
+    };
+  }
+
+  const clauses = filter ? splitFilter(filter) : null;
+  if (!clauses) {
+    return null;
+  }
+  const removed = findMostRestrictiveClause(clauses, aggregations || []);
+  return {
+    ...current,
+    parameters: {
+      ...parameters,
+      filter: clauses
+        .filter(clause => clause !== removed)
+        .map(({ clause }) => clause)
+        .join(','),
+      offset: 0
+    },
+    removedFilters: [...current.removedFilters, removed.filter]
+  };
+};